@@ -29,4 +29,11 @@ await build({
   banner: { js: '#!/usr/bin/env node' },
 });
 
+// Parse worker, loaded by the indexer from next to index.js
+await build({
+  ...commonOptions,
+  entryPoints: ['src/indexing/parse-worker.ts'],
+  outfile: 'dist/parse-worker.js',
+});
+
 console.log('Build complete!');
@@ -2,6 +2,11 @@ import { ProjectManager, type ProjectInfo } from '../core/project-manager.js';
 import { ADRExporter } from '../core/adr-exporter.js';
 import { initializeDatabase } from '../storage/database.js';
 import { Tier2Storage } from '../storage/tier2.js';
+import { KnowledgeBundleManager, type KnowledgeBundle, type PathMapping } from '../core/knowledge-bundle.js';
+import { IndexDoctor, type DoctorReport } from '../core/doctor.js';
+import { embeddingModelId } from '../indexing/embedding-providers.js';
+import { getDefaultConfig } from '../utils/config.js';
+import { findRunningServer } from '../utils/server-pid.js';
 import { join, resolve } from 'path';
 import { existsSync, readFileSync, writeFileSync, mkdirSync } from 'fs';
 import { homedir } from 'os';
@@ -132,13 +137,13 @@ export function discoverProjects(): CommandResult {
   };
 }
 
-// Export decisions to ADR
-export function exportDecisions(
+// Resolve a project (explicit path or the active one) and its database file
+function resolveProjectDatabase(
   projectPath?: string,
-  options: { outputDir?: string; format?: 'madr' | 'nygard' | 'simple' } = {}
-): CommandResult {
+  options: { create?: boolean } = {}
+): { projectInfo: ProjectInfo; targetPath: string; dbPath: string } | CommandResult {
   // Determine project path
-  let targetPath = projectPath;
+  let targetPath = projectPath ? resolve(projectPath) : undefined;
   if (!targetPath) {
     const activeProject = projectManager.getActiveProject();
     if (!activeProject) {
@@ -151,7 +156,10 @@ export function exportDecisions(
   }
 
   // Get project info
-  const projectInfo = projectManager.getProjectByPath(targetPath);
+  let projectInfo = projectManager.getProjectByPath(targetPath);
+  if (!projectInfo && options.create && existsSync(targetPath)) {
+    projectInfo = projectManager.registerProject(targetPath);
+  }
   if (!projectInfo) {
     return {
       success: false,
@@ -159,14 +167,14 @@ export function exportDecisions(
     };
   }
 
-  // Open database and get decisions (check both new and old names)
+  // Check both new and old database names
   let dbPath = join(projectInfo.dataDir, 'neuronlayer.db');
   if (!existsSync(dbPath)) {
     // Fall back to old name for backwards compatibility
     const oldDbPath = join(projectInfo.dataDir, 'memorylayer.db');
     if (existsSync(oldDbPath)) {
       dbPath = oldDbPath;
-    } else {
+    } else if (!options.create) {
       return {
         success: false,
         message: `Project database not found. Has the project been indexed?`
@@ -174,6 +182,20 @@ export function exportDecisions(
     }
   }
 
+  return { projectInfo, targetPath, dbPath };
+}
+
+// Export decisions to ADR
+export function exportDecisions(
+  projectPath?: string,
+  options: { outputDir?: string; format?: 'madr' | 'nygard' | 'simple' } = {}
+): CommandResult {
+  const resolved = resolveProjectDatabase(projectPath);
+  if ('success' in resolved) {
+    return resolved;
+  }
+  const { targetPath, dbPath } = resolved;
+
   const db = initializeDatabase(dbPath);
   const tier2 = new Tier2Storage(db);
   const decisions = tier2.getAllDecisions();
@@ -201,6 +223,194 @@ export function exportDecisions(
   };
 }
 
+// Export the project's non-derivable knowledge to a portable bundle
+export function exportBundle(
+  projectPath?: string,
+  options: { output?: string } = {}
+): CommandResult {
+  const resolved = resolveProjectDatabase(projectPath);
+  if ('success' in resolved) {
+    return resolved;
+  }
+  const { projectInfo, targetPath, dbPath } = resolved;
+
+  const date = new Date().toISOString().slice(0, 10);
+  const output = resolve(options.output || `${projectInfo.name}-${date}.nlbundle`);
+
+  const db = initializeDatabase(dbPath);
+  try {
+    const manager = new KnowledgeBundleManager(db, targetPath, projectInfo.dataDir);
+    const { counts } = manager.exportToFile(output);
+
+    const lines = [`Exported knowledge bundle to ${output}`, ''];
+    for (const [table, count] of Object.entries(counts)) {
+      lines.push(`  ${table.padEnd(18)} ${count}`);
+    }
+
+    return {
+      success: true,
+      message: lines.join('\n'),
+      data: { path: output, counts }
+    };
+  } finally {
+    db.close();
+  }
+}
+
+// Merge a knowledge bundle into a project's database
+export function importBundle(
+  bundlePath: string,
+  projectPath?: string,
+  options: { mappings?: PathMapping[]; preferBundle?: boolean } = {}
+): CommandResult {
+  let bundle: KnowledgeBundle;
+  try {
+    bundle = KnowledgeBundleManager.readBundle(resolve(bundlePath));
+  } catch (error) {
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : String(error)
+    };
+  }
+
+  const resolved = resolveProjectDatabase(projectPath, { create: true });
+  if ('success' in resolved) {
+    return resolved;
+  }
+  const { projectInfo, targetPath, dbPath } = resolved;
+
+  // A running server rewrites feature-context.json from memory on its next save
+  const serverPid = findRunningServer(projectInfo.dataDir);
+  if (serverPid !== null) {
+    return {
+      success: false,
+      message: `A NeuronLayer server (pid ${serverPid}) has ${targetPath} open. ` +
+        'Stop it before importing, or it overwrites the imported feature contexts.'
+    };
+  }
+
+  mkdirSync(projectInfo.dataDir, { recursive: true });
+  const db = initializeDatabase(dbPath);
+  try {
+    const manager = new KnowledgeBundleManager(db, targetPath, projectInfo.dataDir);
+    const report = manager.importBundle(bundle, {
+      pathMappings: options.mappings,
+      preferBundle: options.preferBundle
+    });
+
+    const lines = [
+      `Imported bundle from ${bundle.source.projectPath} (created ${bundle.createdAt})`,
+      `into ${targetPath}`,
+      '',
+      `  ${'table'.padEnd(18)} added  merged  same  conflicts  replaced  skipped`
+    ];
+    for (const [table, r] of Object.entries(report.tables)) {
+      lines.push(
+        `  ${table.padEnd(18)} ${String(r.added).padStart(5)}  ${String(r.merged).padStart(6)}  ` +
+        `${String(r.unchanged).padStart(4)}  ${String(r.conflicts).padStart(9)}  ` +
+        `${String(r.replaced).padStart(8)}  ${String(r.skipped).padStart(7)}`
+      );
+    }
+    lines.push(`  ${'feature contexts'.padEnd(18)} ${String(report.featureContexts).padStart(5)}`);
+
+    if (report.conflictDetails.length > 0) {
+      lines.push('', 'Conflicts (use --prefer-bundle to take the bundle version):');
+      for (const detail of report.conflictDetails.slice(0, 20)) {
+        lines.push(`  - ${detail}`);
+      }
+      if (report.conflictDetails.length > 20) {
+        lines.push(`  ... and ${report.conflictDetails.length - 20} more`);
+      }
+    }
+
+    const skippedFiles = report.tables.file_access?.skipped || 0;
+    if (skippedFiles > 0) {
+      lines.push('', `${skippedFiles} file access stats were skipped because the files are not indexed yet.`);
+    }
+
+    return {
+      success: true,
+      message: lines.join('\n'),
+      data: report
+    };
+  } finally {
+    db.close();
+  }
+}
+
+// Check a project's index against its working tree, optionally repairing it
+export function runDoctor(
+  projectPath?: string,
+  options: { fix?: boolean } = {}
+): CommandResult {
+  // The same data directory the MCP server uses for this project
+  const config = getDefaultConfig(projectPath || process.cwd());
+  let dbPath = join(config.dataDir, 'neuronlayer.db');
+  if (!existsSync(dbPath) && existsSync(join(config.dataDir, 'memorylayer.db'))) {
+    dbPath = join(config.dataDir, 'memorylayer.db');
+  }
+  if (!existsSync(dbPath)) {
+    return {
+      success: false,
+      message: `No index found in ${config.dataDir}. Has the project been indexed?`
+    };
+  }
+
+  let report: DoctorReport;
+  const db = initializeDatabase(dbPath);
+  try {
+    const tier2 = new Tier2Storage(db, { vectorIndexDir: join(config.dataDir, 'ann') });
+    const doctor = new IndexDoctor(db, tier2, {
+      projectPath: config.projectPath,
+      dataDir: config.dataDir,
+      embeddingModel: embeddingModelId(config)
+    });
+    report = doctor.run({ fix: options.fix });
+  } finally {
+    db.close();
+  }
+
+  const { stats } = report;
+  const lines = [
+    `Index of ${config.projectPath}`,
+    `  ${stats.files} files, ${stats.chunks} chunks, ${(stats.databaseBytes / 1024 / 1024).toFixed(1)} MB, model ${stats.embeddingModel}`,
+    stats.search.annActive && stats.search.recall !== null
+      ? `  Search: ANN index, ${Math.round(stats.search.recall * 100)}% recall over ${stats.search.samples} sample queries`
+      : '  Search: exact scan',
+    ''
+  ];
+
+  if (report.issues.length === 0) {
+    lines.push('No problems found.');
+  }
+  for (const issue of report.issues) {
+    lines.push(`  [${issue.severity}] ${issue.check}: ${issue.message}`);
+    for (const example of issue.examples) {
+      lines.push(`      ${example}`);
+    }
+  }
+
+  if (report.fixes.length > 0) {
+    lines.push('', 'Repairs:');
+    for (const fix of report.fixes) {
+      lines.push(`  ${fix.check}: ${fix.message}`);
+    }
+    if (report.reindex.length > 0) {
+      lines.push('', `${report.reindex.length} file(s) are re-indexed the next time the server starts.`);
+    }
+  } else if (report.issues.some(i => i.repair)) {
+    lines.push('', 'Run "neuronlayer doctor --fix" to repair.');
+  }
+
+  // Repaired counts as success; integrity failures can't be repaired from here
+  const repaired = options.fix === true && report.issues.every(i => i.repair !== null);
+  return {
+    success: report.healthy || repaired,
+    message: lines.join('\n'),
+    data: report
+  };
+}
+
 // Show project info
 export function showProject(projectId?: string): CommandResult {
   let project: ProjectInfo | null;
@@ -509,13 +719,21 @@ COMMANDS:
   projects show [id]        Show project details
   projects discover         Discover projects in common locations
   export [options]          Export decisions to ADR files
+  bundle export [options]   Export decisions, patterns and learning data to a bundle
+  bundle import <file>      Merge a bundle into the project's memory (stop its server first)
+  doctor [path] [--fix]     Check the index for problems and repair them
   help                      Show this help message
 
 OPTIONS:
   --project, -p <path>      Path to the project directory
   --port <number>           Port for HTTP server (default: 3333)
+  --index-concurrency <n>   Parse workers for indexing (default: CPU cores - 1, max 4; 0 = none)
   --output, -o <dir>        Output directory for exports
   --format <type>           ADR format: madr, nygard, simple
+  --map <old>=<new>         Rewrite path prefixes on bundle import (repeatable)
+  --prefer-bundle           On import, replace local entries that differ
+  --fix                     With doctor: delete stale rows, re-index bad vectors, vacuum
+  --json                    With doctor: print the report as JSON
 
 EXAMPLES:
   # Quick setup (auto-configures Claude Desktop)
@@ -537,6 +755,14 @@ EXAMPLES:
   # Export decisions to ADR files
   neuronlayer export --format madr
 
+  # Move project memory to another machine or checkout
+  neuronlayer bundle export -o team.nlbundle
+  neuronlayer bundle import team.nlbundle --project /path/to/checkout --map src/old=src/new
+
+  # Check the index, then repair it
+  neuronlayer doctor
+  neuronlayer doctor --fix
+
   # Discover projects
   neuronlayer projects discover
 
@@ -650,6 +876,90 @@ export function executeCLI(args: string[]): void {
       break;
     }
 
+    case 'bundle': {
+      let output: string | undefined;
+      let project: string | undefined;
+      let preferBundle = false;
+      const mappings: PathMapping[] = [];
+      const positional: string[] = [];
+
+      for (let i = 2; i < args.length; i++) {
+        const arg = args[i]!;
+        const nextArg = args[i + 1];
+        if ((arg === '--output' || arg === '-o') && nextArg) {
+          output = nextArg;
+          i++;
+        } else if ((arg === '--project' || arg === '-p') && nextArg) {
+          project = nextArg;
+          i++;
+        } else if (arg === '--map' && nextArg) {
+          const separator = nextArg.indexOf('=');
+          if (separator <= 0) {
+            console.error(`Error: Invalid --map "${nextArg}". Expected <old>=<new>.`);
+            process.exit(1);
+          }
+          mappings.push({ from: nextArg.slice(0, separator), to: nextArg.slice(separator + 1) });
+          i++;
+        } else if (arg === '--prefer-bundle') {
+          preferBundle = true;
+        } else {
+          positional.push(arg);
+        }
+      }
+
+      switch (subcommand) {
+        case 'export': {
+          const result = exportBundle(project, { output });
+          console.log(result.message);
+          if (!result.success) process.exit(1);
+          break;
+        }
+        case 'import': {
+          const file = positional[0];
+          if (!file) {
+            console.error('Error: Bundle file required.');
+            console.error('Usage: neuronlayer bundle import <file> [--project <path>] [--map <old>=<new>] [--prefer-bundle]');
+            process.exit(1);
+          }
+          const result = importBundle(file, project, { mappings, preferBundle });
+          console.log(result.message);
+          if (!result.success) process.exit(1);
+          break;
+        }
+        default:
+          console.error(`Unknown subcommand: ${subcommand}`);
+          console.error('Available: export, import');
+          process.exit(1);
+      }
+      break;
+    }
+
+    case 'doctor': {
+      let project: string | undefined;
+      let fix = false;
+      let json = false;
+
+      for (let i = 1; i < args.length; i++) {
+        const arg = args[i]!;
+        const nextArg = args[i + 1];
+        if ((arg === '--project' || arg === '-p') && nextArg) {
+          project = nextArg;
+          i++;
+        } else if (arg === '--fix') {
+          fix = true;
+        } else if (arg === '--json') {
+          json = true;
+        } else if (!arg.startsWith('-')) {
+          project = arg;
+        }
+      }
+
+      const result = runDoctor(project, { fix });
+      console.log(json && result.data ? JSON.stringify(result.data, null, 2) : result.message);
+      if (!result.success) process.exit(1);
+      break;
+    }
+
     default:
       // If no command matches, it might be the default MCP server mode
       // Return without handling - let main() handle it
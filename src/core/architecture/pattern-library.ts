@@ -1,18 +1,14 @@
 import { randomUUID } from 'crypto';
 import type Database from 'better-sqlite3';
 import type { Pattern, PatternCategory, CodeExample, PatternRule } from '../../types/documentation.js';
+import { runMigrations, type Migration } from '../../storage/migrations.js';
 
-export class PatternLibrary {
-  private db: Database.Database;
-
-  constructor(db: Database.Database) {
-    this.db = db;
-    this.ensureTable();
-    this.seedDefaultPatterns();
-  }
-
-  private ensureTable(): void {
-    this.db.exec(`
+// Append new steps; never edit a released one.
+export const PATTERN_MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Pattern library',
+    up: (db) => db.exec(`
       CREATE TABLE IF NOT EXISTS patterns (
         id TEXT PRIMARY KEY,
         name TEXT NOT NULL,
@@ -26,7 +22,17 @@ export class PatternLibrary {
       );
       CREATE INDEX IF NOT EXISTS idx_patterns_category ON patterns(category);
       CREATE INDEX IF NOT EXISTS idx_patterns_name ON patterns(name);
-    `);
+    `)
+  }
+];
+
+export class PatternLibrary {
+  private db: Database.Database;
+
+  constructor(db: Database.Database) {
+    this.db = db;
+    runMigrations(this.db, 'patterns', PATTERN_MIGRATIONS);
+    this.seedDefaultPatterns();
   }
 
   private seedDefaultPatterns(): void {
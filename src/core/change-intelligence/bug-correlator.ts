@@ -4,6 +4,7 @@ import type { Tier2Storage } from '../../storage/tier2.js';
 import type { EmbeddingGenerator } from '../../indexing/embeddings.js';
 import type { Change, Bug, PastBug, Diagnosis } from '../../types/documentation.js';
 import type { ChangeTracker } from './change-tracker.js';
+import { runMigrations, type Migration } from '../../storage/migrations.js';
 
 // Common error patterns and their likely causes
 const ERROR_PATTERNS = [
@@ -59,27 +60,12 @@ const ERROR_PATTERNS = [
   }
 ];
 
-export class BugCorrelator {
-  private db: Database.Database;
-  private changeTracker: ChangeTracker;
-  private tier2: Tier2Storage;
-  private embeddingGenerator: EmbeddingGenerator;
-
-  constructor(
-    db: Database.Database,
-    changeTracker: ChangeTracker,
-    tier2: Tier2Storage,
-    embeddingGenerator: EmbeddingGenerator
-  ) {
-    this.db = db;
-    this.changeTracker = changeTracker;
-    this.tier2 = tier2;
-    this.embeddingGenerator = embeddingGenerator;
-    this.ensureTable();
-  }
-
-  private ensureTable(): void {
-    this.db.exec(`
+// Append new steps; never edit a released one.
+export const BUG_MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Bug history with full-text search',
+    up: (db) => db.exec(`
       CREATE TABLE IF NOT EXISTS bug_history (
         id TEXT PRIMARY KEY,
         error TEXT NOT NULL,
@@ -104,7 +90,27 @@ export class BugCorrelator {
         content='bug_history',
         content_rowid='rowid'
       );
-    `);
+    `)
+  }
+];
+
+export class BugCorrelator {
+  private db: Database.Database;
+  private changeTracker: ChangeTracker;
+  private tier2: Tier2Storage;
+  private embeddingGenerator: EmbeddingGenerator;
+
+  constructor(
+    db: Database.Database,
+    changeTracker: ChangeTracker,
+    tier2: Tier2Storage,
+    embeddingGenerator: EmbeddingGenerator
+  ) {
+    this.db = db;
+    this.changeTracker = changeTracker;
+    this.tier2 = tier2;
+    this.embeddingGenerator = embeddingGenerator;
+    runMigrations(this.db, 'bug_history', BUG_MIGRATIONS);
   }
 
   // Record a bug
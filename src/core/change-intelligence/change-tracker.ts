@@ -2,19 +2,14 @@ import { execSync } from 'child_process';
 import { randomUUID } from 'crypto';
 import type Database from 'better-sqlite3';
 import type { Change, ChangeQueryResult, ChangeQueryOptions } from '../../types/documentation.js';
-
-export class ChangeTracker {
-  private projectPath: string;
-  private db: Database.Database;
-
-  constructor(projectPath: string, db: Database.Database) {
-    this.projectPath = projectPath;
-    this.db = db;
-    this.ensureTable();
-  }
-
-  private ensureTable(): void {
-    this.db.exec(`
+import { runMigrations, type Migration } from '../../storage/migrations.js';
+
+// Append new steps; never edit a released one.
+const CHANGE_MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Change history',
+    up: (db) => db.exec(`
       CREATE TABLE IF NOT EXISTS change_history (
         id TEXT PRIMARY KEY,
         file TEXT NOT NULL,
@@ -30,7 +25,18 @@ export class ChangeTracker {
       CREATE INDEX IF NOT EXISTS idx_change_timestamp ON change_history(timestamp);
       CREATE INDEX IF NOT EXISTS idx_change_file ON change_history(file);
       CREATE INDEX IF NOT EXISTS idx_change_commit ON change_history(commit_hash);
-    `);
+    `)
+  }
+];
+
+export class ChangeTracker {
+  private projectPath: string;
+  private db: Database.Database;
+
+  constructor(projectPath: string, db: Database.Database) {
+    this.projectPath = projectPath;
+    this.db = db;
+    runMigrations(this.db, 'change_history', CHANGE_MIGRATIONS);
   }
 
   // Sync changes from git history
@@ -5,6 +5,8 @@
  * - Import verification: Do imports exist? Is the API being used correctly?
  * - Security scan: Common vulnerability patterns
  * - Dependency check: Is package in package.json? Is version compatible?
+ * - Route check: Do the API endpoints it calls exist in the project?
+ * - Env check: Are the environment variables it reads declared anywhere?
  * - Pattern compliance: Does code follow project patterns?
  * - Decision conflicts: Does code conflict with past decisions?
  *
@@ -14,6 +16,9 @@
 import { existsSync, readFileSync } from 'fs';
 import { join, dirname, extname } from 'path';
 import type { PatternValidationResult, ConflictResult } from '../types/documentation.js';
+import type { ApiRoute, EnvVariable, HttpMethod } from '../types/index.js';
+import { findRouteCalls, matchRoute, similarRoutes, type RouteLanguage } from '../indexing/routes.js';
+import { findEnvReads, isBuiltinEnvVar, similarEnvVars } from '../indexing/env-vars.js';
 
 // ============================================================================
 // Types
@@ -82,19 +87,50 @@ export interface DependencyIssue {
   suggestion?: string;
 }
 
+export interface RouteVerification {
+  valid: boolean;
+  checked: number; // Requests compared against the route inventory
+  issues: RouteIssue[];
+}
+
+export interface RouteIssue {
+  method: HttpMethod;
+  path: string;
+  line: number;
+  type: 'unknown_route' | 'method_not_allowed';
+  message: string;
+  suggestion?: string;
+}
+
+export interface EnvVerification {
+  valid: boolean;
+  checked: number; // Variables read by the code
+  issues: EnvIssue[];
+}
+
+export interface EnvIssue {
+  name: string;
+  line: number;
+  type: 'undeclared_env_var';
+  message: string;
+  suggestion?: string;
+}
+
 export interface VerificationResult {
   verdict: 'pass' | 'warning' | 'fail';
   score: number; // 0-100, higher is better
   imports?: ImportVerification;
   security?: SecurityScanResult;
   dependencies?: DependencyCheckResult;
+  routes?: RouteVerification;
+  env?: EnvVerification;
   patterns?: PatternValidationResult;
   conflicts?: ConflictResult;
   summary: string;
   suggestions: string[];
 }
 
-export type VerificationCheck = 'imports' | 'security' | 'dependencies' | 'patterns' | 'all';
+export type VerificationCheck = 'imports' | 'security' | 'dependencies' | 'routes' | 'env' | 'patterns' | 'all';
 
 // ============================================================================
 // Security Patterns (OWASP Top 10 focused)
@@ -315,6 +351,11 @@ const IMPORT_PATTERNS = {
   require: /(?:const|let|var)\s+(?:\{[^}]+\}|\w+)\s*=\s*require\s*\(\s*['"]([^'"]+)['"]\s*\)/g,
 };
 
+// Languages whose environment reads are recognized; anything else is scanned for all of them
+const ENV_LANGUAGES: Record<string, RouteLanguage> = {
+  typescript: 'js', tsx: 'js', javascript: 'js', jsx: 'js', python: 'python', go: 'go',
+};
+
 // ============================================================================
 // Code Verifier Class
 // ============================================================================
@@ -323,9 +364,17 @@ export class CodeVerifier {
   private projectPath: string;
   private packageJson: Record<string, unknown> | null = null;
   private nodeModulesPath: string;
-
-  constructor(projectPath: string) {
+  private getRoutes: () => ApiRoute[];
+  private getEnvVars: () => EnvVariable[];
+
+  constructor(
+    projectPath: string,
+    getRoutes: () => ApiRoute[] = () => [],
+    getEnvVars: () => EnvVariable[] = () => []
+  ) {
     this.projectPath = projectPath;
+    this.getRoutes = getRoutes;
+    this.getEnvVars = getEnvVars;
     this.nodeModulesPath = join(projectPath, 'node_modules');
     this.loadPackageJson();
   }
@@ -386,6 +435,24 @@ export class CodeVerifier {
       }
     }
 
+    if (runAll || checks.includes('routes')) {
+      const routes = this.verifyRoutes(code);
+      if (routes) {
+        results.routes = routes;
+        totalScore -= routes.issues.length * 10;
+        suggestions.push(...routes.issues.map(r => r.suggestion || r.message));
+      }
+    }
+
+    if (runAll || checks.includes('env')) {
+      const env = this.verifyEnvVars(code, language);
+      if (env) {
+        results.env = env;
+        totalScore -= env.issues.length * 5;
+        suggestions.push(...env.issues.map(e => e.suggestion || e.message));
+      }
+    }
+
     // Calculate verdict
     const verdict = this.calculateVerdict(totalScore, results);
 
@@ -431,6 +498,81 @@ export class CodeVerifier {
     };
   }
 
+  /**
+   * Check the API requests in code against the project's route inventory.
+   * Undefined when the project defines no routes: there is nothing to check against.
+   */
+  verifyRoutes(code: string): RouteVerification | undefined {
+    const routes = this.getRoutes();
+    if (routes.length === 0) return undefined;
+
+    const calls = findRouteCalls(code);
+    const issues: RouteIssue[] = [];
+    for (const call of calls) {
+      const match = matchRoute(routes, call.method, call.path, call.relative);
+      if (match.route) continue;
+
+      if (match.pathMatches.length > 0) {
+        const allowed = [...new Set(match.pathMatches.map(r => r.method))].join(', ');
+        issues.push({
+          method: call.method,
+          path: call.path,
+          line: call.line,
+          type: 'method_not_allowed',
+          message: `${call.path} is served, but not for ${call.method} (only ${allowed})`,
+          suggestion: `Use ${allowed} ${match.pathMatches[0]!.path} (${match.pathMatches[0]!.file}:${match.pathMatches[0]!.line})`,
+        });
+        continue;
+      }
+
+      const similar = similarRoutes(routes, call.path);
+      issues.push({
+        method: call.method,
+        path: call.path,
+        line: call.line,
+        type: 'unknown_route',
+        message: `No route in the project serves ${call.method} ${call.path}`,
+        suggestion: similar.length > 0
+          ? `Did you mean ${similar.map(r => `${r.method} ${r.path}`).join(' or ')}?`
+          : 'Define the route first, or check the path against the route inventory',
+      });
+    }
+
+    return { valid: issues.length === 0, checked: calls.length, issues };
+  }
+
+  /**
+   * Check the environment variables code reads against those the project
+   * declares (.env templates, config schemas) or already reads elsewhere.
+   * Undefined when the project mentions no variables: there is nothing to check against.
+   */
+  verifyEnvVars(code: string, language?: string): EnvVerification | undefined {
+    const variables = this.getEnvVars();
+    if (variables.length === 0) return undefined;
+
+    const known = new Set(variables.map(v => v.name));
+    const reads = findEnvReads(code, ENV_LANGUAGES[language ?? ''] ?? null);
+    const issues: EnvIssue[] = [];
+    const reported = new Set<string>();
+    for (const read of reads) {
+      if (known.has(read.name) || isBuiltinEnvVar(read.name) || reported.has(read.name)) continue;
+      reported.add(read.name);
+
+      const similar = similarEnvVars(variables, read.name);
+      issues.push({
+        name: read.name,
+        line: read.line,
+        type: 'undeclared_env_var',
+        message: `No .env template or config schema declares ${read.name}, and nothing else in the project reads it`,
+        suggestion: similar.length > 0
+          ? `Did you mean ${similar.join(' or ')}?`
+          : `Declare ${read.name} in .env.example or the config schema`,
+      });
+    }
+
+    return { valid: issues.length === 0, checked: new Set(reads.map(r => r.name)).size, issues };
+  }
+
   /**
    * Scan code for security vulnerabilities
    */
@@ -792,6 +934,22 @@ export class CodeVerifier {
       }
     }
 
+    if (results.routes) {
+      if (results.routes.valid) {
+        parts.push('Routes: OK');
+      } else {
+        parts.push(`Routes: ${results.routes.issues.length} issues`);
+      }
+    }
+
+    if (results.env) {
+      if (results.env.valid) {
+        parts.push('Env: OK');
+      } else {
+        parts.push(`Env: ${results.env.issues.length} undeclared`);
+      }
+    }
+
     return `[${verdict.toUpperCase()}] ${parts.join(' | ')}`;
   }
 }
@@ -4,6 +4,11 @@ import { Tier2Storage } from '../storage/tier2.js';
 import { EmbeddingGenerator } from '../indexing/embeddings.js';
 import type { Decision } from '../types/index.js';
 
+// Text embedded for a decision - shared with background re-embedding
+export function decisionEmbeddingText(decision: Pick<Decision, 'title' | 'description' | 'tags'>): string {
+  return `${decision.title}\n${decision.description}\n${decision.tags.join(' ')}`;
+}
+
 export class DecisionTracker {
   private tier1: Tier1Storage;
   private tier2: Tier2Storage;
@@ -38,8 +43,7 @@ export class DecisionTracker {
     this.tier1.addDecision(decision);
 
     // Generate embedding for semantic search
-    const textToEmbed = `${title}\n${description}\n${tags.join(' ')}`;
-    const embedding = await this.embeddingGenerator.embed(textToEmbed);
+    const embedding = await this.embeddingGenerator.embed(decisionEmbeddingText(decision));
 
     // Store in Tier 2 for persistence
     this.tier2.upsertDecision(decision, embedding);
@@ -0,0 +1,551 @@
+/**
+ * Index Doctor - Check the database against the working tree and repair it
+ *
+ * Each check reports what it found, with a count and a few examples:
+ * - integrity:     SQLite's own consistency check
+ * - missing_files: indexed files that are gone from disk
+ * - orphaned_rows: symbols, chunks, summaries, ... whose file row is gone -
+ *   full-text rows have no foreign key, and older tools wrote with them off
+ * - dangling_dependencies: import, call and reference edges pointing at deleted files
+ * - invalid_vectors: empty, truncated or all-zero embeddings
+ * - model_mismatch: vectors from a model other than the configured one, or
+ *   of mixed dimensions
+ * - state_files:   tier1.json / feature-context.json that don't parse
+ * - search_recall: ANN search that misses too much of what an exact scan
+ *   finds, with stored chunks as sample queries
+ * - free_space:    pages left behind by deletes
+ *
+ * With fix, each problem gets its repair: delete what points nowhere, clear
+ * the hash of files whose vectors are bad so the next index run re-embeds
+ * them, set unreadable state files aside, rebuild the ANN graph, and VACUUM
+ * at the end.
+ */
+
+import { existsSync, renameSync, readFileSync } from 'fs';
+import { join } from 'path';
+import type Database from 'better-sqlite3';
+import type { Tier2Storage } from '../storage/tier2.js';
+
+export type DoctorCheck =
+  | 'integrity'
+  | 'missing_files'
+  | 'orphaned_rows'
+  | 'dangling_dependencies'
+  | 'invalid_vectors'
+  | 'model_mismatch'
+  | 'state_files'
+  | 'search_recall'
+  | 'free_space';
+
+export type DoctorRepair = 'delete' | 'reindex' | 'reset' | 'rebuild' | 'vacuum';
+
+export interface DoctorIssue {
+  check: DoctorCheck;
+  severity: 'error' | 'warning' | 'info';
+  count: number;
+  message: string;
+  examples: string[];
+  repair: DoctorRepair | null;   // null: nothing --fix can do
+}
+
+export interface DoctorFix {
+  check: DoctorCheck;
+  repair: DoctorRepair;
+  count: number;
+  message: string;
+}
+
+export interface DoctorReport {
+  healthy: boolean;
+  stats: {
+    files: number;
+    chunks: number;
+    embeddingModel: string;
+    databaseBytes: number;
+    // Whether searches go through the ANN graph, and how much of the exact top-k it finds
+    search: { annActive: boolean; recall: number | null; samples: number };
+  };
+  issues: DoctorIssue[];
+  fixes: DoctorFix[];
+  // Files whose hash was cleared; re-indexed on the next run (or right away by a live engine)
+  reindex: string[];
+}
+
+export interface DoctorOptions {
+  projectPath: string;
+  dataDir: string;
+  embeddingModel: string;
+}
+
+// Tables whose rows belong to a file
+const FILE_TABLES = [
+  'chunks', 'symbols', 'imports', 'exports', 'calls', 'symbol_references',
+  'type_relations', 'method_sets', 'schema_operations', 'table_references', 'api_routes', 'route_mounts',
+  'env_variables', 'components', 'file_summaries', 'file_access', 'documentation'
+];
+
+// Tables of use sites resolved to a definition in another file (target_file_id)
+const RESOLVED_TABLES = ['calls', 'symbol_references', 'type_relations'];
+
+const STATE_FILES = ['tier1.json', 'feature-context.json'];
+
+// Free pages worth a VACUUM
+const FREE_SPACE_RATIO = 0.2;
+
+// Below this share of the exact top-k, the ANN graph is worth rebuilding
+const MIN_SEARCH_RECALL = 0.9;
+
+const EXAMPLE_LIMIT = 5;
+
+export class IndexDoctor {
+  private db: Database.Database;
+  private tier2: Tier2Storage;
+  private options: DoctorOptions;
+
+  constructor(db: Database.Database, tier2: Tier2Storage, options: DoctorOptions) {
+    this.db = db;
+    this.tier2 = tier2;
+    this.options = options;
+  }
+
+  run(options: { fix?: boolean } = {}): DoctorReport {
+    const fix = options.fix ?? false;
+    const issues: DoctorIssue[] = [];
+    const fixes: DoctorFix[] = [];
+    const reindex = new Set<string>();
+
+    const integrity = this.checkIntegrity();
+    if (integrity) issues.push(integrity);
+
+    // A damaged database makes every other answer suspect; repairs could make it worse
+    const repairable = fix && !integrity;
+
+    // Measured before any repair drops the graph
+    const search = this.tier2.checkSearchRecall();
+
+    // Order matters when fixing: deleting missing files leaves rows the orphan check then finds
+    const checks: Array<() => { issue: DoctorIssue | null; repair?: () => DoctorFix }> = [
+      () => this.checkMissingFiles(),
+      () => this.checkOrphanedRows(),
+      () => this.checkDanglingDependencies(),
+      () => this.checkInvalidVectors(reindex),
+      () => this.checkModelMismatch(reindex),
+      () => this.checkStateFiles(),
+      () => this.checkSearchRecall(search)
+    ];
+
+    for (const check of checks) {
+      const { issue, repair } = check();
+      if (!issue) continue;
+      issues.push(issue);
+      if (repairable && repair) {
+        fixes.push(repair());
+      }
+    }
+
+    if (fixes.some(f => f.repair === 'delete' || f.repair === 'reindex')) {
+      // The ANN graph is a cache of the vector tables; rebuild it from them
+      this.tier2.invalidateVectorIndexes();
+    }
+
+    const freeSpace = this.checkFreeSpace();
+    if (freeSpace) issues.push(freeSpace);
+    if (repairable && (freeSpace || fixes.length > 0)) {
+      fixes.push(this.vacuum());
+    }
+
+    return {
+      healthy: issues.every(i => i.severity === 'info'),
+      stats: {
+        files: this.count('SELECT COUNT(*) as count FROM files'),
+        chunks: this.count('SELECT COUNT(*) as count FROM chunks'),
+        embeddingModel: this.options.embeddingModel,
+        databaseBytes: this.databaseBytes(),
+        search: {
+          annActive: search.annActive,
+          recall: search.samples > 0 ? search.recall : null,
+          samples: search.samples
+        }
+      },
+      issues,
+      fixes,
+      reindex: repairable ? [...reindex] : []
+    };
+  }
+
+  private checkIntegrity(): DoctorIssue | null {
+    const rows = this.db.prepare('PRAGMA quick_check').all() as Array<{ quick_check: string }>;
+    const problems = rows.map(r => r.quick_check).filter(r => r !== 'ok');
+    if (problems.length === 0) return null;
+
+    return {
+      check: 'integrity',
+      severity: 'error',
+      count: problems.length,
+      message: 'The database failed SQLite\'s consistency check. Delete it to rebuild the index from scratch (decisions and learned data would be lost - export a bundle first).',
+      examples: problems.slice(0, EXAMPLE_LIMIT),
+      repair: null
+    };
+  }
+
+  private checkMissingFiles(): { issue: DoctorIssue | null; repair?: () => DoctorFix } {
+    const paths = (this.db.prepare('SELECT path FROM files').all() as Array<{ path: string }>)
+      .map(r => r.path)
+      .filter(path => !existsSync(join(this.options.projectPath, path)));
+    if (paths.length === 0) return { issue: null };
+
+    return {
+      issue: {
+        check: 'missing_files',
+        severity: 'warning',
+        count: paths.length,
+        message: `${paths.length} indexed file(s) no longer exist on disk`,
+        examples: paths.slice(0, EXAMPLE_LIMIT),
+        repair: 'delete'
+      },
+      repair: () => {
+        this.tier2.transaction(() => {
+          for (const path of paths) this.tier2.deleteFile(path);
+        });
+        return { check: 'missing_files', repair: 'delete', count: paths.length, message: `Removed ${paths.length} missing file(s) from the index` };
+      }
+    };
+  }
+
+  private checkOrphanedRows(): { issue: DoctorIssue | null; repair?: () => DoctorFix } {
+    const orphans: Array<{ table: string; count: number }> = [];
+    for (const table of FILE_TABLES) {
+      if (!this.hasTable(table)) continue;
+      const count = this.count(`SELECT COUNT(*) as count FROM ${table} WHERE file_id NOT IN (SELECT id FROM files)`);
+      if (count > 0) orphans.push({ table, count });
+    }
+    // Full-text rows are keyed by chunk id - an orphaned chunk orphans its text too
+    const fts = this.hasTable('code_fts')
+      ? this.count('SELECT COUNT(*) as count FROM code_fts WHERE rowid NOT IN (SELECT id FROM chunks WHERE file_id IN (SELECT id FROM files))')
+      : 0;
+    if (fts > 0) orphans.push({ table: 'code_fts', count: fts });
+
+    const total = orphans.reduce((sum, o) => sum + o.count, 0);
+    if (total === 0) return { issue: null };
+
+    return {
+      issue: {
+        check: 'orphaned_rows',
+        severity: 'warning',
+        count: total,
+        message: `${total} row(s) belong to files that are no longer indexed`,
+        examples: orphans.map(o => `${o.table}: ${o.count}`).slice(0, EXAMPLE_LIMIT),
+        repair: 'delete'
+      },
+      repair: () => {
+        this.tier2.transaction(() => {
+          // Full-text rows first: they are found through the chunks about to go
+          if (this.hasTable('code_fts')) {
+            this.db.prepare('DELETE FROM code_fts WHERE rowid NOT IN (SELECT id FROM chunks WHERE file_id IN (SELECT id FROM files))').run();
+          }
+          for (const { table } of orphans.filter(o => o.table !== 'code_fts')) {
+            this.db.prepare(`DELETE FROM ${table} WHERE file_id NOT IN (SELECT id FROM files)`).run();
+          }
+        });
+        return { check: 'orphaned_rows', repair: 'delete', count: total, message: `Deleted ${total} orphaned row(s)` };
+      }
+    };
+  }
+
+  private checkDanglingDependencies(): { issue: DoctorIssue | null; repair?: () => DoctorFix } {
+    const dependencies = this.count(`
+      SELECT COUNT(*) as count FROM dependencies
+      WHERE source_file_id NOT IN (SELECT id FROM files) OR target_file_id NOT IN (SELECT id FROM files)
+    `);
+    const targets = RESOLVED_TABLES
+      .filter(table => this.hasTable(table))
+      .map(table => ({
+        table,
+        count: this.count(`SELECT COUNT(*) as count FROM ${table} WHERE target_file_id IS NOT NULL AND target_file_id NOT IN (SELECT id FROM files)`)
+      }))
+      .filter(t => t.count > 0);
+    const total = dependencies + targets.reduce((sum, t) => sum + t.count, 0);
+    if (total === 0) return { issue: null };
+
+    return {
+      issue: {
+        check: 'dangling_dependencies',
+        severity: 'warning',
+        count: total,
+        message: `${total} dependency, call or reference edge(s) point at deleted files`,
+        examples: [
+          ...(dependencies > 0 ? [`dependencies: ${dependencies}`] : []),
+          ...targets.map(t => `${t.table} targets: ${t.count}`)
+        ],
+        repair: 'delete'
+      },
+      repair: () => {
+        this.tier2.transaction(() => {
+          this.db.prepare(`
+            DELETE FROM dependencies
+            WHERE source_file_id NOT IN (SELECT id FROM files) OR target_file_id NOT IN (SELECT id FROM files)
+          `).run();
+          for (const { table } of targets) {
+            // The use site is still real; only its resolution is stale
+            this.db.prepare(`
+              UPDATE ${table} SET target_file_id = NULL, target_name = NULL
+              WHERE target_file_id IS NOT NULL AND target_file_id NOT IN (SELECT id FROM files)
+            `).run();
+          }
+        });
+        return { check: 'dangling_dependencies', repair: 'delete', count: total, message: `Removed ${total} dangling edge(s)` };
+      }
+    };
+  }
+
+  private checkInvalidVectors(reindex: Set<string>): { issue: DoctorIssue | null; repair?: () => DoctorFix } {
+    const chunks = (this.db.prepare(`
+      SELECT c.id, c.embedding, c.dimension, f.path
+      FROM chunks c JOIN files f ON f.id = c.file_id
+    `).all() as Array<{ id: number; embedding: Buffer | null; dimension: number; path: string }>)
+      .filter(row => !isValidVector(row.embedding, row.dimension));
+
+    const decisions = (this.db.prepare(`
+      SELECT id, title, embedding, embedding_dimension as dimension
+      FROM decisions WHERE embedding IS NOT NULL
+    `).all() as Array<{ id: string; title: string; embedding: Buffer; dimension: number | null }>)
+      .filter(row => !isValidVector(row.embedding, row.dimension ?? row.embedding.byteLength / 4));
+
+    const cached = this.hasTable('embedding_cache')
+      ? (this.db.prepare('SELECT text_hash, model, embedding, dimension FROM embedding_cache').all() as Array<{ text_hash: string; model: string; embedding: Buffer; dimension: number }>)
+        .filter(row => !isValidVector(row.embedding, row.dimension))
+      : [];
+
+    const total = chunks.length + decisions.length + cached.length;
+    if (total === 0) return { issue: null };
+
+    const files = [...new Set(chunks.map(c => c.path))];
+    return {
+      issue: {
+        check: 'invalid_vectors',
+        severity: 'error',
+        count: total,
+        message: `${total} embedding(s) are empty, truncated or all zeros and can never match a search`,
+        examples: [
+          ...files.map(path => `chunk in ${path}`),
+          ...decisions.map(d => `decision "${d.title}"`),
+          ...(cached.length > 0 ? [`embedding cache: ${cached.length}`] : [])
+        ].slice(0, EXAMPLE_LIMIT),
+        repair: 'reindex'
+      },
+      repair: () => {
+        this.tier2.transaction(() => {
+          for (const chunk of chunks) {
+            this.db.prepare('DELETE FROM code_fts WHERE rowid = ?').run(chunk.id);
+            this.db.prepare('DELETE FROM chunks WHERE id = ?').run(chunk.id);
+          }
+          this.markForReindex(files, reindex);
+          // Decisions without a vector are embedded again by the refresher
+          for (const decision of decisions) {
+            this.db.prepare('UPDATE decisions SET embedding = NULL, embedding_model = NULL, embedding_dimension = NULL WHERE id = ?').run(decision.id);
+          }
+          for (const entry of cached) {
+            this.db.prepare('DELETE FROM embedding_cache WHERE text_hash = ? AND model = ?').run(entry.text_hash, entry.model);
+          }
+        });
+        return {
+          check: 'invalid_vectors',
+          repair: 'reindex',
+          count: total,
+          message: `Dropped ${total} bad embedding(s); ${files.length} file(s) will be re-embedded`
+        };
+      }
+    };
+  }
+
+  private checkModelMismatch(reindex: Set<string>): { issue: DoctorIssue | null; repair?: () => DoctorFix } {
+    const model = this.options.embeddingModel;
+    const byModel = this.db.prepare(`
+      SELECT COALESCE(model, '(unlabeled)') as model, dimension, COUNT(*) as count
+      FROM chunks GROUP BY model, dimension
+    `).all() as Array<{ model: string; dimension: number; count: number }>;
+
+    const other = byModel.filter(r => r.model !== model);
+    // Largest group first: that's the dimension searches agree with
+    const current = byModel.filter(r => r.model === model).sort((a, b) => b.count - a.count);
+    // One model producing vectors of different sizes means a provider changed under the same id
+    const mixedDimensions = current.length > 1;
+
+    const stale = other.reduce((sum, r) => sum + r.count, 0)
+      + (mixedDimensions ? current.slice(1).reduce((sum, r) => sum + r.count, 0) : 0);
+    if (stale === 0) return { issue: null };
+
+    return {
+      issue: {
+        check: 'model_mismatch',
+        severity: mixedDimensions ? 'error' : 'warning',
+        count: stale,
+        message: mixedDimensions
+          ? `Vectors for ${model} have ${current.length} different dimensions; searches only see one of them`
+          : `${stale} chunk vector(s) come from another model than ${model} and are left out of searches until re-embedded`,
+        examples: byModel.map(r => `${r.model} (${r.dimension}d): ${r.count}`).slice(0, EXAMPLE_LIMIT),
+        repair: 'reindex'
+      },
+      repair: () => {
+        // Keep the dimension most current vectors have; everything else is redone
+        const keep = current[0]?.dimension ?? -1;
+        const rows = this.db.prepare(`
+          SELECT c.id, f.path FROM chunks c JOIN files f ON f.id = c.file_id
+          WHERE c.model IS NOT ? OR c.dimension != ?
+        `).all(model, keep) as Array<{ id: number; path: string }>;
+        const files = [...new Set(rows.map(r => r.path))];
+
+        this.tier2.transaction(() => {
+          for (const row of rows) {
+            this.db.prepare('DELETE FROM code_fts WHERE rowid = ?').run(row.id);
+            this.db.prepare('DELETE FROM chunks WHERE id = ?').run(row.id);
+          }
+          this.markForReindex(files, reindex);
+        });
+        return {
+          check: 'model_mismatch',
+          repair: 'reindex',
+          count: stale,
+          message: `${files.length} file(s) will be re-embedded with ${model}`
+        };
+      }
+    };
+  }
+
+  private checkStateFiles(): { issue: DoctorIssue | null; repair?: () => DoctorFix } {
+    const broken: Array<{ name: string; error: string }> = [];
+    for (const name of STATE_FILES) {
+      const path = join(this.options.dataDir, name);
+      if (!existsSync(path)) continue;
+      try {
+        JSON.parse(readFileSync(path, 'utf-8'));
+      } catch (error) {
+        broken.push({ name, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+    if (broken.length === 0) return { issue: null };
+
+    return {
+      issue: {
+        check: 'state_files',
+        severity: 'error',
+        count: broken.length,
+        message: `${broken.map(b => b.name).join(', ')} can't be parsed; session and feature context start empty every time`,
+        examples: broken.map(b => `${b.name}: ${b.error}`),
+        repair: 'reset'
+      },
+      repair: () => {
+        // Set aside rather than delete: the content may still be recoverable by hand
+        const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+        for (const { name } of broken) {
+          const path = join(this.options.dataDir, name);
+          renameSync(path, `${path}.corrupt-${stamp}`);
+        }
+        return {
+          check: 'state_files',
+          repair: 'reset',
+          count: broken.length,
+          message: `Moved ${broken.length} unreadable file(s) aside as *.corrupt-${stamp}`
+        };
+      }
+    };
+  }
+
+  private checkSearchRecall(search: { recall: number; samples: number; annActive: boolean }): { issue: DoctorIssue | null; repair?: () => DoctorFix } {
+    if (!search.annActive || search.samples === 0 || search.recall >= MIN_SEARCH_RECALL) return { issue: null };
+
+    return {
+      issue: {
+        check: 'search_recall',
+        severity: 'warning',
+        count: search.samples,
+        message: `ANN search finds ${Math.round(search.recall * 100)}% of the exact top results (${search.samples} sample queries); some relevant code is missed`,
+        examples: [],
+        repair: 'rebuild'
+      },
+      repair: () => {
+        // Rebuilt from the vector tables on the next search
+        this.tier2.invalidateVectorIndexes();
+        return {
+          check: 'search_recall',
+          repair: 'rebuild',
+          count: 1,
+          message: 'Dropped the ANN graph; it is rebuilt on the next search'
+        };
+      }
+    };
+  }
+
+  private checkFreeSpace(): DoctorIssue | null {
+    const pages = this.db.pragma('page_count', { simple: true }) as number;
+    const free = this.db.pragma('freelist_count', { simple: true }) as number;
+    if (pages === 0 || free / pages < FREE_SPACE_RATIO) return null;
+
+    const pageSize = this.db.pragma('page_size', { simple: true }) as number;
+    return {
+      check: 'free_space',
+      severity: 'info',
+      count: free,
+      message: `${Math.round((free * pageSize) / 1024 / 1024 * 10) / 10} MB (${Math.round((free / pages) * 100)}%) of the database is free pages`,
+      examples: [],
+      repair: 'vacuum'
+    };
+  }
+
+  private vacuum(): DoctorFix {
+    const before = this.databaseBytes();
+    try {
+      this.db.exec('VACUUM');
+    } catch (error) {
+      // A running server holding a read transaction blocks VACUUM; the repairs themselves are committed
+      return {
+        check: 'free_space',
+        repair: 'vacuum',
+        count: 0,
+        message: `VACUUM skipped: ${error instanceof Error ? error.message : String(error)}`
+      };
+    }
+    const saved = Math.max(0, before - this.databaseBytes());
+    return {
+      check: 'free_space',
+      repair: 'vacuum',
+      count: saved,
+      message: `Vacuumed the database, ${Math.round(saved / 1024)} KB reclaimed`
+    };
+  }
+
+  // A cleared hash reads as "changed" to the indexer, which re-parses and re-embeds the file
+  private markForReindex(paths: string[], reindex: Set<string>): void {
+    const clear = this.db.prepare("UPDATE files SET content_hash = '' WHERE path = ?");
+    for (const path of paths) {
+      clear.run(path);
+      reindex.add(path);
+    }
+  }
+
+  private hasTable(name: string): boolean {
+    return this.db.prepare("SELECT 1 FROM sqlite_master WHERE name = ? AND type IN ('table', 'view')").get(name) !== undefined;
+  }
+
+  private count(sql: string): number {
+    return (this.db.prepare(sql).get() as { count: number }).count;
+  }
+
+  private databaseBytes(): number {
+    const pages = this.db.pragma('page_count', { simple: true }) as number;
+    const pageSize = this.db.pragma('page_size', { simple: true }) as number;
+    return pages * pageSize;
+  }
+}
+
+function isValidVector(blob: Buffer | null, dimension: number): boolean {
+  if (!blob || dimension <= 0 || blob.byteLength !== dimension * 4) return false;
+  const vector = new Float32Array(blob.buffer, blob.byteOffset, dimension);
+  let norm = 0;
+  for (let i = 0; i < vector.length; i++) {
+    const v = vector[i]!;
+    if (!Number.isFinite(v)) return false;
+    norm += v * v;
+  }
+  return norm > 0;
+}
@@ -5,6 +5,13 @@ import { Tier1Storage } from '../storage/tier1.js';
 import { Tier2Storage } from '../storage/tier2.js';
 import { Tier3Storage } from '../storage/tier3.js';
 import { Indexer } from '../indexing/indexer.js';
+import { ImportResolver } from '../indexing/import-resolver.js';
+import { embeddingModelId } from '../indexing/embedding-providers.js';
+import type { FileRename } from '../indexing/renames.js';
+import { joinRoutePath, matchRoute, similarRoutes, type RouteMatch } from '../indexing/routes.js';
+import { similarEnvVars } from '../indexing/env-vars.js';
+import { rewriteFileReferences, pathRenamer } from './file-references.js';
+import { IndexDoctor, type DoctorReport } from './doctor.js';
 import { ContextAssembler } from './context.js';
 import { DecisionTracker } from './decisions.js';
 import { DecisionExtractor } from './decision-extractor.js';
@@ -21,10 +28,12 @@ import { ArchitectureEnforcement } from './architecture/index.js';
 import { TestAwareness } from './test-awareness/index.js';
 import { GhostMode, type GhostInsight, type ConflictWarning } from './ghost-mode.js';
 import { DejaVuDetector, type DejaVuMatch } from './deja-vu.js';
+import { claimServerPid, releaseServerPid } from '../utils/server-pid.js';
 import { CodeVerifier, type VerificationResult, type VerificationCheck, type ImportVerification, type SecurityScanResult, type DependencyCheckResult } from './code-verifier.js';
-import { GitStalenessChecker, ActivityGate } from './refresh/index.js';
+import { GitStalenessChecker, ActivityGate, EmbeddingRefresher, type ReembedProgress } from './refresh/index.js';
 import { detectLanguage, getPreview, countLines } from '../utils/files.js';
-import type { NeuronLayerConfig, AssembledContext, Decision, ProjectSummary, SearchResult, CodeSymbol, SymbolKind, ActiveFeatureContext, HotContext } from '../types/index.js';
+import { reciprocalRankFusion } from '../utils/rank-fusion.js';
+import type { NeuronLayerConfig, IndexingProgress, IndexingUpdate, IndexCoverage, AssembledContext, Decision, ProjectSummary, SearchResult, SearchMode, CodeSymbol, SymbolKind, CallEdge, SymbolReference, TypeHierarchy, TableSchema, ColumnChange, SchemaLocation, ApiRoute, HttpMethod, EnvVariable, ActiveFeatureContext, HotContext } from '../types/index.js';
 import type { ArchitectureDoc, ComponentDoc, DailyChangelog, ChangelogOptions, ValidationResult, ActivityResult, UndocumentedItem, ContextHealth, CompactionResult, CompactionOptions, CriticalContext, DriftResult, ConfidenceResult, ConfidenceLevel, ConfidenceSources, ConflictResult, ChangeQueryResult, ChangeQueryOptions, Diagnosis, PastBug, FixSuggestion, Change, Pattern, PatternCategory, PatternValidationResult, ExistingFunction, TestInfo, TestFramework, TestValidationResult, TestUpdate, TestCoverage } from '../types/documentation.js';
 import type Database from 'better-sqlite3';
 
@@ -56,9 +65,13 @@ export class NeuronLayerEngine {
   private codeVerifier: CodeVerifier;
   private gitStalenessChecker: GitStalenessChecker;
   private activityGate: ActivityGate;
+  private embeddingRefresher: EmbeddingRefresher;
   private initialized = false;
   private initializationStatus: 'pending' | 'indexing' | 'ready' | 'error' = 'pending';
-  private indexingProgress: { indexed: number; total: number } = { indexed: 0, total: 0 };
+  private indexingProgress: IndexingProgress = { indexed: 0, checked: 0, total: 0 };
+  private initialIndexComplete = false;
+  private initialIndexFailed = 0;
+  private indexingListeners = new Set<(update: IndexingUpdate) => void>();
 
   constructor(config: NeuronLayerConfig) {
     this.config = config;
@@ -67,6 +80,7 @@ export class NeuronLayerEngine {
     if (!existsSync(config.dataDir)) {
       mkdirSync(config.dataDir, { recursive: true });
     }
+    claimServerPid(config.dataDir);
 
     // Initialize database (with migration from old name)
     let dbPath = join(config.dataDir, 'neuronlayer.db');
@@ -88,7 +102,12 @@ export class NeuronLayerEngine {
 
     // Initialize storage tiers
     this.tier1 = new Tier1Storage(config.dataDir);
-    this.tier2 = new Tier2Storage(this.db);
+    this.tier2 = new Tier2Storage(this.db, {
+      vectorIndexDir: join(config.dataDir, 'ann'),
+      embeddingModel: embeddingModelId(config),
+      importResolver: new ImportResolver(config.projectPath)
+    });
+    this.tier2.claimUnlabeledVectors();
     this.tier3 = new Tier3Storage(this.db);
 
     // Initialize indexer
@@ -176,11 +195,17 @@ export class NeuronLayerEngine {
     );
 
     // Phase 13: Initialize Code Verifier (pre-commit quality gate)
-    this.codeVerifier = new CodeVerifier(config.projectPath);
+    this.codeVerifier = new CodeVerifier(config.projectPath, () => this.tier2.getRoutes(), () => this.tier2.getEnvVars());
 
     // Intelligent Refresh System
     this.gitStalenessChecker = new GitStalenessChecker(config.projectPath);
     this.activityGate = new ActivityGate();
+    this.embeddingRefresher = new EmbeddingRefresher(
+      config.projectPath,
+      this.tier2,
+      this.indexer.getEmbeddingGenerator(),
+      this.indexer.getEmbeddingGenerator().getModelId()
+    );
 
     // Register this project
     const projectInfo = this.projectManager.registerProject(config.projectPath);
@@ -192,14 +217,18 @@ export class NeuronLayerEngine {
   private setupIndexerEvents(): void {
     this.indexer.on('indexingStarted', () => {
       // Silent start - only show if files need indexing
-      this.indexingProgress = { indexed: 0, total: 0 };
+      this.indexingProgress = { indexed: 0, checked: 0, total: 0 };
+      this.notifyIndexing({ phase: 'started', scope: 'initial', ...this.indexingProgress });
     });
 
-    this.indexer.on('progress', (progress) => {
+    this.indexer.on('progress', (progress: IndexingProgress) => {
       // Track progress for status visibility
-      this.indexingProgress = { indexed: progress.indexed, total: progress.total || 0 };
+      const previous = this.indexingProgress.indexed;
+      this.indexingProgress = { indexed: progress.indexed, checked: progress.checked, total: progress.total };
+      this.notifyIndexing({ phase: 'progress', scope: 'initial', ...progress });
 
       // Only show progress when actually indexing files
+      if (progress.indexed === previous) return;
       if (progress.indexed === 1) {
         console.error('Indexing new/changed files...');
       }
@@ -208,10 +237,20 @@ export class NeuronLayerEngine {
       }
     });
 
-    this.indexer.on('indexingComplete', (stats: { total: number; indexed: number; skipped?: number }) => {
+    this.indexer.on('indexingCancelled', (stats: { total: number; checked: number; indexed: number; failed: number }) => {
+      this.notifyIndexing({ phase: 'cancelled', scope: 'initial', ...stats });
+    });
+
+    this.indexer.on('indexingComplete', (stats: { total: number; indexed: number; failed: number; skipped?: number }) => {
       // Update final progress
-      this.indexingProgress = { indexed: stats.indexed, total: stats.total };
+      this.indexingProgress = { indexed: stats.indexed, checked: stats.total, total: stats.total };
+      this.initialIndexComplete = true;
+      this.initialIndexFailed = stats.failed;
+      this.notifyIndexing({ phase: 'complete', scope: 'initial', ...this.indexingProgress, failed: stats.failed });
 
+      if (stats.failed > 0) {
+        console.error(`Indexing finished with errors: ${stats.failed} of ${stats.total} files failed and are retried on the next run`);
+      }
       if (stats.indexed > 0) {
         console.error(`Indexing complete: ${stats.indexed} files indexed`);
         // Log activity for indexing
@@ -219,9 +258,9 @@ export class NeuronLayerEngine {
           'indexing_complete',
           `Indexed ${stats.indexed} files`,
           undefined,
-          { total: stats.total, indexed: stats.indexed }
+          { total: stats.total, indexed: stats.indexed, failed: stats.failed }
         );
-      } else {
+      } else if (stats.failed === 0) {
         console.error(`Index up to date (${stats.total} files)`);
       }
       this.updateProjectSummary();
@@ -240,6 +279,19 @@ export class NeuronLayerEngine {
       }
     });
 
+    // Files changed while watching
+    this.indexer.on('reindexStarted', ({ total }: { total: number }) => {
+      this.notifyIndexing({ phase: 'started', scope: 'changes', total, checked: 0, indexed: 0 });
+    });
+
+    this.indexer.on('reindexProgress', (progress: IndexingProgress) => {
+      this.notifyIndexing({ phase: 'progress', scope: 'changes', ...progress });
+    });
+
+    this.indexer.on('reindexComplete', ({ total, indexed }: { total: number; indexed: number }) => {
+      this.notifyIndexing({ phase: 'complete', scope: 'changes', total, checked: total, indexed });
+    });
+
     this.indexer.on('fileIndexed', (path) => {
       // Track file in feature context
       this.featureContextManager.onFileOpened(path);
@@ -264,6 +316,17 @@ export class NeuronLayerEngine {
       }
     });
 
+    this.indexer.on('fileRenamed', ({ from, to }: FileRename) => {
+      // The index rows moved with the file; memory recorded against the old path follows
+      const changed = rewriteFileReferences(this.db, from, to);
+      const rename = pathRenamer(from, to);
+      this.tier1.renamePaths(rename);
+      this.featureContextManager.renamePaths(rename);
+
+      const updated = Object.values(changed).reduce((sum, n) => sum + n, 0);
+      console.error(`[Rename] ${from} → ${to}${updated > 0 ? ` (${updated} memory record(s) updated)` : ''}`);
+    });
+
     this.indexer.on('error', (error) => {
       console.error('Indexer error:', error);
     });
@@ -279,6 +342,13 @@ export class NeuronLayerEngine {
       this.initializationStatus = 'indexing';
       await this.indexer.performInitialIndex();
 
+      // Find vectors written by a previous embedding model (re-embedded when idle)
+      try {
+        await this.embeddingRefresher.detect();
+      } catch (error) {
+        console.error('Embedding model check failed:', error);
+      }
+
       // Start watching for changes
       this.indexer.startWatching();
 
@@ -321,14 +391,84 @@ export class NeuronLayerEngine {
     }
   }
 
+  /**
+   * Follow indexing as it happens - the initial index and re-indexes of changed
+   * files. Returns a function that stops the updates.
+   */
+  onIndexingUpdate(listener: (update: IndexingUpdate) => void): () => void {
+    this.indexingListeners.add(listener);
+    return () => this.indexingListeners.delete(listener);
+  }
+
+  private notifyIndexing(update: IndexingUpdate): void {
+    for (const listener of this.indexingListeners) {
+      try {
+        listener(update);
+      } catch (error) {
+        console.error('Indexing listener error:', error);
+      }
+    }
+  }
+
+  /**
+   * How much of the project is indexed. Until the initial index finishes,
+   * answers may be missing files that haven't been reached yet; after it,
+   * files that failed to index until the next run.
+   */
+  getIndexCoverage(): IndexCoverage {
+    const { checked, total } = this.indexingProgress;
+    const finished = this.initialIndexComplete;
+    const failed = finished ? this.initialIndexFailed : 0;
+    return {
+      complete: finished && failed === 0,
+      status: failed > 0 ? 'indexed_with_errors' : this.initializationStatus,
+      filesChecked: checked,
+      filesTotal: total,
+      filesIndexed: this.tier2.getFileCount(),
+      filesFailed: failed,
+      percent: finished ? 100 : total > 0 ? Math.floor((checked / total) * 100) : 0
+    };
+  }
+
+  /**
+   * Check the index against the working tree and the configured model. With
+   * fix, repairs are applied and files with bad vectors are re-indexed in the
+   * background.
+   */
+  runDoctor(options: { fix?: boolean } = {}): DoctorReport {
+    const doctor = new IndexDoctor(this.db, this.tier2, {
+      projectPath: this.config.projectPath,
+      dataDir: this.config.dataDir,
+      embeddingModel: this.indexer.getEmbeddingGenerator().getModelId()
+    });
+    const report = doctor.run(options);
+
+    if (report.reindex.length > 0) {
+      const paths = report.reindex.map(path => join(this.config.projectPath, path));
+      (async () => {
+        for (const path of paths) {
+          await this.indexer.indexFile(path);
+        }
+      })().catch(err => console.error('Doctor re-index error:', err));
+    }
+
+    return report;
+  }
+
   /**
    * Get the current engine status for visibility
    */
-  getEngineStatus(): { status: string; ready: boolean; indexing: { indexed: number; total: number } } {
+  getEngineStatus(): {
+    status: string;
+    ready: boolean;
+    indexing: IndexingProgress;
+    embeddings: ReembedProgress;
+  } {
     return {
       status: this.initializationStatus,
       ready: this.initialized,
-      indexing: this.indexingProgress
+      indexing: this.indexingProgress,
+      embeddings: this.embeddingRefresher.getProgress()
     };
   }
 
@@ -357,6 +497,23 @@ export class NeuronLayerEngine {
       minIdleMs: 60_000,     // 1 minute idle
       intervalMs: 300_000    // Max once per 5 minutes
     });
+
+    // Re-embed vectors from a previous embedding model, a few batches per idle slot
+    if (!this.embeddingRefresher.isComplete()) {
+      this.activityGate.registerIdleTask('reembed', async () => {
+        const deadline = Date.now() + 20_000;
+        while (Date.now() < deadline && this.activityGate.isIdle(30_000)) {
+          const processed = await this.embeddingRefresher.runBatch();
+          if (processed === 0) break;
+        }
+        if (this.embeddingRefresher.isComplete()) {
+          this.activityGate.unregisterIdleTask('reembed');
+        }
+      }, {
+        minIdleMs: 30_000,     // 30 seconds idle
+        intervalMs: 10_000     // Keep going on every idle check until done
+      });
+    }
   }
 
   /**
@@ -502,10 +659,24 @@ export class NeuronLayerEngine {
     return result;
   }
 
-  async searchCodebase(query: string, limit: number = 10): Promise<SearchResult[]> {
+  async searchCodebase(query: string, limit: number = 10, mode: SearchMode = 'hybrid'): Promise<SearchResult[]> {
     this.activityGate.recordActivity();
-    const embedding = await this.indexer.getEmbeddingGenerator().embed(query);
-    let results = this.tier2.search(embedding, limit * 2); // Get more for re-ranking
+    const candidates = limit * 2; // Get more for re-ranking
+
+    let results: SearchResult[];
+    if (mode === 'lexical') {
+      results = this.tier2.searchLexical(query, candidates);
+    } else {
+      const embedding = await this.indexer.getEmbeddingGenerator().embed(query);
+      results = this.tier2.search(embedding, candidates);
+
+      if (mode === 'hybrid') {
+        // Exact identifiers and error strings come from BM25, meaning from embeddings
+        const lexical = this.tier2.searchLexical(query, candidates);
+        results = reciprocalRankFusion([results, lexical], r => r.file)
+          .map(({ item, score }) => ({ ...item, score }));
+      }
+    }
 
     // Apply personalized ranking
     results = this.learningEngine.applyPersonalizedRanking(results);
@@ -552,7 +723,12 @@ export class NeuronLayerEngine {
    */
   async searchDecisions(query: string, limit: number = 5): Promise<Decision[]> {
     const embedding = await this.indexer.getEmbeddingGenerator().embed(query);
-    return this.tier2.searchDecisions(embedding, limit);
+    const semantic = this.tier2.searchDecisions(embedding, limit);
+    const lexical = this.tier2.searchDecisionsLexical(query, limit);
+
+    return reciprocalRankFusion([semantic, lexical], d => d.id)
+      .slice(0, limit)
+      .map(({ item }) => item);
   }
 
   async getFileContext(filePath: string): Promise<{ content: string; language: string; lines: number } | null> {
@@ -777,6 +953,89 @@ export class NeuronLayerEngine {
     return this.tier2.getTransitiveDependents(filePath, maxDepth);
   }
 
+  // Call graph: who calls a symbol, and what it calls
+  getCallers(symbol: string, filePath?: string, limit?: number): CallEdge[] {
+    return this.tier2.getCallers(symbol, filePath, limit);
+  }
+
+  getCallees(symbol: string, filePath?: string, limit?: number): CallEdge[] {
+    return this.tier2.getCallees(symbol, filePath, limit);
+  }
+
+  // Every use of a symbol; with a file, only uses of the definition in that file
+  findReferences(symbol: string, filePath?: string, limit?: number): SymbolReference[] {
+    return this.tier2.getReferences(symbol, filePath, limit);
+  }
+
+  // Supertypes and subtypes of a class or interface
+  getTypeHierarchy(symbol: string, filePath?: string, maxDepth?: number): TypeHierarchy | null {
+    return this.tier2.getTypeHierarchy(symbol, filePath, maxDepth);
+  }
+
+  // A table from the migrations and Prisma schema, with the code that uses it
+  getTableSchema(table: string): TableSchema | null {
+    return this.tier2.getTableSchema(table);
+  }
+
+  // Which migrations added, altered, renamed or dropped a column
+  getColumnHistory(column: string, table?: string): ColumnChange[] {
+    return this.tier2.getColumnHistory(column, table);
+  }
+
+  listTables(): Array<{ name: string; model: string | null; columns: number; definedIn: SchemaLocation }> {
+    return this.tier2.listTables();
+  }
+
+  getTablesUsedBy(filePath: string): Array<{ name: string; model: string | null; definedIn: SchemaLocation; lines: number[] }> {
+    return this.tier2.getTablesUsedBy(filePath);
+  }
+
+  // HTTP routes the project serves, optionally only one file's, those under a path, or one method's
+  listRoutes(options: { file?: string; under?: string; method?: HttpMethod } = {}): ApiRoute[] {
+    const under = options.under ? joinRoutePath('', options.under) : null;
+    return this.tier2.getRoutes().filter(route =>
+      (!options.file || route.file === options.file) &&
+      (!under || under === '/' || route.path === under || route.path.startsWith(`${under}/`)) &&
+      (!options.method || route.method === options.method || route.method === 'ANY')
+    );
+  }
+
+  // The route serving a request, and near misses when there is none
+  findRoute(method: HttpMethod, path: string): RouteMatch & { similar: ApiRoute[] } {
+    const routes = this.tier2.getRoutes();
+    const match = matchRoute(routes, method, path);
+    return { ...match, similar: match.pathMatches.length > 0 ? [] : similarRoutes(routes, path) };
+  }
+
+  // Environment variables the project uses: all of them, or those read by one file or under a
+  // directory - matched anywhere in the path, so 'billing' finds services/billing. Reads are
+  // narrowed to that scope; declarations are kept wherever they are.
+  listEnvVars(options: { file?: string; under?: string } = {}): EnvVariable[] {
+    const under = options.under?.replace(/\\/g, '/').replace(/^\.?\//, '').replace(/\/+$/, '');
+    const inScope = (file: string) =>
+      (!options.file || file === options.file) &&
+      (!under || under === '.' || file.startsWith(`${under}/`) || file.includes(`/${under}/`));
+
+    const variables = this.tier2.getEnvVars();
+    if (!options.file && !under) return variables;
+    return variables
+      .map(variable => ({ ...variable, reads: variable.reads.filter(read => inScope(read.file)) }))
+      .filter(variable => variable.reads.length > 0);
+  }
+
+  // One variable's declarations and reads, and near misses when nothing mentions it
+  findEnvVar(name: string): { variable: EnvVariable | null; similar: string[] } {
+    const variables = this.tier2.getEnvVars();
+    const variable = variables.find(v => v.name === name) ??
+      variables.find(v => v.name.toUpperCase() === name.toUpperCase()) ?? null;
+    return { variable, similar: variable ? [] : similarEnvVars(variables, name) };
+  }
+
+  // Functions affected by changing a symbol, walking callers up to maxDepth
+  getTransitiveCallers(symbol: string, filePath: string, maxDepth: number = 3): Array<{ symbol: string | null; file: string; depth: number; line: number }> {
+    return this.tier2.getTransitiveCallers(symbol, filePath, maxDepth);
+  }
+
   // Phase 2: Get symbol count
   getSymbolCount(): number {
     return this.tier2.getSymbolCount();
@@ -1637,10 +1896,13 @@ export class NeuronLayerEngine {
 
   shutdown(): void {
     console.error('Shutting down NeuronLayer...');
+    this.indexer.cancelIndexing();
     this.indexer.stopWatching();
     this.activityGate.shutdown();
     this.tier1.save();
+    this.tier2.flushVectorIndexes();
     this.featureContextManager.shutdown();
     closeDatabase(this.db);
+    releaseServerPid(this.config.dataDir);
   }
 }
@@ -40,7 +40,7 @@ export interface ContextResurrectionOptions {
 const MAX_FILES = 20;
 const MAX_CHANGES = 50;
 const MAX_QUERIES = 20;
-const MAX_RECENT_CONTEXTS = 5;
+export const MAX_RECENT_CONTEXTS = 5;
 const TTL_MINUTES = 30;
 const HOT_CACHE_MAX_FILES = 15;
 
@@ -438,6 +438,19 @@ export class FeatureContextManager extends EventEmitter {
     };
   }
 
+  // Follow a renamed file: its touches, changes and query results keep their history
+  renamePaths(rename: (path: string) => string): void {
+    for (const context of [this.current, ...this.recent]) {
+      if (!context) continue;
+      context.files = context.files.map(f => ({ ...f, path: rename(f.path) }));
+      context.changes = context.changes.map(c => ({ ...c, file: rename(c.file) }));
+      context.queries = context.queries.map(q => ({ ...q, filesUsed: q.filesUsed.map(rename) }));
+    }
+
+    this.fileContents = new Map([...this.fileContents].map(([path, content]) => [rename(path), content]));
+    this.save();
+  }
+
   // ========== PATH UTILITIES ==========
 
   private toRelativePath(filePath: string): string {
@@ -0,0 +1,145 @@
+/**
+ * File References - Follow a renamed or moved file through stored memory
+ *
+ * Index rows are keyed by file id and move with the file (Tier2Storage.renameFile).
+ * Memory recorded against a path does not: decision file lists, critical
+ * context, pattern examples, test coverage, bug records and usage history.
+ * rewriteFileReferences() points all of them at the new path. Tier1 and the
+ * feature context keep their own copies and are updated by their owners.
+ */
+
+import type Database from 'better-sqlite3';
+
+interface ReferenceSpec {
+  table: string;
+  key: string;
+  paths?: string[];              // Columns holding a single project-relative path
+  pathLists?: string[];          // Columns holding a JSON array of paths
+  exampleLists?: string[];       // Columns holding a JSON array of { file?: string }
+  mentions?: string[];           // Free text that may name the path
+}
+
+const REFERENCES: ReferenceSpec[] = [
+  { table: 'decisions', key: 'id', pathLists: ['files'], mentions: ['description'] },
+  { table: 'critical_context', key: 'id', paths: ['source'], mentions: ['content'] },
+  { table: 'patterns', key: 'id', exampleLists: ['examples', 'anti_patterns'] },
+  { table: 'test_index', key: 'id', paths: ['file_path'], pathLists: ['covers_files'] },
+  { table: 'bug_history', key: 'id', paths: ['file'] },
+  { table: 'usage_events', key: 'id', paths: ['file_path'] },
+  { table: 'query_patterns', key: 'id', pathLists: ['result_files'] },
+  { table: 'activity_log', key: 'id', paths: ['file_path'] }
+];
+
+type Row = Record<string, unknown>;
+
+/**
+ * Rewrite every stored reference to `from` - or, for a directory, to paths
+ * under it - so it names `to`. Returns the rows changed per table.
+ */
+export function rewriteFileReferences(db: Database.Database, from: string, to: string): Record<string, number> {
+  const rename = pathRenamer(from, to);
+  const changed: Record<string, number> = {};
+
+  db.transaction(() => {
+    for (const spec of REFERENCES) {
+      // Some tables only exist once their feature has been used
+      const columns = existingColumns(db, spec.table);
+      if (columns.size === 0) continue;
+
+      const fields = [
+        ...(spec.paths ?? []),
+        ...(spec.pathLists ?? []),
+        ...(spec.exampleLists ?? []),
+        ...(spec.mentions ?? [])
+      ].filter(column => columns.has(column));
+      if (fields.length === 0) continue;
+
+      // Cheap prefilter: only rows whose text mentions the old path
+      const rows = db.prepare(`
+        SELECT ${spec.key}, ${fields.join(', ')} FROM ${spec.table}
+        WHERE ${fields.map(f => `instr(${f}, ?) > 0`).join(' OR ')}
+      `).all(...fields.map(() => from)) as Row[];
+
+      let count = 0;
+      for (const row of rows) {
+        const updates: Row = {};
+        for (const column of fields) {
+          const value = row[column];
+          if (typeof value !== 'string') continue;
+          const next = rewriteColumn(spec, column, value, from, to, rename);
+          if (next !== value) updates[column] = next;
+        }
+
+        const set = Object.keys(updates);
+        if (set.length === 0) continue;
+        db.prepare(`UPDATE ${spec.table} SET ${set.map(c => `${c} = ?`).join(', ')} WHERE ${spec.key} = ?`)
+          .run(...set.map(c => updates[c] as string), row[spec.key]);
+        count++;
+      }
+
+      if (count > 0) changed[spec.table] = count;
+    }
+  })();
+
+  return changed;
+}
+
+// Maps a path to its new location, or returns it unchanged when it isn't affected
+export function pathRenamer(from: string, to: string): (path: string) => string {
+  const source = normalize(from);
+  const target = normalize(to);
+
+  return (path: string) => {
+    const normalized = normalize(path);
+    if (normalized === source) return target;
+    if (normalized.startsWith(`${source}/`)) return target + normalized.slice(source.length);
+    return path;
+  };
+}
+
+function rewriteColumn(
+  spec: ReferenceSpec,
+  column: string,
+  value: string,
+  from: string,
+  to: string,
+  rename: (path: string) => string
+): string {
+  if (spec.paths?.includes(column)) {
+    return rename(value);
+  }
+
+  if (spec.pathLists?.includes(column) || spec.exampleLists?.includes(column)) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(value);
+    } catch {
+      return value;
+    }
+    if (!Array.isArray(parsed)) return value;
+
+    const next = spec.pathLists?.includes(column)
+      ? parsed.map(item => (typeof item === 'string' ? rename(item) : item))
+      : parsed.map(item => (item && typeof item === 'object' && typeof item.file === 'string'
+        ? { ...item, file: rename(item.file) }
+        : item));
+    return JSON.stringify(next);
+  }
+
+  // Free text: replace the path where it stands alone, not inside a longer path
+  const pattern = new RegExp(`(?<![\\w./-])${escapeRegex(normalize(from))}(?=$|[^\\w.-]|\\.(?!\\w))`, 'g');
+  return value.replace(pattern, normalize(to));
+}
+
+function existingColumns(db: Database.Database, table: string): Set<string> {
+  const info = db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+  return new Set(info.map(c => c.name));
+}
+
+function normalize(path: string): string {
+  return path.replace(/\\/g, '/').replace(/\/+$/, '');
+}
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
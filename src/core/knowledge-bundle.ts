@@ -0,0 +1,472 @@
+/**
+ * Knowledge Bundle - Portable export/import of a project's accumulated memory
+ *
+ * Only state that can't be rebuilt by re-indexing goes in the bundle:
+ * decisions, patterns, critical context, bug history, learning stats and
+ * feature contexts. Files, symbols, chunks and git history are re-derived.
+ *
+ * A bundle is gzipped JSON with a format version. On import:
+ * 1. Project paths are remapped (source root -> target root, plus explicit prefix maps)
+ * 2. Rows are merged by identity key - identical rows are skipped, differing rows
+ *    are reported as conflicts and kept as-is unless the bundle is preferred
+ * 3. Counters (hit counts, access counts) take the larger value, so re-importing
+ *    the same bundle changes nothing
+ */
+
+import { existsSync, mkdirSync, readFileSync, unlinkSync, writeFileSync } from 'fs';
+import { dirname, isAbsolute, join } from 'path';
+import { gunzipSync, gzipSync } from 'zlib';
+import type Database from 'better-sqlite3';
+import { runMigrations, getSchemaVersions } from '../storage/migrations.js';
+import { PATTERN_MIGRATIONS } from './architecture/pattern-library.js';
+import { BUG_MIGRATIONS } from './change-intelligence/bug-correlator.js';
+import { MAX_RECENT_CONTEXTS } from './feature-context.js';
+import type { ActiveFeatureContext } from '../types/index.js';
+
+const BUNDLE_FORMAT = 'neuronlayer-bundle';
+const BUNDLE_VERSION = 1;
+
+type Row = Record<string, unknown>;
+
+interface TableSpec {
+  table: string;
+  key: string[];                 // Identity used to detect an existing row
+  omit?: string[];               // Autoincrement keys that must not be copied
+  localOnly?: string[];          // Copied on insert, never compared or overwritten
+  paths?: string[];              // Columns holding a single project-relative path
+  pathLists?: string[];          // Columns holding a JSON array of paths
+  blobs?: string[];              // Binary columns, base64 in the bundle
+  // Combine an existing row with an incoming one instead of reporting a conflict
+  merge?: (existing: Row, incoming: Row) => Row;
+}
+
+const TABLES: TableSpec[] = [
+  {
+    table: 'decisions',
+    key: ['id'],
+    pathLists: ['files'],
+    blobs: ['embedding']
+  },
+  {
+    table: 'patterns',
+    // Default patterns are seeded with random ids in every database
+    key: ['name', 'category'],
+    localOnly: ['id'],
+    merge: (existing, incoming) => ({
+      ...existing,
+      usage_count: Math.max(Number(existing.usage_count) || 0, Number(incoming.usage_count) || 0)
+    })
+  },
+  {
+    table: 'critical_context',
+    key: ['id']
+  },
+  {
+    table: 'bug_history',
+    key: ['id'],
+    paths: ['file']
+  },
+  {
+    table: 'usage_events',
+    key: ['event_type', 'file_path', 'query', 'timestamp'],
+    omit: ['id'],
+    paths: ['file_path']
+  },
+  {
+    table: 'query_patterns',
+    key: ['query_hash'],
+    omit: ['id'],
+    pathLists: ['result_files'],
+    merge: (existing, incoming) => ({
+      ...existing,
+      hit_count: Math.max(Number(existing.hit_count) || 0, Number(incoming.hit_count) || 0),
+      last_used: Math.max(Number(existing.last_used) || 0, Number(incoming.last_used) || 0)
+    })
+  }
+];
+
+export interface KnowledgeBundle {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  createdAt: string;
+  source: {
+    projectPath: string;
+    schema: Record<string, number>;
+  };
+  tables: Record<string, Row[]>;
+  fileAccess: Array<{ path: string; accessCount: number; lastAccessed: number; relevanceScore: number }>;
+  featureContext: { current: ActiveFeatureContext | null; recent: ActiveFeatureContext[] } | null;
+}
+
+export interface PathMapping {
+  from: string;
+  to: string;
+}
+
+export interface BundleImportOptions {
+  pathMappings?: PathMapping[];
+  preferBundle?: boolean;        // Replace differing rows instead of keeping local ones
+}
+
+export interface TableImportResult {
+  added: number;
+  merged: number;
+  unchanged: number;
+  conflicts: number;
+  replaced: number;
+  skipped: number;               // Rows that could not be placed (e.g. unknown file)
+}
+
+export interface BundleImportReport {
+  tables: Record<string, TableImportResult>;
+  featureContexts: number;
+  conflictDetails: string[];
+}
+
+export class KnowledgeBundleManager {
+  private db: Database.Database;
+  private projectPath: string;
+  private dataDir: string;
+
+  constructor(db: Database.Database, projectPath: string, dataDir: string) {
+    this.db = db;
+    this.projectPath = projectPath;
+    this.dataDir = dataDir;
+
+    // Subsystem tables may not exist yet when run from the CLI
+    runMigrations(db, 'patterns', PATTERN_MIGRATIONS);
+    runMigrations(db, 'bug_history', BUG_MIGRATIONS);
+  }
+
+  // ========== EXPORT ==========
+
+  createBundle(): KnowledgeBundle {
+    const tables: Record<string, Row[]> = {};
+
+    for (const spec of TABLES) {
+      const rows = this.db.prepare(`SELECT * FROM ${spec.table}`).all() as Row[];
+      tables[spec.table] = rows.map(row => {
+        const out: Row = { ...row };
+        for (const column of spec.omit || []) delete out[column];
+        for (const column of spec.blobs || []) {
+          const value = out[column];
+          out[column] = Buffer.isBuffer(value) ? value.toString('base64') : null;
+        }
+        return out;
+      });
+    }
+
+    // file_access is keyed by file id, which means nothing in another database
+    const fileAccess = (this.db.prepare(`
+      SELECT f.path, fa.access_count as accessCount, fa.last_accessed as lastAccessed,
+             fa.relevance_score as relevanceScore
+      FROM file_access fa
+      JOIN files f ON f.id = fa.file_id
+    `).all() as KnowledgeBundle['fileAccess']);
+
+    return {
+      format: BUNDLE_FORMAT,
+      version: BUNDLE_VERSION,
+      createdAt: new Date().toISOString(),
+      source: {
+        projectPath: this.projectPath,
+        schema: getSchemaVersions(this.db)
+      },
+      tables,
+      fileAccess,
+      featureContext: this.readFeatureContext()
+    };
+  }
+
+  exportToFile(outputPath: string): { path: string; counts: Record<string, number> } {
+    const bundle = this.createBundle();
+
+    const dir = dirname(outputPath);
+    if (!existsSync(dir)) {
+      mkdirSync(dir, { recursive: true });
+    }
+    writeFileSync(outputPath, gzipSync(JSON.stringify(bundle)));
+
+    const counts: Record<string, number> = {};
+    for (const [table, rows] of Object.entries(bundle.tables)) {
+      counts[table] = rows.length;
+    }
+    counts.file_access = bundle.fileAccess.length;
+    counts.feature_contexts = (bundle.featureContext?.recent.length || 0) + (bundle.featureContext?.current ? 1 : 0);
+
+    return { path: outputPath, counts };
+  }
+
+  // ========== IMPORT ==========
+
+  static readBundle(bundlePath: string): KnowledgeBundle {
+    let bundle: KnowledgeBundle;
+    try {
+      bundle = JSON.parse(gunzipSync(readFileSync(bundlePath)).toString('utf-8'));
+    } catch (error) {
+      throw new Error(`Not a readable NeuronLayer bundle: ${bundlePath} (${error instanceof Error ? error.message : String(error)})`);
+    }
+
+    if (bundle.format !== BUNDLE_FORMAT) {
+      throw new Error(`Not a NeuronLayer bundle: ${bundlePath}`);
+    }
+    if (bundle.version > BUNDLE_VERSION) {
+      throw new Error(
+        `Bundle ${bundlePath} uses format version ${bundle.version}, but this version of NeuronLayer ` +
+        `reads up to ${BUNDLE_VERSION}. Upgrade NeuronLayer to import it.`
+      );
+    }
+
+    return bundle;
+  }
+
+  importBundle(bundle: KnowledgeBundle, options: BundleImportOptions = {}): BundleImportReport {
+    const remap = createPathRemapper(bundle.source.projectPath, this.projectPath, options.pathMappings || []);
+    const report: BundleImportReport = { tables: {}, featureContexts: 0, conflictDetails: [] };
+
+    this.db.transaction(() => {
+      for (const spec of TABLES) {
+        const rows = bundle.tables[spec.table] || [];
+        report.tables[spec.table] = this.importRows(spec, rows, remap, options, report.conflictDetails);
+      }
+      report.tables.file_access = this.importFileAccess(bundle.fileAccess || [], remap);
+    })();
+
+    // A replaced decision keeps its row count, so the persisted ANN index wouldn't notice
+    const decisionIndex = join(this.dataDir, 'ann', 'decisions.hnsw');
+    if ((report.tables.decisions?.replaced || 0) > 0 && existsSync(decisionIndex)) {
+      unlinkSync(decisionIndex);
+    }
+
+    if (bundle.featureContext) {
+      report.featureContexts = this.importFeatureContext(bundle.featureContext, remap);
+    }
+
+    return report;
+  }
+
+  private importRows(
+    spec: TableSpec,
+    rows: Row[],
+    remap: (path: string) => string,
+    options: BundleImportOptions,
+    conflictDetails: string[]
+  ): TableImportResult {
+    const result: TableImportResult = { added: 0, merged: 0, unchanged: 0, conflicts: 0, replaced: 0, skipped: 0 };
+    const columns = this.getColumns(spec.table).filter(c => !(spec.omit || []).includes(c));
+    const compared = columns.filter(c => !(spec.localOnly || []).includes(c));
+    const keyClause = spec.key.map(k => `${k} IS ?`).join(' AND ');
+    const find = this.db.prepare(`SELECT * FROM ${spec.table} WHERE ${keyClause}`);
+
+    for (const raw of rows) {
+      const incoming = this.prepareRow(spec, raw, columns, remap);
+      const existing = find.get(...spec.key.map(k => incoming[k] ?? null)) as Row | undefined;
+
+      if (!existing) {
+        this.insertRow(spec.table, incoming);
+        result.added++;
+        continue;
+      }
+
+      if (compared.every(c => sameValue(existing[c], incoming[c]))) {
+        result.unchanged++;
+        continue;
+      }
+
+      if (options.preferBundle) {
+        this.updateRow(spec, existing, incoming);
+        result.replaced++;
+      } else if (spec.merge) {
+        this.updateRow(spec, existing, spec.merge(existing, incoming));
+        result.merged++;
+      } else {
+        result.conflicts++;
+        conflictDetails.push(`${spec.table} ${spec.key.map(k => String(incoming[k])).join('/')}: kept local version`);
+      }
+    }
+
+    return result;
+  }
+
+  private prepareRow(spec: TableSpec, raw: Row, columns: string[], remap: (path: string) => string): Row {
+    const row: Row = {};
+    for (const column of columns) {
+      if (column in raw) row[column] = raw[column];
+    }
+
+    for (const column of spec.paths || []) {
+      if (typeof row[column] === 'string') row[column] = remap(row[column] as string);
+    }
+    for (const column of spec.pathLists || []) {
+      if (typeof row[column] === 'string') {
+        try {
+          const paths = JSON.parse(row[column] as string) as unknown[];
+          row[column] = JSON.stringify(paths.map(p => (typeof p === 'string' ? remap(p) : p)));
+        } catch {
+          // Not a JSON list - leave untouched
+        }
+      }
+    }
+    for (const column of spec.blobs || []) {
+      if (typeof row[column] === 'string') row[column] = Buffer.from(row[column] as string, 'base64');
+    }
+
+    return row;
+  }
+
+  private insertRow(table: string, row: Row): void {
+    const columns = Object.keys(row);
+    this.db.prepare(`
+      INSERT INTO ${table} (${columns.join(', ')})
+      VALUES (${columns.map(() => '?').join(', ')})
+    `).run(...columns.map(c => row[c] ?? null));
+  }
+
+  private updateRow(spec: TableSpec, existing: Row, row: Row): void {
+    const fixed = [...spec.key, ...(spec.omit || []), ...(spec.localOnly || [])];
+    const columns = Object.keys(row).filter(c => !fixed.includes(c));
+    if (columns.length === 0) return;
+
+    this.db.prepare(`
+      UPDATE ${spec.table}
+      SET ${columns.map(c => `${c} = ?`).join(', ')}
+      WHERE ${spec.key.map(k => `${k} IS ?`).join(' AND ')}
+    `).run(...columns.map(c => row[c] ?? null), ...spec.key.map(k => existing[k] ?? null));
+  }
+
+  private importFileAccess(entries: KnowledgeBundle['fileAccess'], remap: (path: string) => string): TableImportResult {
+    const result: TableImportResult = { added: 0, merged: 0, unchanged: 0, conflicts: 0, replaced: 0, skipped: 0 };
+    const findFile = this.db.prepare('SELECT id FROM files WHERE path = ?');
+    const upsert = this.db.prepare(`
+      INSERT INTO file_access (file_id, access_count, last_accessed, relevance_score)
+      VALUES (?, ?, ?, ?)
+      ON CONFLICT(file_id) DO UPDATE SET
+        access_count = MAX(access_count, excluded.access_count),
+        last_accessed = MAX(last_accessed, excluded.last_accessed),
+        relevance_score = MAX(relevance_score, excluded.relevance_score)
+    `);
+    const exists = this.db.prepare('SELECT 1 FROM file_access WHERE file_id = ?');
+
+    for (const entry of entries) {
+      const file = findFile.get(remap(entry.path)) as { id: number } | undefined;
+      if (!file) {
+        // Only indexed files have an id to attach stats to
+        result.skipped++;
+        continue;
+      }
+
+      const existed = exists.get(file.id) !== undefined;
+      upsert.run(file.id, entry.accessCount, entry.lastAccessed, entry.relevanceScore);
+      if (existed) {
+        result.merged++;
+      } else {
+        result.added++;
+      }
+    }
+
+    return result;
+  }
+
+  private importFeatureContext(
+    incoming: NonNullable<KnowledgeBundle['featureContext']>,
+    remap: (path: string) => string
+  ): number {
+    const local = this.readFeatureContext() || { current: null, recent: [] };
+    const known = new Set([local.current?.id, ...local.recent.map(c => c.id)].filter(Boolean));
+    let imported = 0;
+
+    const remapContext = (context: ActiveFeatureContext): ActiveFeatureContext => ({
+      ...context,
+      files: context.files.map(f => ({ ...f, path: remap(f.path) })),
+      changes: context.changes.map(c => ({ ...c, file: remap(c.file) })),
+      queries: context.queries.map(q => ({ ...q, filesUsed: q.filesUsed.map(remap) }))
+    });
+
+    if (incoming.current && !known.has(incoming.current.id)) {
+      if (local.current) {
+        // Never displace the feature being worked on locally
+        local.recent.push({ ...remapContext(incoming.current), status: 'paused' });
+      } else {
+        local.current = remapContext(incoming.current);
+      }
+      imported++;
+    }
+
+    for (const context of incoming.recent) {
+      if (known.has(context.id)) continue;
+      local.recent.push(remapContext(context));
+      imported++;
+    }
+
+    local.recent = local.recent
+      .sort((a, b) => new Date(b.lastActiveAt).getTime() - new Date(a.lastActiveAt).getTime())
+      .slice(0, MAX_RECENT_CONTEXTS);
+
+    if (imported > 0) {
+      if (!existsSync(this.dataDir)) {
+        mkdirSync(this.dataDir, { recursive: true });
+      }
+      writeFileSync(join(this.dataDir, 'feature-context.json'), JSON.stringify(local, null, 2));
+    }
+
+    return imported;
+  }
+
+  // ========== HELPERS ==========
+
+  private readFeatureContext(): KnowledgeBundle['featureContext'] {
+    const path = join(this.dataDir, 'feature-context.json');
+    if (!existsSync(path)) return null;
+
+    try {
+      const data = JSON.parse(readFileSync(path, 'utf-8'));
+      return { current: data.current || null, recent: data.recent || [] };
+    } catch {
+      return null;
+    }
+  }
+
+  private getColumns(table: string): string[] {
+    const info = this.db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+    return info.map(c => c.name);
+  }
+}
+
+/**
+ * Build a function that rewrites a stored path for the target project.
+ * Explicit mappings win (longest prefix first); absolute paths under the
+ * source root are moved under the target root; anything else is unchanged.
+ */
+export function createPathRemapper(
+  sourceRoot: string,
+  targetRoot: string,
+  mappings: PathMapping[]
+): (path: string) => string {
+  const normalize = (p: string) => p.replace(/\\/g, '/');
+  const ordered = mappings
+    .map(m => ({ from: normalize(m.from).replace(/\/$/, ''), to: normalize(m.to).replace(/\/$/, '') }))
+    .sort((a, b) => b.from.length - a.from.length);
+  const source = normalize(sourceRoot).replace(/\/$/, '');
+  const target = normalize(targetRoot).replace(/\/$/, '');
+
+  return (path: string) => {
+    const normalized = normalize(path);
+
+    for (const { from, to } of ordered) {
+      if (normalized === from || normalized.startsWith(`${from}/`)) {
+        return to + normalized.slice(from.length);
+      }
+    }
+
+    if (isAbsolute(path) && (normalized === source || normalized.startsWith(`${source}/`))) {
+      return target + normalized.slice(source.length);
+    }
+
+    return path;
+  };
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  if (Buffer.isBuffer(a) && Buffer.isBuffer(b)) return a.equals(b);
+  return (a ?? null) === (b ?? null);
+}
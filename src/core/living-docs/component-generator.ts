@@ -8,7 +8,9 @@ import type {
   SymbolDoc,
   DependencyDoc,
   DependentDoc,
-  ChangeHistoryEntry
+  ChangeHistoryEntry,
+  UIComponentDoc,
+  InheritanceDoc
 } from '../../types/documentation.js';
 
 export class ComponentGenerator {
@@ -32,11 +34,13 @@ export class ComponentGenerator {
     const imports = this.tier2.getImportsByFile(file.id);
     const dependents = this.tier2.getFileDependents(filePath);
     const history = this.getChangeHistory(filePath);
+    const ui = this.describeUIComponent(filePath, dependents);
+    const inheritance = this.describeInheritance(filePath, symbols);
 
     return {
       file: filePath,
       name: basename(filePath, extname(filePath)),
-      purpose: this.inferPurpose(filePath, symbols),
+      purpose: ui ? this.inferComponentPurpose(ui) : this.inferPurpose(filePath, symbols, inheritance),
       lastModified: new Date(file.lastModified * 1000),
       publicInterface: this.extractPublicInterface(symbols),
       dependencies: this.formatDependencies(imports),
@@ -44,11 +48,61 @@ export class ComponentGenerator {
       changeHistory: history,
       contributors: this.extractContributors(history),
       complexity: this.calculateComplexity(symbols),
-      documentationScore: this.calculateDocScore(symbols)
+      documentationScore: this.calculateDocScore(symbols),
+      ui: ui ?? undefined,
+      inheritance: inheritance.length > 0 ? inheritance : undefined
     };
   }
 
-  private inferPurpose(filePath: string, symbols: CodeSymbol[]): string {
+  // Direct supertypes and subtypes of the classes and interfaces defined in the file
+  private describeInheritance(filePath: string, symbols: CodeSymbol[]): InheritanceDoc[] {
+    const docs: InheritanceDoc[] = [];
+    for (const symbol of symbols) {
+      if (symbol.kind !== 'class' && symbol.kind !== 'interface') continue;
+      const hierarchy = this.tier2.getTypeHierarchy(symbol.name, filePath, 1);
+      if (!hierarchy || (hierarchy.ancestors.length === 0 && hierarchy.descendants.length === 0)) continue;
+
+      docs.push({
+        name: symbol.name,
+        supertypes: hierarchy.ancestors.map(a => ({ name: a.name, file: a.file, relation: a.relation })),
+        subtypes: hierarchy.descendants.map(d => ({ name: d.name, file: d.file!, relation: d.relation }))
+      });
+    }
+    return docs;
+  }
+
+  private describeUIComponent(filePath: string, dependents: Array<{ file: string }>): UIComponentDoc | null {
+    const component = this.tier2.getComponent(filePath);
+    if (!component) return null;
+
+    return {
+      framework: component.framework,
+      props: component.props,
+      emits: component.emits,
+      children: component.children.map(child => ({
+        name: child.name,
+        file: this.tier2.resolveImportTargets(filePath, child.from, [child.name])[0]?.path ?? null
+      })),
+      usedBy: dependents.map(d => d.file).filter(f => /\.(vue|svelte)$/.test(f))
+    };
+  }
+
+  private inferComponentPurpose(ui: UIComponentDoc): string {
+    const framework = ui.framework === 'vue' ? 'Vue' : 'Svelte';
+    const parts = [`${framework} component`];
+    if (ui.props.length > 0) {
+      parts.push(`props: ${ui.props.map(p => p.name).slice(0, 5).join(', ')}`);
+    }
+    if (ui.emits.length > 0) {
+      parts.push(`emits: ${ui.emits.slice(0, 5).join(', ')}`);
+    }
+    if (ui.children.length > 0) {
+      parts.push(`renders ${ui.children.map(c => c.name).slice(0, 5).join(', ')}`);
+    }
+    return parts.join('. ');
+  }
+
+  private inferPurpose(filePath: string, symbols: CodeSymbol[], inheritance: InheritanceDoc[]): string {
     const name = basename(filePath, extname(filePath));
     const parts: string[] = [];
 
@@ -70,7 +124,13 @@ export class ComponentGenerator {
     const functions = exported.filter(s => s.kind === 'function');
 
     if (classes.length === 1) {
-      return `Defines the ${classes[0]!.name} class`;
+      const name = classes[0]!.name;
+      const supertypes = inheritance.find(i => i.name === name)?.supertypes ?? [];
+      const base = supertypes.find(s => s.relation === 'extends');
+      const interfaces = supertypes.filter(s => s.relation === 'implements').map(s => s.name);
+      return `Defines the ${name} class`
+        + (base ? ` (extends ${base.name})` : '')
+        + (interfaces.length > 0 ? `, implementing ${interfaces.slice(0, 3).join(', ')}` : '');
     }
     if (interfaces.length > 0 && functions.length === 0) {
       return `Type definitions: ${interfaces.map(i => i.name).slice(0, 3).join(', ')}`;
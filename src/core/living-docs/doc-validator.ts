@@ -1,8 +1,10 @@
-import { existsSync } from 'fs';
+import { existsSync, readFileSync } from 'fs';
 import { join } from 'path';
 import type Database from 'better-sqlite3';
 import type { Tier2Storage } from '../../storage/tier2.js';
 import type { CodeSymbol } from '../../types/index.js';
+import { detectLanguage } from '../../utils/files.js';
+import { moduleDoc } from '../../indexing/docstrings.js';
 import type {
   ValidationResult,
   OutdatedDoc,
@@ -119,9 +121,10 @@ export class DocValidator {
         continue;
       }
 
-      // Check if the file has any JSDoc/docstring at file level
-      const hasFileDoc = symbols.some(s => s.docstring && s.lineStart <= 5);
-      if (!hasFileDoc && exportedSymbols.length > 0) {
+      // Check for a file-level header comment or module docstring,
+      // unless the file is already represented by undocumented symbols
+      const hasSymbolEntry = items.some(i => i.file === file.path);
+      if (exportedSymbols.length > 0 && !hasSymbolEntry && !this.hasModuleDoc(file.path, file.preview)) {
         const importance = this.calculateFileImportance(file.path);
 
         if (options?.importance && options.importance !== 'all' && importance !== options.importance) {
@@ -131,15 +134,11 @@ export class DocValidator {
           continue;
         }
 
-        // Only add if the file isn't already represented by undocumented symbols
-        const hasSymbolEntry = items.some(i => i.file === file.path);
-        if (!hasSymbolEntry) {
-          items.push({
-            file: file.path,
-            type: 'file',
-            importance
-          });
-        }
+        items.push({
+          file: file.path,
+          type: 'file',
+          importance
+        });
       }
     }
 
@@ -150,6 +149,17 @@ export class DocValidator {
     return items;
   }
 
+  // Read from disk - the stored preview can cut a long header off
+  private hasModuleDoc(filePath: string, preview: string): boolean {
+    let content = preview;
+    try {
+      content = readFileSync(join(this.projectPath, filePath), 'utf-8');
+    } catch {
+      // Gone since indexing - judge by the preview
+    }
+    return moduleDoc(content, detectLanguage(filePath)) !== undefined;
+  }
+
   private calculateImportance(filePath: string, symbol: CodeSymbol): 'low' | 'medium' | 'high' {
     // Check how many files depend on this file
     const dependents = this.tier2.getFileDependents(filePath);
@@ -3,6 +3,7 @@ import { join, basename, resolve } from 'path';
 import { createHash } from 'crypto';
 import { homedir } from 'os';
 import Database from 'better-sqlite3';
+import { defaultIndexConcurrency, loadProjectConfig } from '../utils/config.js';
 import type { NeuronLayerConfig } from '../types/index.js';
 
 export interface ProjectInfo {
@@ -186,6 +187,7 @@ export class ProjectManager {
       dataDir,
       maxTokens: 6000,
       embeddingModel: 'Xenova/all-MiniLM-L6-v2',
+      indexConcurrency: defaultIndexConcurrency(),
       watchIgnore: [
         '**/node_modules/**',
         '**/.git/**',
@@ -200,8 +202,15 @@ export class ProjectManager {
         '**/yarn.lock',
         '**/pnpm-lock.yaml',
         '**/.env*',
+        '!**/.env.example',
+        '!**/.env.sample',
+        '!**/.env.template',
+        '!**/.env.schema',
+        '!**/.env.defaults',
+        '!**/.env.dist',
         '**/*.log'
-      ]
+      ],
+      ...loadProjectConfig(normalizedPath)
     };
   }
 
@@ -0,0 +1,189 @@
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+import type { Tier2Storage } from '../../storage/tier2.js';
+import type { EmbeddingGenerator } from '../../indexing/embeddings.js';
+import { chunkEmbeddingText, docstringOutside } from '../../indexing/chunker.js';
+import { decisionEmbeddingText } from '../decisions.js';
+
+// A model that couldn't be reached is probed again after this, doubling up to the max
+const DETECT_RETRY_MS = 60_000;
+const MAX_DETECT_RETRY_MS = 30 * 60_000;
+
+export interface ReembedProgress {
+  model: string;
+  provider: string;
+  dimension: number | null;
+  state: 'unchecked' | 'current' | 'reembedding' | 'complete';
+  staleAtStart: number;
+  remaining: number;
+  reembedded: number;
+  percent: number;
+  lastError?: string;
+}
+
+/**
+ * EmbeddingRefresher - Replace vectors left behind by a previous embedding model
+ *
+ * After `embeddingModel` changes, existing chunk and decision vectors are
+ * incomparable with new queries. Search already ignores them, so nothing breaks;
+ * this class re-embeds just the stale rows in small batches during idle time:
+ * 1. detect() on startup loads the model and counts stale rows; when that
+ *    fails (the endpoint is down), runBatch() tries again with backoff
+ * 2. runBatch() re-embeds a few rows from source text (file lines / decision text)
+ * 3. getProgress() reports how far along it is for memory_status
+ */
+export class EmbeddingRefresher {
+  private projectPath: string;
+  private tier2: Tier2Storage;
+  private embeddingGenerator: EmbeddingGenerator;
+  private modelName: string;
+  private dimension: number | null = null;
+  private staleAtStart = 0;
+  private remaining = 0;
+  private reembedded = 0;
+  private state: ReembedProgress['state'] = 'unchecked';
+  private lastError: string | undefined;
+  private detectFailures = 0;
+  private nextDetectAt = 0;
+
+  constructor(projectPath: string, tier2: Tier2Storage, embeddingGenerator: EmbeddingGenerator, modelName: string) {
+    this.projectPath = projectPath;
+    this.tier2 = tier2;
+    this.embeddingGenerator = embeddingGenerator;
+    this.modelName = modelName;
+  }
+
+  /**
+   * Count vectors that don't match the configured model.
+   * Returns true if there is re-embedding work to do.
+   */
+  async detect(): Promise<boolean> {
+    // The real dimension is only known once the model has produced a vector
+    let probe: Float32Array;
+    try {
+      probe = await this.embeddingGenerator.embed('dimension probe');
+    } catch (error) {
+      this.detectFailures++;
+      this.nextDetectAt = Date.now() + Math.min(DETECT_RETRY_MS * 2 ** (this.detectFailures - 1), MAX_DETECT_RETRY_MS);
+      this.lastError = error instanceof Error ? error.message : String(error);
+      throw error;
+    }
+    this.detectFailures = 0;
+    this.lastError = undefined;
+    this.dimension = probe.length;
+
+    const claimed = this.tier2.claimUnlabeledVectors();
+    if (claimed > 0) {
+      console.error(`Recorded embedding model for ${claimed} existing vectors`);
+    }
+
+    const stale = this.tier2.countStaleEmbeddings(this.dimension);
+    this.staleAtStart = stale.chunks + stale.decisions;
+    this.remaining = this.staleAtStart;
+    this.reembedded = 0;
+    this.state = this.staleAtStart > 0 ? 'reembedding' : 'current';
+
+    if (this.staleAtStart > 0) {
+      console.error(`Embedding model changed: ${this.staleAtStart} vectors will be re-embedded with ${this.modelName} during idle time`);
+    }
+
+    return this.staleAtStart > 0;
+  }
+
+  isComplete(): boolean {
+    return this.state === 'current' || this.state === 'complete';
+  }
+
+  /**
+   * Re-embed up to batchSize stale rows. Returns the number of rows processed.
+   */
+  async runBatch(batchSize: number = 32): Promise<number> {
+    if (this.isComplete()) return 0;
+
+    if (this.dimension === null) {
+      // The startup probe failed; nothing is known until one succeeds
+      if (Date.now() < this.nextDetectAt) return 0;
+      try {
+        await this.detect();
+      } catch (error) {
+        console.error(`Embedding model check failed again, retrying in ${Math.round((this.nextDetectAt - Date.now()) / 1000)}s:`, error);
+        return 0;
+      }
+      if (this.isComplete()) return 0;
+    }
+    const dimension = this.dimension;
+    if (dimension === null) return 0;
+
+    let processed = 0;
+
+    try {
+      const decisions = this.tier2.getStaleDecisions(dimension, batchSize);
+      const decisionEmbeddings = await this.embeddingGenerator.embedBatch(decisions.map(d => decisionEmbeddingText(d)));
+      decisions.forEach((decision, i) => this.tier2.updateDecisionEmbedding(decision.id, decisionEmbeddings[i]!));
+      processed += decisions.length;
+
+      const chunks = this.tier2.getStaleChunks(dimension, batchSize - processed);
+      const fileLines = new Map<string, string[] | null>();
+      const pending: Array<{ id: number; text: string }> = [];
+
+      for (const chunk of chunks) {
+        if (!fileLines.has(chunk.filePath)) {
+          const absolutePath = join(this.projectPath, chunk.filePath);
+          fileLines.set(chunk.filePath, existsSync(absolutePath) ? readFileSync(absolutePath, 'utf-8').split('\n') : null);
+        }
+
+        const lines = fileLines.get(chunk.filePath);
+        if (!lines) {
+          // File is gone - the watcher just hasn't caught up yet
+          this.tier2.deleteFile(chunk.filePath);
+          processed++;
+          continue;
+        }
+
+        // If the file changed since it was indexed the watcher re-chunks it anyway;
+        // until then the current lines are the best text available
+        // Same text as at index time, doc comment included
+        const content = lines.slice(chunk.lineStart - 1, chunk.lineEnd).join('\n');
+        pending.push({
+          id: chunk.id,
+          text: chunkEmbeddingText(chunk.filePath, { ...chunk, docstring: docstringOutside(content, chunk.docstring), content })
+        });
+      }
+
+      // Embedded together so the generator can batch them
+      const chunkEmbeddings = await this.embeddingGenerator.embedBatch(pending.map(p => p.text));
+      pending.forEach(({ id }, i) => this.tier2.updateChunkEmbedding(id, chunkEmbeddings[i]!));
+      processed += pending.length;
+
+      this.reembedded += processed;
+      const stale = this.tier2.countStaleEmbeddings(dimension);
+      this.remaining = stale.chunks + stale.decisions;
+
+      if (this.remaining === 0) {
+        this.state = 'complete';
+        this.tier2.flushVectorIndexes();
+        console.error(`Re-embedding complete: ${this.reembedded} vectors now use ${this.modelName}`);
+      }
+    } catch (error) {
+      this.lastError = error instanceof Error ? error.message : String(error);
+      console.error('Error re-embedding stale vectors:', error);
+    }
+
+    return processed;
+  }
+
+  getProgress(): ReembedProgress {
+    const done = this.staleAtStart - this.remaining;
+    return {
+      model: this.modelName,
+      provider: this.embeddingGenerator.getProviderKind(),
+      dimension: this.dimension,
+      state: this.state,
+      staleAtStart: this.staleAtStart,
+      remaining: this.remaining,
+      reembedded: this.reembedded,
+      percent: this.staleAtStart === 0 ? 100 : Math.round((done / this.staleAtStart) * 100),
+      lastError: this.lastError
+    };
+  }
+}
@@ -16,6 +16,7 @@
  * TIER 3: IDLE-TIME MAINTENANCE
  * - When user idle > 30s AND git changed → sync git
  * - When idle > 5min since last update → update importance scores
+ * - After an embedding model change → re-embed stale vectors in batches
  * - One task at a time, non-blocking
  *
  * TIER 4: SESSION-BASED
@@ -25,3 +26,4 @@
 
 export { GitStalenessChecker } from './git-staleness-checker.js';
 export { ActivityGate, type IdleTask } from './activity-gate.js';
+export { EmbeddingRefresher, type ReembedProgress } from './embedding-refresher.js';
@@ -1,6 +1,8 @@
 import type Database from 'better-sqlite3';
 import type { CodeSymbol } from '../types/index.js';
 import { estimateTokens } from '../utils/tokens.js';
+import { detectLanguage } from '../utils/files.js';
+import { docSummary, moduleDoc } from '../indexing/docstrings.js';
 
 interface FileSummary {
   fileId: number;
@@ -31,8 +33,9 @@ export class FileSummarizer {
     const extension = fileName.split('.').pop() || '';
     lines.push(`**${fileName}** (${this.getFileType(extension)})`);
 
-    // Purpose (inferred from file name and content)
-    const purpose = this.inferPurpose(fileName, content, symbols);
+    // Purpose: the module's own documentation, else inferred from file name and content
+    const header = moduleDoc(content, detectLanguage(filePath));
+    const purpose = header ? docSummary(header) : this.inferPurpose(fileName, content, symbols);
     if (purpose) {
       lines.push(`Purpose: ${purpose}`);
     }
@@ -61,6 +64,12 @@ export class FileSummarizer {
       lines.push(`Functions: ${funcNames.join(', ')}${functions.length > 5 ? ` (+${functions.length - 5} more)` : ''}`);
     }
 
+    // What the main exports say about themselves
+    const documented = symbols.filter(s => s.exported && s.docstring && s.kind !== 'method').slice(0, 3);
+    for (const symbol of documented) {
+      lines.push(`- ${symbol.name}: ${docSummary(symbol.docstring!)}`);
+    }
+
     // Dependencies
     if (imports.length > 0) {
       const deps = imports
@@ -114,6 +123,12 @@ export class FileSummarizer {
     const lowerName = fileName.toLowerCase();
     const lowerContent = content.toLowerCase();
 
+    // A sole documented export describes the file
+    const exported = symbols.filter(s => s.exported && s.kind !== 'method');
+    if (exported.length === 1 && exported[0]!.docstring) {
+      return docSummary(exported[0]!.docstring);
+    }
+
     // Common file patterns
     if (lowerName.includes('middleware')) return 'Request middleware/interceptor';
     if (lowerName.includes('route') || lowerName.includes('router')) return 'API route definitions';
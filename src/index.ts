@@ -1,11 +1,12 @@
 import { MCPServer } from './server/mcp.js';
 import { HTTPServer } from './server/http.js';
-import { getDefaultConfig, parseArgs } from './utils/config.js';
+import { getDefaultConfig, parseArgs, parseConcurrency } from './utils/config.js';
 import { executeCLI, printHelp } from './cli/commands.js';
 
-function parseServeArgs(args: string[]): { projectPath: string; port: number } {
+function parseServeArgs(args: string[]): { projectPath: string; port: number; indexConcurrency?: number } {
   let projectPath = process.cwd();
   let port = 3333;
+  let indexConcurrency: number | undefined;
 
   for (let i = 0; i < args.length; i++) {
     const arg = args[i];
@@ -16,10 +17,13 @@ function parseServeArgs(args: string[]): { projectPath: string; port: number } {
     } else if (arg === '--port' && nextArg) {
       port = parseInt(nextArg) || 3333;
       i++;
+    } else if (arg === '--index-concurrency' && nextArg) {
+      indexConcurrency = parseConcurrency(nextArg);
+      i++;
     }
   }
 
-  return { projectPath, port };
+  return { projectPath, port, indexConcurrency };
 }
 
 async function main(): Promise<void> {
@@ -27,7 +31,7 @@ async function main(): Promise<void> {
 
   // Check for CLI commands first
   const firstArg = args[0];
-  const cliCommands = ['init', 'projects', 'export', 'help', '--help', '-h'];
+  const cliCommands = ['init', 'projects', 'export', 'bundle', 'doctor', 'help', '--help', '-h'];
 
   if (firstArg && cliCommands.includes(firstArg)) {
     // Handle CLI commands
@@ -37,8 +41,11 @@ async function main(): Promise<void> {
 
   // Handle serve command - start HTTP API server
   if (firstArg === 'serve') {
-    const { projectPath, port } = parseServeArgs(args.slice(1));
+    const { projectPath, port, indexConcurrency } = parseServeArgs(args.slice(1));
     const config = getDefaultConfig(projectPath);
+    if (indexConcurrency !== undefined) {
+      config.indexConcurrency = indexConcurrency;
+    }
 
     console.log('NeuronLayer HTTP API starting...');
     console.log(`Project: ${config.projectPath}`);
@@ -64,10 +71,13 @@ async function main(): Promise<void> {
   }
 
   // Parse command line arguments for MCP server mode
-  const { projectPath } = parseArgs(args);
+  const { projectPath, indexConcurrency } = parseArgs(args);
 
   // Get configuration
   const config = getDefaultConfig(projectPath);
+  if (indexConcurrency !== undefined) {
+    config.indexConcurrency = indexConcurrency;
+  }
 
   console.error('NeuronLayer starting...');
   console.error(`Project: ${config.projectPath}`);
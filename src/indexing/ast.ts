@@ -2,7 +2,52 @@ import Parser from 'web-tree-sitter';
 import { readFileSync, existsSync, mkdirSync, writeFileSync } from 'fs';
 import { join, dirname } from 'path';
 import { fileURLToPath } from 'url';
-import type { CodeSymbol, Import, Export, SymbolKind } from '../types/index.js';
+import type { CodeSymbol, Import, Export, SymbolKind, CallSite, ReferenceSite, TypeRelationSite, TypeRelationKind, MethodSet, ComponentInfo, SchemaOperation, TableReferenceSite, RouteSite, RouteMount, EnvVarSite } from '../types/index.js';
+import { attachDocstrings } from './docstrings.js';
+import { findTableReferences, parseSchemaFile, schemaFormat } from './db-schema.js';
+import { findRoutes } from './routes.js';
+import { findEnvVars } from './env-vars.js';
+import { isEnvExampleFile } from '../utils/files.js';
+import { COMPILER_MACROS, componentFramework, componentName, extractScripts, extractComponentInfo, type ComponentFramework } from './sfc.js';
+
+// An import read from a tree-sitter node: the module/path and the names it binds
+interface ImportSpec {
+  from: string;
+  symbols: string[];
+  namespace?: boolean;
+}
+
+// A type named in an extends/implements clause, or embedded in a Go type
+interface SupertypeSpec {
+  relation: TypeRelationKind;
+  type: Parser.SyntaxNode;
+}
+
+// A reference before filtering; inCallOrType marks names used as a callee or a type
+interface ReferenceCandidate extends ReferenceSite {
+  inCallOrType: boolean;
+}
+
+// Parents whose `name` field is the name being defined, not a use of it
+const DEFINITION_PARENT = /(_declaration|_definition|_declarator|_spec|^class|^function|^function_expression)$/;
+const SELF_QUALIFIERS = new Set(['this', 'self', 'cls']);
+const SNIPPET_MAX = 200;
+
+// Names always in scope where calls and types are kept without an import
+const BUILTIN_NAMES: Record<string, Set<string>> = {
+  go: new Set([
+    'any', 'bool', 'byte', 'comparable', 'complex64', 'complex128', 'error', 'float32', 'float64',
+    'int', 'int8', 'int16', 'int32', 'int64', 'rune', 'string',
+    'uint', 'uint8', 'uint16', 'uint32', 'uint64', 'uintptr',
+    'append', 'cap', 'clear', 'close', 'complex', 'copy', 'delete', 'imag', 'len', 'make',
+    'max', 'min', 'new', 'panic', 'print', 'println', 'real', 'recover'
+  ]),
+  python: new Set([
+    'abs', 'all', 'any', 'bool', 'dict', 'enumerate', 'filter', 'float', 'getattr', 'hasattr',
+    'int', 'isinstance', 'iter', 'len', 'list', 'map', 'max', 'min', 'next', 'open', 'print',
+    'range', 'repr', 'set', 'setattr', 'sorted', 'str', 'sum', 'super', 'tuple', 'type', 'zip'
+  ])
+};
 
 // Language configurations for parsing
 interface LanguageConfig {
@@ -10,14 +55,246 @@ interface LanguageConfig {
   extensions: string[];
   queries: {
     functions?: string;
+    methods?: string;
     classes?: string;
     interfaces?: string;
     types?: string;
+    enums?: string;
     imports?: string;
     exports?: string;
+    calls?: string;   // @callee, optional @qualifier (receiver / namespace)
+    references?: string;  // @ref, optional @qualifier (namespace / this)
+    hierarchy?: string;   // @type: declarations that can name supertypes
   };
+  // Whether a definition is visible to other files. Default: inside an `export` statement (JS/TS)
+  isExported?: (node: Parser.SyntaxNode) => boolean;
+  // Read the nodes matched by the imports query. Languages without it take imports from the regex parser
+  readImports?: (node: Parser.SyntaxNode) => ImportSpec[];
+  // Read the supertypes named by a declaration matched by the hierarchy query
+  readSupertypes?: (node: Parser.SyntaxNode) => SupertypeSpec[];
+  // Languages whose interfaces are satisfied implicitly: what each type has or requires
+  readMethodSets?: (root: Parser.SyntaxNode) => MethodSet[];
+}
+
+// Modifier keywords on a declaration (C# `public`, PHP `private`, C `static`,
+// Kotlin/Swift modifiers wrapped in a `modifiers` node)
+function modifierWords(node: Parser.SyntaxNode): string[] {
+  const words: string[] = [];
+  for (const child of node.children) {
+    if (child.type === 'modifiers') {
+      words.push(...child.children.map(c => c.text));
+    } else if (/modifier|storage_class_specifier/.test(child.type)) {
+      words.push(child.text);
+    }
+  }
+  return words;
+}
+
+function stringContent(node: Parser.SyntaxNode): string {
+  return node.text.replace(/^["'<]|["'>]$/g, '');
+}
+
+function lastSegment(name: string, separator: RegExp): string {
+  return name.split(separator).filter(Boolean).pop() || name;
+}
+
+// Qualified-name imports: C# `using A.B;`, Kotlin `import a.b.C` / `import a.b.*`, Swift `import Foundation`
+function readQualifiedImport(node: Parser.SyntaxNode): ImportSpec[] {
+  const name = node.namedChildren.filter(c => c.type === 'qualified_name' || c.type === 'identifier').pop();
+  if (!name) return [];
+
+  const from = name.text.replace(/\s+/g, '');
+  if (node.namedChildren.some(c => c.type === 'wildcard_import')) {
+    return [{ from: `${from}.*`, symbols: ['*'], namespace: true }];
+  }
+  return [{ from, symbols: [lastSegment(from, /\./)], namespace: node.type === 'using_directive' }];
+}
+
+function readRubyImport(node: Parser.SyntaxNode): ImportSpec[] {
+  const method = node.childForFieldName('method')?.text;
+  const arg = node.childForFieldName('arguments')?.namedChildren[0];
+  if (!method || !['require', 'require_relative', 'load'].includes(method) || arg?.type !== 'string') return [];
+
+  const path = stringContent(arg);
+  const from = method === 'require_relative' && !path.startsWith('.') ? `./${path}` : path;
+  return [{ from, symbols: [lastSegment(path, /\//).replace(/\.rb$/, '')] }];
+}
+
+function readPhpImport(node: Parser.SyntaxNode): ImportSpec[] {
+  if (node.type === 'namespace_use_declaration') {
+    const specs: ImportSpec[] = [];
+    const group = node.namedChildren.find(c => c.type === 'namespace_use_group');
+    if (group) {
+      // use App\Services\{Mailer, Logger};
+      const prefix = node.namedChildren.find(c => c.type === 'namespace_name')?.text ?? '';
+      for (const clause of group.namedChildren) {
+        const name = clause.namedChildren.find(c => c.type === 'namespace_name' || c.type === 'qualified_name' || c.type === 'name');
+        if (name) specs.push({ from: `${prefix}\\${name.text}`, symbols: [lastSegment(name.text, /\\/)] });
+      }
+    } else {
+      for (const clause of node.namedChildren.filter(c => c.type === 'namespace_use_clause')) {
+        const name = clause.namedChildren.find(c => c.type === 'qualified_name' || c.type === 'name');
+        if (name) specs.push({ from: name.text.replace(/^\\/, ''), symbols: [lastSegment(name.text, /\\/)] });
+      }
+    }
+    return specs;
+  }
+
+  // require/include: only the literal part of the path is known; __DIR__ . '/x.php' is relative to the file
+  const literal = node.descendantsOfType(['string', 'encapsed_string'])[0];
+  if (!literal) return [];
+  const path = stringContent(literal);
+  if (!path || /[$]/.test(path)) return [];
+  const from = path.startsWith('.') ? path : path.startsWith('/') ? `.${path}` : `./${path}`;
+  return [{ from, symbols: [lastSegment(path, /\//)] }];
+}
+
+// #include "local.h" keeps its path; #include <system.h> keeps the brackets so it is never resolved locally
+function readInclude(node: Parser.SyntaxNode): ImportSpec[] {
+  const path = node.childForFieldName('path');
+  if (!path) return [];
+  const from = path.type === 'system_lib_string' ? path.text : stringContent(path);
+  return [{ from, symbols: [lastSegment(stringContent(path), /\//)] }];
+}
+
+// A supertype as written, without type arguments: Base, ns.Base<T>, *pkg.Base
+function readTypeName(node: Parser.SyntaxNode): { name: string; qualifier?: string } | null {
+  // class A extends mixin(B) - computed, nothing to link
+  if (node.type === 'call_expression') return null;
+  const text = (node.text.split(/[<[(]/)[0] ?? '').replace(/[\s*&]/g, '');
+  if (!/^[\w$]+(?:\.[\w$]+)*$/.test(text)) return null;
+  const dot = text.lastIndexOf('.');
+  return dot < 0 ? { name: text } : { name: text.slice(dot + 1), qualifier: text.slice(0, dot) };
 }
 
+// TS/JS: class_heritage (extends / implements clauses, or a bare expression in JS) and interface extends
+function readClassHeritage(node: Parser.SyntaxNode): SupertypeSpec[] {
+  const supertypes: SupertypeSpec[] = [];
+  for (const clause of node.namedChildren) {
+    if (clause.type === 'class_heritage') {
+      for (const part of clause.namedChildren) {
+        if (part.type === 'extends_clause') {
+          const value = part.childForFieldName('value');
+          if (value) supertypes.push({ relation: 'extends', type: value });
+        } else if (part.type === 'implements_clause') {
+          supertypes.push(...part.namedChildren.map(type => ({ relation: 'implements' as const, type })));
+        } else {
+          supertypes.push({ relation: 'extends', type: part });
+        }
+      }
+    } else if (clause.type === 'extends_type_clause') {
+      supertypes.push(...clause.namedChildren.map(type => ({ relation: 'extends' as const, type })));
+    }
+  }
+  return supertypes;
+}
+
+function readJavaSupertypes(node: Parser.SyntaxNode): SupertypeSpec[] {
+  const supertypes: SupertypeSpec[] = [];
+  const superclass = node.childForFieldName('superclass')?.namedChild(0);
+  if (superclass) supertypes.push({ relation: 'extends', type: superclass });
+
+  // Interfaces extend other interfaces; classes implement them
+  const relation = node.type === 'interface_declaration' ? 'extends' : 'implements';
+  const interfaces = node.childForFieldName('interfaces') ?? node.namedChildren.find(c => c.type === 'extends_interfaces');
+  for (const list of interfaces?.namedChildren ?? []) {
+    for (const type of list.type === 'type_list' ? list.namedChildren : [list]) {
+      supertypes.push({ relation, type });
+    }
+  }
+  return supertypes;
+}
+
+// C# base lists don't say which base is the class. By convention only the first
+// can be, and interfaces are I-prefixed; resolved bases are corrected by their kind
+function readCSharpSupertypes(node: Parser.SyntaxNode): SupertypeSpec[] {
+  const bases = node.childForFieldName('bases')?.namedChildren ?? [];
+  return bases.map((type, i): SupertypeSpec => {
+    if (node.type === 'interface_declaration') return { relation: 'extends', type };
+    const looksLikeClass = i === 0 && node.type !== 'struct_declaration' && !/^I[A-Z]/.test(readTypeName(type)?.name ?? '');
+    return { relation: looksLikeClass ? 'extends' : 'implements', type };
+  });
+}
+
+function readPythonSupertypes(node: Parser.SyntaxNode): SupertypeSpec[] {
+  return (node.childForFieldName('superclasses')?.namedChildren ?? [])
+    .filter(type => type.type !== 'keyword_argument' && type.text !== 'object')
+    .map(type => ({ relation: 'extends', type }));
+}
+
+// Go: interfaces embedding interfaces, structs embedding types
+function readGoSupertypes(node: Parser.SyntaxNode): SupertypeSpec[] {
+  const type = node.childForFieldName('type');
+  if (type?.type === 'interface_type') {
+    return type.namedChildren
+      .filter(c => c.type !== 'method_spec' && c.type !== 'comment')
+      .map(c => ({ relation: 'extends', type: c.namedChild(0) ?? c }));
+  }
+  if (type?.type === 'struct_type') {
+    return goEmbeddedFields(type).map(field => ({ relation: 'embeds', type: field }));
+  }
+  return [];
+}
+
+function goEmbeddedFields(struct: Parser.SyntaxNode): Parser.SyntaxNode[] {
+  return struct.descendantsOfType('field_declaration')
+    .filter(field => field.parent?.parent?.id === struct.id && !field.childForFieldName('name'))
+    .map(field => field.childForFieldName('type'))
+    .filter((type): type is Parser.SyntaxNode => type !== null);
+}
+
+// Go method sets: methods required by each interface, and methods declared on each type
+function readGoMethodSets(root: Parser.SyntaxNode): MethodSet[] {
+  const sets = new Map<string, MethodSet>();
+  const names = (nodes: Parser.SyntaxNode[]) =>
+    nodes.map(n => readTypeName(n)?.name).filter((name): name is string => !!name);
+
+  for (const spec of root.descendantsOfType('type_spec')) {
+    const typeName = spec.childForFieldName('name')?.text;
+    const type = spec.childForFieldName('type');
+    if (!typeName || !type) continue;
+    const line = spec.startPosition.row + 1;
+
+    if (type.type === 'interface_type') {
+      const methods = type.namedChildren.filter(c => c.type === 'method_spec');
+      sets.set(typeName, {
+        typeName,
+        kind: 'interface',
+        methods: methods.map(m => m.childForFieldName('name')?.text).filter((name): name is string => !!name),
+        embedded: names(type.namedChildren.filter(c => c.type !== 'method_spec' && c.type !== 'comment').map(c => c.namedChild(0) ?? c)),
+        line
+      });
+    } else {
+      sets.set(typeName, {
+        typeName,
+        kind: 'type',
+        methods: [],
+        embedded: type.type === 'struct_type' ? names(goEmbeddedFields(type)) : [],
+        line
+      });
+    }
+  }
+
+  for (const method of root.descendantsOfType('method_declaration')) {
+    const receiver = method.childForFieldName('receiver')?.descendantsOfType('type_identifier')[0]?.text;
+    const name = method.childForFieldName('name')?.text;
+    if (!receiver || !name) continue;
+    let set = sets.get(receiver);
+    if (!set) {
+      set = { typeName: receiver, kind: 'type', methods: [], embedded: [], line: null };
+      sets.set(receiver, set);
+    }
+    if (set.kind === 'type') set.methods.push(name);
+  }
+
+  return [...sets.values()];
+}
+
+const C_FUNCTION_DECLARATORS = `
+  (function_definition declarator: (function_declarator declarator: (identifier) @name)) @func
+  (function_definition declarator: (pointer_declarator declarator: (function_declarator declarator: (identifier) @name))) @func
+`;
+
 const LANGUAGE_CONFIGS: Record<string, LanguageConfig> = {
   typescript: {
     wasmFile: 'tree-sitter-typescript.wasm',
@@ -30,6 +307,7 @@ const LANGUAGE_CONFIGS: Record<string, LanguageConfig> = {
       `,
       classes: `
         (class_declaration name: (type_identifier) @name) @class
+        (abstract_class_declaration name: (type_identifier) @name) @class
       `,
       interfaces: `
         (interface_declaration name: (type_identifier) @name) @interface
@@ -42,8 +320,27 @@ const LANGUAGE_CONFIGS: Record<string, LanguageConfig> = {
       `,
       exports: `
         (export_statement) @export
+      `,
+      calls: `
+        (call_expression function: (identifier) @callee) @call
+        (call_expression function: (member_expression object: (_) @qualifier property: (property_identifier) @callee)) @call
+        (new_expression constructor: (identifier) @callee) @call
+      `,
+      references: `
+        (identifier) @ref
+        (type_identifier) @ref
+        (shorthand_property_identifier) @ref
+        (member_expression object: (identifier) @qualifier property: (property_identifier) @ref)
+        (member_expression object: (this) @qualifier property: (property_identifier) @ref)
+        (nested_type_identifier module: (identifier) @qualifier name: (type_identifier) @ref)
+      `,
+      hierarchy: `
+        (class_declaration) @type
+        (abstract_class_declaration) @type
+        (interface_declaration) @type
       `
-    }
+    },
+    readSupertypes: readClassHeritage
   },
   javascript: {
     wasmFile: 'tree-sitter-javascript.wasm',
@@ -62,8 +359,21 @@ const LANGUAGE_CONFIGS: Record<string, LanguageConfig> = {
       `,
       exports: `
         (export_statement) @export
-      `
-    }
+      `,
+      calls: `
+        (call_expression function: (identifier) @callee) @call
+        (call_expression function: (member_expression object: (_) @qualifier property: (property_identifier) @callee)) @call
+        (new_expression constructor: (identifier) @callee) @call
+      `,
+      references: `
+        (identifier) @ref
+        (shorthand_property_identifier) @ref
+        (member_expression object: (identifier) @qualifier property: (property_identifier) @ref)
+        (member_expression object: (this) @qualifier property: (property_identifier) @ref)
+      `,
+      hierarchy: `(class_declaration) @type`
+    },
+    readSupertypes: readClassHeritage
   },
   python: {
     wasmFile: 'tree-sitter-python.wasm',
@@ -78,23 +388,52 @@ const LANGUAGE_CONFIGS: Record<string, LanguageConfig> = {
       imports: `
         (import_statement) @import
         (import_from_statement) @import
-      `
-    }
+      `,
+      calls: `
+        (call function: (identifier) @callee) @call
+        (call function: (attribute object: (_) @qualifier attribute: (identifier) @callee)) @call
+      `,
+      references: `
+        (identifier) @ref
+        (attribute object: (identifier) @qualifier attribute: (identifier) @ref)
+      `,
+      hierarchy: `(class_definition) @type`
+    },
+    readSupertypes: readPythonSupertypes
   },
   go: {
     wasmFile: 'tree-sitter-go.wasm',
     extensions: ['.go'],
     queries: {
       functions: `(function_declaration name: (identifier) @name) @func`,
-      classes: `(type_declaration (type_spec name: (type_identifier) @name type: (struct_type))) @class`
-    }
+      classes: `(type_declaration (type_spec name: (type_identifier) @name type: (struct_type))) @class`,
+      interfaces: `(type_declaration (type_spec name: (type_identifier) @name type: (interface_type))) @interface`,
+      imports: `(import_spec path: (interpreted_string_literal) @path) @import`,
+      calls: `
+        (call_expression function: (identifier) @callee) @call
+        (call_expression function: (selector_expression operand: (_) @qualifier field: (field_identifier) @callee)) @call
+      `,
+      references: `
+        (identifier) @ref
+        (type_identifier) @ref
+        (selector_expression operand: (identifier) @qualifier field: (field_identifier) @ref)
+        (qualified_type package: (package_identifier) @qualifier name: (type_identifier) @ref)
+      `,
+      hierarchy: `(type_spec) @type`
+    },
+    readSupertypes: readGoSupertypes,
+    readMethodSets: readGoMethodSets
   },
   rust: {
     wasmFile: 'tree-sitter-rust.wasm',
     extensions: ['.rs'],
     queries: {
       functions: `(function_item name: (identifier) @name) @func`,
-      classes: `(struct_item name: (type_identifier) @name) @class`
+      classes: `(struct_item name: (type_identifier) @name) @class`,
+      imports: `
+        (use_declaration) @import
+        (mod_item name: (identifier) @name) @import
+      `
     }
   },
   java: {
@@ -102,14 +441,165 @@ const LANGUAGE_CONFIGS: Record<string, LanguageConfig> = {
     extensions: ['.java'],
     queries: {
       functions: `(method_declaration name: (identifier) @name) @func`,
-      classes: `(class_declaration name: (identifier) @name) @class`
-    }
+      classes: `(class_declaration name: (identifier) @name) @class`,
+      interfaces: `(interface_declaration name: (identifier) @name) @interface`,
+      hierarchy: `
+        (class_declaration) @type
+        (interface_declaration) @type
+      `
+    },
+    readSupertypes: readJavaSupertypes
+  },
+  csharp: {
+    wasmFile: 'tree-sitter-c_sharp.wasm',
+    extensions: ['.cs'],
+    queries: {
+      methods: `(method_declaration name: (identifier) @name) @method`,
+      classes: `
+        (class_declaration name: (identifier) @name) @class
+        (struct_declaration name: (identifier) @name) @class
+        (record_declaration name: (identifier) @name) @class
+      `,
+      interfaces: `(interface_declaration name: (identifier) @name) @interface`,
+      enums: `(enum_declaration name: (identifier) @name) @enum`,
+      imports: `(using_directive) @import`,
+      hierarchy: `
+        (class_declaration) @type
+        (struct_declaration) @type
+        (record_declaration) @type
+        (interface_declaration) @type
+      `
+    },
+    isExported: node => {
+      const words = modifierWords(node);
+      if (words.includes('private')) return false;
+      if (words.some(w => w === 'public' || w === 'internal' || w === 'protected')) return true;
+      // Without an access modifier types are internal and members private, except on interfaces
+      return !node.type.startsWith('method') || node.parent?.parent?.type === 'interface_declaration';
+    },
+    readImports: readQualifiedImport,
+    readSupertypes: readCSharpSupertypes
+  },
+  ruby: {
+    wasmFile: 'tree-sitter-ruby.wasm',
+    extensions: ['.rb'],
+    queries: {
+      functions: `(program (method name: (_) @name) @func)`,
+      methods: `
+        (body_statement (method name: (_) @name) @method)
+        (singleton_method name: (_) @name) @method
+      `,
+      classes: `
+        (class name: (constant) @name) @class
+        (module name: (constant) @name) @class
+      `,
+      imports: `(call method: (identifier) arguments: (argument_list)) @import`
+    },
+    isExported: () => true,
+    readImports: readRubyImport
+  },
+  php: {
+    wasmFile: 'tree-sitter-php.wasm',
+    extensions: ['.php'],
+    queries: {
+      functions: `(function_definition name: (name) @name) @func`,
+      methods: `(method_declaration name: (name) @name) @method`,
+      classes: `
+        (class_declaration name: (name) @name) @class
+        (trait_declaration name: (name) @name) @class
+      `,
+      interfaces: `(interface_declaration name: (name) @name) @interface`,
+      enums: `(enum_declaration name: (name) @name) @enum`,
+      imports: `
+        (namespace_use_declaration) @import
+        (require_expression) @import
+        (require_once_expression) @import
+        (include_expression) @import
+        (include_once_expression) @import
+      `
+    },
+    isExported: node => !modifierWords(node).some(w => w === 'private' || w === 'protected'),
+    readImports: readPhpImport
+  },
+  kotlin: {
+    wasmFile: 'tree-sitter-kotlin.wasm',
+    extensions: ['.kt', '.kts'],
+    queries: {
+      functions: `(source_file (function_declaration (simple_identifier) @name) @func)`,
+      methods: `(class_body (function_declaration (simple_identifier) @name) @method)`,
+      classes: `
+        (class_declaration (type_identifier) @name) @class
+        (object_declaration (type_identifier) @name) @class
+      `,
+      interfaces: `(class_declaration "interface" (type_identifier) @name) @interface`,
+      enums: `(class_declaration "enum" (type_identifier) @name) @enum`,
+      types: `(type_alias (type_identifier) @name) @type`,
+      imports: `(import_header) @import`
+    },
+    isExported: node => !modifierWords(node).some(w => w === 'private' || w === 'protected'),
+    readImports: readQualifiedImport
+  },
+  swift: {
+    wasmFile: 'tree-sitter-swift.wasm',
+    extensions: ['.swift'],
+    queries: {
+      functions: `(source_file (function_declaration name: (simple_identifier) @name) @func)`,
+      methods: `
+        (class_body (function_declaration name: (simple_identifier) @name) @method)
+        (protocol_function_declaration name: (simple_identifier) @name) @method
+      `,
+      classes: `(class_declaration name: (type_identifier) @name) @class`,
+      interfaces: `(protocol_declaration name: (type_identifier) @name) @interface`,
+      enums: `(class_declaration "enum" name: (type_identifier) @name) @enum`,
+      types: `(typealias_declaration name: (type_identifier) @name) @type`,
+      imports: `(import_declaration) @import`
+    },
+    isExported: node => !modifierWords(node).some(w => w === 'private' || w === 'fileprivate'),
+    readImports: readQualifiedImport
+  },
+  c: {
+    wasmFile: 'tree-sitter-c.wasm',
+    extensions: ['.c', '.h'],
+    queries: {
+      functions: C_FUNCTION_DECLARATORS,
+      classes: `(struct_specifier name: (type_identifier) @name body: (_)) @class`,
+      types: `(type_definition declarator: (type_identifier) @name) @type`,
+      enums: `(enum_specifier name: (type_identifier) @name body: (_)) @enum`,
+      imports: `(preproc_include) @import`
+    },
+    isExported: node => !modifierWords(node).includes('static'),
+    readImports: readInclude
+  },
+  cpp: {
+    wasmFile: 'tree-sitter-cpp.wasm',
+    extensions: ['.cpp', '.cc', '.cxx', '.hpp', '.hh', '.hxx'],
+    queries: {
+      functions: C_FUNCTION_DECLARATORS,
+      methods: `
+        (function_definition declarator: (function_declarator declarator: (field_identifier) @name)) @method
+        (function_definition declarator: (function_declarator declarator: (qualified_identifier name: (identifier) @name))) @method
+        (field_declaration declarator: (function_declarator declarator: (field_identifier) @name)) @method
+      `,
+      classes: `
+        (class_specifier name: (type_identifier) @name body: (_)) @class
+        (struct_specifier name: (type_identifier) @name body: (_)) @class
+      `,
+      types: `
+        (type_definition declarator: (type_identifier) @name) @type
+        (alias_declaration name: (type_identifier) @name) @type
+      `,
+      enums: `(enum_specifier name: (type_identifier) @name body: (_)) @enum`,
+      imports: `(preproc_include) @import`
+    },
+    isExported: node => !modifierWords(node).includes('static'),
+    readImports: readInclude
   }
 };
 
 export class ASTParser {
   private parser: Parser | null = null;
-  private languages: Map<string, Parser.Language> = new Map();
+  private languages: Map<string, Promise<Parser.Language | null>> = new Map();
+  private loadQueue: Promise<unknown> = Promise.resolve();
   private initialized = false;
   private dataDir: string;
 
@@ -128,31 +618,36 @@ export class ASTParser {
     }
   }
 
-  private async loadLanguage(langName: string): Promise<Parser.Language | null> {
-    if (this.languages.has(langName)) {
-      return this.languages.get(langName)!;
-    }
+  private loadLanguage(langName: string): Promise<Parser.Language | null> {
+    const cached = this.languages.get(langName);
+    if (cached) return cached;
 
     const config = LANGUAGE_CONFIGS[langName];
-    if (!config || !this.initialized) return null;
+    if (!config || !this.initialized) return Promise.resolve(null);
 
-    try {
-      // Load WASM from the tree-sitter-wasms package
-      const wasmPath = fileURLToPath(import.meta.resolve(`tree-sitter-wasms/out/${config.wasmFile}`));
-      
-      if (!existsSync(wasmPath)) {
-        console.warn(`WASM file not found for ${langName}: ${wasmPath}`);
+    // Grammars are linked into one shared WASM module, so two loads must never
+    // overlap: files parsed concurrently would lose the race and fall back to regex
+    const loading = this.loadQueue.then(async () => {
+      try {
+        // Load WASM from the tree-sitter-wasms package
+        const wasmPath = fileURLToPath(import.meta.resolve(`tree-sitter-wasms/out/${config.wasmFile}`));
+
+        if (!existsSync(wasmPath)) {
+          console.warn(`WASM file not found for ${langName}: ${wasmPath}`);
+          return null;
+        }
+
+        const wasmData = readFileSync(wasmPath);
+        return await Parser.Language.load(wasmData);
+      } catch (error) {
+        console.warn(`Failed to load tree-sitter language ${langName}:`, error);
+        this.languages.delete(langName);
         return null;
       }
-
-      const wasmData = readFileSync(wasmPath);
-      const language = await Parser.Language.load(wasmData);
-      this.languages.set(langName, language);
-      return language;
-    } catch (error) {
-      console.warn(`Failed to load tree-sitter language ${langName}:`, error);
-      return null;
-    }
+    });
+    this.loadQueue = loading;
+    this.languages.set(langName, loading);
+    return loading;
   }
 
   getLanguageForFile(filePath: string): string | null {
@@ -170,16 +665,125 @@ export class ASTParser {
     symbols: CodeSymbol[];
     imports: Import[];
     exports: Export[];
+    calls: CallSite[];
+    references: ReferenceSite[];
+    typeRelations: TypeRelationSite[];
+    methodSets: MethodSet[];
+    component?: ComponentInfo;
+    schema?: SchemaOperation[];
+    tableReferences: TableReferenceSite[];
+    routes: RouteSite[];
+    routeMounts: RouteMount[];
+    envVars: EnvVarSite[];
   } | null> {
     if (!this.initialized) {
       await this.initialize();
     }
 
+    // Migrations and Prisma schemas: tables instead of code
+    const format = schemaFormat(filePath);
+    if (format) {
+      const { operations, symbols } = parseSchemaFile(filePath, content, format);
+      return {
+        symbols, imports: [], exports: [], calls: [], references: [], typeRelations: [], methodSets: [],
+        schema: operations,
+        tableReferences: [],
+        routes: [],
+        routeMounts: [],
+        envVars: []
+      };
+    }
+
+    // .env.example and friends: the variables a project expects, nothing to parse as code
+    if (isEnvExampleFile(filePath)) {
+      return {
+        symbols: [], imports: [], exports: [], calls: [], references: [], typeRelations: [], methodSets: [],
+        tableReferences: [],
+        routes: [],
+        routeMounts: [],
+        envVars: findEnvVars(filePath, content)
+      };
+    }
+
+    const framework = componentFramework(filePath);
+    const lang = this.getLanguageForFile(filePath);
+    const result = framework
+      ? await this.parseComponent(filePath, content, framework)
+      : await this.parseSource(filePath, content, lang);
+    // Only code names tables; prose and config would only add noise
+    const { routes, mounts } = findRoutes(filePath, content);
+    return {
+      ...result,
+      tableReferences: framework || lang ? findTableReferences(content) : [],
+      routes,
+      routeMounts: mounts,
+      envVars: findEnvVars(filePath, content)
+    };
+  }
+
+  // .vue / .svelte: parse the script blocks with the TS/JS grammar and describe the component
+  private async parseComponent(filePath: string, content: string, framework: ComponentFramework): Promise<{
+    symbols: CodeSymbol[];
+    imports: Import[];
+    exports: Export[];
+    calls: CallSite[];
+    references: ReferenceSite[];
+    typeRelations: TypeRelationSite[];
+    methodSets: MethodSet[];
+    component: ComponentInfo;
+  }> {
+    const script = extractScripts(content);
+    const result = script
+      ? await this.parseSource(filePath, script.source, script.lang)
+      : { symbols: [], imports: [], exports: [], calls: [], references: [], typeRelations: [], methodSets: [] };
+
+    // The component itself is the file's default export
+    const name = componentName(filePath);
+    const lineEnd = content.split('\n').length;
+    const symbol: CodeSymbol = {
+      fileId: 0,
+      filePath,
+      kind: 'class',
+      name,
+      signature: `<${name}> (${framework} component)`,
+      lineStart: 1,
+      lineEnd,
+      exported: true
+    };
+    const symbols = [symbol, ...result.symbols];
+    const exports = result.exports.some(e => e.isDefault)
+      ? result.exports
+      : [...result.exports, { fileId: 0, filePath, exportedName: name, isDefault: true, lineNumber: 1 }];
+
+    return {
+      symbols,
+      imports: result.imports,
+      exports,
+      calls: this.assignCallers(result.calls.filter(c => !COMPILER_MACROS.has(c.calleeName)), symbols),
+      references: result.references.map(ref => ({ ...ref, containerName: ref.containerName ?? name })),
+      typeRelations: result.typeRelations,
+      methodSets: result.methodSets,
+      component: extractComponentInfo(framework, script?.source ?? '', result.imports)
+    };
+  }
+
+  private async parseSource(filePath: string, content: string, lang: string | null): Promise<{
+    symbols: CodeSymbol[];
+    imports: Import[];
+    exports: Export[];
+    calls: CallSite[];
+    references: ReferenceSite[];
+    typeRelations: TypeRelationSite[];
+    methodSets: MethodSet[];
+  }> {
     // Always run the regex parser to get imports and exports
     // (since our tree-sitter queries don't extract them fully yet)
-    let { symbols, imports, exports } = this.parseWithRegex(filePath, content);
+    let { symbols, imports, exports } = this.parseWithRegex(filePath, content, lang);
+    let calls: CallSite[] = [];
+    let references: ReferenceCandidate[] = [];
+    let typeRelations: TypeRelationSite[] = [];
+    let methodSets: MethodSet[] = [];
 
-    const lang = this.getLanguageForFile(filePath);
     if (lang && this.initialized) {
       const language = await this.loadLanguage(lang);
       if (language) {
@@ -189,13 +793,92 @@ export class ASTParser {
           if (tsResult.symbols.length > 0) {
             symbols = tsResult.symbols;
           }
+          // Languages without a regex parser get imports and exports from the tree
+          if (imports.length === 0) imports = tsResult.imports;
+          if (exports.length === 0) exports = tsResult.exports;
+          calls = tsResult.calls;
+          references = tsResult.references;
+          typeRelations = tsResult.typeRelations;
+          methodSets = tsResult.methodSets;
         } catch (error) {
           console.warn(`Tree-sitter parsing failed for ${filePath}, falling back to regex:`, error);
         }
       }
     }
 
-    return { symbols, imports, exports };
+    symbols = attachDocstrings(symbols, content, lang);
+
+    return {
+      symbols,
+      imports,
+      exports,
+      calls: this.assignCallers(calls, symbols),
+      references: this.filterReferences(references, symbols, imports, exports, lang),
+      typeRelations,
+      methodSets
+    };
+  }
+
+  // Attribute each call to the innermost function/method/class around it
+  private assignCallers(calls: CallSite[], symbols: CodeSymbol[]): CallSite[] {
+    const scopeAt = this.scopeFinder(symbols);
+    return calls.map(call => ({ ...call, callerName: scopeAt(call.line) }));
+  }
+
+  // The innermost function/method/class around a line, null at module level
+  private scopeFinder(symbols: CodeSymbol[]): (line: number) => string | null {
+    const scopes = symbols
+      .filter(s => s.kind === 'function' || s.kind === 'method' || s.kind === 'class')
+      .sort((a, b) => (a.lineEnd - a.lineStart) - (b.lineEnd - b.lineStart));
+
+    return line => scopes.find(s => s.lineStart <= line && line <= s.lineEnd)?.name ?? null;
+  }
+
+  /**
+   * Keep the references that can name an indexed symbol: imported bindings,
+   * members of imported modules and the file's own symbols. Where other files'
+   * names are in scope without an import (a Go package, a Python star import)
+   * only calls and type uses are kept, to leave out locals.
+   */
+  private filterReferences(
+    candidates: ReferenceCandidate[],
+    symbols: CodeSymbol[],
+    imports: Import[],
+    exports: Export[],
+    lang: string | null
+  ): ReferenceSite[] {
+    const own = new Set([
+      ...symbols.flatMap(s => [s.name, lastSegment(s.name, /\./)]),
+      ...exports.filter(e => !e.isDefault).map(e => e.exportedName)
+    ]);
+    const builtins = BUILTIN_NAMES[lang ?? ''];
+    const bindings = new Set<string>();
+    const modules = new Set<string>();
+    let implicitScope = lang === 'go';
+
+    for (const imp of imports) {
+      modules.add(imp.importedFrom);
+      for (const name of imp.importedSymbols) {
+        if (name === '*') {
+          if (imp.isNamespace) implicitScope = true;
+          continue;
+        }
+        // Go imports and namespace imports bind a module, not a symbol
+        if (imp.isNamespace || lang === 'go') modules.add(name);
+        else bindings.add(name);
+      }
+    }
+
+    const scopeAt = this.scopeFinder(symbols);
+    const references: ReferenceSite[] = [];
+    for (const { inCallOrType, ...ref } of candidates) {
+      const keep = ref.qualifier === undefined
+        ? bindings.has(ref.name) || (own.has(ref.name) && !modules.has(ref.name)) || (implicitScope && inCallOrType && !builtins?.has(ref.name))
+        : modules.has(ref.qualifier) || bindings.has(ref.qualifier) || own.has(ref.qualifier)
+          || (SELF_QUALIFIERS.has(ref.qualifier) && own.has(ref.name));
+      if (keep) references.push({ ...ref, containerName: scopeAt(ref.line) });
+    }
+    return references;
   }
 
   private parseWithTreeSitter(
@@ -207,6 +890,10 @@ export class ASTParser {
     symbols: CodeSymbol[];
     imports: Import[];
     exports: Export[];
+    calls: CallSite[];
+    references: ReferenceCandidate[];
+    typeRelations: TypeRelationSite[];
+    methodSets: MethodSet[];
   } {
     const parser = new Parser();
     parser.setLanguage(language);
@@ -219,8 +906,12 @@ export class ASTParser {
     const symbols: CodeSymbol[] = [];
     const imports: Import[] = [];
     const exports: Export[] = [];
+    const calls: CallSite[] = [];
+    const references: ReferenceCandidate[] = [];
+    const typeRelations: TypeRelationSite[] = [];
+    const methodSets: MethodSet[] = [];
 
-    if (!config) return { symbols, imports, exports };
+    if (!config) return { symbols, imports, exports, calls, references, typeRelations, methodSets };
 
     // Helper to run query and map results
     const runQuery = (queryString: string, kind: SymbolKind) => {
@@ -235,18 +926,29 @@ export class ASTParser {
           if (nameCapture) {
             const node = nameCapture.node;
             // Get the parent node (the actual function/class declaration) to get the full line range
-            const defNode = match.captures[0]?.node || node.parent || node;
-            
+            const defNode = match.captures.find(c => c.name !== 'name')?.node || node.parent || node;
+            const lineStart = defNode.startPosition.row + 1;
+            const lineEnd = defNode.endPosition.row + 1;
+
+            // Interfaces and enums also match the broader class query in some grammars (Kotlin, Swift)
+            const existing = symbols.find(s => s.name === node.text && s.lineStart === lineStart && s.lineEnd === lineEnd);
+            if (existing) {
+              existing.kind = kind;
+              continue;
+            }
+
             symbols.push({
               fileId: 0,
               filePath,
               kind,
               name: node.text,
-              lineStart: defNode.startPosition.row + 1,
-              lineEnd: defNode.endPosition.row + 1,
+              lineStart,
+              lineEnd,
               // Check if parent or grandparent is an export statement, typical in TS/JS
-              exported: defNode.parent?.type === 'export_statement' || defNode.parent?.parent?.type === 'export_statement',
-              signature: content.slice(defNode.startIndex, defNode.endIndex).split('\\n')[0]
+              exported: config.isExported
+                ? config.isExported(defNode)
+                : defNode.parent?.type === 'export_statement' || defNode.parent?.parent?.type === 'export_statement',
+              signature: content.slice(defNode.startIndex, defNode.endIndex).split('\n')[0]?.trim()
             });
           }
         }
@@ -256,22 +958,141 @@ export class ASTParser {
     };
 
     if (config.queries.functions) runQuery(config.queries.functions, 'function');
+    if (config.queries.methods) runQuery(config.queries.methods, 'method');
     if (config.queries.classes) runQuery(config.queries.classes, 'class');
     if (config.queries.interfaces) runQuery(config.queries.interfaces, 'interface');
     if (config.queries.types) runQuery(config.queries.types, 'type');
+    if (config.queries.enums) runQuery(config.queries.enums, 'enum');
+
+    // Imports for languages the regex parser doesn't cover
+    if (config.queries.imports && config.readImports) {
+      try {
+        for (const match of language.query(config.queries.imports).matches(tree.rootNode)) {
+          const node = match.captures.find(c => c.name === 'import')?.node;
+          if (!node) continue;
+          for (const spec of config.readImports(node)) {
+            imports.push({
+              fileId: 0,
+              filePath,
+              importedFrom: spec.from,
+              importedSymbols: spec.symbols,
+              isDefault: false,
+              isNamespace: spec.namespace ?? false,
+              lineNumber: node.startPosition.row + 1
+            });
+          }
+        }
+      } catch (err) {
+        console.warn(`Query error for imports in ${langName}:`, err);
+      }
+    }
+
+    // Exported top-level definitions; methods travel with their class
+    for (const symbol of symbols) {
+      if (symbol.exported && symbol.kind !== 'method') {
+        exports.push({ fileId: 0, filePath, exportedName: symbol.name, isDefault: false, lineNumber: symbol.lineStart });
+      }
+    }
     
+    // Call sites for the call graph; callers are attributed once symbols are final
+    if (config.queries.calls) {
+      try {
+        const seen = new Set<string>();
+        for (const match of language.query(config.queries.calls).matches(tree.rootNode)) {
+          const callee = match.captures.find(c => c.name === 'callee')?.node;
+          if (!callee) continue;
+
+          const qualifierText = match.captures.find(c => c.name === 'qualifier')?.node.text;
+          // Only plain names and dotted paths can be resolved later
+          const qualifier = qualifierText === undefined ? undefined
+            : /^[\w$.]{1,100}$/.test(qualifierText) ? qualifierText : '<expr>';
+          const line = callee.startPosition.row + 1;
+
+          const key = `${qualifier ?? ''}.${callee.text}@${line}`;
+          if (seen.has(key)) continue;
+          seen.add(key);
+
+          calls.push({ callerName: null, calleeName: callee.text, qualifier, line });
+        }
+      } catch (err) {
+        console.warn(`Query error for calls in ${langName}:`, err);
+      }
+    }
+
+    // Identifier uses for find-all-references; filtered once imports are known
+    if (config.queries.references) {
+      try {
+        const lines = content.split('\n');
+        const byNode = new Map<number, ReferenceCandidate>();
+        for (const match of language.query(config.queries.references).matches(tree.rootNode)) {
+          const node = match.captures.find(c => c.name === 'ref')?.node;
+          if (!node) continue;
+          const qualifier = match.captures.find(c => c.name === 'qualifier')?.node.text;
+          // `ns` in ns.name also matches as a plain identifier; the qualified match wins
+          const existing = byNode.get(node.startIndex);
+          if (existing && (existing.qualifier !== undefined || qualifier === undefined)) continue;
+
+          const parent = node.parent;
+          const definedName = parent?.childForFieldName('name');
+          if (parent && definedName?.startIndex === node.startIndex && DEFINITION_PARENT.test(parent.type)) continue;
+
+          const line = node.startPosition.row + 1;
+          const callee = parent?.childForFieldName('function') ?? parent?.childForFieldName('constructor');
+          byNode.set(node.startIndex, {
+            name: node.text,
+            qualifier,
+            line,
+            column: node.startPosition.column + 1,
+            snippet: (lines[line - 1] ?? '').trim().slice(0, SNIPPET_MAX),
+            containerName: null,
+            inCallOrType: node.type === 'type_identifier' || callee?.startIndex === node.startIndex
+          });
+        }
+        references.push(...[...byNode.values()].sort((a, b) => a.line - b.line || a.column - b.column));
+      } catch (err) {
+        console.warn(`Query error for references in ${langName}:`, err);
+      }
+    }
+
+    // Supertypes named in extends/implements clauses, for the type hierarchy
+    if (config.queries.hierarchy && config.readSupertypes) {
+      try {
+        for (const match of language.query(config.queries.hierarchy).matches(tree.rootNode)) {
+          const node = match.captures.find(c => c.name === 'type')?.node;
+          const name = node?.childForFieldName('name');
+          if (!node || !name) continue;
+          for (const { relation, type } of config.readSupertypes(node)) {
+            const base = readTypeName(type);
+            if (!base) continue;
+            typeRelations.push({
+              typeName: name.text,
+              relation,
+              baseName: base.name,
+              qualifier: base.qualifier,
+              line: name.startPosition.row + 1
+            });
+          }
+        }
+      } catch (err) {
+        console.warn(`Query error for hierarchy in ${langName}:`, err);
+      }
+    }
+    if (config.readMethodSets) {
+      methodSets.push(...config.readMethodSets(tree.rootNode));
+    }
+
     // Not implementing exact imports/exports extraction via Tree-sitter yet,
     // as it requires more complex language-specific handling (e.g., getting string values).
     // Will rely on regex parser for the imports/exports portion as a fallback below
     // unless the tree-sitter symbols array is deemed sufficient.
     
-    return { symbols, imports, exports };
+    return { symbols, imports, exports, calls, references, typeRelations, methodSets };
   }
 
   // Regex-based parsing for symbol extraction
   // Handles: functions, classes, interfaces, types, imports, exports
   // Supports: TypeScript, JavaScript, Python, Go, Rust, Java
-  private parseWithRegex(filePath: string, content: string): {
+  private parseWithRegex(filePath: string, content: string, lang: string | null): {
     symbols: CodeSymbol[];
     imports: Import[];
     exports: Export[];
@@ -280,7 +1101,6 @@ export class ASTParser {
     const imports: Import[] = [];
     const exports: Export[] = [];
     const lines = content.split('\n');
-    const lang = this.getLanguageForFile(filePath);
 
     if (lang === 'typescript' || lang === 'javascript') {
       this.parseTypeScriptJS(filePath, content, lines, symbols, imports, exports);
@@ -323,6 +1143,7 @@ export class ASTParser {
       importSideEffect: /^import\s*['"]([^'"]+)['"]/,
       // Exports
       exportNamed: /^export\s+(?:type\s+)?\{([^}]+)\}/,
+      reexport: /^export\s+(?:type\s+)?(?:(\*)(?:\s+as\s+\w+)?|\{([^}]+)\})\s*from\s*['"]([^'"]+)['"]/,
       exportDefault: /^export\s+default\s+(?:class|function|const|let|var)?\s*(\w+)?/,
       exportDirect: /^export\s+(?:const|let|var|function|class|interface|type|enum|async\s+function)\s+(\w+)/,
       // Enums (TS)
@@ -374,8 +1195,20 @@ export class ASTParser {
         currentClass = null;
       }
 
+      // Default-exported functions and classes are consumed by the symbol patterns below
+      let match = trimmed.match(/^export\s+default\s+(?:abstract\s+)?(?:async\s+)?(?:function\*?|class)\s*(\w+)?/);
+      if (match) {
+        exports.push({
+          fileId: 0,
+          filePath,
+          exportedName: match[1] || 'default',
+          isDefault: true,
+          lineNumber: lineNum
+        });
+      }
+
       // Functions
-      let match = trimmed.match(patterns.function);
+      match = trimmed.match(patterns.function);
       if (match && match[1]) {
         symbols.push({
           fileId: 0,
@@ -509,7 +1342,7 @@ export class ASTParser {
           fileId: 0,
           filePath,
           importedFrom: match[2] || '',
-          importedSymbols: ['*'],
+          importedSymbols: [match[1] || '*'],
           isDefault: false,
           isNamespace: true,
           lineNumber: lineNum
@@ -517,6 +1350,23 @@ export class ASTParser {
         continue;
       }
 
+      // Re-exports load the other module too: export { a } from './a', export * from './b'
+      match = trimmed.match(patterns.reexport);
+      if (match) {
+        const reexported = match[1]
+          ? ['*']
+          : (match[2] || '').split(',').map(s => s.trim().split(/\s+as\s+/)[0]?.trim()).filter((s): s is string => !!s);
+        imports.push({
+          fileId: 0,
+          filePath,
+          importedFrom: match[3] || '',
+          importedSymbols: reexported,
+          isDefault: false,
+          isNamespace: false,
+          lineNumber: lineNum
+        });
+      }
+
       // Exports
       match = trimmed.match(patterns.exportDirect);
       if (match && match[1]) {
@@ -573,8 +1423,8 @@ export class ASTParser {
     const patterns = {
       function: /^(?:async\s+)?def\s+(\w+)\s*\(/,
       class: /^class\s+(\w+)/,
-      import: /^import\s+(\w+(?:\.\w+)*)/,
-      fromImport: /^from\s+(\w+(?:\.\w+)*)\s+import\s+(.+)/,
+      import: /^import\s+(\w+(?:\.\w+)*(?:\s+as\s+\w+)?(?:\s*,\s*\w+(?:\.\w+)*(?:\s+as\s+\w+)?)*)/,
+      fromImport: /^from\s+(\.+(?:\w+(?:\.\w+)*)?|\w+(?:\.\w+)*)\s+import\s+(.+)/,
     };
 
     for (let i = 0; i < lines.length; i++) {
@@ -617,25 +1467,41 @@ export class ASTParser {
         continue;
       }
 
-      // Imports
+      // Imports: import a.b, c as d
       match = trimmed.match(patterns.import);
       if (match && match[1]) {
-        imports.push({
-          fileId: 0,
-          filePath,
-          importedFrom: match[1],
-          importedSymbols: [match[1].split('.').pop() || match[1]],
-          isDefault: false,
-          isNamespace: true,
-          lineNumber: lineNum
-        });
+        for (const part of match[1].split(',')) {
+          const module = part.trim().split(/\s+as\s+/)[0]?.trim();
+          if (!module || !/^\w+(?:\.\w+)*$/.test(module)) continue;
+          imports.push({
+            fileId: 0,
+            filePath,
+            importedFrom: module,
+            importedSymbols: [module.split('.').pop() || module],
+            isDefault: false,
+            isNamespace: true,
+            lineNumber: lineNum
+          });
+        }
         continue;
       }
 
+      // from a.b import c, d / from . import c / from ..pkg import (c, d)
       match = trimmed.match(patterns.fromImport);
       if (match) {
         const from = match[1] || '';
-        const imported = match[2]?.split(',').map(s => s.trim().split(/\s+as\s+/)[0]?.trim()).filter((s): s is string => !!s) || [];
+        let names = match[2] || '';
+
+        // Parenthesized lists can span lines
+        if (names.startsWith('(') && !names.includes(')')) {
+          while (i + 1 < lines.length && !names.includes(')')) {
+            i++;
+            names += ' ' + (lines[i] || '').split('#')[0];
+          }
+        }
+        names = names.replace(/[()]/g, '').split('#')[0] || '';
+
+        const imported = names.split(',').map(s => s.trim().split(/\s+as\s+/)[0]?.trim()).filter((s): s is string => !!s);
         imports.push({
           fileId: 0,
           filePath,
@@ -668,7 +1534,7 @@ export class ASTParser {
       if (trimmed.startsWith('//')) continue;
 
       // Handle import blocks
-      if (trimmed === 'import (') {
+      if (/^import\s*\($/.test(trimmed)) {
         inImportBlock = true;
         continue;
       }
@@ -679,8 +1545,8 @@ export class ASTParser {
 
       // Single import or import block item
       const importMatch = inImportBlock
-        ? trimmed.match(/^(?:(\w+)\s+)?"([^"]+)"/)
-        : trimmed.match(/^import\s+(?:(\w+)\s+)?"([^"]+)"/);
+        ? trimmed.match(/^(?:([\w.]+)\s+)?"([^"]+)"/)
+        : trimmed.match(/^import\s+(?:([\w.]+)\s+)?"([^"]+)"/);
       if (importMatch) {
         const alias = importMatch[1];
         const path = importMatch[2] || '';
@@ -841,23 +1707,81 @@ export class ASTParser {
         continue;
       }
 
-      // use statements
-      const useMatch = trimmed.match(/^(?:pub\s+)?use\s+(.+);/);
+      // use statements, possibly grouped and spread over several lines:
+      // use crate::{a::B, c::{self, D}};
+      const useMatch = trimmed.match(/^(?:pub(?:\([^)]*\))?\s+)?use\s+(.+)/);
       if (useMatch) {
-        const path = (useMatch[1] || '').replace(/::/g, '/');
+        let tree = useMatch[1] || '';
+        while (!tree.includes(';') && i + 1 < lines.length) {
+          i++;
+          tree += ' ' + (lines[i] || '').split('//')[0]!.trim();
+        }
+        for (const usePath of this.expandRustUseTree(tree.split(';')[0] || '')) {
+          const path = usePath.replace(/::/g, '/');
+          imports.push({
+            fileId: 0,
+            filePath,
+            importedFrom: path,
+            importedSymbols: [path.split('/').pop() || ''],
+            isDefault: false,
+            isNamespace: path.endsWith('*'),
+            lineNumber: lineNum
+          });
+        }
+        continue;
+      }
+
+      // Out-of-line module declarations (mod foo;) pull in foo.rs or foo/mod.rs
+      const modMatch = trimmed.match(/^(?:pub(?:\([^)]*\))?\s+)?mod\s+(\w+)\s*;/);
+      if (modMatch && modMatch[1]) {
         imports.push({
           fileId: 0,
           filePath,
-          importedFrom: path,
-          importedSymbols: [path.split('/').pop()?.replace(/[{}]/g, '') || ''],
+          importedFrom: `self/${modMatch[1]}`,
+          importedSymbols: [modMatch[1]],
           isDefault: false,
-          isNamespace: path.includes('*'),
+          isNamespace: true,
           lineNumber: lineNum
         });
       }
     }
   }
 
+  // Flatten a Rust use tree into plain paths: "a::{b, c::{d, self}}" -> a::b, a::c::d, a::c
+  private expandRustUseTree(tree: string): string[] {
+    // Drop renames (a::b as c), then all whitespace
+    const text = tree.replace(/\s+as\s+\w+/g, '').replace(/\s+/g, '');
+    const braceStart = text.indexOf('{');
+    if (braceStart === -1) {
+      return [text.replace(/::$/, '')].filter(Boolean);
+    }
+
+    const prefix = text.slice(0, braceStart).replace(/::$/, '');
+    const inner = text.slice(braceStart + 1, text.lastIndexOf('}'));
+
+    // Split the group on top-level commas only
+    const parts: string[] = [];
+    let depth = 0;
+    let current = '';
+    for (const char of inner) {
+      if (char === '{') depth++;
+      if (char === '}') depth--;
+      if (char === ',' && depth === 0) {
+        parts.push(current);
+        current = '';
+      } else {
+        current += char;
+      }
+    }
+    parts.push(current);
+
+    return parts
+      .filter(Boolean)
+      .flatMap(part => this.expandRustUseTree(part))
+      .map(path => (path === 'self' ? prefix : prefix ? `${prefix}::${path}` : path))
+      .filter(Boolean);
+  }
+
   private parseJava(
     filePath: string,
     content: string,
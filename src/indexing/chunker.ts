@@ -0,0 +1,137 @@
+/**
+ * Chunker - Splits a file into symbol-sized pieces for embedding
+ *
+ * One vector per file blurs everything together and can't point at a location.
+ * Instead each top-level symbol gets its own chunk:
+ * 1. Functions, classes, interfaces etc. become one chunk each
+ * 2. Oversized containers (big classes) are split into their members
+ * 3. Code between symbols (imports, top-level statements) becomes 'module' chunks
+ * 4. Anything still longer than MAX_CHUNK_LINES is cut into fixed windows
+ */
+
+import type { CodeChunk, CodeSymbol, SymbolKind } from '../types/index.js';
+
+const MAX_CHUNK_LINES = 120;
+const MIN_VARIABLE_LINES = 3; // Single-line constants aren't worth their own vector
+
+interface Span {
+  name: string | null;
+  kind: SymbolKind | 'module';
+  lineStart: number;
+  lineEnd: number;
+  docstring?: string;
+}
+
+export function chunkFile(content: string, symbols: CodeSymbol[]): CodeChunk[] {
+  const lines = content.split('\n');
+  const total = lines.length;
+
+  const candidates = symbols
+    .filter(isChunkable)
+    .map(s => ({ ...s, lineEnd: Math.min(Math.max(s.lineEnd, s.lineStart), total) }))
+    .filter(s => s.lineStart >= 1 && s.lineStart <= total)
+    // Outer symbols first so nested ones are recognised as children
+    .sort((a, b) => a.lineStart - b.lineStart || b.lineEnd - a.lineEnd);
+
+  const spans = splitRange(lines, 1, total, { name: null, kind: 'module' }, candidates);
+
+  if (spans.length === 0) {
+    // Nothing but whitespace - still record the file so it's known to be indexed
+    spans.push({ name: null, kind: 'module', lineStart: 1, lineEnd: Math.max(total, 1) });
+  }
+
+  return spans.map(span => {
+    const content = lines.slice(span.lineStart - 1, span.lineEnd).join('\n');
+    return { ...span, docstring: docstringOutside(content, span.docstring), content };
+  });
+}
+
+// Doc comments sit above the symbol; Python docstrings are already inside it
+export function docstringOutside(content: string, docstring: string | null | undefined): string | undefined {
+  return docstring && !content.includes(docstring.split('\n')[0]!) ? docstring : undefined;
+}
+
+/**
+ * Text sent to the embedding model for a chunk. The path, symbol name and
+ * doc comment give short chunks enough context to be found by
+ * natural-language queries.
+ */
+export function chunkEmbeddingText(filePath: string, chunk: CodeChunk): string {
+  const label = chunk.name ? `${chunk.kind} ${chunk.name}` : 'module';
+  const doc = chunk.docstring ? `${chunk.docstring}\n` : '';
+  return `${filePath} (${label})\n${doc}${chunk.content}`;
+}
+
+function isChunkable(symbol: CodeSymbol): boolean {
+  if (symbol.kind === 'property') return false;
+  if (symbol.kind === 'variable' || symbol.kind === 'constant') {
+    return symbol.lineEnd - symbol.lineStart + 1 >= MIN_VARIABLE_LINES;
+  }
+  return true;
+}
+
+function splitRange(
+  lines: string[],
+  start: number,
+  end: number,
+  parent: { name: string | null; kind: SymbolKind | 'module' },
+  symbols: CodeSymbol[]
+): Span[] {
+  const spans: Span[] = [];
+  let cursor = start;
+
+  for (let i = 0; i < symbols.length; i++) {
+    const symbol = symbols[i]!;
+    if (symbol.lineStart < cursor || symbol.lineStart > end) continue;
+
+    const symbolEnd = Math.min(symbol.lineEnd, end);
+    pushGap(lines, spans, cursor, symbol.lineStart - 1, parent);
+
+    // Children are the symbols that start inside this one
+    const children: CodeSymbol[] = [];
+    for (let j = i + 1; j < symbols.length && symbols[j]!.lineStart <= symbolEnd; j++) {
+      children.push(symbols[j]!);
+    }
+
+    const length = symbolEnd - symbol.lineStart + 1;
+    if (length > MAX_CHUNK_LINES && children.length > 0) {
+      spans.push(...splitRange(lines, symbol.lineStart, symbolEnd, symbol, children));
+    } else {
+      pushWindows(spans, { name: symbol.name, kind: symbol.kind, lineStart: symbol.lineStart, lineEnd: symbolEnd, docstring: symbol.docstring });
+    }
+
+    cursor = symbolEnd + 1;
+  }
+
+  pushGap(lines, spans, cursor, end, parent);
+  return spans;
+}
+
+// Emit the code between symbols, skipping blank lines and bare braces
+function pushGap(
+  lines: string[],
+  spans: Span[],
+  start: number,
+  end: number,
+  parent: { name: string | null; kind: SymbolKind | 'module' }
+): void {
+  const hasContent = (line: number) => /[\p{L}\p{N}]/u.test(lines[line - 1] ?? '');
+
+  while (start <= end && !hasContent(start)) start++;
+  while (end >= start && !hasContent(end)) end--;
+  if (start > end) return;
+
+  pushWindows(spans, { name: parent.name, kind: parent.kind, lineStart: start, lineEnd: end });
+}
+
+function pushWindows(spans: Span[], span: Span): void {
+  for (let lineStart = span.lineStart; lineStart <= span.lineEnd; lineStart += MAX_CHUNK_LINES) {
+    spans.push({
+      ...span,
+      lineStart,
+      lineEnd: Math.min(lineStart + MAX_CHUNK_LINES - 1, span.lineEnd),
+      // Only the window holding the declaration carries its doc comment
+      docstring: lineStart === span.lineStart ? span.docstring : undefined
+    });
+  }
+}
@@ -0,0 +1,1001 @@
+/**
+ * Database Schema - Tables, columns, relations and indexes from migrations and Prisma models
+ *
+ * `.sql` files are read as DDL: CREATE TABLE, ALTER TABLE (add, drop, rename,
+ * alter and MySQL modify/change), RENAME TABLE, DROP TABLE, CREATE/DROP INDEX.
+ * `.prisma` files contribute one table per model, with @map/@@map names,
+ * @relation foreign keys and @@index/@@unique indexes. Each file becomes an
+ * ordered list of SchemaOperations; buildSchemaModel() replays all of them in
+ * migration order to get the tables as they stand, remembering which file
+ * added each column.
+ *
+ * Migration order comes from the version in the file or directory name
+ * (001_init.sql, V2__add_orders.sql, 20240101120000_init/migration.sql).
+ * Files without one - schema.sql, schema.prisma - describe the current state
+ * and are applied last. Down migrations are skipped.
+ *
+ * findTableReferences() picks out table names in source code: SQL text,
+ * query builder and Prisma client calls, and ORM model declarations.
+ */
+
+import type {
+  CodeSymbol,
+  ColumnChange,
+  SchemaColumn,
+  SchemaForeignKey,
+  SchemaIndex,
+  SchemaLocation,
+  SchemaOperation,
+  TableReferenceSite,
+  TableSchema
+} from '../types/index.js';
+
+export type SchemaFormat = 'sql' | 'prisma';
+
+export interface ParsedSchema {
+  operations: SchemaOperation[];
+  symbols: CodeSymbol[];          // One per table or model, so search and chunking see them
+}
+
+const IDENT = '(?:"[^"]+"|`[^`]+`|\\[[^\\]]+\\]|[\\w$]+)';
+const QNAME = `${IDENT}(?:\\s*\\.\\s*${IDENT})*`;
+
+// Words that end a column's type in a column definition
+const COLUMN_CONSTRAINT = /\b(?:CONSTRAINT|NOT\s+NULL|NULL|PRIMARY\s+KEY|UNIQUE|DEFAULT|REFERENCES|CHECK|GENERATED|COLLATE|AUTO_INCREMENT|AUTOINCREMENT|IDENTITY|ON\s+UPDATE|COMMENT|CHARACTER\s+SET|CHARSET)\b/i;
+
+// Table-level items in a CREATE TABLE body, as opposed to column definitions
+const TABLE_CONSTRAINT = /^(?:CONSTRAINT\b|PRIMARY\s+KEY\b|UNIQUE\b|FOREIGN\s+KEY\b|CHECK\b|EXCLUDE\b|(?:FULLTEXT\s+|SPATIAL\s+)?(?:KEY|INDEX)\b|LIKE\b|PERIOD\b)/i;
+
+// Opens a Postgres dollar-quoted body: $$ or $tag$
+const DOLLAR_TAG = /\$[A-Za-z_]*\$/y;
+
+const SNIPPET_MAX = 200;
+
+export function schemaFormat(filePath: string): SchemaFormat | null {
+  const lower = filePath.toLowerCase();
+  if (lower.endsWith('.sql')) return 'sql';
+  if (lower.endsWith('.prisma')) return 'prisma';
+  return null;
+}
+
+export function parseSchemaFile(filePath: string, content: string, format: SchemaFormat): ParsedSchema {
+  if (format === 'prisma') return parsePrisma(filePath, content);
+  if (isDownMigration(filePath)) return { operations: [], symbols: [] };
+  return parseSql(filePath, upSection(content));
+}
+
+// ============================================================================
+// Migration order
+// ============================================================================
+
+/**
+ * Order schema files the way their migrations run: by version, then path.
+ * Files without a version come after every migration.
+ */
+export function compareSchemaFiles(a: string, b: string): number {
+  const va = migrationVersion(a);
+  const vb = migrationVersion(b);
+  if (va && !vb) return -1;
+  if (!va && vb) return 1;
+  if (va && vb) {
+    for (let i = 0; i < Math.max(va.length, vb.length); i++) {
+      const diff = compareNumeric(va[i] ?? '0', vb[i] ?? '0');
+      if (diff !== 0) return diff;
+    }
+  }
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+// The version of a migration file, from its name or the nearest directory that has one
+export function migrationVersion(filePath: string): string[] | null {
+  const parts = filePath.replace(/\\/g, '/').split('/');
+  const name = (parts.pop() ?? '').replace(/\.[^.]*$/, '');
+  for (const part of [name, ...parts.reverse()]) {
+    const match = part.match(/^[vV]?(\d+(?:[._]\d+)*)(?=$|[_.-])/);
+    if (match?.[1]) return match[1].split(/[._]/);
+  }
+  return null;
+}
+
+function compareNumeric(a: string, b: string): number {
+  const x = a.replace(/^0+(?=\d)/, '');
+  const y = b.replace(/^0+(?=\d)/, '');
+  if (x.length !== y.length) return x.length - y.length;
+  return x < y ? -1 : x > y ? 1 : 0;
+}
+
+// golang-migrate and friends keep the rollback in NNN_name.down.sql
+function isDownMigration(filePath: string): boolean {
+  return /(?:^|[/._-])down\.sql$/i.test(filePath);
+}
+
+// goose and dbmate keep both directions in one file: drop the rollback half
+function upSection(content: string): string {
+  const marker = content.match(/^[ \t]*--[ \t]*(?:\+goose[ \t]+Down|migrate:down)\b/im);
+  return marker?.index !== undefined ? content.slice(0, marker.index) : content;
+}
+
+// ============================================================================
+// SQL
+// ============================================================================
+
+interface Statement {
+  text: string;
+  line: number;
+  endLine: number;
+}
+
+function parseSql(filePath: string, content: string): ParsedSchema {
+  const operations: SchemaOperation[] = [];
+  const symbols: CodeSymbol[] = [];
+
+  for (const statement of splitStatements(content)) {
+    const ops = parseStatement(statement.text, statement.line);
+    operations.push(...ops);
+
+    for (const op of ops) {
+      if (op.kind !== 'create_table') continue;
+      symbols.push({
+        fileId: 0,
+        filePath,
+        kind: 'class',
+        name: op.table,
+        signature: `table ${op.table} (${(op.columns ?? []).map(c => c.name).join(', ')})`,
+        lineStart: statement.line,
+        lineEnd: statement.endLine,
+        exported: false
+      });
+    }
+  }
+
+  return { operations, symbols };
+}
+
+// Split on semicolons outside strings, quoted names, comments and dollar-quoted bodies
+function splitStatements(content: string): Statement[] {
+  const statements: Statement[] = [];
+  let current = '';
+  let line = 1;
+  let startLine = 1;
+  let i = 0;
+
+  const flush = () => {
+    const text = current.trim();
+    if (text) {
+      const leading = current.slice(0, current.length - current.trimStart().length);
+      const firstLine = startLine + (leading.match(/\n/g)?.length ?? 0);
+      statements.push({ text, line: firstLine, endLine: firstLine + (text.match(/\n/g)?.length ?? 0) });
+    }
+    current = '';
+    startLine = line;
+  };
+
+  while (i < content.length) {
+    const ch = content[i]!;
+    const next = content[i + 1];
+
+    if (ch === '-' && next === '-') {
+      const end = content.indexOf('\n', i);
+      i = end === -1 ? content.length : end;
+      continue;
+    }
+    if (ch === '/' && next === '*') {
+      const end = content.indexOf('*/', i + 2);
+      const comment = content.slice(i, end === -1 ? content.length : end + 2);
+      // Keep the newlines so statement lines stay right
+      current += comment.replace(/[^\n]/g, ' ');
+      line += comment.match(/\n/g)?.length ?? 0;
+      i += comment.length;
+      continue;
+    }
+    if (ch === '\'' || ch === '"' || ch === '`') {
+      let end = i + 1;
+      while (end < content.length) {
+        if (content[end] === ch) {
+          if (content[end + 1] === ch) { end += 2; continue; }
+          break;
+        }
+        end++;
+      }
+      const quoted = content.slice(i, end + 1);
+      current += quoted;
+      line += quoted.match(/\n/g)?.length ?? 0;
+      i = end + 1;
+      continue;
+    }
+    if (ch === '$') {
+      DOLLAR_TAG.lastIndex = i;
+      const tag = DOLLAR_TAG.exec(content)?.[0];
+      if (tag) {
+        const end = content.indexOf(tag, i + tag.length);
+        const body = content.slice(i, end === -1 ? content.length : end + tag.length);
+        current += body;
+        line += body.match(/\n/g)?.length ?? 0;
+        i += body.length;
+        continue;
+      }
+    }
+    if (ch === ';') {
+      flush();
+      i++;
+      continue;
+    }
+
+    if (ch === '\n') line++;
+    current += ch;
+    i++;
+  }
+  flush();
+
+  return statements;
+}
+
+function parseStatement(text: string, line: number): SchemaOperation[] {
+  const createTable = text.match(new RegExp(
+    `^CREATE\\s+(?:OR\\s+REPLACE\\s+)?(?:(?:GLOBAL|LOCAL)\\s+)?(TEMP(?:ORARY)?\\s+|UNLOGGED\\s+)?TABLE\\s+(?:IF\\s+NOT\\s+EXISTS\\s+)?(${QNAME})\\s*\\(`,
+    'i'
+  ));
+  if (createTable) {
+    if (createTable[1]?.trim().toUpperCase().startsWith('TEMP')) return [];
+    const body = balanced(text, createTable[0].length - 1);
+    return body === null ? [] : [parseCreateTable(unquote(createTable[2]!), body, line)];
+  }
+
+  const alterTable = text.match(new RegExp(`^ALTER\\s+TABLE\\s+(?:IF\\s+EXISTS\\s+)?(?:ONLY\\s+)?(${QNAME})\\s+([\\s\\S]+)$`, 'i'));
+  if (alterTable) {
+    const table = unquote(alterTable[1]!);
+    return splitTopLevel(alterTable[2]!).flatMap(action => parseAlterAction(table, action, line));
+  }
+
+  const renameTable = text.match(/^RENAME\s+TABLE\s+([\s\S]+)$/i);
+  if (renameTable) {
+    return splitTopLevel(renameTable[1]!).flatMap(pair => {
+      const match = pair.match(new RegExp(`^(${QNAME})\\s+TO\\s+(${QNAME})$`, 'i'));
+      return match ? [{ kind: 'rename_table' as const, table: unquote(match[1]!), newName: unquote(match[2]!), line }] : [];
+    });
+  }
+
+  const dropTable = text.match(/^DROP\s+TABLE\s+(?:IF\s+EXISTS\s+)?([\s\S]+?)(?:\s+(?:CASCADE|RESTRICT))?$/i);
+  if (dropTable) {
+    return splitTopLevel(dropTable[1]!).map(name => ({ kind: 'drop_table' as const, table: unquote(name), line }));
+  }
+
+  const createIndex = text.match(new RegExp(
+    `^CREATE\\s+(UNIQUE\\s+)?(?:CLUSTERED\\s+|NONCLUSTERED\\s+)?INDEX\\s+(?:CONCURRENTLY\\s+)?(?:IF\\s+NOT\\s+EXISTS\\s+)?(?:(${QNAME})\\s+)?ON\\s+(?:ONLY\\s+)?(${QNAME})\\s*(?:USING\\s+\\w+\\s*)?\\(`,
+    'i'
+  ));
+  if (createIndex) {
+    const body = balanced(text, createIndex[0].length - 1);
+    if (body === null) return [];
+    return [{
+      kind: 'create_index',
+      table: unquote(createIndex[3]!),
+      line,
+      indexes: [{ name: createIndex[2] ? unquote(createIndex[2]) : null, columns: columnList(body), unique: !!createIndex[1] }]
+    }];
+  }
+
+  const dropIndex = text.match(new RegExp(`^DROP\\s+INDEX\\s+(?:CONCURRENTLY\\s+)?(?:IF\\s+EXISTS\\s+)?([\\s\\S]+?)(?:\\s+ON\\s+(${QNAME}))?(?:\\s+(?:CASCADE|RESTRICT))?$`, 'i'));
+  if (dropIndex) {
+    const table = dropIndex[2] ? unquote(dropIndex[2]) : '';
+    return splitTopLevel(dropIndex[1]!).map(name => ({ kind: 'drop_index' as const, table, name: unquote(name), line }));
+  }
+
+  return [];
+}
+
+function parseCreateTable(table: string, body: string, line: number): SchemaOperation {
+  const columns: SchemaColumn[] = [];
+  const indexes: SchemaIndex[] = [];
+  const foreignKeys: SchemaForeignKey[] = [];
+  let primaryKey: string[] = [];
+
+  for (const item of splitTopLevel(body)) {
+    if (TABLE_CONSTRAINT.test(item)) {
+      const constraint = parseTableConstraint(item);
+      if (constraint?.primaryKey) primaryKey = constraint.primaryKey;
+      if (constraint?.index) indexes.push(constraint.index);
+      if (constraint?.foreignKey) foreignKeys.push(constraint.foreignKey);
+      continue;
+    }
+
+    const parsed = parseColumnDefinition(item);
+    if (!parsed) continue;
+    columns.push(parsed.column);
+    if (parsed.foreignKey) foreignKeys.push(parsed.foreignKey);
+  }
+
+  for (const column of columns) {
+    if (primaryKey.some(name => sameName(name, column.name))) {
+      column.primaryKey = true;
+      column.nullable = false;
+    }
+  }
+
+  return { kind: 'create_table', table, line, columns, indexes, foreignKeys };
+}
+
+function parseTableConstraint(item: string): { primaryKey?: string[]; index?: SchemaIndex; foreignKey?: SchemaForeignKey } | null {
+  const named = item.match(new RegExp(`^CONSTRAINT\\s+(${IDENT})\\s+([\\s\\S]*)$`, 'i'));
+  const name = named ? unquote(named[1]!) : null;
+  const rest = named ? named[2]! : item;
+
+  const primaryKey = rest.match(/^PRIMARY\s+KEY\s*(?:CLUSTERED\s*|NONCLUSTERED\s*)?\(([^)]*)\)/i);
+  if (primaryKey) return { primaryKey: columnList(primaryKey[1]!) };
+
+  const foreignKey = rest.match(new RegExp(`^FOREIGN\\s+KEY\\s*(?:${IDENT}\\s*)?\\(([^)]*)\\)\\s*REFERENCES\\s+(${QNAME})\\s*(?:\\(([^)]*)\\))?`, 'i'));
+  if (foreignKey) {
+    return {
+      foreignKey: {
+        columns: columnList(foreignKey[1]!),
+        table: unquote(foreignKey[2]!),
+        referencedColumns: foreignKey[3] ? columnList(foreignKey[3]) : []
+      }
+    };
+  }
+
+  const index = rest.match(new RegExp(`^(UNIQUE\\b)?\\s*(?:(?:FULLTEXT|SPATIAL)\\s+)?(?:KEY|INDEX)?\\s*(${IDENT})?\\s*\\(([^)]*)\\)`, 'i'));
+  if (index && (index[1] || /^(?:(?:FULLTEXT|SPATIAL)\s+)?(?:KEY|INDEX)\b/i.test(rest))) {
+    return { index: { name: name ?? (index[2] ? unquote(index[2]) : null), columns: columnList(index[3]!), unique: !!index[1] } };
+  }
+
+  return null;
+}
+
+function parseColumnDefinition(item: string): { column: SchemaColumn; foreignKey?: SchemaForeignKey } | null {
+  const match = item.match(new RegExp(`^(${IDENT})(?:\\s+([\\s\\S]*))?$`));
+  if (!match) return null;
+
+  const name = unquote(match[1]!);
+  const rest = match[2] ?? '';
+  const masked = maskNested(rest);
+  const typeEnd = masked.search(COLUMN_CONSTRAINT);
+  const type = (typeEnd === -1 ? rest : rest.slice(0, typeEnd)).trim().replace(/\s+/g, ' ');
+  const constraints = typeEnd === -1 ? '' : masked.slice(typeEnd);
+
+  const primaryKey = /\bPRIMARY\s+KEY\b/i.test(constraints);
+  const column: SchemaColumn = {
+    name,
+    type,
+    nullable: !primaryKey && !/\bNOT\s+NULL\b/i.test(constraints) && !/^(?:big|small)?serial\d?$/i.test(type),
+    primaryKey,
+    unique: /\bUNIQUE\b/i.test(constraints)
+  };
+
+  const defaultMatch = masked.match(/\bDEFAULT\s+/i);
+  if (defaultMatch?.index !== undefined) {
+    // The value itself may be a keyword: DEFAULT NULL
+    const start = defaultMatch.index + defaultMatch[0].length;
+    const after = masked.slice(start + 1).search(COLUMN_CONSTRAINT);
+    column.default = rest.slice(start, after === -1 ? undefined : start + 1 + after).trim();
+  }
+
+  const references = rest.match(new RegExp(`\\bREFERENCES\\s+(${QNAME})\\s*(?:\\(([^)]*)\\))?`, 'i'));
+  const foreignKey = references
+    ? { columns: [name], table: unquote(references[1]!), referencedColumns: references[2] ? columnList(references[2]) : [] }
+    : undefined;
+
+  return { column, foreignKey };
+}
+
+function parseAlterAction(table: string, action: string, line: number): SchemaOperation[] {
+  const text = action.trim();
+
+  const renameTable = text.match(new RegExp(`^RENAME\\s+(?:TO|AS)\\s+(${QNAME})$`, 'i'));
+  if (renameTable) return [{ kind: 'rename_table', table, newName: unquote(renameTable[1]!), line }];
+
+  const renameColumn = text.match(new RegExp(`^RENAME\\s+(?:COLUMN\\s+)?(${IDENT})\\s+TO\\s+(${IDENT})$`, 'i'));
+  if (renameColumn) return [{ kind: 'rename_column', table, name: unquote(renameColumn[1]!), newName: unquote(renameColumn[2]!), line }];
+
+  const add = text.match(/^ADD\s+([\s\S]+)$/i);
+  if (add) {
+    const rest = add[1]!;
+    if (TABLE_CONSTRAINT.test(rest)) {
+      const constraint = parseTableConstraint(rest);
+      if (constraint?.foreignKey) return [{ kind: 'add_foreign_key', table, foreignKeys: [constraint.foreignKey], line }];
+      if (constraint?.index) return [{ kind: 'create_index', table, indexes: [constraint.index], line }];
+      if (constraint?.primaryKey) {
+        return constraint.primaryKey.map(name => ({ kind: 'alter_column' as const, table, name, changes: { primaryKey: true, nullable: false }, line }));
+      }
+      return [];
+    }
+
+    const parsed = parseColumnDefinition(rest.replace(/^COLUMN\s+/i, '').replace(/^IF\s+NOT\s+EXISTS\s+/i, ''));
+    if (!parsed) return [];
+    const ops: SchemaOperation[] = [{ kind: 'add_column', table, column: parsed.column, line }];
+    if (parsed.foreignKey) ops.push({ kind: 'add_foreign_key', table, foreignKeys: [parsed.foreignKey], line });
+    return ops;
+  }
+
+  const drop = text.match(new RegExp(`^DROP\\s+(?:(COLUMN|INDEX|KEY|CONSTRAINT|PRIMARY|FOREIGN|CHECK)\\s+)?(?:IF\\s+EXISTS\\s+)?(${IDENT})`, 'i'));
+  if (drop) {
+    const what = drop[1]?.toUpperCase();
+    if (what === 'INDEX' || what === 'KEY') return [{ kind: 'drop_index', table, name: unquote(drop[2]!), line }];
+    if (what && what !== 'COLUMN') return [];
+    return [{ kind: 'drop_column', table, name: unquote(drop[2]!), line }];
+  }
+
+  const alter = text.match(new RegExp(`^ALTER\\s+(?:COLUMN\\s+)?(${IDENT})\\s+([\\s\\S]+)$`, 'i'));
+  if (alter) {
+    const name = unquote(alter[1]!);
+    const change = alter[2]!.trim();
+    const type = change.match(/^(?:SET\s+DATA\s+)?TYPE\s+([\s\S]+?)(?:\s+USING\b[\s\S]*)?$/i);
+    if (type) return [{ kind: 'alter_column', table, name, changes: { type: type[1]!.trim() }, line }];
+    if (/^SET\s+NOT\s+NULL$/i.test(change)) return [{ kind: 'alter_column', table, name, changes: { nullable: false }, line }];
+    if (/^DROP\s+NOT\s+NULL$/i.test(change)) return [{ kind: 'alter_column', table, name, changes: { nullable: true }, line }];
+    if (/^DROP\s+DEFAULT$/i.test(change)) return [{ kind: 'alter_column', table, name, changes: { default: null }, line }];
+    const setDefault = change.match(/^SET\s+DEFAULT\s+([\s\S]+)$/i);
+    if (setDefault) return [{ kind: 'alter_column', table, name, changes: { default: setDefault[1]!.trim() }, line }];
+    return [];
+  }
+
+  // MySQL: MODIFY restates a column, CHANGE also renames it
+  const modify = text.match(/^MODIFY\s+(?:COLUMN\s+)?([\s\S]+)$/i);
+  if (modify) {
+    const parsed = parseColumnDefinition(modify[1]!);
+    return parsed ? [{ kind: 'alter_column', table, name: parsed.column.name, changes: columnChanges(parsed.column), line }] : [];
+  }
+  const change = text.match(new RegExp(`^CHANGE\\s+(?:COLUMN\\s+)?(${IDENT})\\s+([\\s\\S]+)$`, 'i'));
+  if (change) {
+    const parsed = parseColumnDefinition(change[2]!);
+    if (!parsed) return [];
+    const from = unquote(change[1]!);
+    const ops: SchemaOperation[] = [];
+    if (!sameName(from, parsed.column.name)) ops.push({ kind: 'rename_column', table, name: from, newName: parsed.column.name, line });
+    ops.push({ kind: 'alter_column', table, name: parsed.column.name, changes: columnChanges(parsed.column), line });
+    return ops;
+  }
+
+  return [];
+}
+
+// A restated column replaces type, nullability and default; keys declared elsewhere stay
+function columnChanges(column: SchemaColumn): NonNullable<SchemaOperation['changes']> {
+  return {
+    type: column.type,
+    nullable: column.nullable,
+    ...(column.primaryKey ? { primaryKey: true } : {}),
+    ...(column.unique ? { unique: true } : {}),
+    default: column.default ?? null
+  };
+}
+
+// ============================================================================
+// Prisma
+// ============================================================================
+
+interface PrismaField {
+  name: string;
+  column: string;
+  type: string;
+  list: boolean;
+  optional: boolean;
+  attributes: string;
+  line: number;
+}
+
+interface PrismaModel {
+  name: string;
+  table: string;
+  fields: PrismaField[];
+  blockAttributes: string[];
+  line: number;
+  endLine: number;
+}
+
+function parsePrisma(filePath: string, content: string): ParsedSchema {
+  const lines = content.split('\n').map(line => line.replace(/(^|\s)\/\/.*$/, '$1'));
+  const models: PrismaModel[] = [];
+  const enums: Array<{ name: string; line: number; endLine: number }> = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const header = lines[i]!.match(/^\s*(model|enum|view)\s+(\w+)\s*\{/);
+    if (!header) continue;
+
+    const open = { line: i, column: header.index! + header[0].length - 1 };
+    const close = closingBrace(lines, open);
+    // Fields may share a line with either brace: `model User { id Int` ... `posts Post[] }`
+    const body: Array<{ text: string; line: number }> = [];
+    for (let l = open.line; l <= close.line; l++) {
+      const from = l === open.line ? open.column + 1 : 0;
+      const to = l === close.line ? close.column : lines[l]!.length;
+      body.push({ text: lines[l]!.slice(from, to), line: l + 1 });
+    }
+
+    if (header[1] === 'enum') {
+      enums.push({ name: header[2]!, line: i + 1, endLine: close.line + 1 });
+    } else {
+      models.push(readPrismaModel(header[2]!, body, i + 1, close.line + 1));
+    }
+    i = close.line;
+  }
+
+  const byName = new Map(models.map(model => [model.name, model]));
+  const operations: SchemaOperation[] = [];
+  const symbols: CodeSymbol[] = [];
+
+  for (const model of models) {
+    const columns: SchemaColumn[] = [];
+    const foreignKeys: SchemaForeignKey[] = [];
+    const indexes: SchemaIndex[] = [];
+    const columnOf = (field: string) => model.fields.find(f => f.name === field)?.column ?? field;
+
+    for (const field of model.fields) {
+      const target = byName.get(field.type);
+      if (target) {
+        // A relation field: only the side holding `fields:` is a foreign key
+        const relation = attribute(field.attributes, 'relation');
+        const fields = relation?.match(/\bfields:\s*\[([^\]]*)\]/)?.[1];
+        const references = relation?.match(/\breferences:\s*\[([^\]]*)\]/)?.[1];
+        if (fields) {
+          foreignKeys.push({
+            columns: prismaList(fields).map(columnOf),
+            table: target.table,
+            referencedColumns: references
+              ? prismaList(references).map(name => target.fields.find(f => f.name === name)?.column ?? name)
+              : []
+          });
+        }
+        continue;
+      }
+
+      const native = field.attributes.match(/@db\.(\w+(?:\([^)]*\))?)/)?.[1];
+      const defaultValue = attribute(field.attributes, 'default');
+      const primaryKey = attribute(field.attributes, 'id') !== null;
+      columns.push({
+        name: field.column,
+        type: `${field.type}${field.list ? '[]' : ''}${native ? ` @db.${native}` : ''}`,
+        nullable: field.optional,
+        primaryKey,
+        unique: attribute(field.attributes, 'unique') !== null,
+        ...(defaultValue !== null ? { default: defaultValue } : {})
+      });
+    }
+
+    for (const block of model.blockAttributes) {
+      const match = block.match(/^@@(id|unique|index)\s*\(([\s\S]*)\)\s*$/);
+      if (!match) continue;
+      const list = match[2]!.match(/^\s*(?:fields:\s*)?\[([^\]]*)\]/)?.[1];
+      if (!list) continue;
+      const names = prismaList(list).map(columnOf);
+      if (match[1] === 'id') {
+        for (const column of columns) {
+          if (names.includes(column.name)) column.primaryKey = true;
+        }
+        continue;
+      }
+      indexes.push({
+        name: match[2]!.match(/\b(?:map|name):\s*"([^"]+)"/)?.[1] ?? null,
+        columns: names,
+        unique: match[1] === 'unique'
+      });
+    }
+
+    operations.push({ kind: 'create_table', table: model.table, model: model.name, line: model.line, columns, indexes, foreignKeys });
+    symbols.push({
+      fileId: 0,
+      filePath,
+      kind: 'class',
+      name: model.name,
+      signature: `model ${model.name}${model.table !== model.name ? ` @@map("${model.table}")` : ''} (${columns.map(c => c.name).join(', ')})`,
+      lineStart: model.line,
+      lineEnd: model.endLine,
+      exported: false
+    });
+  }
+
+  for (const prismaEnum of enums) {
+    symbols.push({
+      fileId: 0,
+      filePath,
+      kind: 'enum',
+      name: prismaEnum.name,
+      signature: `enum ${prismaEnum.name}`,
+      lineStart: prismaEnum.line,
+      lineEnd: prismaEnum.endLine,
+      exported: false
+    });
+  }
+
+  return { operations, symbols };
+}
+
+function readPrismaModel(
+  name: string,
+  body: Array<{ text: string; line: number }>,
+  line: number,
+  endLine: number
+): PrismaModel {
+  const fields: PrismaField[] = [];
+  const blockAttributes: string[] = [];
+  let table = name;
+
+  for (const segment of body) {
+    const text = segment.text.trim();
+    if (text.startsWith('@@')) {
+      const map = text.match(/^@@map\s*\(\s*(?:name:\s*)?"([^"]+)"/);
+      if (map) table = map[1]!;
+      else blockAttributes.push(text);
+      continue;
+    }
+
+    const field = text.match(/^(\w+)\s+(\w+)(\[\])?(\?)?\s*(.*)$/);
+    if (!field) continue;
+    const attributes = field[5] ?? '';
+    const map = attribute(attributes, 'map')?.match(/^\s*(?:name:\s*)?"([^"]+)"/)?.[1];
+    fields.push({
+      name: field[1]!,
+      column: map ?? field[1]!,
+      type: field[2]!,
+      list: !!field[3],
+      optional: !!field[4],
+      attributes,
+      line: segment.line
+    });
+  }
+
+  return { name, table, fields, blockAttributes, line, endLine };
+}
+
+// The brace closing the one at `open`, counted across lines; the end of the file when unbalanced
+function closingBrace(
+  lines: string[],
+  open: { line: number; column: number }
+): { line: number; column: number } {
+  let depth = 0;
+  for (let l = open.line; l < lines.length; l++) {
+    const text = lines[l]!;
+    let quoted = false;
+    for (let c = l === open.line ? open.column : 0; c < text.length; c++) {
+      const ch = text[c]!;
+      if (quoted) {
+        if (ch === '\\') c++;
+        else if (ch === '"') quoted = false;
+        continue;
+      }
+      if (ch === '"') quoted = true;
+      else if (ch === '{') depth++;
+      else if (ch === '}' && --depth === 0) return { line: l, column: c };
+    }
+  }
+  const last = lines.length - 1;
+  return { line: last, column: lines[last]!.length };
+}
+
+// The argument text of @name(...) in a field's attributes, '' for a bare @name, null when absent
+function attribute(attributes: string, name: string): string | null {
+  const match = new RegExp(`(?:^|\\s)@${name}\\b`).exec(attributes);
+  if (!match) return null;
+  const open = match.index + match[0].length;
+  if (attributes[open] !== '(') return '';
+  return balanced(attributes, open) ?? '';
+}
+
+function prismaList(text: string): string[] {
+  return text.split(',').map(item => item.trim().replace(/\(.*$/, '')).filter(Boolean);
+}
+
+// ============================================================================
+// Replaying operations into tables
+// ============================================================================
+
+export interface SchemaEntry {
+  file: string;
+  operation: SchemaOperation;
+}
+
+export interface SchemaModel {
+  tables: Map<string, Omit<TableSchema, 'usedBy'>>;   // Keyed by lower-cased table name
+  columnChanges: ColumnChange[];
+}
+
+type TableState = Omit<TableSchema, 'usedBy' | 'referencedBy' | 'columns'> & {
+  columns: Map<string, SchemaColumn & { addedIn: SchemaLocation }>;
+};
+
+/**
+ * Apply schema operations in the order given (sort files with
+ * compareSchemaFiles first). A table defined again later - a Prisma model
+ * for a table its migrations created - takes the new definition, but
+ * columns it already had keep the file that added them.
+ */
+export function buildSchemaModel(entries: SchemaEntry[]): SchemaModel {
+  const tables = new Map<string, TableState>();
+  const histories = new Map<string, TableSchema['history']>();
+  const columnChanges: ColumnChange[] = [];
+
+  const keyOf = (name: string) => name.toLowerCase();
+  const historyOf = (name: string) => {
+    const key = keyOf(name);
+    let history = histories.get(key);
+    if (!history) histories.set(key, history = []);
+    return history;
+  };
+  // Tables altered before any indexed file creates them still get an entry
+  const tableFor = (name: string, location: SchemaLocation): TableState => {
+    let table = tables.get(keyOf(name));
+    if (!table) {
+      table = { name, model: null, definedIn: location, columns: new Map(), indexes: [], foreignKeys: [], history: historyOf(name) };
+      tables.set(keyOf(name), table);
+    }
+    return table;
+  };
+  const columnChange = (table: string, column: string, change: ColumnChange['change'], detail: string, location: SchemaLocation) => {
+    columnChanges.push({ table, column, change, detail, ...location });
+  };
+
+  for (const { file, operation: op } of entries) {
+    const location = { file, line: op.line };
+
+    switch (op.kind) {
+      case 'create_table': {
+        const existing = tables.get(keyOf(op.table));
+        const table = tableFor(op.table, location);
+        const columns = new Map<string, SchemaColumn & { addedIn: SchemaLocation }>();
+        for (const column of op.columns ?? []) {
+          const previous = existing?.columns.get(keyOf(column.name));
+          if (!previous) columnChange(op.table, column.name, 'added', `created with table ${op.table}`, location);
+          columns.set(keyOf(column.name), { ...column, addedIn: previous?.addedIn ?? location });
+        }
+        table.columns = columns;
+        table.model = op.model ?? table.model;
+        table.indexes = (op.indexes ?? []).map(index => ({ ...index, ...location }));
+        table.foreignKeys = (op.foreignKeys ?? []).map(fk => ({ ...fk, ...location }));
+        table.history.push({ ...location, change: existing ? (op.model ? `defined by model ${op.model}` : 'redefined') : 'created' });
+        break;
+      }
+
+      case 'drop_table': {
+        const table = tables.get(keyOf(op.table));
+        if (!table) break;
+        table.history.push({ ...location, change: 'dropped' });
+        tables.delete(keyOf(op.table));
+        break;
+      }
+
+      case 'rename_table': {
+        const table = tables.get(keyOf(op.table));
+        if (!table || !op.newName) break;
+        tables.delete(keyOf(op.table));
+        const history = historyOf(op.newName);
+        history.unshift(...table.history);
+        history.push({ ...location, change: `renamed from ${table.name}` });
+        tables.set(keyOf(op.newName), { ...table, name: op.newName, history });
+        break;
+      }
+
+      case 'add_column': {
+        if (!op.column) break;
+        const table = tableFor(op.table, location);
+        table.columns.set(keyOf(op.column.name), { ...op.column, addedIn: location });
+        table.history.push({ ...location, change: `added column ${op.column.name}` });
+        columnChange(table.name, op.column.name, 'added', op.column.type, location);
+        break;
+      }
+
+      case 'drop_column': {
+        const table = tableFor(op.table, location);
+        if (!op.name) break;
+        table.columns.delete(keyOf(op.name));
+        table.history.push({ ...location, change: `dropped column ${op.name}` });
+        columnChange(table.name, op.name, 'dropped', '', location);
+        break;
+      }
+
+      case 'rename_column': {
+        const table = tableFor(op.table, location);
+        if (!op.name || !op.newName) break;
+        const column = table.columns.get(keyOf(op.name));
+        if (column) {
+          table.columns.delete(keyOf(op.name));
+          table.columns.set(keyOf(op.newName), { ...column, name: op.newName });
+        }
+        table.history.push({ ...location, change: `renamed column ${op.name} to ${op.newName}` });
+        columnChange(table.name, op.newName, 'renamed', `from ${op.name}`, location);
+        break;
+      }
+
+      case 'alter_column': {
+        const table = tableFor(op.table, location);
+        if (!op.name || !op.changes) break;
+        const column = table.columns.get(keyOf(op.name));
+        const { default: defaultValue, ...changes } = op.changes;
+        if (column) {
+          Object.assign(column, changes);
+          if (defaultValue === null) delete column.default;
+          else if (defaultValue !== undefined) column.default = defaultValue;
+        }
+        const detail = describeChanges(op.changes);
+        table.history.push({ ...location, change: `altered column ${op.name}: ${detail}` });
+        columnChange(table.name, op.name, 'altered', detail, location);
+        break;
+      }
+
+      case 'create_index': {
+        const table = tableFor(op.table, location);
+        for (const index of op.indexes ?? []) {
+          table.indexes.push({ ...index, ...location });
+          table.history.push({ ...location, change: `added ${index.unique ? 'unique ' : ''}index ${index.name ?? `on (${index.columns.join(', ')})`}` });
+        }
+        break;
+      }
+
+      case 'drop_index': {
+        const candidates = op.table ? [tables.get(keyOf(op.table))] : [...tables.values()];
+        for (const table of candidates) {
+          const index = table?.indexes.findIndex(i => i.name !== null && sameName(i.name, op.name ?? ''));
+          if (!table || index === undefined || index === -1) continue;
+          table.indexes.splice(index, 1);
+          table.history.push({ ...location, change: `dropped index ${op.name}` });
+        }
+        break;
+      }
+
+      case 'add_foreign_key': {
+        const table = tableFor(op.table, location);
+        for (const fk of op.foreignKeys ?? []) {
+          table.foreignKeys.push({ ...fk, ...location });
+          table.history.push({ ...location, change: `added foreign key (${fk.columns.join(', ')}) to ${fk.table}` });
+        }
+        break;
+      }
+    }
+  }
+
+  const result = new Map<string, Omit<TableSchema, 'usedBy'>>();
+  for (const [key, table] of tables) {
+    result.set(key, { ...table, columns: [...table.columns.values()], referencedBy: [] });
+  }
+  for (const table of result.values()) {
+    for (const fk of table.foreignKeys) {
+      const target = result.get(keyOf(fk.table));
+      target?.referencedBy.push({ fromTable: table.name, columns: fk.columns, table: fk.table, referencedColumns: fk.referencedColumns });
+    }
+  }
+
+  return { tables: result, columnChanges };
+}
+
+function describeChanges(changes: NonNullable<SchemaOperation['changes']>): string {
+  const parts: string[] = [];
+  if (changes.type !== undefined) parts.push(`type ${changes.type}`);
+  if (changes.nullable !== undefined) parts.push(changes.nullable ? 'nullable' : 'NOT NULL');
+  if (changes.primaryKey) parts.push('primary key');
+  if (changes.unique) parts.push('unique');
+  if (changes.default === null) parts.push('no default');
+  else if (changes.default !== undefined) parts.push(`default ${changes.default}`);
+  return parts.join(', ');
+}
+
+// ============================================================================
+// Table references in source code
+// ============================================================================
+
+const PRISMA_METHODS = 'findMany|findUnique|findUniqueOrThrow|findFirst|findFirstOrThrow|create|createMany|createManyAndReturn|update|updateMany|upsert|delete|deleteMany|count|aggregate|groupBy';
+
+const TABLE_PATTERNS: Array<{ via: TableReferenceSite['via']; pattern: RegExp }> = [
+  // SELECT ... FROM orders, INSERT INTO orders, UPDATE orders, JOIN orders, ALTER TABLE orders
+  { via: 'sql', pattern: /\b(?:from|join|into|update|table)\s+[`"[]?(?:\w+[`"\]]?\.[`"[]?)?([A-Za-z_]\w*)/gi },
+  // prisma.order.findMany(), tx.order.create()
+  { via: 'orm', pattern: new RegExp(`\\b(?:prisma|tx|trx|db|client)\\.(\\w+)\\.(?:${PRISMA_METHODS})\\(`, 'g') },
+  // knex('orders'), db('orders'), .from('orders'), .selectFrom('orders'), .table('orders')
+  { via: 'orm', pattern: /\b(?:knex|db|trx)\(\s*['"`](\w+)['"`]/g },
+  { via: 'orm', pattern: /\.(?:from|table|into|join|innerJoin|leftJoin|rightJoin|fullOuterJoin|selectFrom|insertInto|updateTable|deleteFrom)\(\s*['"`](\w+)['"`]/g },
+  // SQLAlchemy, Django, TypeORM, JPA, GORM, Rails, Sequelize
+  { via: 'model', pattern: /\b(?:__tablename__|db_table|self\.table_name)\s*=\s*['"](\w+)['"]/g },
+  { via: 'model', pattern: /@Entity\(\s*(?:\{\s*name:\s*)?['"](\w+)['"]/g },
+  { via: 'model', pattern: /@Table\(\s*name\s*=\s*"(\w+)"/g },
+  { via: 'model', pattern: /\bTableName\(\)\s*string\s*\{\s*return\s+"(\w+)"/g },
+  { via: 'model', pattern: /\btableName:\s*['"](\w+)['"]/g }
+];
+
+// Lines that look like SQL keywords but are module imports or comments
+const NOT_SQL = /^\s*(?:import\b|export\b.*\bfrom\b|from\s+[\w.]+\s+import\b|\/\/|#|\*|\/\*|--)/;
+
+/**
+ * Candidate table names in a source file. Most won't name a table; they are
+ * matched against the indexed schema when queried, so only real tables count.
+ */
+export function findTableReferences(content: string): TableReferenceSite[] {
+  const references: TableReferenceSite[] = [];
+  const seen = new Set<string>();
+  const lines = content.split('\n');
+
+  for (let i = 0; i < lines.length; i++) {
+    const text = lines[i]!;
+    if (text.length > 2000) continue;
+
+    for (const { via, pattern } of TABLE_PATTERNS) {
+      if (via === 'sql' && NOT_SQL.test(text)) continue;
+      pattern.lastIndex = 0;
+      for (const match of text.matchAll(pattern)) {
+        const table = match[1]!;
+        const key = `${i}:${table.toLowerCase()}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+        references.push({ table, via, line: i + 1, snippet: text.trim().slice(0, SNIPPET_MAX) });
+      }
+    }
+  }
+
+  return references;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+// The text between the parenthesis at `open` and its match, null when unbalanced
+function balanced(text: string, open: number): string | null {
+  let depth = 0;
+  let quote: string | null = null;
+  for (let i = open; i < text.length; i++) {
+    const ch = text[i]!;
+    if (quote) {
+      if (ch === quote) quote = null;
+      continue;
+    }
+    if (ch === '\'' || ch === '"' || ch === '`') quote = ch;
+    else if (ch === '(') depth++;
+    else if (ch === ')' && --depth === 0) return text.slice(open + 1, i);
+  }
+  return null;
+}
+
+// Split on commas outside parentheses and quotes
+function splitTopLevel(text: string): string[] {
+  const masked = maskNested(text);
+  const parts: string[] = [];
+  let start = 0;
+  for (let i = 0; i <= masked.length; i++) {
+    if (i === masked.length || masked[i] === ',') {
+      const part = text.slice(start, i).trim();
+      if (part) parts.push(part);
+      start = i + 1;
+    }
+  }
+  return parts;
+}
+
+// Blank out parenthesized and quoted text, keeping offsets, so keywords and commas inside don't count
+function maskNested(text: string): string {
+  let result = '';
+  let depth = 0;
+  let quote: string | null = null;
+  for (const ch of text) {
+    if (quote) {
+      if (ch === quote) quote = null;
+      result += '_';
+    } else if (ch === '\'' || ch === '"' || ch === '`') {
+      quote = ch;
+      result += '_';
+    } else if (ch === '(') {
+      depth++;
+      result += ch;
+    } else if (ch === ')') {
+      depth = Math.max(0, depth - 1);
+      result += ch;
+    } else {
+      result += depth > 0 ? '_' : ch;
+    }
+  }
+  return result;
+}
+
+// Column names in (a, "b" DESC, lower(c)); expressions are kept as written
+function columnList(text: string): string[] {
+  return splitTopLevel(text).map(item => {
+    const match = item.match(new RegExp(`^(${IDENT})(?:\\s+(?:ASC|DESC|NULLS\\s+\\w+|COLLATE\\s+\\S+|\\w+_ops))*$`, 'i'));
+    return match ? unquote(match[1]!) : item.replace(/\s+/g, ' ');
+  });
+}
+
+// The last part of a possibly schema-qualified, possibly quoted name
+function unquote(name: string): string {
+  const parts = name.trim().split(/\s*\.\s*(?=(?:"|`|\[|[\w$]))/);
+  return (parts[parts.length - 1] ?? name).replace(/^["`[]|["`\]]$/g, '');
+}
+
+function sameName(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
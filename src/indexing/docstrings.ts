@@ -0,0 +1,210 @@
+/**
+ * Docstrings - Attach documentation comments to parsed symbols
+ *
+ * Works on source lines, so the tree-sitter and regex parsers share it:
+ * - JSDoc/TSDoc, Javadoc, KDoc, PHPDoc and Doxygen `/** ... *\/` blocks
+ *   directly above a declaration
+ * - Line doc comments directly above: Go `//`, Rust/C#/Swift/C++ `///`, Ruby `#`
+ * - Python docstrings: the string literal opening a def/class body
+ *
+ * Decorators and attributes between the comment and the declaration are
+ * skipped; a blank line breaks the association. moduleDoc() reads the
+ * file-level equivalent (header block, module docstring, package comment).
+ */
+
+import type { CodeSymbol } from '../types/index.js';
+
+const MAX_DOCSTRING_CHARS = 2000;
+
+// Line comment prefixes that document the following declaration
+const LINE_DOC_PREFIXES: Record<string, RegExp> = {
+  go: /^\/\/(?!\/)/,
+  rust: /^\/\/\/(?!\/)/,
+  csharp: /^\/\/\//,
+  swift: /^\/\/\//,
+  c: /^\/\/\//,
+  cpp: /^\/\/\//,
+  ruby: /^#(?![!{])/
+};
+
+// Decorators, annotations and attributes: @Injectable(), #[derive(Debug)], [Serializable]
+const ATTRIBUTE_LINE = /^(@[\w.]+(\(.*\))?|#\[.*\]|\[[\w.]+(\(.*\))?\])\s*$/;
+
+// Shebangs, encoding declarations, `# frozen_string_literal: true` and the like
+const MAGIC_COMMENT = /^(#!|#.*coding[:=]|#\s*[\w-]+:\s*\S+$|['"]use (strict|client|server)['"];?$)/;
+
+const LICENSE_HEADER = /\b(copyright|licen[cs]ed?|SPDX-License-Identifier)\b/i;
+
+// Tool directives that sit between a doc comment and its declaration
+const DIRECTIVE_LINE = /^\/\/\s*(eslint-|@ts-|prettier-ignore|istanbul |c8 |go:|nolint)/;
+
+export function attachDocstrings(symbols: CodeSymbol[], content: string, lang: string | null): CodeSymbol[] {
+  if (!lang || symbols.length === 0) return symbols;
+  const lines = content.split('\n');
+
+  return symbols.map(symbol => {
+    if (symbol.docstring) return symbol;
+    const docstring = lang === 'python'
+      ? pythonDocstring(lines, symbol.lineStart, symbol.lineEnd)
+      : leadingComment(lines, symbol.lineStart, lang);
+    return docstring ? { ...symbol, docstring } : symbol;
+  });
+}
+
+// First sentence of a docstring, for one-line summaries
+export function docSummary(docstring: string, maxLength: number = 120): string {
+  const text = docstring
+    .split('\n')
+    .filter(line => !line.trim().startsWith('@'))
+    .join(' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+  const sentence = text.match(/^.+?[.!?](?=\s|$)/)?.[0] ?? text;
+  return sentence.length > maxLength ? `${sentence.slice(0, maxLength - 3)}...` : sentence;
+}
+
+/**
+ * Documentation for the module as a whole: a header comment block, a Python
+ * module docstring, a Go package comment or Rust `//!` lines. License
+ * headers don't count.
+ */
+export function moduleDoc(content: string, lang: string | null): string | undefined {
+  const lines = content.split('\n');
+  let i = 0;
+  // Shebangs, encoding and other magic comments come before a header
+  while (i < lines.length && (!lines[i]!.trim() || MAGIC_COMMENT.test(lines[i]!.trim()))) i++;
+  if (i >= lines.length) return undefined;
+  const first = lines[i]!.trim();
+
+  let doc: string | undefined;
+  switch (lang) {
+    case 'python':
+      doc = readPythonString(lines, i);
+      break;
+    case 'go': {
+      const packageLine = lines.findIndex(line => /^package\s/.test(line));
+      const comment = packageLine > 0 ? leadingComment(lines, packageLine + 1, 'go') : undefined;
+      doc = comment?.startsWith('Package ') ? comment : undefined;
+      break;
+    }
+    case 'rust':
+      doc = first.startsWith('//!') ? lineComments(lines, i, /^\/\/!/) : undefined;
+      break;
+    case 'ruby':
+      doc = first.startsWith('#') ? lineComments(lines, i, /^#/) : undefined;
+      break;
+    default:
+      if (first.startsWith('/*')) {
+        const end = lines.findIndex((line, n) => n >= i && line.includes('*/'));
+        doc = end === -1 ? undefined : cleanBlock(lines.slice(i, end + 1));
+      } else if (first.startsWith('//') && (lines[i + 1] ?? '').trim().startsWith('//')) {
+        doc = lineComments(lines, i, /^\/\/+/);
+      }
+  }
+
+  return doc && !LICENSE_HEADER.test(doc) ? doc : undefined;
+}
+
+function leadingComment(lines: string[], lineStart: number, lang: string): string | undefined {
+  let i = lineStart - 2;
+  while (i >= 0 && (ATTRIBUTE_LINE.test(lines[i]!.trim()) || DIRECTIVE_LINE.test(lines[i]!.trim()))) i--;
+  if (i < 0) return undefined;
+
+  const line = lines[i]!.trim();
+
+  if (line.endsWith('*/') && lang !== 'python' && lang !== 'ruby') {
+    let start = i;
+    while (start >= 0 && !lines[start]!.includes('/*')) start--;
+    if (start < 0) return undefined;
+    // Only doc blocks: /** ... */ (or /*! ... */ in C-family code)
+    const opener = lines[start]!.trim();
+    if (!opener.startsWith('/**') && !opener.startsWith('/*!')) return undefined;
+    return cleanBlock(lines.slice(start, i + 1));
+  }
+
+  const prefix = LINE_DOC_PREFIXES[lang];
+  if (!prefix || !prefix.test(line)) return undefined;
+
+  const collected: string[] = [];
+  for (let j = i; j >= 0; j--) {
+    const text = lines[j]!.trim();
+    if (!prefix.test(text) || DIRECTIVE_LINE.test(text)) break;
+    collected.unshift(text.replace(prefix, '').replace(/^ /, ''));
+  }
+  return clean(collected);
+}
+
+// Consecutive comment lines from line i down
+function lineComments(lines: string[], i: number, prefix: RegExp): string | undefined {
+  const collected: string[] = [];
+  for (let j = i; j < lines.length && prefix.test(lines[j]!.trim()); j++) {
+    collected.push(lines[j]!.trim().replace(prefix, '').replace(/^ /, ''));
+  }
+  return clean(collected);
+}
+
+function pythonDocstring(lines: string[], lineStart: number, lineEnd: number): string | undefined {
+  // The header may wrap over several lines - the body starts after its closing ':'.
+  // No line ending in ':' within the symbol means the body sits on the header line.
+  const end = Math.min(lines.length, lineEnd);
+  let i = lineStart - 1;
+  while (i < end && !/:\s*(#.*)?$/.test(lines[i]!)) i++;
+  if (i >= end) return undefined;
+  i++;
+  while (i < end && lines[i]!.trim() === '') i++;
+  return i < end ? readPythonString(lines, i) : undefined;
+}
+
+// A string literal statement starting on line i
+function readPythonString(lines: string[], i: number): string | undefined {
+  const first = lines[i]!.trim();
+  const open = first.match(/^[rRuU]?("""|'''|"|')/);
+  if (!open?.[1]) return undefined;
+  const quote = open[1];
+  const rest = first.slice(open[0].length);
+
+  if (quote.length === 1) {
+    const close = rest.indexOf(quote);
+    return close === -1 ? undefined : clean([rest.slice(0, close)]);
+  }
+
+  const sameLine = rest.indexOf(quote);
+  if (sameLine !== -1) return clean([rest.slice(0, sameLine)]);
+
+  const body = [rest];
+  for (let j = i + 1; j < lines.length; j++) {
+    const close = lines[j]!.indexOf(quote);
+    if (close !== -1) {
+      body.push(lines[j]!.slice(0, close));
+      return clean(dedent(body));
+    }
+    body.push(lines[j]!);
+  }
+  return undefined;
+}
+
+// inspect.cleandoc: the first line as-is, the rest by their common indent
+function dedent(body: string[]): string[] {
+  const indents = body.slice(1)
+    .filter(line => line.trim())
+    .map(line => line.match(/^\s*/)![0].length);
+  const indent = indents.length > 0 ? Math.min(...indents) : 0;
+  return [body[0]!.trim(), ...body.slice(1).map(line => line.slice(indent).trimEnd())];
+}
+
+function cleanBlock(lines: string[]): string | undefined {
+  return clean(lines.map(line => line
+    .replace(/^\s*\/\*[*!]?\s?/, '')
+    .replace(/\s*\*\/\s*$/, '')
+    .replace(/^\s*\*\s?/, '')));
+}
+
+function clean(lines: string[]): string | undefined {
+  const trimmed = lines.map(line => line.trimEnd());
+  while (trimmed.length > 0 && !trimmed[0]!.trim()) trimmed.shift();
+  while (trimmed.length > 0 && !trimmed[trimmed.length - 1]!.trim()) trimmed.pop();
+
+  const text = trimmed.join('\n');
+  if (!text.trim()) return undefined;
+  return text.length > MAX_DOCSTRING_CHARS ? `${text.slice(0, MAX_DOCSTRING_CHARS)}...` : text;
+}
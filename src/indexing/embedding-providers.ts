@@ -0,0 +1,271 @@
+/**
+ * Embedding Providers - Where vectors come from
+ *
+ * - transformers: a Hugging Face model run in-process by @xenova/transformers,
+ *   downloaded to the local cache on first use (the default)
+ * - onnx: an exported model already on disk, for air-gapped machines; nothing
+ *   is downloaded
+ * - openai: any OpenAI-compatible `/embeddings` endpoint - a local Ollama or
+ *   llama.cpp server, or a hosted API
+ *
+ * Every provider has an id that is stored with each vector it produces. Vectors
+ * are only compared with queries embedded under the same id, and changing it
+ * lets the EmbeddingRefresher find and replace the old ones.
+ */
+
+import { existsSync } from 'fs';
+import { basename, dirname, resolve } from 'path';
+import { env, pipeline, type FeatureExtractionPipeline } from '@xenova/transformers';
+import type { EmbeddingProviderConfig, NeuronLayerConfig } from '../types/index.js';
+
+export interface EmbeddingProvider {
+  readonly kind: EmbeddingProviderConfig['provider'];
+  readonly id: string;
+  load(): Promise<void>;
+  // One batch in, one normalized vector per text out, in order; signal cancels a request in flight
+  embed(texts: string[], signal?: AbortSignal): Promise<Float32Array[]>;
+}
+
+export function createEmbeddingProvider(config: Pick<NeuronLayerConfig, 'projectPath' | 'embeddingModel' | 'embeddingProvider'>): EmbeddingProvider {
+  const options = config.embeddingProvider ?? { provider: 'transformers' };
+
+  switch (options.provider) {
+    case 'onnx':
+      return new OnnxFileProvider(resolve(config.projectPath, options.modelPath), options.modelPath);
+    case 'openai':
+      return new OpenAICompatibleProvider(options.baseUrl, options.model, {
+        apiKey: options.apiKeyEnv ? process.env[options.apiKeyEnv] : undefined,
+        dimensions: options.dimensions,
+        timeoutMs: options.timeoutMs
+      });
+    case 'transformers':
+      return new TransformersProvider(options.model ?? config.embeddingModel);
+  }
+}
+
+// The id vectors are recorded under, without loading anything
+export function embeddingModelId(config: Pick<NeuronLayerConfig, 'projectPath' | 'embeddingModel' | 'embeddingProvider'>): string {
+  return createEmbeddingProvider(config).id;
+}
+
+// Runs a feature-extraction pipeline. Inputs are padded to the longest in the
+// batch, and mean pooling weights tokens by the attention mask so padding
+// doesn't dilute the shorter texts.
+abstract class PipelineProvider implements EmbeddingProvider {
+  abstract readonly kind: EmbeddingProviderConfig['provider'];
+  abstract readonly id: string;
+  private model: FeatureExtractionPipeline | null = null;
+
+  protected abstract loadPipeline(): Promise<FeatureExtractionPipeline>;
+
+  async load(): Promise<void> {
+    this.model ??= await this.loadPipeline();
+  }
+
+  async embed(texts: string[], signal?: AbortSignal): Promise<Float32Array[]> {
+    await this.load();
+    // Inference runs in-process and can't be interrupted; at least don't start it
+    signal?.throwIfAborted();
+
+    const output = await this.model!(texts, {
+      pooling: 'mean',
+      normalize: true
+    });
+
+    // [batch, dimension]
+    const [rows, dimension] = output.dims as [number, number];
+    const data = output.data as Float32Array;
+    return Array.from({ length: rows }, (_, i) => data.slice(i * dimension, (i + 1) * dimension));
+  }
+}
+
+class TransformersProvider extends PipelineProvider {
+  readonly kind = 'transformers';
+  readonly id: string;
+
+  constructor(private modelName: string) {
+    super();
+    // Kept as the bare model name so vectors from before providers existed stay current
+    this.id = modelName;
+  }
+
+  protected loadPipeline(): Promise<FeatureExtractionPipeline> {
+    return pipeline('feature-extraction', this.modelName, {
+      quantized: true
+    });
+  }
+}
+
+/**
+ * A model exported in the Hugging Face layout: config.json, tokenizer.json and
+ * tokenizer_config.json in the model directory, weights under onnx/. modelPath
+ * is either that directory (onnx/model_quantized.onnx is used) or the .onnx
+ * file itself.
+ */
+class OnnxFileProvider extends PipelineProvider {
+  readonly kind = 'onnx';
+  readonly id: string;
+  private modelDir: string;
+  private fileName: string;
+  private quantized: boolean;
+
+  constructor(modelPath: string, configuredPath: string) {
+    super();
+    this.id = `onnx:${configuredPath}`;
+
+    if (modelPath.endsWith('.onnx')) {
+      const name = basename(modelPath, '.onnx');
+      this.modelDir = dirname(dirname(modelPath));
+      this.quantized = name.endsWith('_quantized');
+      this.fileName = this.quantized ? name.slice(0, -'_quantized'.length) : name;
+    } else {
+      this.modelDir = modelPath;
+      this.quantized = true;
+      this.fileName = 'model';
+    }
+  }
+
+  protected async loadPipeline(): Promise<FeatureExtractionPipeline> {
+    const weights = resolve(this.modelDir, 'onnx', `${this.fileName}${this.quantized ? '_quantized' : ''}.onnx`);
+    if (!existsSync(weights)) {
+      throw new Error(`ONNX model not found at ${weights} (expected <model dir>/onnx/<name>.onnx next to tokenizer.json)`);
+    }
+    if (!existsSync(resolve(this.modelDir, 'tokenizer.json'))) {
+      throw new Error(`tokenizer.json not found in ${this.modelDir}`);
+    }
+
+    // Model ids resolve against localModelPath; local_files_only rules out any download
+    env.localModelPath = dirname(this.modelDir);
+    return pipeline('feature-extraction', basename(this.modelDir), {
+      quantized: this.quantized,
+      local_files_only: true,
+      model_file_name: this.fileName
+    });
+  }
+}
+
+interface EmbeddingsResponse {
+  data: Array<{ index: number; embedding: number[] }>;
+}
+
+const DEFAULT_TIMEOUT_MS = 60_000;
+// Rate limits and server errors are retried this many times, waiting RETRY_DELAY_MS, then twice that...
+const MAX_RETRIES = 3;
+const RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 30_000;
+
+class OpenAICompatibleProvider implements EmbeddingProvider {
+  readonly kind = 'openai';
+  readonly id: string;
+  private url: string;
+
+  constructor(
+    baseUrl: string,
+    private model: string,
+    private options: { apiKey?: string; dimensions?: number; timeoutMs?: number } = {}
+  ) {
+    const base = baseUrl.replace(/\/+$/, '');
+    this.url = `${base}/embeddings`;
+    // The host is part of the id: two servers can quantize the same model differently
+    this.id = `openai:${model}@${new URL(base).host}`;
+  }
+
+  async load(): Promise<void> {
+    // Nothing to load; the first request shows whether the server is reachable
+  }
+
+  async embed(texts: string[], signal?: AbortSignal): Promise<Float32Array[]> {
+    const body = JSON.stringify({
+      model: this.model,
+      input: texts,
+      ...(this.options.dimensions ? { dimensions: this.options.dimensions } : {})
+    });
+
+    let text: string;
+    for (let attempt = 0; ; attempt++) {
+      const result = await this.post(body, signal);
+      text = result.text;
+      if (result.response.ok) break;
+
+      const { status, statusText } = result.response;
+      const retryable = status === 429 || status >= 500;
+      if (!retryable || attempt >= MAX_RETRIES) {
+        throw new Error(`Embedding request to ${this.url} failed: ${status} ${statusText} ${text.slice(0, 200)}`.trim());
+      }
+      await sleep(retryDelay(result.response, attempt), signal);
+    }
+
+    const { data } = JSON.parse(text) as EmbeddingsResponse;
+    if (!Array.isArray(data) || data.length !== texts.length) {
+      throw new Error(`Embedding response from ${this.url} has ${data?.length ?? 0} vectors for ${texts.length} inputs`);
+    }
+
+    return [...data]
+      .sort((a, b) => a.index - b.index)
+      .map(item => normalize(item.embedding));
+  }
+
+  // One attempt, response body included, given up after the timeout or when the caller aborts
+  private async post(body: string, signal?: AbortSignal): Promise<{ response: Response; text: string }> {
+    const timeoutMs = this.options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    const controller = new AbortController();
+    const abort = () => controller.abort(signal?.reason);
+    const timer = setTimeout(() => controller.abort(new Error(`Embedding request to ${this.url} timed out after ${timeoutMs}ms`)), timeoutMs);
+    signal?.addEventListener('abort', abort, { once: true });
+    if (signal?.aborted) abort();
+
+    try {
+      const response = await fetch(this.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.options.apiKey ? { Authorization: `Bearer ${this.options.apiKey}` } : {})
+        },
+        body,
+        signal: controller.signal
+      });
+      return { response, text: await response.text() };
+    } catch (error) {
+      // fetch reports every abort as an AbortError; say which one it was
+      throw controller.signal.aborted && controller.signal.reason instanceof Error ? controller.signal.reason : error;
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', abort);
+    }
+  }
+}
+
+// Retry-After when the server sends one, else exponential backoff
+function retryDelay(response: Response, attempt: number): number {
+  const seconds = Number(response.headers.get('retry-after'));
+  const delay = Number.isFinite(seconds) && seconds > 0 ? seconds * 1000 : RETRY_DELAY_MS * 2 ** attempt;
+  return Math.min(delay, MAX_RETRY_DELAY_MS);
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', stop);
+      resolve();
+    }, ms);
+    const stop = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    signal?.addEventListener('abort', stop, { once: true });
+  });
+}
+
+// Servers don't all normalize; search compares vectors by cosine similarity
+function normalize(values: number[]): Float32Array {
+  const vector = Float32Array.from(values);
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  if (norm > 0) {
+    for (let i = 0; i < vector.length; i++) vector[i] = vector[i]! / norm;
+  }
+  return vector;
+}
@@ -1,14 +1,30 @@
-import { pipeline, type FeatureExtractionPipeline } from '@xenova/transformers';
+import { hashContent } from '../utils/files.js';
+import { createEmbeddingProvider, type EmbeddingProvider } from './embedding-providers.js';
+
+// Persistent vectors keyed by hash of the embedded text (Tier2Storage implements this)
+export interface EmbeddingCache {
+  getCachedEmbeddings(model: string, hashes: string[]): Map<string, Float32Array>;
+  cacheEmbeddings(model: string, entries: Array<{ hash: string; embedding: Float32Array }>): void;
+}
+
+// Truncate very long texts
+const MAX_CHARS = 8000; // ~2000 tokens
 
 export class EmbeddingGenerator {
-  private model: FeatureExtractionPipeline | null = null;
+  private provider: EmbeddingProvider;
   private initialized = false;
   private initializing = false;
   private modelName: string;
   private dimension: number = 384; // Default for MiniLM
-
-  constructor(modelName: string = 'Xenova/all-MiniLM-L6-v2') {
-    this.modelName = modelName;
+  private cache: EmbeddingCache | null;
+
+  // A bare model name runs it with the transformers provider
+  constructor(provider: EmbeddingProvider | string = 'Xenova/all-MiniLM-L6-v2', options: { cache?: EmbeddingCache } = {}) {
+    this.provider = typeof provider === 'string'
+      ? createEmbeddingProvider({ projectPath: '.', embeddingModel: provider })
+      : provider;
+    this.modelName = this.provider.id;
+    this.cache = options.cache ?? null;
   }
 
   async initialize(): Promise<void> {
@@ -26,9 +42,7 @@ export class EmbeddingGenerator {
     try {
       console.error(`Loading embedding model: ${this.modelName}...`);
 
-      this.model = await pipeline('feature-extraction', this.modelName, {
-        quantized: true
-      });
+      await this.provider.load();
 
       this.initialized = true;
       console.error('Embedding model loaded successfully');
@@ -41,38 +55,73 @@ export class EmbeddingGenerator {
   }
 
   async embed(text: string): Promise<Float32Array> {
-    await this.initialize();
-
-    if (!this.model) {
-      throw new Error('Embedding model not initialized');
-    }
-
-    // Truncate very long texts
-    const maxChars = 8000; // ~2000 tokens
-    const truncatedText = text.length > maxChars ? text.slice(0, maxChars) : text;
+    const [embedding] = await this.infer([truncate(text)]);
+    return embedding!;
+  }
 
-    const output = await this.model(truncatedText, {
-      pooling: 'mean',
-      normalize: true
+  // Cached texts are looked up, the rest embedded batchSize at a time and cached.
+  // Aborting the signal cancels the request in flight; batches done so far stay cached.
+  async embedBatch(texts: string[], options: { batchSize?: number; signal?: AbortSignal } = {}): Promise<Float32Array[]> {
+    const batchSize = options.batchSize ?? 16;
+    const inputs = texts.map(truncate);
+    const hashes = inputs.map(text => hashContent(text));
+    const results: Float32Array[] = new Array(texts.length);
+
+    const cached = this.cache?.getCachedEmbeddings(this.modelName, hashes) ?? new Map<string, Float32Array>();
+
+    // Each distinct uncached text is embedded once, however often it appears
+    const pending = new Map<string, number[]>();
+    hashes.forEach((hash, i) => {
+      const hit = cached.get(hash);
+      if (hit) {
+        results[i] = hit;
+      } else {
+        pending.set(hash, [...(pending.get(hash) ?? []), i]);
+      }
     });
 
-    // Extract the embedding data
-    const data = output.data as Float32Array;
-    this.dimension = data.length;
+    // Texts of similar length share a batch, so little of each batch is padding
+    const queue = [...pending.entries()]
+      .map(([hash, indices]) => ({ hash, indices, text: inputs[indices[0]!]! }))
+      .sort((a, b) => a.text.length - b.text.length);
 
-    return new Float32Array(data);
+    const fresh: Array<{ hash: string; embedding: Float32Array }> = [];
+    try {
+      for (let i = 0; i < queue.length; i += batchSize) {
+        const batch = queue.slice(i, i + batchSize);
+        const embeddings = await this.infer(batch.map(item => item.text), options.signal);
+        batch.forEach((item, j) => {
+          const embedding = embeddings[j]!;
+          for (const index of item.indices) {
+            results[index] = embedding;
+          }
+          fresh.push({ hash: item.hash, embedding });
+        });
+      }
+    } finally {
+      this.cache?.cacheEmbeddings(this.modelName, fresh);
+    }
+    return results;
   }
 
-  async embedBatch(texts: string[], batchSize: number = 8): Promise<Float32Array[]> {
-    const results: Float32Array[] = [];
+  // One provider call for the whole batch
+  private async infer(texts: string[], signal?: AbortSignal): Promise<Float32Array[]> {
+    await this.initialize();
 
-    for (let i = 0; i < texts.length; i += batchSize) {
-      const batch = texts.slice(i, i + batchSize);
-      const embeddings = await Promise.all(batch.map(t => this.embed(t)));
-      results.push(...embeddings);
+    const embeddings = await this.provider.embed(texts, signal);
+    if (embeddings[0]) {
+      this.dimension = embeddings[0].length;
     }
+    return embeddings;
+  }
 
-    return results;
+  // Provenance recorded with every vector this generator produces
+  getModelId(): string {
+    return this.modelName;
+  }
+
+  getProviderKind(): EmbeddingProvider['kind'] {
+    return this.provider.kind;
   }
 
   getDimension(): number {
@@ -83,3 +132,7 @@ export class EmbeddingGenerator {
     return this.initialized;
   }
 }
+
+function truncate(text: string): string {
+  return text.length > MAX_CHARS ? text.slice(0, MAX_CHARS) : text;
+}
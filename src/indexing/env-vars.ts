@@ -0,0 +1,285 @@
+/**
+ * Environment Variables - where code reads configuration from the environment, and where it is declared
+ *
+ * findEnvVars() picks out, per file:
+ * - Reads: `process.env.X`, `process.env['X']`, `const { X } = process.env` and
+ *   `import.meta.env.X` in JS/TS; `os.environ['X']`, `os.environ.get('X')` and
+ *   `os.getenv('X')` in Python; `os.Getenv("X")` and `os.LookupEnv("X")` in Go.
+ *   A fallback (`?? 'x'`, a default argument, LookupEnv's ok) marks the read as
+ *   having a default.
+ * - Example declarations: every name in a .env.example-style template, with the
+ *   comment above it. Values are never kept - templates do end up holding real ones.
+ * - Schema declarations: upper-case keys validated in a file that parses the
+ *   environment (t3 createEnv, envalid cleanEnv, zod/joi `.parse(process.env)`),
+ *   and the fields of pydantic BaseSettings classes with their env_prefix.
+ */
+
+import type { EnvVarSite, EnvVariable } from '../types/index.js';
+import { isEnvExampleFile } from '../utils/files.js';
+import { balanced, lineAt, lineStarts, maskComments, routeLanguage, splitTopLevel, type RouteLanguage } from './routes.js';
+
+const NAME = '[A-Za-z_][A-Za-z0-9_]*';
+
+const JS_ENV = '(?:process\\s*\\.\\s*env|import\\s*\\.\\s*meta\\s*\\.\\s*env|Bun\\s*\\.\\s*env)';
+const JS_MEMBER = new RegExp(`\\b${JS_ENV}\\s*(?:\\?\\.|\\.)\\s*(${NAME})`, 'g');
+const JS_INDEX = new RegExp(`\\b${JS_ENV}\\s*(?:\\?\\.)?\\s*\\[\\s*(['"\`])(${NAME})\\1\\s*\\]`, 'g');
+const JS_DESTRUCTURE = new RegExp(`\\b(?:const|let|var)\\s*\\{([^{}]*)\\}\\s*=\\s*${JS_ENV}\\b`, 'g');
+const JS_FALLBACK = /^\s*(?:\?\?|\|\|)/;
+
+const PY_INDEX = new RegExp(`(?<![\\w.])(?:os\\s*\\.\\s*)?environ\\s*\\[\\s*[rRbBuU]?(['"])(${NAME})\\1\\s*\\]`, 'g');
+const PY_GET = new RegExp(`(?<![\\w.])(?:os\\s*\\.\\s*)?(?:environ\\s*\\.\\s*(?:get|setdefault)|getenv)\\s*\\(\\s*[rRbBuU]?(['"])(${NAME})\\1\\s*(,)?`, 'g');
+const ASSIGNMENT = /^\s*=(?!=)/;
+
+const GO_GETENV = new RegExp(`\\bos\\s*\\.\\s*(Getenv|LookupEnv)\\s*\\(\\s*"(${NAME})"\\s*\\)`, 'g');
+
+// Calls that hand the environment to a schema: their files declare variables
+const JS_SCHEMA_MARKER = new RegExp(`\\b(?:createEnv|cleanEnv)\\s*\\(|\\.\\s*(?:parse|safeParse|validate|parseAsync)\\s*\\(\\s*${JS_ENV}\\b`);
+const JS_SCHEMA_KEY = /(?<=[{,]\s*)(['"]?)([A-Z][A-Z0-9_]*)\1\s*:\s*/g;
+const JS_VALIDATOR = /^(?:z|zod|Joi|joi|yup|v|t|Type|s)\s*\.|^(?:str|num|bool|port|url|email|host|json|makeValidator)\s*\(/;
+const JS_OPTIONAL = /\.\s*(?:optional|default|nullish|catch)\s*\(|\bdefault\s*:|\bdevDefault\s*:/;
+const JS_DESCRIBE = /\.\s*describe\s*\(\s*(['"`])([^'"`\n]*)\1|\bdesc\s*:\s*(['"`])([^'"`\n]*)\3/;
+
+const PY_SETTINGS_CLASS = /^([ \t]*)class\s+\w+\s*\(([^)]*)\)\s*:/gm;
+const PY_FIELD = /^([A-Za-z_]\w*)\s*:\s*([^=\n]+?)\s*(?:=\s*(.*))?$/;
+const PY_ENV_PREFIX = /\benv_prefix\s*[=:]\s*[rRbBuU]?(['"])([^'"]*)\1/;
+const PY_FIELD_ALIAS = /\b(?:validation_alias|alias|env)\s*=\s*[rRbBuU]?(['"])(\w+)\1/;
+const PY_REQUIRED = /^(?:Field\s*\(\s*(?:\.\.\.|default\s*=\s*\.\.\.)|\.\.\.)/;
+
+const DOTENV_ENTRY = /^[ \t]*(#[ \t]*)?(?:export[ \t]+)?([A-Za-z_][A-Za-z0-9_.-]*)[ \t]*=(.*)$/;
+
+// Provided by the OS, the runtime or the bundler rather than the project
+const BUILTIN_ENV = new Set([
+  'NODE_ENV', 'PATH', 'HOME', 'PWD', 'USER', 'USERNAME', 'SHELL', 'TERM', 'LANG', 'TZ',
+  'TMPDIR', 'TMP', 'TEMP', 'HOSTNAME', 'CI', 'DEBUG',
+  'MODE', 'DEV', 'PROD', 'SSR', 'BASE_URL', 'NEXT_RUNTIME'
+]);
+
+const MAX_VALUE_LENGTH = 2000;
+
+export function isBuiltinEnvVar(name: string): boolean {
+  return BUILTIN_ENV.has(name);
+}
+
+export function findEnvVars(filePath: string, content: string): EnvVarSite[] {
+  if (isEnvExampleFile(filePath)) return parseEnvExample(filePath, content);
+
+  const language = routeLanguage(filePath);
+  if (!language) return [];
+  const text = maskComments(content, language);
+  const starts = lineStarts(text);
+  const sites = findReads(text, starts, language);
+
+  if (language === 'js' && JS_SCHEMA_MARKER.test(text)) sites.push(...findJsSchema(text, starts));
+  if (language === 'python') sites.push(...findSettingsClasses(text, starts));
+  return sites.sort((a, b) => a.line - b.line);
+}
+
+/**
+ * The variables a snippet reads. Without a language every syntax is tried:
+ * generated code arrives without a file name more often than not.
+ */
+export function findEnvReads(code: string, language: RouteLanguage | null = null): EnvVarSite[] {
+  const text = maskComments(code, language ?? 'js');
+  return findReads(text, lineStarts(text), language).sort((a, b) => a.line - b.line);
+}
+
+// Declared names closest to one that isn't: same words in another order, or a typo away
+export function similarEnvVars(variables: EnvVariable[], name: string, limit: number = 3): string[] {
+  const words = new Set(name.split('_').filter(Boolean));
+  return variables
+    .map(v => {
+      const shared = v.name.split('_').filter(w => words.has(w)).length;
+      const distance = editDistance(v.name, name);
+      return { name: v.name, shared, distance };
+    })
+    .filter(c => c.shared > 0 || c.distance <= Math.max(2, Math.floor(name.length / 4)))
+    .sort((a, b) => b.shared - a.shared || a.distance - b.distance)
+    .slice(0, limit)
+    .map(c => c.name);
+}
+
+// ============================================================================
+// Reads
+// ============================================================================
+
+function findReads(text: string, starts: number[], language: RouteLanguage | null): EnvVarSite[] {
+  const sites: EnvVarSite[] = [];
+  const read = (name: string, offset: number, hasDefault: boolean) => {
+    sites.push({ name, kind: 'read', line: lineAt(starts, offset), hasDefault, description: null });
+  };
+
+  if (!language || language === 'js') {
+    for (const regex of [JS_MEMBER, JS_INDEX]) {
+      for (const match of text.matchAll(regex)) {
+        const after = text.slice(match.index! + match[0].length);
+        if (ASSIGNMENT.test(after)) continue;
+        read(match[regex === JS_INDEX ? 2 : 1]!, match.index!, JS_FALLBACK.test(after));
+      }
+    }
+    for (const match of text.matchAll(JS_DESTRUCTURE)) {
+      for (const entry of splitTopLevel(match[1]!, ',')) {
+        const binding = entry.match(new RegExp(`^(['"]?)(${NAME})\\1\\s*(?::\\s*[\\w$]+\\s*)?(=)?`));
+        if (binding && !entry.startsWith('...')) read(binding[2]!, match.index!, binding[3] !== undefined);
+      }
+    }
+  }
+
+  if (!language || language === 'python') {
+    for (const match of text.matchAll(PY_INDEX)) {
+      if (ASSIGNMENT.test(text.slice(match.index! + match[0].length))) continue;
+      read(match[2]!, match.index!, false);
+    }
+    for (const match of text.matchAll(PY_GET)) {
+      read(match[2]!, match.index!, match[3] !== undefined);
+    }
+  }
+
+  if (!language || language === 'go') {
+    for (const match of text.matchAll(GO_GETENV)) {
+      read(match[2]!, match.index!, match[1] === 'LookupEnv');
+    }
+  }
+
+  return sites;
+}
+
+// ============================================================================
+// Declarations
+// ============================================================================
+
+// Names only: values in a template are placeholders at best and secrets at worst
+function parseEnvExample(filePath: string, content: string): EnvVarSite[] {
+  const defaults = /\.env\.defaults$/i.test(filePath);
+  const sites: EnvVarSite[] = [];
+  const seen = new Set<string>();
+  let comment: string[] = [];
+
+  content.split('\n').forEach((raw, index) => {
+    const line = raw.replace(/\r$/, '');
+    const entry = line.match(DOTENV_ENTRY);
+    if (entry && !seen.has(entry[2]!)) {
+      seen.add(entry[2]!);
+      sites.push({
+        name: entry[2]!,
+        kind: 'example',
+        line: index + 1,
+        // Commented out in the template: the project runs without it
+        hasDefault: entry[1] !== undefined || (defaults && entry[3]!.trim() !== ''),
+        description: comment.length > 0 ? comment.join(' ') : null
+      });
+      comment = [];
+    } else if (/^\s*#/.test(line)) {
+      const text = line.replace(/^\s*#+\s*/, '').trim();
+      if (text && !/^[-=#*\s]+$/.test(text)) comment.push(text);
+    } else {
+      comment = [];
+    }
+  });
+  return sites;
+}
+
+// Upper-case keys whose values are validators, outside the runtimeEnv mapping
+function findJsSchema(text: string, starts: number[]): EnvVarSite[] {
+  const sites: EnvVarSite[] = [];
+  for (const match of text.matchAll(JS_SCHEMA_KEY)) {
+    const valueStart = match.index! + match[0].length;
+    const value = valueAt(text, valueStart);
+    if (!JS_VALIDATOR.test(value)) continue;
+
+    const describe = value.match(JS_DESCRIBE);
+    sites.push({
+      name: match[2]!,
+      kind: 'schema',
+      line: lineAt(starts, match.index!),
+      hasDefault: JS_OPTIONAL.test(value),
+      description: describe ? (describe[2] ?? describe[4] ?? null) : null
+    });
+  }
+  return sites;
+}
+
+// The expression starting at `start`, up to the comma or bracket that ends it
+function valueAt(text: string, start: number): string {
+  const limit = Math.min(text.length, start + MAX_VALUE_LENGTH);
+  let i = start;
+  while (i < limit) {
+    const ch = text[i]!;
+    if (ch === ',' || ch === '}' || ch === ')' || ch === ']') break;
+    if (ch === '(' || ch === '[' || ch === '{') {
+      const body = balanced(text, i);
+      if (body === null) break;
+      i += body.length + 2;
+    } else if (ch === '\'' || ch === '"' || ch === '`') {
+      const end = text.indexOf(ch, i + 1);
+      i = end === -1 ? limit : end + 1;
+    } else {
+      i++;
+    }
+  }
+  return text.slice(start, i).trim();
+}
+
+// Fields of pydantic BaseSettings subclasses; pydantic matches them case-insensitively
+function findSettingsClasses(text: string, starts: number[]): EnvVarSite[] {
+  const sites: EnvVarSite[] = [];
+  for (const match of text.matchAll(PY_SETTINGS_CLASS)) {
+    if (!/\bBaseSettings\b/.test(match[2]!)) continue;
+
+    const body = classBody(text, match.index! + match[0].length, match[1]!.length);
+    const prefix = body.text.match(PY_ENV_PREFIX)?.[2] ?? '';
+    let offset = body.start;
+    for (const line of body.text.split('\n')) {
+      const indent = line.length - line.trimStart().length;
+      const field = indent === body.indent ? line.trim().match(PY_FIELD) : null;
+      if (field && !field[1]!.startsWith('_') && field[1] !== 'model_config' && !/\bClassVar\b/.test(field[2]!)) {
+        const value = field[3]?.trim();
+        const alias = value?.match(PY_FIELD_ALIAS)?.[2];
+        sites.push({
+          name: alias ?? `${prefix}${field[1]}`.toUpperCase(),
+          kind: 'schema',
+          line: lineAt(starts, offset),
+          hasDefault: value !== undefined && !PY_REQUIRED.test(value),
+          description: value?.match(/\bdescription\s*=\s*[rRbBuU]?(['"])([^'"]*)\1/)?.[2] ?? null
+        });
+      }
+      offset += line.length + 1;
+    }
+  }
+  return sites;
+}
+
+// The lines indented under a class header, and the indentation of its direct members
+function classBody(text: string, from: number, classIndent: number): { text: string; start: number; indent: number } {
+  const start = text.indexOf('\n', from) + 1;
+  if (start === 0) return { text: '', start: text.length, indent: 0 };
+
+  let end = start;
+  let indent = -1;
+  while (end < text.length) {
+    const next = text.indexOf('\n', end);
+    const line = text.slice(end, next === -1 ? text.length : next);
+    if (line.trim()) {
+      const lineIndent = line.length - line.trimStart().length;
+      if (lineIndent <= classIndent) break;
+      if (indent === -1) indent = lineIndent;
+    }
+    end = next === -1 ? text.length : next + 1;
+  }
+  return { text: text.slice(start, end), start, indent };
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current.push(Math.min(
+        previous[j]! + 1,
+        current[j - 1]! + 1,
+        previous[j - 1]! + (a[i - 1] === b[j - 1] ? 0 : 1)
+      ));
+    }
+    previous = current;
+  }
+  return previous[b.length]!;
+}
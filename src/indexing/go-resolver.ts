@@ -0,0 +1,98 @@
+/**
+ * Go Resolver - Map Go import paths to package directories in the project
+ *
+ * Every go.mod in the project declares a module path. An import path that
+ * starts with one of them names a directory below that go.mod; the import
+ * depends on every non-test .go file in that directory (a Go package is a
+ * directory, not a file). When several modules match - nested modules or a
+ * go.work workspace - the longest module path wins. Standard library and
+ * third-party imports resolve to nothing.
+ */
+
+import { readdirSync, readFileSync } from 'fs';
+import { join, posix } from 'path';
+import { globSync } from 'glob';
+import type { FileExists } from './import-resolver.js';
+
+interface GoModule {
+  path: string;                  // Module path from the `module` directive
+  dir: string;                   // Project-relative directory holding go.mod
+}
+
+const MODULE_SEARCH_IGNORE = ['**/vendor/**', '**/node_modules/**', '**/.git/**', '**/testdata/**'];
+
+export function isGoFile(filePath: string): boolean {
+  return filePath.endsWith('.go');
+}
+
+export function isGoConfigFile(filePath: string): boolean {
+  const name = posix.basename(filePath.replace(/\\/g, '/'));
+  return name === 'go.mod' || name === 'go.work';
+}
+
+export class GoResolver {
+  private projectPath: string | null;
+  private modules: GoModule[] | null = null;
+
+  constructor(projectPath: string | null) {
+    this.projectPath = projectPath;
+  }
+
+  invalidate(): void {
+    this.modules = null;
+  }
+
+  resolveTargets(fromFile: string, importPath: string, exists: FileExists): string[] {
+    if (!this.projectPath) return [];
+
+    const module = this.getModules()
+      .filter(m => importPath === m.path || importPath.startsWith(`${m.path}/`))
+      .sort((a, b) => b.path.length - a.path.length)[0];
+    if (!module) return [];
+
+    const rest = importPath.slice(module.path.length).replace(/^\//, '');
+    const packageDir = posix.join(module.dir || '.', rest).replace(/^\.\/?/, '');
+
+    let entries: string[];
+    try {
+      entries = readdirSync(join(this.projectPath, packageDir));
+    } catch {
+      return [];
+    }
+
+    return entries
+      .filter(name => name.endsWith('.go') && !name.endsWith('_test.go'))
+      .sort()
+      .map(name => (packageDir ? `${packageDir}/${name}` : name))
+      .filter(path => path !== fromFile && exists(path));
+  }
+
+  private getModules(): GoModule[] {
+    if (this.modules) return this.modules;
+
+    const modules: GoModule[] = [];
+    const goMods = globSync('**/go.mod', {
+      cwd: this.projectPath!,
+      ignore: MODULE_SEARCH_IGNORE,
+      posix: true
+    }).sort();
+
+    for (const goMod of goMods) {
+      let text: string;
+      try {
+        text = readFileSync(join(this.projectPath!, goMod), 'utf-8');
+      } catch {
+        continue;
+      }
+
+      const match = text.match(/^\s*module\s+"?([^\s"]+)"?/m);
+      if (match?.[1]) {
+        const dir = posix.dirname(goMod);
+        modules.push({ path: match[1], dir: dir === '.' ? '' : dir });
+      }
+    }
+
+    this.modules = modules;
+    return modules;
+  }
+}
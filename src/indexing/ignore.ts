@@ -0,0 +1,264 @@
+/**
+ * Ignore Rules - Decide which project paths indexing and the watcher skip
+ *
+ * Rules come from three places, later ones overriding earlier ones:
+ * 1. The configured watchIgnore globs (node_modules, build output, caches...)
+ * 2. .git/info/exclude and every .gitignore in the tree, scoped to its directory
+ * 3. .neuronlayerignore files - same syntax and scoping - for paths that
+ *    belong in git but not in the index (or `!` to index something git ignores)
+ *
+ * Matching follows gitignore: the last matching rule wins, `!` re-includes,
+ * a trailing `/` matches directories only, a pattern containing a slash is
+ * anchored to its file's directory, and nothing inside an ignored directory
+ * can be re-included. Ignore files inside ignored directories are never read.
+ *
+ * A 'dir/**' rule ignores what is inside dir, not dir itself, so a later
+ * '!dir/keep.ts' still works. Walks skip such a directory only when no later
+ * `!` rule could reach inside it; configured globs always skip it.
+ */
+
+import { readdirSync, readFileSync } from 'fs';
+import { join, posix } from 'path';
+
+interface Rule {
+  regex: RegExp;
+  contents: RegExp | null;       // For 'dir/**': dir itself, which a walk may skip instead of filtering its contents
+  segments: Array<RegExp | null> | null; // Anchored patterns per path segment, '**' as null; null if unanchored
+  negate: boolean;
+  dirOnly: boolean;
+}
+
+interface RuleSet {
+  dir: string;                   // Project-relative directory the rules apply below ('' = root)
+  rules: Rule[];
+}
+
+const IGNORE_FILES = ['.gitignore', '.neuronlayerignore'];
+const MAX_DEPTH = 20;
+
+export function isIgnoreFile(filePath: string): boolean {
+  const normalized = filePath.replace(/\\/g, '/');
+  return IGNORE_FILES.includes(posix.basename(normalized)) || normalized.endsWith('.git/info/exclude');
+}
+
+export class IgnoreRules {
+  private projectPath: string;
+  private configured: RuleSet;
+  private ruleSets: RuleSet[] | null = null;
+  private directoryCache: Map<string, boolean> = new Map();
+
+  constructor(projectPath: string, globs: string[] = []) {
+    this.projectPath = projectPath;
+    this.configured = {
+      dir: '',
+      rules: globs.map(glob => compileRule(glob)).filter((r): r is Rule => r !== null)
+    };
+  }
+
+  // Re-read ignore files on the next check
+  reload(): void {
+    this.ruleSets = null;
+    this.directoryCache.clear();
+  }
+
+  isIgnored(relativePath: string, isDirectory: boolean = false): boolean {
+    const path = relativePath.replace(/\\/g, '/').replace(/^\.\//, '').replace(/\/+$/, '');
+    if (!path || path === '.' || path.startsWith('../')) return false;
+
+    const parts = path.split('/');
+    if (parts.includes('.git')) return true;
+
+    // Nothing inside an ignored directory can be re-included
+    for (let i = 1; i < parts.length; i++) {
+      if (this.isDirectoryIgnored(parts.slice(0, i).join('/'))) return true;
+    }
+    return isDirectory ? this.isDirectoryIgnored(path) : this.matches(path, false);
+  }
+
+  private isDirectoryIgnored(dir: string): boolean {
+    let ignored = this.directoryCache.get(dir);
+    if (ignored === undefined) {
+      ignored = this.matches(dir, true, true);
+      this.directoryCache.set(dir, ignored);
+    }
+    return ignored;
+  }
+
+  // With prune, a directory whose whole contents are ignored counts as ignored itself
+  private matches(path: string, isDirectory: boolean, prune: boolean = false): boolean {
+    const sets = [this.configured, ...this.getRuleSets()];
+    let ignored = false;
+    for (let s = 0; s < sets.length; s++) {
+      const set = sets[s]!;
+      if (set.dir && !path.startsWith(`${set.dir}/`)) continue;
+      const rel = set.dir ? path.slice(set.dir.length + 1) : path;
+      for (let r = 0; r < set.rules.length; r++) {
+        const rule = set.rules[r]!;
+        if (rule.dirOnly && !isDirectory) continue;
+        if (rule.regex.test(rel)) {
+          ignored = !rule.negate;
+        } else if (prune && isDirectory && !rule.negate && rule.contents?.test(rel)) {
+          if (set === this.configured || !reincludesInside(sets, s, r, path)) ignored = true;
+        }
+      }
+    }
+    return ignored;
+  }
+
+  // .gitignore sets shallow to deep, then .neuronlayerignore sets shallow to deep
+  private getRuleSets(): RuleSet[] {
+    if (this.ruleSets) return this.ruleSets;
+
+    const gitignores: RuleSet[] = [];
+    const projectIgnores: RuleSet[] = [];
+    this.ruleSets = [];
+
+    const exclude = this.readRules('.git/info/exclude', '');
+    if (exclude) gitignores.push(exclude);
+
+    // Breadth-first, so a directory's rules are known before its children are checked
+    const queue: Array<{ dir: string; depth: number }> = [{ dir: '', depth: 0 }];
+    while (queue.length > 0) {
+      const { dir, depth } = queue.shift()!;
+
+      const gitignore = this.readRules(dir ? `${dir}/.gitignore` : '.gitignore', dir);
+      if (gitignore) gitignores.push(gitignore);
+      const projectIgnore = this.readRules(dir ? `${dir}/.neuronlayerignore` : '.neuronlayerignore', dir);
+      if (projectIgnore) projectIgnores.push(projectIgnore);
+      this.ruleSets = [...gitignores, ...projectIgnores];
+      this.directoryCache.clear();
+
+      if (depth >= MAX_DEPTH) continue;
+      let entries;
+      try {
+        entries = readdirSync(join(this.projectPath, dir), { withFileTypes: true });
+      } catch {
+        continue;
+      }
+      for (const entry of entries) {
+        const child = dir ? `${dir}/${entry.name}` : entry.name;
+        if (entry.isDirectory() && !this.isIgnored(child, true)) {
+          queue.push({ dir: child, depth: depth + 1 });
+        }
+      }
+    }
+
+    this.directoryCache.clear();
+    return this.ruleSets;
+  }
+
+  private readRules(file: string, dir: string): RuleSet | null {
+    let text: string;
+    try {
+      text = readFileSync(join(this.projectPath, file), 'utf-8');
+    } catch {
+      return null;
+    }
+    const rules = text.split('\n').map(line => compileRule(line)).filter((r): r is Rule => r !== null);
+    return rules.length > 0 ? { dir, rules } : null;
+  }
+}
+
+// Whether a `!` rule after sets[setIndex].rules[ruleIndex] could match something below dir
+function reincludesInside(sets: RuleSet[], setIndex: number, ruleIndex: number, dir: string): boolean {
+  for (let s = setIndex; s < sets.length; s++) {
+    const set = sets[s]!;
+    const rules = s === setIndex ? set.rules.slice(ruleIndex + 1) : set.rules;
+    if (!rules.some(rule => rule.negate)) continue;
+
+    // An ignore file inside dir can re-include anything below it
+    if (set.dir === dir || set.dir.startsWith(`${dir}/`)) return true;
+    if (set.dir && !dir.startsWith(`${set.dir}/`)) continue;
+
+    const parts = (set.dir ? dir.slice(set.dir.length + 1) : dir).split('/');
+    if (rules.some(rule => rule.negate && couldMatchInside(rule, parts))) return true;
+  }
+  return false;
+}
+
+function couldMatchInside(rule: Rule, dirParts: string[]): boolean {
+  if (!rule.segments) return true;
+  for (let i = 0; i < dirParts.length; i++) {
+    const segment = rule.segments[i];
+    if (segment === undefined) return false;
+    if (segment === null) return true;
+    if (!segment.test(dirParts[i]!)) return false;
+  }
+  return rule.segments.length > dirParts.length;
+}
+
+function compileRule(line: string): Rule | null {
+  // Trailing spaces are dropped unless escaped
+  let pattern = line.replace(/\r$/, '').replace(/(?<!\\)\s+$/, '');
+  if (!pattern || pattern.startsWith('#')) return null;
+
+  let negate = false;
+  if (pattern.startsWith('!')) {
+    negate = true;
+    pattern = pattern.slice(1);
+  } else if (pattern.startsWith('\\!') || pattern.startsWith('\\#')) {
+    pattern = pattern.slice(1);
+  }
+
+  const dirOnly = pattern.endsWith('/');
+  pattern = pattern.replace(/\/+$/, '');
+  if (!pattern) return null;
+
+  // A slash anywhere but the end anchors the pattern to the ignore file's directory
+  const anchored = pattern.includes('/');
+  pattern = pattern.replace(/^\//, '');
+  const prefix = anchored ? '' : '(?:.*/)?';
+
+  const inside = pattern.endsWith('/**') ? pattern.slice(0, -'/**'.length) : null;
+
+  return {
+    regex: new RegExp(`^${prefix}${globToRegex(pattern)}$`),
+    contents: inside ? new RegExp(`^${prefix}${globToRegex(inside)}$`) : null,
+    segments: anchored
+      ? pattern.split('/').map(segment => segment === '**' ? null : new RegExp(`^${globToRegex(segment)}$`))
+      : null,
+    negate,
+    dirOnly
+  };
+}
+
+function globToRegex(glob: string): string {
+  let out = '';
+
+  for (let i = 0; i < glob.length; i++) {
+    const ch = glob[i]!;
+
+    if (ch === '*') {
+      const segmentStart = i === 0 || glob[i - 1] === '/';
+      if (glob[i + 1] === '*' && segmentStart && (glob[i + 2] === '/' || glob[i + 2] === undefined)) {
+        // '**/' is any number of directories, a trailing '**' everything inside
+        out += glob[i + 2] === '/' ? '(?:.*/)?' : '.*';
+        i += 2;
+        continue;
+      }
+      while (glob[i + 1] === '*') i++;
+      out += '[^/]*';
+    } else if (ch === '?') {
+      out += '[^/]';
+    } else if (ch === '[') {
+      const close = glob.indexOf(']', i + 2);
+      if (close === -1) {
+        out += '\\[';
+        continue;
+      }
+      const body = glob.slice(i + 1, close).replace(/^!/, '^').replace(/\\/g, '\\\\');
+      out += `[${body}]`;
+      i = close;
+    } else if (ch === '\\' && i + 1 < glob.length) {
+      out += escapeRegex(glob[++i]!);
+    } else {
+      out += escapeRegex(ch);
+    }
+  }
+
+  return out;
+}
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
@@ -0,0 +1,496 @@
+/**
+ * Import Resolver - Map JS/TS import specifiers to files in the project
+ *
+ * Resolution order for `import x from '<specifier>'` in a given file:
+ * 1. Relative specifiers ('./a', '../b') against the importing file's directory
+ * 2. tsconfig/jsconfig `paths` and `baseUrl` from the nearest config (following `extends`)
+ * 3. Workspace packages (npm/yarn `workspaces`, pnpm-workspace.yaml) through
+ *    their package.json `exports`, `module`, `main` or `types` fields
+ *
+ * Python, Go and Rust files are handed to their own resolvers (package roots,
+ * go.mod module paths, the Cargo crate tree); C/C++, Ruby, PHP, Kotlin/Java,
+ * C# and Swift to the polyglot resolver (include paths, PSR-4, source roots).
+ *
+ * Anything else is an external package and resolves to null. Candidates are
+ * checked against a caller-supplied `exists` test (usually the files table),
+ * so only indexed files are ever returned. Config files are read lazily and
+ * cached until invalidate() is called.
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { basename, dirname, isAbsolute, join, posix, relative } from 'path';
+import { globSync } from 'glob';
+import { PythonResolver, isPythonFile, isPythonConfigFile } from './python-resolver.js';
+import { GoResolver, isGoFile, isGoConfigFile } from './go-resolver.js';
+import { RustResolver, isRustFile, isRustConfigFile } from './rust-resolver.js';
+import { PolyglotResolver, polyglotEcosystem, isPolyglotConfigFile } from './polyglot-resolver.js';
+
+// Probed in order when a specifier has no extension (or a JS extension standing in for TS)
+const SOURCE_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs', '.mts', '.cts'];
+const INDEX_FILES = SOURCE_EXTENSIONS.map(ext => `index${ext}`);
+const STRIPPABLE_EXTENSION = /\.(d\.ts|ts|tsx|js|jsx|mjs|cjs|mts|cts)$/;
+
+// Export conditions tried in order - source-like conditions first since
+// build output is usually not indexed
+const EXPORT_CONDITIONS = ['source', 'development', 'types', 'import', 'module', 'default', 'require', 'node', 'browser'];
+
+// Build output directories that often mirror a package's src/ directory
+const BUILD_DIRS = /^(dist|build|lib|out|esm|cjs)\//;
+
+interface PathsConfig {
+  baseUrl: string | null;        // Project-relative
+  pathsBase: string;             // Directory `paths` targets are relative to
+  paths: Array<{ pattern: string; targets: string[] }>;
+}
+
+interface WorkspacePackage {
+  name: string;
+  dir: string;                   // Project-relative
+  manifest: PackageManifest;
+}
+
+interface PackageManifest {
+  name?: string;
+  main?: string;
+  module?: string;
+  types?: string;
+  typings?: string;
+  exports?: unknown;
+  workspaces?: string[] | { packages?: string[] };
+}
+
+export type FileExists = (projectRelativePath: string) => boolean;
+
+// Files whose contents change how imports resolve
+export function isImportConfigFile(filePath: string): boolean {
+  const name = basename(filePath);
+  return /^[tj]sconfig(\..+)?\.json$/.test(name) ||
+    name === 'package.json' ||
+    name === 'pnpm-workspace.yaml' ||
+    isPythonConfigFile(filePath) ||
+    isGoConfigFile(filePath) ||
+    isRustConfigFile(filePath) ||
+    isPolyglotConfigFile(filePath);
+}
+
+export class ImportResolver {
+  private projectPath: string | null;
+  private pathsConfigCache = new Map<string, PathsConfig | null>();
+  private workspacePackages: WorkspacePackage[] | null = null;
+  private python: PythonResolver;
+  private go: GoResolver;
+  private rust: RustResolver;
+  private polyglot: PolyglotResolver;
+
+  /**
+   * @param projectPath Project root. Without it only relative specifiers resolve.
+   */
+  constructor(projectPath: string | null = null) {
+    this.projectPath = projectPath;
+    this.python = new PythonResolver(projectPath);
+    this.go = new GoResolver(projectPath);
+    this.rust = new RustResolver(projectPath);
+    this.polyglot = new PolyglotResolver(projectPath);
+  }
+
+  // Drop cached tsconfig and workspace data after a config file changes
+  invalidate(): void {
+    this.pathsConfigCache.clear();
+    this.workspacePackages = null;
+    this.python.invalidate();
+    this.go.invalidate();
+    this.rust.invalidate();
+    this.polyglot.invalidate();
+  }
+
+  /**
+   * All files an import statement depends on. Usually one, but Python's
+   * `from pkg import a, b` can load several submodules and a Go import
+   * names a whole package directory.
+   */
+  resolveTargets(fromFile: string, specifier: string, importedSymbols: string[], exists: FileExists): string[] {
+    const from = toPosix(fromFile);
+    if (isPythonFile(from)) {
+      return this.python.resolveTargets(from, specifier, importedSymbols, exists);
+    }
+    if (isGoFile(from)) {
+      return this.go.resolveTargets(from, specifier, exists);
+    }
+    if (isRustFile(from)) {
+      return this.rust.resolveTargets(from, specifier, exists);
+    }
+    if (polyglotEcosystem(from)) {
+      return this.polyglot.resolveTargets(from, specifier, exists);
+    }
+
+    const target = this.resolve(from, specifier, exists);
+    return target ? [target] : [];
+  }
+
+  /**
+   * Resolve a specifier imported by fromFile (project-relative) to a
+   * project-relative file path, or null for external or unknown modules.
+   */
+  resolve(fromFile: string, specifier: string, exists: FileExists): string | null {
+    const from = toPosix(fromFile);
+
+    if (isPythonFile(from)) {
+      return this.python.resolveModule(from, specifier, exists);
+    }
+    if (isGoFile(from) || isRustFile(from) || polyglotEcosystem(from)) {
+      return this.resolveTargets(from, specifier, [], exists)[0] ?? null;
+    }
+
+    if (specifier.startsWith('.')) {
+      return this.probe(posix.join(posix.dirname(from), specifier), exists);
+    }
+
+    if (specifier.startsWith('/')) {
+      return this.probe(specifier.slice(1), exists);
+    }
+
+    if (!this.projectPath) return null;
+
+    const fromPaths = this.resolveWithPaths(from, specifier, exists);
+    if (fromPaths) return fromPaths;
+
+    return this.resolveWorkspacePackage(specifier, exists);
+  }
+
+  // ========== tsconfig / jsconfig ==========
+
+  private resolveWithPaths(fromFile: string, specifier: string, exists: FileExists): string | null {
+    const config = this.getPathsConfig(posix.dirname(fromFile));
+    if (!config) return null;
+
+    // TypeScript picks the matching pattern with the longest prefix before '*'
+    const matches = config.paths
+      .map(entry => ({ entry, capture: matchPattern(entry.pattern, specifier) }))
+      .filter((m): m is { entry: PathsConfig['paths'][number]; capture: string } => m.capture !== null)
+      .sort((a, b) => patternPrefix(b.entry.pattern).length - patternPrefix(a.entry.pattern).length);
+
+    for (const { entry, capture } of matches) {
+      for (const target of entry.targets) {
+        const resolved = this.probe(posix.join(config.pathsBase, target.replace('*', capture)), exists);
+        if (resolved) return resolved;
+      }
+    }
+
+    if (config.baseUrl !== null) {
+      return this.probe(posix.join(config.baseUrl, specifier), exists);
+    }
+
+    return null;
+  }
+
+  // Nearest tsconfig.json / jsconfig.json at or above dir (project-relative)
+  private getPathsConfig(dir: string): PathsConfig | null {
+    const key = dir === '.' ? '' : dir;
+    const cached = this.pathsConfigCache.get(key);
+    if (cached !== undefined) return cached;
+
+    let config: PathsConfig | null = null;
+    for (const name of ['tsconfig.json', 'jsconfig.json']) {
+      const configPath = join(this.projectPath!, key, name);
+      if (existsSync(configPath)) {
+        config = this.loadPathsConfig(configPath);
+        break;
+      }
+    }
+
+    if (!config && key !== '') {
+      const parent = posix.dirname(key);
+      config = this.getPathsConfig(parent === '.' ? '' : parent);
+    }
+
+    this.pathsConfigCache.set(key, config);
+    return config;
+  }
+
+  private loadPathsConfig(configPath: string): PathsConfig {
+    let baseUrl: string | null = null;
+    let pathsBase = this.toProjectPath(dirname(configPath));
+    let paths: PathsConfig['paths'] = [];
+
+    // Walk the extends chain from the most derived config; the first config
+    // that sets an option wins, and relative values resolve against that config
+    let baseUrlSet = false;
+    let pathsSet = false;
+    const seen = new Set<string>();
+    let current: string | null = configPath;
+
+    while (current && !seen.has(current)) {
+      seen.add(current);
+      const json = readJsonc(current);
+      if (!json) break;
+
+      const dir = dirname(current);
+      const options = (json.compilerOptions || {}) as { baseUrl?: string; paths?: Record<string, string[]> };
+
+      if (!baseUrlSet && typeof options.baseUrl === 'string') {
+        baseUrl = this.toProjectPath(join(dir, options.baseUrl));
+        baseUrlSet = true;
+      }
+      if (!pathsSet && options.paths && typeof options.paths === 'object') {
+        paths = Object.entries(options.paths)
+          .filter(([, targets]) => Array.isArray(targets))
+          .map(([pattern, targets]) => ({ pattern, targets }));
+        pathsBase = this.toProjectPath(dir);
+        pathsSet = true;
+      }
+
+      current = resolveExtends(dir, json.extends);
+    }
+
+    // Without its own baseUrl, paths targets resolve against the config declaring them;
+    // with one, against baseUrl
+    if (baseUrl !== null) pathsBase = baseUrl;
+
+    return { baseUrl, pathsBase, paths };
+  }
+
+  // ========== Workspaces ==========
+
+  private resolveWorkspacePackage(specifier: string, exists: FileExists): string | null {
+    const packages = this.getWorkspacePackages();
+
+    // Longest name first so '@acme/ui-kit' beats '@acme/ui'
+    const pkg = packages
+      .filter(p => specifier === p.name || specifier.startsWith(`${p.name}/`))
+      .sort((a, b) => b.name.length - a.name.length)[0];
+    if (!pkg) return null;
+
+    const subpath = specifier === pkg.name ? '.' : `.${specifier.slice(pkg.name.length)}`;
+    const candidates: string[] = [];
+
+    if (pkg.manifest.exports !== undefined) {
+      candidates.push(...exportTargets(pkg.manifest.exports, subpath));
+    } else if (subpath === '.') {
+      for (const field of [pkg.manifest.module, pkg.manifest.main, pkg.manifest.types, pkg.manifest.typings]) {
+        if (typeof field === 'string') candidates.push(field);
+      }
+      candidates.push('index');
+    } else {
+      candidates.push(subpath);
+    }
+
+    for (const candidate of candidates) {
+      const target = posix.normalize(candidate);
+      const resolved = this.probe(posix.join(pkg.dir, target), exists) ||
+        // "./dist/index.js" in a workspace usually means "./src/index.ts"
+        (BUILD_DIRS.test(target) ? this.probe(posix.join(pkg.dir, target.replace(BUILD_DIRS, 'src/')), exists) : null);
+      if (resolved) return resolved;
+    }
+
+    return null;
+  }
+
+  private getWorkspacePackages(): WorkspacePackage[] {
+    if (this.workspacePackages) return this.workspacePackages;
+
+    const patterns = this.readWorkspacePatterns();
+    const include = patterns.filter(p => !p.startsWith('!'));
+    const ignore = ['**/node_modules/**', ...patterns.filter(p => p.startsWith('!')).map(p => p.slice(1))];
+    const packages: WorkspacePackage[] = [];
+
+    if (include.length > 0) {
+      const manifests = globSync(include.map(p => `${p.replace(/\/+$/, '')}/package.json`), {
+        cwd: this.projectPath!,
+        ignore,
+        posix: true
+      });
+
+      for (const manifestPath of manifests.sort()) {
+        const manifest = readJsonc(join(this.projectPath!, manifestPath)) as PackageManifest | null;
+        if (manifest?.name) {
+          const dir = posix.dirname(manifestPath);
+          packages.push({ name: manifest.name, dir: dir === '.' ? '' : dir, manifest });
+        }
+      }
+    }
+
+    this.workspacePackages = packages;
+    return packages;
+  }
+
+  private readWorkspacePatterns(): string[] {
+    const patterns: string[] = [];
+
+    const rootManifest = readJsonc(join(this.projectPath!, 'package.json')) as PackageManifest | null;
+    const workspaces = rootManifest?.workspaces;
+    if (Array.isArray(workspaces)) {
+      patterns.push(...workspaces);
+    } else if (workspaces && Array.isArray(workspaces.packages)) {
+      patterns.push(...workspaces.packages);
+    }
+
+    // pnpm-workspace.yaml only needs its `packages:` list, so skip a YAML dependency
+    const pnpmPath = join(this.projectPath!, 'pnpm-workspace.yaml');
+    if (existsSync(pnpmPath)) {
+      let inPackages = false;
+      for (const line of readFileSync(pnpmPath, 'utf-8').split('\n')) {
+        if (/^packages\s*:/.test(line)) {
+          inPackages = true;
+        } else if (inPackages && /^\s*-\s*/.test(line)) {
+          const value = line.replace(/^\s*-\s*/, '').replace(/\s+#.*$/, '').trim().replace(/^['"]|['"]$/g, '');
+          if (value) patterns.push(value);
+        } else if (inPackages && /^\S/.test(line)) {
+          inPackages = false;
+        }
+      }
+    }
+
+    return patterns.filter(p => typeof p === 'string');
+  }
+
+  // ========== Helpers ==========
+
+  // Try a path as-is, with source extensions, and as a directory with an index file
+  private probe(candidate: string, exists: FileExists): string | null {
+    const normalized = posix.normalize(candidate).replace(/^\.\//, '').replace(/\/$/, '');
+    if (normalized.startsWith('..')) return null;
+
+    if (exists(normalized)) return normalized;
+
+    // TS ESM imports name the emitted file: './util.js' means './util.ts'
+    const stem = normalized.replace(STRIPPABLE_EXTENSION, '');
+    for (const ext of SOURCE_EXTENSIONS) {
+      if (exists(stem + ext)) return stem + ext;
+    }
+    for (const index of INDEX_FILES) {
+      const path = normalized === '' || normalized === '.' ? index : `${normalized}/${index}`;
+      if (exists(path)) return path;
+    }
+
+    return null;
+  }
+
+  private toProjectPath(absolutePath: string): string {
+    const rel = toPosix(relative(this.projectPath!, absolutePath));
+    return rel === '' ? '' : rel;
+  }
+}
+
+function toPosix(path: string): string {
+  return path.replace(/\\/g, '/');
+}
+
+function patternPrefix(pattern: string): string {
+  const star = pattern.indexOf('*');
+  return star === -1 ? pattern : pattern.slice(0, star);
+}
+
+// Match a tsconfig paths / exports pattern with at most one '*'; returns the captured text
+function matchPattern(pattern: string, value: string): string | null {
+  const star = pattern.indexOf('*');
+  if (star === -1) return pattern === value ? '' : null;
+
+  const prefix = pattern.slice(0, star);
+  const suffix = pattern.slice(star + 1);
+  if (value.length < prefix.length + suffix.length) return null;
+  if (!value.startsWith(prefix) || !value.endsWith(suffix)) return null;
+  return value.slice(prefix.length, value.length - suffix.length);
+}
+
+// All file targets package.json `exports` offers for a subpath, in preference order
+function exportTargets(exports: unknown, subpath: string): string[] {
+  if (typeof exports === 'string' || Array.isArray(exports)) {
+    return subpath === '.' ? conditionTargets(exports) : [];
+  }
+  if (!exports || typeof exports !== 'object') return [];
+
+  const entries = Object.entries(exports as Record<string, unknown>);
+  const isSubpathMap = entries.some(([key]) => key.startsWith('.'));
+  if (!isSubpathMap) {
+    // { "import": ..., "require": ... } is shorthand for { ".": { ... } }
+    return subpath === '.' ? conditionTargets(exports) : [];
+  }
+
+  const exact = (exports as Record<string, unknown>)[subpath];
+  if (exact !== undefined) return conditionTargets(exact);
+
+  const patterned = entries
+    .map(([key, value]) => ({ key, value, capture: matchPattern(key, subpath) }))
+    .filter(m => m.capture !== null && m.key.includes('*'))
+    .sort((a, b) => patternPrefix(b.key).length - patternPrefix(a.key).length)[0];
+  if (!patterned) return [];
+
+  return conditionTargets(patterned.value).map(t => t.replace(/\*/g, patterned.capture!));
+}
+
+function conditionTargets(value: unknown): string[] {
+  if (typeof value === 'string') return [value];
+  if (Array.isArray(value)) return value.flatMap(conditionTargets);
+  if (!value || typeof value !== 'object') return [];
+
+  const conditions = value as Record<string, unknown>;
+  const ordered = [
+    ...EXPORT_CONDITIONS.filter(c => c in conditions),
+    ...Object.keys(conditions).filter(c => !EXPORT_CONDITIONS.includes(c))
+  ];
+  return ordered.flatMap(c => conditionTargets(conditions[c]));
+}
+
+// `extends` may be relative, a package ("@tsconfig/node18/tsconfig.json"), or an array (TS 5)
+function resolveExtends(configDir: string, extendsValue: unknown): string | null {
+  const value = Array.isArray(extendsValue) ? extendsValue[extendsValue.length - 1] : extendsValue;
+  if (typeof value !== 'string') return null;
+
+  if (value.startsWith('.') || isAbsolute(value)) {
+    const base = isAbsolute(value) ? value : join(configDir, value);
+    return [base, `${base}.json`].find(c => c.endsWith('.json') && existsSync(c)) || null;
+  }
+
+  // Package configs are looked up like modules, in node_modules of each ancestor
+  for (let dir = configDir; ; dir = dirname(dir)) {
+    const base = join(dir, 'node_modules', value);
+    const found = [base, `${base}.json`, join(base, 'tsconfig.json')].find(c => c.endsWith('.json') && existsSync(c));
+    if (found) return found;
+    if (dirname(dir) === dir) return null;
+  }
+}
+
+// tsconfig files allow comments and trailing commas
+function readJsonc(filePath: string): Record<string, unknown> | null {
+  let text: string;
+  try {
+    text = readFileSync(filePath, 'utf-8');
+  } catch {
+    return null;
+  }
+
+  let out = '';
+  let inString = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    const next = text[i + 1];
+
+    if (inString) {
+      out += char;
+      if (char === '\\') {
+        out += next ?? '';
+        i++;
+      } else if (char === '"') {
+        inString = false;
+      }
+    } else if (char === '"') {
+      inString = true;
+      out += char;
+    } else if (char === '/' && next === '/') {
+      while (i < text.length && text[i] !== '\n') i++;
+      out += '\n';
+    } else if (char === '/' && next === '*') {
+      i += 2;
+      while (i < text.length && !(text[i] === '*' && text[i + 1] === '/')) i++;
+      i++;
+    } else {
+      out += char;
+    }
+  }
+
+  try {
+    return JSON.parse(out.replace(/,(\s*[}\]])/g, '$1'));
+  } catch {
+    return null;
+  }
+}
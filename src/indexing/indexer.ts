@@ -1,31 +1,57 @@
-import { readFileSync, statSync } from 'fs';
-import { glob } from 'glob';
+import { existsSync, readFileSync } from 'fs';
+import { glob, type Path } from 'glob';
 import { join, relative } from 'path';
 import { EventEmitter } from 'events';
 import { EmbeddingGenerator } from './embeddings.js';
+import { createEmbeddingProvider } from './embedding-providers.js';
 import { ASTParser } from './ast.js';
+import { prepareFile, type PrepareTask, type PreparedFile, type ChangedFile, type UnchangedFile, type ParsedFile } from './prepare.js';
+import { ParsePool } from './worker-pool.js';
 import { FileWatcher, type FileEvent } from './watcher.js';
+import { IgnoreRules, isIgnoreFile } from './ignore.js';
+import { isImportConfigFile } from './import-resolver.js';
+import { componentFramework } from './sfc.js';
+import { RENAME_WINDOW_MS, gitRenames, matchRenames, type FileRename, type RenameCandidate } from './renames.js';
 import { Tier2Storage } from '../storage/tier2.js';
-import { isCodeFile, detectLanguage, hashContent, getPreview, countLines } from '../utils/files.js';
+import { isCodeFile, hashContent } from '../utils/files.js';
 import type { NeuronLayerConfig, IndexingProgress } from '../types/index.js';
 
+// Files prepared ahead of the one being stored, per parse worker
+const PREPARE_WINDOW_PER_WORKER = 4;
+// A batch is embedded and written once it holds this many files or chunk texts
+const FILE_BATCH_SIZE = 32;
+const EMBEDDING_BATCH_SIZE = 64;
+// Cached embeddings kept beyond those of the current chunks, for files that come back
+const EMBEDDING_CACHE_HEADROOM = 10000;
+
 export class Indexer extends EventEmitter {
   private config: NeuronLayerConfig;
   private embeddingGenerator: EmbeddingGenerator;
   private astParser: ASTParser;
   private watcher: FileWatcher;
+  private ignoreRules: IgnoreRules;
   private tier2: Tier2Storage;
   private isIndexing = false;
+  private indexingAbort: AbortController | null = null;
+  private backfillParse = false;
   private pendingFiles: Set<string> = new Set();
   private processTimeout: NodeJS.Timeout | null = null;
+  // A new file may satisfy imports that previously resolved to nothing
+  private dependenciesStale = false;
+  private importConfigChanged = false;
+  private ignoreRulesChanged = false;
+  // Removed files, kept until RENAME_WINDOW_MS passes without a matching add
+  private pendingRemovals: Map<string, { contentHash: string; timer: NodeJS.Timeout }> = new Map();
+  private watcherReady = false;
 
   constructor(config: NeuronLayerConfig, tier2: Tier2Storage) {
     super();
     this.config = config;
     this.tier2 = tier2;
-    this.embeddingGenerator = new EmbeddingGenerator(config.embeddingModel);
+    this.embeddingGenerator = new EmbeddingGenerator(createEmbeddingProvider(config), { cache: tier2 });
     this.astParser = new ASTParser(config.dataDir);
-    this.watcher = new FileWatcher(config.projectPath, config.watchIgnore);
+    this.ignoreRules = new IgnoreRules(config.projectPath, config.watchIgnore);
+    this.watcher = new FileWatcher(config.projectPath, this.ignoreRules);
 
     this.setupWatcher();
   }
@@ -36,6 +62,7 @@ export class Indexer extends EventEmitter {
     });
 
     this.watcher.on('ready', () => {
+      this.watcherReady = true;
       this.emit('watcherReady');
     });
 
@@ -45,18 +72,31 @@ export class Indexer extends EventEmitter {
   }
 
   private handleFileEvent(event: FileEvent): void {
+    // Startup 'add' events replay configs the initial index already read
+    if (this.watcherReady && isImportConfigFile(event.relativePath)) {
+      this.importConfigChanged = true;
+      this.schedulePendingProcessing();
+    }
+
+    if (this.watcherReady && isIgnoreFile(event.relativePath)) {
+      this.ignoreRulesChanged = true;
+      this.schedulePendingProcessing();
+    }
+
     // Only process code files
     if (!isCodeFile(event.path)) {
       return;
     }
 
     if (event.type === 'unlink') {
-      // File deleted
-      this.tier2.deleteFile(event.relativePath);
-      this.emit('fileRemoved', event.relativePath);
+      // File deleted - or the first half of a rename
+      this.holdRemoval(event.relativePath);
       return;
     }
 
+    // Saved by delete-and-recreate: the same file, just changed
+    this.releaseRemoval(event.relativePath);
+
     // Add or change - queue for processing
     this.pendingFiles.add(event.path);
     this.schedulePendingProcessing();
@@ -74,106 +114,155 @@ export class Indexer extends EventEmitter {
   }
 
   private async processPendingFiles(): Promise<void> {
-    if (this.isIndexing || this.pendingFiles.size === 0) {
+    if (this.isIndexing) {
       return;
     }
 
-    const files = Array.from(this.pendingFiles);
+    if (this.ignoreRulesChanged) {
+      this.ignoreRulesChanged = false;
+      await this.applyIgnoreRules();
+    }
+
+    // Files can be gone again by now - a rename's old path, a temp file
+    const files = Array.from(this.pendingFiles).filter(file =>
+      existsSync(file) && !this.ignoreRules.isIgnored(relative(this.config.projectPath, file))
+    );
     this.pendingFiles.clear();
 
+    if (this.pendingRemovals.size > 0) {
+      const removed = [...this.pendingRemovals].map(([path, removal]) => ({ path, contentHash: removal.contentHash }));
+      for (const rename of this.detectRenames(removed, files)) {
+        this.releaseRemoval(rename.from);
+      }
+    }
+
+    // Announced once something actually changed: the watcher's startup scan
+    // replays every file, and those are all unchanged after the initial index
+    const total = files.length;
+    let checked = 0;
+    let indexed = 0;
+
     for (const file of files) {
       try {
-        await this.indexFile(file);
+        if (await this.indexFile(file)) {
+          if (indexed++ === 0) this.emit('reindexStarted', { total });
+        }
       } catch (error) {
         console.error(`Error indexing ${file}:`, error);
       }
+      checked++;
+      if (indexed > 0) {
+        const progress: IndexingProgress = { total, checked, indexed, current: relative(this.config.projectPath, file) };
+        this.emit('reindexProgress', progress);
+      }
+    }
+
+    this.refreshDependencies();
+    if (indexed > 0) {
+      this.emit('reindexComplete', { total, indexed });
     }
   }
 
-  async indexFile(absolutePath: string): Promise<boolean> {
-    try {
-      const content = readFileSync(absolutePath, 'utf-8');
-      const stats = statSync(absolutePath);
-      const relativePath = relative(this.config.projectPath, absolutePath);
+  // Keep a removed file's row for a moment in case its replacement shows up
+  private holdRemoval(relativePath: string): void {
+    const file = this.tier2.getFile(relativePath);
+    if (!file) return;
+
+    this.releaseRemoval(relativePath);
+    this.pendingRemovals.set(relativePath, {
+      contentHash: file.contentHash,
+      timer: setTimeout(() => {
+        this.pendingRemovals.delete(relativePath);
+        this.tier2.deleteFile(relativePath);
+        this.emit('fileRemoved', relativePath);
+      }, RENAME_WINDOW_MS)
+    });
+  }
 
-      const contentHash = hashContent(content);
-      const existingFile = this.tier2.getFile(relativePath);
+  private releaseRemoval(relativePath: string): void {
+    const removal = this.pendingRemovals.get(relativePath);
+    if (removal) {
+      clearTimeout(removal.timer);
+      this.pendingRemovals.delete(relativePath);
+    }
+  }
 
-      // Skip if content hasn't changed
-      if (existingFile && existingFile.contentHash === contentHash) {
-        return false; // Not indexed, skipped
-      }
+  // Move index rows of removed files onto the new files that replaced them
+  private detectRenames(removed: RenameCandidate[], absolutePaths: string[]): FileRename[] {
+    const indexed = new Set(this.tier2.getAllFiles().map(f => f.path));
+    const added: RenameCandidate[] = [];
 
-      const language = detectLanguage(absolutePath);
-      const preview = getPreview(content);
-      const lineCount = countLines(content);
-
-      // Store file metadata
-      const fileId = this.tier2.upsertFile(
-        relativePath,
-        contentHash,
-        preview,
-        language,
-        stats.size,
-        lineCount,
-        Math.floor(stats.mtimeMs)
-      );
-
-      // Generate and store embedding
-      const embedding = await this.embeddingGenerator.embed(content);
-      this.tier2.upsertEmbedding(fileId, embedding);
-
-      // Phase 2: Parse AST and extract symbols
+    for (const absolutePath of absolutePaths) {
+      const path = relative(this.config.projectPath, absolutePath);
+      if (indexed.has(path)) continue;
       try {
-        const parsed = await this.astParser.parseFile(relativePath, content);
-        if (parsed) {
-          // Clear old symbols/imports/exports for this file
-          this.tier2.clearSymbols(fileId);
-          this.tier2.clearImports(fileId);
-          this.tier2.clearExports(fileId);
-
-          // Insert new symbols with fileId
-          if (parsed.symbols.length > 0) {
-            const symbolsWithFileId = parsed.symbols.map(s => ({ ...s, fileId }));
-            this.tier2.insertSymbols(symbolsWithFileId);
-          }
+        added.push({ path, contentHash: hashContent(readFileSync(absolutePath, 'utf-8')) });
+      } catch {
+        // Gone again already
+      }
+    }
+    if (added.length === 0) return [];
+
+    const renames = matchRenames(removed, added, () => gitRenames(this.config.projectPath));
+    for (const rename of renames) {
+      if (this.tier2.renameFile(rename.from, rename.to)) {
+        // Relative imports in and to the moved file resolve differently now
+        this.dependenciesStale = true;
+        this.emit('fileRenamed', rename);
+      }
+    }
+    return renames;
+  }
 
-          // Insert imports with fileId
-          if (parsed.imports.length > 0) {
-            const importsWithFileId = parsed.imports.map(i => ({ ...i, fileId }));
-            this.tier2.insertImports(importsWithFileId);
-          }
+  private refreshDependencies(force: boolean = false): void {
+    if (!force && !this.dependenciesStale && !this.importConfigChanged) return;
 
-          // Insert exports with fileId
-          if (parsed.exports.length > 0) {
-            const exportsWithFileId = parsed.exports.map(e => ({ ...e, fileId }));
-            this.tier2.insertExports(exportsWithFileId);
-          }
+    try {
+      this.tier2.rebuildImportDependencies({ reloadConfig: force || this.importConfigChanged });
+      this.tier2.resolveCalls();
+      this.tier2.resolveReferences();
+      this.tier2.resolveTypeRelations();
+    } catch (error) {
+      console.error('Error rebuilding dependency graph:', error);
+    }
+    this.dependenciesStale = false;
+    this.importConfigChanged = false;
+  }
 
-          // Build dependency edges from imports
-          if (parsed.imports.length > 0) {
-            this.tier2.clearDependencies(fileId);
-            for (const imp of parsed.imports) {
-              const targetFile = this.tier2.resolveImportToFile(relativePath, imp.importedFrom);
-              if (targetFile) {
-                this.tier2.addDependency(fileId, targetFile.id, 'imports');
-              }
-            }
-          }
-        }
-      } catch (astError) {
-        // AST parsing is optional, don't fail the whole index
-        console.error(`AST parsing failed for ${relativePath}:`, astError);
+  async indexFile(absolutePath: string): Promise<boolean> {
+    try {
+      const prepared = await prepareFile(this.astParser, this.prepareTask(absolutePath));
+      if (prepared.status === 'unchanged') {
+        this.storeBackfilled(prepared);
+        return false; // Not indexed, skipped
+      }
+
+      let embeddings: Float32Array[] | null = null;
+      let embedError: unknown = null;
+      try {
+        embeddings = await this.embeddingGenerator.embedBatch(prepared.embeddingTexts);
+      } catch (error) {
+        embedError = error;
+      }
+      const fileId = this.tier2.transaction(() => this.storeFile(prepared, embeddings));
+
+      if (!this.isIndexing && prepared.parsed) {
+        // Importers and existing callers may now resolve to different symbols
+        const related = this.tier2.getDependents(fileId).map(d => d.sourceFileId);
+        this.tier2.resolveCalls([fileId, ...related]);
+        this.tier2.resolveReferences([fileId, ...related]);
+        this.tier2.resolveTypeRelations([fileId, ...related]);
       }
+      if (!embeddings) throw embedError;
 
-      this.emit('fileIndexed', relativePath);
+      this.emit('fileIndexed', prepared.relativePath);
 
       // Emit impact warning for changed files (not during initial indexing)
       if (!this.isIndexing) {
-        const dependents = this.tier2.getFileDependents(relativePath);
+        const dependents = this.tier2.getFileDependents(prepared.relativePath);
         if (dependents.length > 0) {
           this.emit('fileImpact', {
-            file: relativePath,
+            file: prepared.relativePath,
             affectedFiles: dependents.map(d => d.file),
             affectedCount: dependents.length,
             imports: dependents.map(d => ({ file: d.file, symbols: d.imports }))
@@ -189,75 +278,339 @@ export class Indexer extends EventEmitter {
     }
   }
 
-  async performInitialIndex(): Promise<void> {
+  // What the preparer needs to know about the indexed copy of a file
+  private prepareTask(absolutePath: string): PrepareTask {
+    const relativePath = relative(this.config.projectPath, absolutePath);
+    const existingFile = this.tier2.getFile(relativePath);
+    if (!existingFile) {
+      this.dependenciesStale = true;
+    }
+
+    // Content hasn't changed - unless the file was indexed before chunking, or is
+    // a Vue/Svelte file indexed before its scripts were parsed: re-embed those once
+    const upToDate =
+      existingFile &&
+      this.tier2.hasChunks(existingFile.id) &&
+      !(componentFramework(relativePath) && !this.tier2.getComponent(relativePath));
+
+    return {
+      absolutePath,
+      relativePath,
+      knownHash: upToDate ? existingFile.contentHash : null,
+      parseUnchanged: this.backfillParse
+    };
+  }
+
+  private storeBackfilled(prepared: UnchangedFile): void {
+    const file = prepared.parsed ? this.tier2.getFile(prepared.relativePath) : null;
+    if (!file || !prepared.parsed) return;
+    this.tier2.transaction(() => this.storeParsedExtras(file.id, prepared.parsed!));
+  }
+
+  // Call sites, references, supertypes, schema, routes and env vars; the initial index resolves them all at once when it finishes
+  private storeParsedExtras(fileId: number, parsed: ParsedFile): void {
+    this.tier2.replaceCalls(fileId, parsed.calls);
+    this.tier2.replaceReferences(fileId, parsed.references);
+    this.tier2.replaceTypeRelations(fileId, parsed.typeRelations, parsed.methodSets);
+    this.tier2.replaceSchema(fileId, parsed.schema ?? [], parsed.tableReferences);
+    this.tier2.replaceRoutes(fileId, parsed.routes, parsed.routeMounts);
+    this.tier2.replaceEnvVars(fileId, parsed.envVars);
+  }
+
+  // Write a prepared file and its chunk embeddings; callers wrap this in a transaction.
+  // Without embeddings (the provider failed, or indexing was cancelled) what parsing
+  // found is still stored, but not the hash: the next run sees the file as changed
+  // and embeds it again. Until then its old chunks stay, so it can still be found.
+  private storeFile(prepared: ChangedFile, embeddings: Float32Array[] | null): number {
+    const { relativePath, parsed } = prepared;
+
+    const fileId = this.tier2.upsertFile(
+      relativePath,
+      embeddings ? prepared.contentHash : '',
+      prepared.preview,
+      prepared.language,
+      prepared.sizeBytes,
+      prepared.lineCount,
+      prepared.lastModified
+    );
+
+    if (parsed) {
+      // Clear old symbols/imports/exports for this file
+      this.tier2.clearSymbols(fileId);
+      this.tier2.clearImports(fileId);
+      this.tier2.clearExports(fileId);
+
+      if (parsed.symbols.length > 0) {
+        this.tier2.insertSymbols(parsed.symbols.map(s => ({ ...s, fileId })));
+      }
+      if (parsed.imports.length > 0) {
+        this.tier2.insertImports(parsed.imports.map(i => ({ ...i, fileId })));
+      }
+      if (parsed.exports.length > 0) {
+        this.tier2.insertExports(parsed.exports.map(e => ({ ...e, fileId })));
+      }
+
+      // Build dependency edges from imports
+      this.tier2.clearDependencies(fileId);
+      for (const imp of parsed.imports) {
+        for (const targetFile of this.tier2.resolveImportTargets(relativePath, imp.importedFrom, imp.importedSymbols)) {
+          if (targetFile.id !== fileId) {
+            this.tier2.addDependency(fileId, targetFile.id, 'imports');
+          }
+        }
+      }
+
+      this.tier2.replaceComponent(fileId, parsed.component ?? null);
+
+      this.storeParsedExtras(fileId, parsed);
+    }
+
+    // One embedding per symbol-level chunk; the old ones describe content that is gone
+    if (embeddings) {
+      this.tier2.replaceChunks(fileId, prepared.chunks.map((chunk, i) => ({ chunk, embedding: embeddings[i]! })));
+    }
+    return fileId;
+  }
+
+  // Stop an initial index in progress; files already prepared are still stored
+  cancelIndexing(): void {
+    this.indexingAbort?.abort();
+  }
+
+  async performInitialIndex(options: { signal?: AbortSignal } = {}): Promise<void> {
     if (this.isIndexing) {
       return;
     }
 
     this.isIndexing = true;
+    this.indexingAbort = new AbortController();
+    const signal = this.indexingAbort.signal;
+    const cancel = () => this.indexingAbort?.abort();
+    options.signal?.addEventListener('abort', cancel, { once: true });
+    if (options.signal?.aborted) cancel();
+
+    // Databases indexed before the call graph, references or the type hierarchy
+    // existed: parse unchanged files once more for what they lack
+    this.backfillParse = this.tier2.getFileCount() > 0 &&
+      (!this.tier2.hasCalls() || !this.tier2.hasReferences() || this.tier2.isParseBackfillPending());
     this.emit('indexingStarted');
 
+    const pool = new ParsePool(this.config.dataDir, this.config.indexConcurrency, this.astParser);
+
     try {
-      // Find all code files
-      const patterns = [
-        '**/*.ts', '**/*.tsx', '**/*.js', '**/*.jsx', '**/*.mjs', '**/*.cjs',
-        '**/*.py', '**/*.rb', '**/*.go', '**/*.rs', '**/*.java', '**/*.kt',
-        '**/*.cs', '**/*.cpp', '**/*.c', '**/*.h', '**/*.hpp',
-        '**/*.php', '**/*.swift', '**/*.vue', '**/*.svelte',
-        '**/*.md', '**/*.json', '**/*.yaml', '**/*.yml',
-        '**/*.sql', '**/*.sh', '**/*.dockerfile',
-        '**/*.prisma', '**/*.graphql'
-      ];
-
-      const files: string[] = [];
-
-      for (const pattern of patterns) {
-        const matches = await glob(pattern, {
-          cwd: this.config.projectPath,
-          ignore: this.config.watchIgnore,
-          absolute: true,
-          nodir: true
-        });
-        files.push(...matches);
+      const uniqueFiles = await this.findProjectFiles();
+      this.removeIgnoredFiles();
+
+      // Files moved while we weren't running: indexed paths that are gone from disk
+      const found = new Set(uniqueFiles.map(file => relative(this.config.projectPath, file)));
+      const missing = this.tier2.getAllFiles()
+        .filter(file => !found.has(file.path) && !existsSync(join(this.config.projectPath, file.path)))
+        .map(file => ({ path: file.path, contentHash: file.contentHash }));
+      if (missing.length > 0) {
+        this.detectRenames(missing, uniqueFiles);
       }
 
-      // Deduplicate
-      const uniqueFiles = [...new Set(files)];
-
       let checked = 0;
       let indexed = 0;
+      let failed = 0;               // Files that couldn't be prepared, embedded or stored
       const total = uniqueFiles.length;
 
-      // Index files (only shows progress for actually indexed files)
-      for (const file of uniqueFiles) {
-        try {
-          const wasIndexed = await this.indexFile(file);
-          checked++;
-          if (wasIndexed) {
-            indexed++;
-            this.emit('progress', { total, indexed, current: relative(this.config.projectPath, file) });
+      // Prepared files wait here so embeddings run in real batches and writes share a transaction
+      let batch: ChangedFile[] = [];
+      let batchTexts = 0;
+
+      const flush = async (): Promise<void> => {
+        if (batch.length === 0) return;
+        const files = batch;
+        batch = [];
+        batchTexts = 0;
+
+        // Symbols, imports and the rest need no embedding; without one
+        // (cancelled, or the provider failed) they are stored all the same
+        let embeddings: Float32Array[] | null = null;
+        let embedFailed = false;
+        if (!signal.aborted) {
+          try {
+            embeddings = await this.embeddingGenerator.embedBatch(files.flatMap(file => file.embeddingTexts), { signal });
+          } catch (error) {
+            // Cancelled mid-request is no failure; the next run embeds the files
+            if (!signal.aborted) {
+              console.error('Error embedding batch:', error);
+              for (const file of files) {
+                this.emit('indexError', { path: file.absolutePath, error });
+              }
+              embedFailed = true;
+            }
+          }
+        }
+
+        let offset = 0;
+        const stored = this.tier2.transaction(() => files.filter(file => {
+          const vectors = embeddings?.slice(offset, offset += file.embeddingTexts.length) ?? null;
+          // A savepoint per file keeps one bad file from rolling back the batch
+          try {
+            this.tier2.transaction(() => this.storeFile(file, vectors));
+            return true;
+          } catch (error) {
+            console.error(`Error indexing ${file.absolutePath}:`, error);
+            this.emit('indexError', { path: file.absolutePath, error });
+            return false;
+          }
+        }));
+
+        if (!embeddings) {
+          if (embedFailed) failed += files.length;
+          return;
+        }
+        failed += files.length - stored.length;
+        for (const file of stored) {
+          indexed++;
+          this.emit('fileIndexed', file.relativePath);
+        }
+      };
+
+      // A bounded window of files in flight keeps workers busy without holding the whole tree in memory
+      const window = pool.size * PREPARE_WINDOW_PER_WORKER;
+      const inFlight: Array<Promise<PreparedFile | null>> = [];
+      let next = 0;
+
+      while (!signal.aborted && (next < uniqueFiles.length || inFlight.length > 0)) {
+        while (next < uniqueFiles.length && inFlight.length < window) {
+          const file = uniqueFiles[next++]!;
+          inFlight.push(pool.run(this.prepareTask(file)).catch((error) => {
+            if (!signal.aborted) {
+              console.error(`Error indexing ${file}:`, error);
+              this.emit('indexError', { path: file, error });
+              failed++;
+            }
+            return null;
+          }));
+        }
+
+        const prepared = await inFlight.shift()!;
+        checked++;
+
+        if (prepared?.status === 'unchanged') {
+          this.storeBackfilled(prepared);
+        } else if (prepared) {
+          batch.push(prepared);
+          batchTexts += prepared.embeddingTexts.length;
+          if (batch.length >= FILE_BATCH_SIZE || batchTexts >= EMBEDDING_BATCH_SIZE) {
+            await flush();
           }
-        } catch (error) {
-          console.error(`Error indexing ${file}:`, error);
         }
+
+        // checked counts every file looked at; indexed only those stored so far
+        const progress: IndexingProgress = { total, checked, indexed, current: prepared?.relativePath };
+        this.emit('progress', progress);
       }
 
+      // Files prepared before a cancel are kept, without vectors if the cancel came first
+      await flush();
+
+      // Persist ANN index updates from this batch in one write
+      this.tier2.flushVectorIndexes();
+      this.tier2.pruneEmbeddingCache(this.tier2.getChunkCount() + EMBEDDING_CACHE_HEADROOM);
+
+      if (signal.aborted) {
+        // Imports resolve on the next run's full refresh
+        this.emit('indexingCancelled', { total, checked, indexed, failed });
+        return;
+      }
+
+      // Imports of files indexed later in the run (or after a config change) only resolve now
+      this.refreshDependencies(true);
+      if (this.backfillParse) this.tier2.finishParseBackfill();
+
       this.emit('indexingComplete', {
         total: checked,
         indexed,
-        skipped: checked - indexed
+        failed,
+        skipped: checked - indexed - failed
       });
     } finally {
+      options.signal?.removeEventListener('abort', cancel);
+      await pool.close();
+      this.indexingAbort = null;
       this.isIndexing = false;
+      this.backfillParse = false;
     }
   }
 
+  private async findProjectFiles(): Promise<string[]> {
+    const patterns = [
+      '**/*.ts', '**/*.tsx', '**/*.js', '**/*.jsx', '**/*.mjs', '**/*.cjs',
+      '**/*.py', '**/*.rb', '**/*.go', '**/*.rs', '**/*.java', '**/*.kt',
+      '**/*.cs', '**/*.cpp', '**/*.cc', '**/*.c', '**/*.h', '**/*.hpp',
+      '**/*.php', '**/*.swift', '**/*.vue', '**/*.svelte',
+      '**/*.md', '**/*.json', '**/*.yaml', '**/*.yml',
+      '**/*.sql', '**/*.sh', '**/*.dockerfile',
+      '**/*.prisma', '**/*.graphql',
+      '**/.env.example', '**/.env.sample', '**/.env.template', '**/.env.schema',
+      '**/.env.defaults', '**/.env.dist', '**/example.env'
+    ];
+
+    // Pick up edits to ignore files made while we weren't running
+    this.ignoreRules.reload();
+    const ignore = {
+      ignored: (p: Path) => this.ignoreRules.isIgnored(p.relativePosix()),
+      childrenIgnored: (p: Path) => this.ignoreRules.isIgnored(p.relativePosix(), true)
+    };
+
+    const files: string[] = [];
+
+    for (const pattern of patterns) {
+      const matches = await glob(pattern, {
+        cwd: this.config.projectPath,
+        ignore,
+        dot: true,
+        absolute: true,
+        nodir: true
+      });
+      files.push(...matches);
+    }
+
+    // Deduplicate
+    return [...new Set(files)];
+  }
+
+  // Ignore files changed: drop what is now excluded and watch what is now included
+  private async applyIgnoreRules(): Promise<void> {
+    this.ignoreRules.reload();
+    this.removeIgnoredFiles();
+
+    // The restarted watcher reports every included file as added; known ones are skipped by hash
+    this.watcherReady = false;
+    await this.watcher.restart();
+  }
+
+  private removeIgnoredFiles(): number {
+    let removed = 0;
+    for (const file of this.tier2.getAllFiles()) {
+      if (this.ignoreRules.isIgnored(file.path)) {
+        this.tier2.deleteFile(file.path);
+        this.emit('fileRemoved', file.path);
+        removed++;
+      }
+    }
+
+    if (removed > 0) {
+      this.dependenciesStale = true;
+    }
+    return removed;
+  }
+
   startWatching(): void {
     this.watcher.start();
   }
 
-  stopWatching(): void {
-    this.watcher.stop();
+  stopWatching(): Promise<void> {
+    const stopped = this.watcher.stop();
+    // Rows of held removals stay; the next startup pairs them with moved files
+    for (const path of [...this.pendingRemovals.keys()]) {
+      this.releaseRemoval(path);
+    }
+    return stopped;
   }
 
   getEmbeddingGenerator(): EmbeddingGenerator {
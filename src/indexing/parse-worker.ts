@@ -0,0 +1,26 @@
+/**
+ * Parse Worker - Worker thread entry point for the ParsePool
+ *
+ * Each worker loads its own tree-sitter runtime and prepares one file at a
+ * time. Built separately to dist/parse-worker.js (see esbuild.config.js).
+ */
+
+import { parentPort, workerData } from 'worker_threads';
+import { ASTParser } from './ast.js';
+import { prepareFile, type PrepareTask } from './prepare.js';
+
+export interface WorkerRequest {
+  id: number;
+  task: PrepareTask;
+}
+
+const parser = new ASTParser((workerData as { dataDir: string }).dataDir);
+
+parentPort?.on('message', async ({ id, task }: WorkerRequest) => {
+  try {
+    const result = await prepareFile(parser, task);
+    parentPort!.postMessage({ id, result });
+  } catch (error) {
+    parentPort!.postMessage({ id, error: error instanceof Error ? error.message : String(error) });
+  }
+});
@@ -0,0 +1,282 @@
+/**
+ * Polyglot Resolver - Map C/C++, Ruby, PHP, Kotlin/Java, C# and Swift imports to project files
+ *
+ * - C/C++ `#include "x.h"`: the including file's directory, then the project
+ *   root and include/ and src/. `<system>` includes never resolve.
+ * - Ruby `require_relative` (recorded as './path') resolves against the file,
+ *   `require 'a/b'` against lib/ and the project root
+ * - PHP include/require paths resolve against the file; `use A\B\C` goes
+ *   through composer.json PSR-4 prefixes, then the namespace as a path
+ * - Kotlin/Java `import a.b.C` is a/b/C.kt or a/b/C.java under a source root
+ *   (src/main/kotlin, src/main/java, ...); `import a.b.*` and imports of
+ *   top-level functions name the whole package directory
+ * - C# `using A.B` names a namespace; by convention its files sit in a
+ *   directory A/B (or B below the project folder)
+ * - Swift `import Module` is a SwiftPM target under Sources/Module
+ *
+ * Anything else is a library or SDK module and resolves to nothing.
+ */
+
+import { readdirSync, readFileSync } from 'fs';
+import { join, posix } from 'path';
+import { globSync } from 'glob';
+import type { FileExists } from './import-resolver.js';
+
+type Ecosystem = 'c' | 'ruby' | 'php' | 'jvm' | 'csharp' | 'swift';
+
+const ECOSYSTEM_EXTENSIONS: Record<Ecosystem, string[]> = {
+  c: ['.c', '.h', '.cpp', '.cc', '.cxx', '.hpp', '.hh', '.hxx'],
+  ruby: ['.rb'],
+  php: ['.php'],
+  jvm: ['.kt', '.kts', '.java'],
+  csharp: ['.cs'],
+  swift: ['.swift']
+};
+
+const INCLUDE_DIRS = ['', 'include', 'src'];
+const RUBY_LOAD_PATHS = ['lib', '', 'app'];
+const JVM_SOURCE_ROOTS = ['src/main/kotlin', 'src/main/java', 'src/test/kotlin', 'src/test/java', 'src', ''];
+
+const SEARCH_IGNORE = ['**/node_modules/**', '**/vendor/**', '**/.git/**', '**/build/**', '**/bin/**', '**/obj/**', '**/.build/**'];
+
+export function polyglotEcosystem(filePath: string): Ecosystem | null {
+  const ext = posix.extname(filePath).toLowerCase();
+  for (const [ecosystem, extensions] of Object.entries(ECOSYSTEM_EXTENSIONS)) {
+    if (extensions.includes(ext)) return ecosystem as Ecosystem;
+  }
+  return null;
+}
+
+export function isPolyglotConfigFile(filePath: string): boolean {
+  const name = posix.basename(filePath.replace(/\\/g, '/'));
+  return name === 'composer.json' || name === 'Package.swift' || name.endsWith('.csproj');
+}
+
+export class PolyglotResolver {
+  private projectPath: string | null;
+  private psr4: Array<{ prefix: string; dirs: string[] }> | null = null;
+  private jvmRoots: string[] | null = null;
+  private csharpProjects: string[] | null = null;
+  private swiftPackages: string[] | null = null;
+
+  constructor(projectPath: string | null) {
+    this.projectPath = projectPath;
+  }
+
+  invalidate(): void {
+    this.psr4 = null;
+    this.jvmRoots = null;
+    this.csharpProjects = null;
+    this.swiftPackages = null;
+  }
+
+  resolveTargets(fromFile: string, specifier: string, exists: FileExists): string[] {
+    const targets = this.resolveFor(polyglotEcosystem(fromFile), fromFile, specifier, exists);
+    return [...new Set(targets)].filter(t => t !== fromFile);
+  }
+
+  private resolveFor(ecosystem: Ecosystem | null, fromFile: string, specifier: string, exists: FileExists): string[] {
+    const dir = posix.dirname(fromFile);
+
+    switch (ecosystem) {
+      case 'c': {
+        if (specifier.startsWith('<')) return [];
+        return first([dir, ...INCLUDE_DIRS].map(base => join2(base, specifier)), exists);
+      }
+
+      case 'ruby': {
+        const withExt = specifier.endsWith('.rb') ? specifier : `${specifier}.rb`;
+        if (specifier.startsWith('.')) return first([join2(dir, withExt)], exists);
+        return first(RUBY_LOAD_PATHS.map(base => join2(base, withExt)), exists);
+      }
+
+      case 'php': {
+        if (specifier.startsWith('.')) return first([join2(dir, specifier)], exists);
+        return this.resolvePhpClass(specifier, exists);
+      }
+
+      case 'jvm':
+        return this.resolveJvm(fromFile, specifier, exists);
+
+      case 'csharp':
+        return this.resolveCsharp(specifier, exists);
+
+      case 'swift':
+        return this.resolveSwift(specifier, exists);
+
+      default:
+        return [];
+    }
+  }
+
+  private resolvePhpClass(name: string, exists: FileExists): string[] {
+    const className = name.replace(/^\\/, '');
+    const candidates: string[] = [];
+
+    // Longest PSR-4 prefix first
+    const mappings = this.getPsr4()
+      .filter(m => className.startsWith(m.prefix))
+      .sort((a, b) => b.prefix.length - a.prefix.length);
+    for (const mapping of mappings) {
+      const rest = className.slice(mapping.prefix.length).replace(/\\/g, '/');
+      candidates.push(...mapping.dirs.map(d => join2(d, `${rest}.php`)));
+    }
+
+    const asPath = className.replace(/\\/g, '/');
+    candidates.push(`${asPath}.php`, `src/${asPath}.php`);
+
+    return first(candidates, exists);
+  }
+
+  private resolveJvm(fromFile: string, specifier: string, exists: FileExists): string[] {
+    const segments = specifier.replace(/\.\*$/, '').split('.').filter(Boolean);
+    if (segments.length === 0) return [];
+
+    const wildcard = specifier.endsWith('*');
+    const roots = this.getJvmRoots(fromFile);
+
+    if (!wildcard) {
+      // Nested classes (a.b.Outer.Inner) live in the outer class's file
+      for (let k = segments.length; k >= 1; k--) {
+        const path = segments.slice(0, k).join('/');
+        const found = first(roots.flatMap(root => ['.kt', '.java'].map(ext => join2(root, `${path}${ext}`))), exists);
+        if (found.length > 0) return found;
+      }
+    }
+
+    // A package: `import a.b.*`, or a top-level Kotlin function `import a.b.helper`
+    const packagePath = (wildcard ? segments : segments.slice(0, -1)).join('/');
+    for (const root of roots) {
+      const files = this.listFiles(join2(root, packagePath), ['.kt', '.java'], exists);
+      if (files.length > 0) return files;
+    }
+    return [];
+  }
+
+  private resolveCsharp(namespace: string, exists: FileExists): string[] {
+    // A project folder is named after its root namespace (src/Acme.Web/Acme.Web.csproj)
+    for (const projectDir of this.getCsharpProjects()) {
+      const rootNamespace = posix.basename(projectDir);
+      if (namespace === rootNamespace || namespace.startsWith(`${rootNamespace}.`)) {
+        const rest = namespace.slice(rootNamespace.length + 1).split('.').join('/');
+        const files = this.listFiles(join2(projectDir, rest), ['.cs'], exists);
+        if (files.length > 0) return files;
+      }
+    }
+
+    // Otherwise A/B/C, then B/C, then C below the project root or src/
+    const segments = namespace.split('.').filter(Boolean);
+    for (let k = 0; k < segments.length; k++) {
+      const path = segments.slice(k).join('/');
+      for (const root of ['', 'src']) {
+        const files = this.listFiles(join2(root, path), ['.cs'], exists);
+        if (files.length > 0) return files;
+      }
+    }
+    return [];
+  }
+
+  private resolveSwift(module: string, exists: FileExists): string[] {
+    for (const pkg of this.getSwiftPackages()) {
+      const files = this.listFiles(join2(pkg, `Sources/${module}`), ['.swift'], exists, true);
+      if (files.length > 0) return files;
+    }
+    return [];
+  }
+
+  // Indexed files with the given extensions in a project directory
+  private listFiles(dir: string, extensions: string[], exists: FileExists, recursive: boolean = false): string[] {
+    if (!this.projectPath) return [];
+
+    let entries: string[];
+    try {
+      entries = recursive
+        ? globSync('**/*', { cwd: join(this.projectPath, dir), nodir: true, posix: true })
+        : readdirSync(join(this.projectPath, dir));
+    } catch {
+      return [];
+    }
+
+    return entries
+      .filter(name => extensions.some(ext => name.endsWith(ext)))
+      .sort()
+      .map(name => join2(dir, name))
+      .filter(path => exists(path));
+  }
+
+  private getPsr4(): Array<{ prefix: string; dirs: string[] }> {
+    if (this.psr4) return this.psr4;
+
+    const mappings: Array<{ prefix: string; dirs: string[] }> = [];
+    for (const manifest of this.findConfigs('**/composer.json')) {
+      try {
+        const composer = JSON.parse(readFileSync(join(this.projectPath!, manifest), 'utf-8')) as {
+          autoload?: { 'psr-4'?: Record<string, string | string[]> };
+          'autoload-dev'?: { 'psr-4'?: Record<string, string | string[]> };
+        };
+        const base = posix.dirname(manifest) === '.' ? '' : posix.dirname(manifest);
+        for (const section of [composer.autoload, composer['autoload-dev']]) {
+          for (const [prefix, dirs] of Object.entries(section?.['psr-4'] ?? {})) {
+            mappings.push({ prefix, dirs: (Array.isArray(dirs) ? dirs : [dirs]).map(d => join2(base, d)) });
+          }
+        }
+      } catch {
+        // Unreadable composer.json - namespace-as-path fallback still applies
+      }
+    }
+
+    this.psr4 = mappings;
+    return mappings;
+  }
+
+  private getJvmRoots(fromFile: string): string[] {
+    if (!this.jvmRoots) {
+      // Source roots of every Gradle/Maven module in the project
+      const moduleRoots = this.findConfigs('**/src/{main,test}/{kotlin,java}/', true);
+      this.jvmRoots = [...new Set([...moduleRoots, ...JVM_SOURCE_ROOTS])];
+    }
+
+    // The importing file's own source root goes first
+    const own = fromFile.match(/^(.*?\/?src\/(?:main|test)\/(?:kotlin|java))\//)?.[1];
+    return own ? [own, ...this.jvmRoots.filter(r => r !== own)] : this.jvmRoots;
+  }
+
+  private getCsharpProjects(): string[] {
+    if (!this.csharpProjects) {
+      const dirs = this.findConfigs('**/*.csproj').map(p => posix.dirname(p)).filter(d => d !== '.');
+      this.csharpProjects = [...new Set(dirs)];
+    }
+    return this.csharpProjects;
+  }
+
+  private getSwiftPackages(): string[] {
+    if (!this.swiftPackages) {
+      const packages = this.findConfigs('**/Package.swift').map(p => posix.dirname(p)).map(d => (d === '.' ? '' : d));
+      this.swiftPackages = [...new Set(['', ...packages])];
+    }
+    return this.swiftPackages;
+  }
+
+  private findConfigs(pattern: string, directories: boolean = false): string[] {
+    if (!this.projectPath) return [];
+    try {
+      return globSync(pattern, {
+        cwd: this.projectPath,
+        ignore: SEARCH_IGNORE,
+        posix: true,
+        nodir: !directories
+      }).map(p => p.replace(/\/$/, '')).sort();
+    } catch {
+      return [];
+    }
+  }
+}
+
+function join2(base: string, path: string): string {
+  return posix.normalize(posix.join(base || '.', path)).replace(/^\.\//, '');
+}
+
+function first(candidates: string[], exists: FileExists): string[] {
+  const found = candidates.find(c => !c.startsWith('..') && exists(c));
+  return found ? [found] : [];
+}
@@ -0,0 +1,90 @@
+/**
+ * File Preparation - The CPU-bound half of indexing a file
+ *
+ * Reading, hashing, AST parsing and chunking need nothing from the database,
+ * so they can run in a parse worker (see worker-pool.ts) while the main
+ * thread embeds and writes. The task carries the hash of the indexed copy;
+ * when the content still matches, parsing is skipped.
+ */
+
+import { readFileSync, statSync } from 'fs';
+import type { ASTParser } from './ast.js';
+import { chunkFile, chunkEmbeddingText } from './chunker.js';
+import { detectLanguage, hashContent, getPreview, countLines } from '../utils/files.js';
+import type { CodeChunk, CodeSymbol } from '../types/index.js';
+
+export interface PrepareTask {
+  absolutePath: string;
+  relativePath: string;
+  knownHash: string | null;    // Hash of an up-to-date indexed copy, null to always prepare
+  parseUnchanged: boolean;     // Still parse an unchanged file, to backfill what older indexes lack
+}
+
+export type ParsedFile = NonNullable<Awaited<ReturnType<ASTParser['parseFile']>>>;
+
+export interface UnchangedFile {
+  status: 'unchanged';
+  relativePath: string;
+  parsed?: ParsedFile;         // Only when parseUnchanged was set and parsing succeeded
+}
+
+export interface ChangedFile {
+  status: 'changed';
+  absolutePath: string;
+  relativePath: string;
+  contentHash: string;
+  language: string;
+  preview: string;
+  lineCount: number;
+  sizeBytes: number;
+  lastModified: number;
+  parsed: ParsedFile | null;   // null when parsing failed - the file is still chunked and embedded
+  chunks: CodeChunk[];
+  embeddingTexts: string[];    // One per chunk
+}
+
+export type PreparedFile = UnchangedFile | ChangedFile;
+
+// Throws when the file can't be read; parse failures are logged and tolerated
+export async function prepareFile(parser: ASTParser, task: PrepareTask): Promise<PreparedFile> {
+  const content = readFileSync(task.absolutePath, 'utf-8');
+  const contentHash = hashContent(content);
+
+  if (task.knownHash === contentHash) {
+    if (!task.parseUnchanged) {
+      return { status: 'unchanged', relativePath: task.relativePath };
+    }
+    const parsed = await parse(parser, task.relativePath, content);
+    return { status: 'unchanged', relativePath: task.relativePath, parsed: parsed ?? undefined };
+  }
+
+  const stats = statSync(task.absolutePath);
+  const parsed = await parse(parser, task.relativePath, content);
+  const symbols: CodeSymbol[] = parsed?.symbols ?? [];
+  const chunks = chunkFile(content, symbols);
+
+  return {
+    status: 'changed',
+    absolutePath: task.absolutePath,
+    relativePath: task.relativePath,
+    contentHash,
+    language: detectLanguage(task.absolutePath),
+    preview: getPreview(content),
+    lineCount: countLines(content),
+    sizeBytes: stats.size,
+    lastModified: Math.floor(stats.mtimeMs),
+    parsed,
+    chunks,
+    embeddingTexts: chunks.map(chunk => chunkEmbeddingText(task.relativePath, chunk))
+  };
+}
+
+async function parse(parser: ASTParser, relativePath: string, content: string): Promise<ParsedFile | null> {
+  try {
+    return await parser.parseFile(relativePath, content);
+  } catch (error) {
+    // AST parsing is optional, don't fail the whole index
+    console.error(`AST parsing failed for ${relativePath}:`, error);
+    return null;
+  }
+}
@@ -0,0 +1,233 @@
+/**
+ * Python Resolver - Map Python imports to modules in the project
+ *
+ * A dotted module `a.b.c` is looked up as `a/b/c.py` or the package
+ * `a/b/c/__init__.py` under each import root, in this order:
+ * 1. The root above the importing file's top-level package (walking up
+ *    through directories that contain `__init__.py`)
+ * 2. Roots declared in pyproject.toml / setup.cfg (setuptools `where` and
+ *    `package-dir`, poetry `packages.from`, hatch `packages`, pytest `pythonpath`)
+ * 3. The directory holding each pyproject.toml / setup.cfg and its `src/`
+ * 4. The project root and `src/`
+ *
+ * Relative imports (`from . import x`, `from ..pkg import y`) resolve from
+ * the importing file's package. Standard library and site-packages modules
+ * aren't in the project and resolve to null.
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { join, posix } from 'path';
+import { globSync } from 'glob';
+import type { FileExists } from './import-resolver.js';
+
+const MODULE_EXTENSIONS = ['.py', '.pyi'];
+
+// Directories never searched for project configs
+const CONFIG_SEARCH_IGNORE = ['**/node_modules/**', '**/.venv/**', '**/venv/**', '**/.tox/**', '**/site-packages/**', '**/.git/**'];
+
+export function isPythonFile(filePath: string): boolean {
+  return filePath.endsWith('.py') || filePath.endsWith('.pyi');
+}
+
+export function isPythonConfigFile(filePath: string): boolean {
+  const name = posix.basename(filePath.replace(/\\/g, '/'));
+  return name === 'pyproject.toml' || name === 'setup.cfg';
+}
+
+export class PythonResolver {
+  private projectPath: string | null;
+  private configRoots: string[] | null = null;
+
+  constructor(projectPath: string | null) {
+    this.projectPath = projectPath;
+  }
+
+  invalidate(): void {
+    this.configRoots = null;
+  }
+
+  /**
+   * Resolve the module named by an import statement.
+   * For `from pkg import a, b` pass the imported names: submodules among them
+   * are returned too, since `from pkg import mod` loads pkg/mod.py.
+   */
+  resolveTargets(fromFile: string, specifier: string, importedNames: string[], exists: FileExists): string[] {
+    const targets: string[] = [];
+    let needsModule = importedNames.length === 0 || specifier === '';
+
+    for (const name of importedNames) {
+      if (name === '*' || !/^\w+$/.test(name)) {
+        needsModule = true;
+        continue;
+      }
+      const submodule = this.resolveModule(fromFile, joinModule(specifier, name), exists);
+      if (submodule) {
+        targets.push(submodule);
+      } else {
+        needsModule = true;
+      }
+    }
+
+    if (needsModule) {
+      const module = this.resolveModule(fromFile, specifier, exists);
+      if (module && module !== fromFile) targets.unshift(module);
+    }
+
+    return [...new Set(targets)];
+  }
+
+  resolveModule(fromFile: string, specifier: string, exists: FileExists): string | null {
+    const dots = specifier.match(/^\.*/)?.[0].length ?? 0;
+    const modulePath = specifier.slice(dots).split('.').filter(Boolean).join('/');
+
+    if (dots > 0) {
+      // One dot is the current package; each extra dot goes up a level
+      let base = posix.dirname(fromFile);
+      for (let i = 1; i < dots; i++) {
+        if (base === '.' || base === '') return null;
+        base = posix.dirname(base);
+      }
+      return this.probe(base === '.' ? '' : base, modulePath, exists);
+    }
+
+    if (!modulePath) return null;
+
+    for (const root of this.getRoots(fromFile, exists)) {
+      const resolved = this.probe(root, modulePath, exists);
+      if (resolved) return resolved;
+    }
+
+    return null;
+  }
+
+  private probe(root: string, modulePath: string, exists: FileExists): string | null {
+    const base = posix.join(root || '.', modulePath).replace(/^\.\/?/, '');
+
+    if (modulePath) {
+      for (const ext of MODULE_EXTENSIONS) {
+        if (exists(base + ext)) return base + ext;
+      }
+    }
+    for (const ext of MODULE_EXTENSIONS) {
+      const init = base ? `${base}/__init__${ext}` : `__init__${ext}`;
+      if (exists(init)) return init;
+    }
+
+    return null;
+  }
+
+  private getRoots(fromFile: string, exists: FileExists): string[] {
+    const roots: string[] = [];
+
+    // Walk up out of the importing file's package to the directory that contains it
+    let dir = posix.dirname(fromFile);
+    while (dir !== '.' && dir !== '' && (exists(`${dir}/__init__.py`) || exists(`${dir}/__init__.pyi`))) {
+      dir = posix.dirname(dir);
+    }
+    roots.push(dir === '.' ? '' : dir);
+
+    roots.push(...this.getConfigRoots());
+    roots.push('', 'src');
+
+    return [...new Set(roots)];
+  }
+
+  private getConfigRoots(): string[] {
+    if (this.configRoots) return this.configRoots;
+    if (!this.projectPath) return (this.configRoots = []);
+
+    const roots: string[] = [];
+    const configs = globSync(['**/pyproject.toml', '**/setup.cfg'], {
+      cwd: this.projectPath,
+      ignore: CONFIG_SEARCH_IGNORE,
+      posix: true
+    }).sort();
+
+    for (const configPath of configs) {
+      const dir = posix.dirname(configPath) === '.' ? '' : posix.dirname(configPath);
+      let text: string;
+      try {
+        text = readFileSync(join(this.projectPath, configPath), 'utf-8');
+      } catch {
+        continue;
+      }
+
+      const declared = configPath.endsWith('.toml') ? pyprojectRoots(text) : setupCfgRoots(text);
+      for (const root of declared) {
+        roots.push(posix.normalize(posix.join(dir || '.', root)).replace(/^\.$/, ''));
+      }
+
+      roots.push(dir);
+      if (existsSync(join(this.projectPath, dir, 'src'))) {
+        roots.push(dir ? `${dir}/src` : 'src');
+      }
+    }
+
+    this.configRoots = [...new Set(roots)].filter(r => !r.startsWith('..'));
+    return this.configRoots;
+  }
+}
+
+function joinModule(specifier: string, name: string): string {
+  return specifier === '' || specifier.endsWith('.') ? `${specifier}${name}` : `${specifier}.${name}`;
+}
+
+// Import roots declared in pyproject.toml, relative to its directory
+function pyprojectRoots(text: string): string[] {
+  const roots: string[] = [];
+
+  for (const [section, body] of tomlSections(text)) {
+    if (section === 'tool.setuptools.packages.find') {
+      roots.push(...stringList(body.match(/^\s*where\s*=\s*(\[[^\]]*\])/m)?.[1]));
+    } else if (section === 'tool.setuptools') {
+      const emptyPackageDir = body.match(/package-dir\s*=\s*\{[^}]*["']{2}\s*=\s*["']([^"']+)["']/);
+      if (emptyPackageDir?.[1]) roots.push(emptyPackageDir[1]);
+    } else if (section === 'tool.poetry') {
+      for (const match of body.matchAll(/\bfrom\s*=\s*["']([^"']+)["']/g)) {
+        if (match[1]) roots.push(match[1]);
+      }
+    } else if (section.startsWith('tool.hatch.build')) {
+      // packages = ["src/pkg"] names the package directory itself
+      for (const pkg of stringList(body.match(/^\s*packages\s*=\s*(\[[^\]]*\])/m)?.[1])) {
+        roots.push(posix.dirname(pkg));
+      }
+    } else if (section === 'tool.pytest.ini_options') {
+      const pythonpath = body.match(/^\s*pythonpath\s*=\s*(\[[^\]]*\]|["'][^"']*["'])/m)?.[1];
+      roots.push(...stringList(pythonpath));
+    }
+  }
+
+  return roots;
+}
+
+function setupCfgRoots(text: string): string[] {
+  // [options] package_dir = =src  (or on the following indented line)
+  const match = text.match(/^\s*package_dir\s*=\s*(?:\n\s+)?=\s*(\S+)/m);
+  return match?.[1] ? [match[1]] : [];
+}
+
+// Split TOML into [section] bodies - enough for the few keys read above
+function tomlSections(text: string): Array<[string, string]> {
+  const sections: Array<[string, string]> = [];
+  let current = '';
+  let body: string[] = [];
+
+  for (const line of text.split('\n')) {
+    const header = line.match(/^\s*\[{1,2}\s*([^\]]+?)\s*\]{1,2}\s*$/);
+    if (header?.[1]) {
+      sections.push([current, body.join('\n')]);
+      current = header[1].replace(/["']/g, '');
+      body = [];
+    } else {
+      body.push(line);
+    }
+  }
+  sections.push([current, body.join('\n')]);
+
+  return sections;
+}
+
+function stringList(value: string | undefined): string[] {
+  if (!value) return [];
+  return Array.from(value.matchAll(/["']([^"']*)["']/g), m => m[1] ?? '').filter(Boolean);
+}
@@ -0,0 +1,109 @@
+/**
+ * Rename Detection - Pair a removed file with the file that replaced it
+ *
+ * A rename or move reaches the watcher as an 'unlink' and an 'add'. The
+ * indexer holds removals for RENAME_WINDOW_MS instead of deleting right away;
+ * a new file in that window is the same file when:
+ * 1. Its content hash matches the removed file's (plain mv, IDE refactors)
+ * 2. git records the pair as a rename - `git mv`, staged or committed - which
+ *    also catches files edited as part of the move
+ * The same matching runs at startup for files moved while we weren't running.
+ */
+
+import { execFileSync } from 'child_process';
+import { posix } from 'path';
+
+export const RENAME_WINDOW_MS = 3000;
+
+// Recent commits searched for committed renames
+const GIT_RENAME_COMMITS = 20;
+
+export interface RenameCandidate {
+  path: string;
+  contentHash: string;
+}
+
+export interface FileRename {
+  from: string;
+  to: string;
+  via: 'content' | 'git';
+}
+
+/**
+ * Match removed files to added ones. Content matches come first; a hash
+ * shared by several files pairs up by file name, so copies of the same
+ * boilerplate keep their own history. git is only asked about what's left.
+ */
+export function matchRenames(
+  removed: RenameCandidate[],
+  added: RenameCandidate[],
+  gitRenames: () => Map<string, string>
+): FileRename[] {
+  const renames: FileRename[] = [];
+  const unmatchedAdded = new Set(added.map(a => a.path));
+  const unmatchedRemoved = new Set(removed.map(r => r.path));
+
+  const byHash = new Map<string, RenameCandidate[]>();
+  for (const file of added) {
+    byHash.set(file.contentHash, [...(byHash.get(file.contentHash) ?? []), file]);
+  }
+
+  for (const file of removed) {
+    const matches = (byHash.get(file.contentHash) ?? []).filter(a => unmatchedAdded.has(a.path));
+    if (matches.length === 0) continue;
+    const match = matches.find(a => posix.basename(a.path) === posix.basename(file.path)) ?? matches[0]!;
+    renames.push({ from: file.path, to: match.path, via: 'content' });
+    unmatchedAdded.delete(match.path);
+    unmatchedRemoved.delete(file.path);
+  }
+
+  if (unmatchedRemoved.size > 0 && unmatchedAdded.size > 0) {
+    for (const [from, to] of gitRenames()) {
+      if (unmatchedRemoved.has(from) && unmatchedAdded.has(to)) {
+        renames.push({ from, to, via: 'git' });
+        unmatchedRemoved.delete(from);
+        unmatchedAdded.delete(to);
+      }
+    }
+  }
+
+  return renames;
+}
+
+/**
+ * Renames git knows about, old path -> new path, relative to projectPath:
+ * uncommitted ones (git mv) and those in recent commits. Empty outside a repo.
+ */
+export function gitRenames(projectPath: string): Map<string, string> {
+  const renames = new Map<string, string>();
+
+  const outputs = [
+    runGit(projectPath, ['diff', '-M', '--name-status', '--relative', 'HEAD']),
+    runGit(projectPath, ['log', '-M', '--diff-filter=R', '--name-status', '--relative', '--format=', `-n${GIT_RENAME_COMMITS}`])
+  ];
+
+  for (const output of outputs) {
+    for (const line of output.split('\n')) {
+      const [status, from, to] = line.split('\t');
+      // Newer renames win: diff output comes first, log is newest first
+      if (status?.startsWith('R') && from && to && !renames.has(from)) {
+        renames.set(from, to);
+      }
+    }
+  }
+
+  return renames;
+}
+
+function runGit(projectPath: string, args: string[]): string {
+  try {
+    return execFileSync('git', args, {
+      cwd: projectPath,
+      encoding: 'utf-8',
+      timeout: 5000,
+      stdio: ['pipe', 'pipe', 'pipe']
+    });
+  } catch {
+    return '';
+  }
+}
@@ -0,0 +1,771 @@
+/**
+ * API Routes - HTTP route definitions, and the requests client code makes to them
+ *
+ * findRoutes() reads route registrations from source: Express, Fastify, Koa
+ * and Hono `app.get('/x', handler)` calls and `router.route('/x').get(...)`
+ * chains, Fastify `route({ method, url })`, FastAPI and Flask decorators, Go
+ * `http.HandleFunc` (with Go 1.22 "GET /x" patterns) and gin, echo, chi and
+ * gorilla routers. Next.js routes come from the file path: `pages/api/**` and
+ * `app/** /route.ts` with its exported GET/POST functions.
+ *
+ * A router's own prefix (APIRouter(prefix=...), Blueprint url_prefix,
+ * Group("/v1")) is folded into its paths. Mounts that add a prefix from
+ * elsewhere - app.use('/api', users), include_router, register_blueprint,
+ * Fastify register - are kept as RouteMounts and followed across files when
+ * the inventory is read.
+ *
+ * findRouteCalls() picks out the requests client code makes (fetch, axios,
+ * requests, httpx, api clients) and matchRoute() looks one up in the inventory.
+ */
+
+import type { ApiRoute, HttpMethod, RouteFramework, RouteMount, RouteSite } from '../types/index.js';
+
+export type RouteLanguage = 'js' | 'python' | 'go';
+
+export interface ParsedRoutes {
+  routes: RouteSite[];
+  mounts: RouteMount[];
+}
+
+// A request made by client code, to check against the inventory
+export interface RouteCall {
+  method: HttpMethod;             // ANY when the call doesn't say
+  path: string;                   // without query string; interpolated segments as {}
+  line: number;
+  relative: boolean;              // appended to a base URL variable, which may carry a prefix
+}
+
+export interface RouteMatch {
+  route: ApiRoute | null;         // a route taking this method and path
+  pathMatches: ApiRoute[];        // routes for the path, whatever their method
+}
+
+interface Receiver {
+  prefix: string;
+  root: boolean;
+  framework?: RouteFramework;     // when it differs from the file's, like a ServeMux next to gin
+}
+
+interface Scan {
+  text: string;                   // comments blanked out, offsets kept
+  starts: number[];               // line start offsets
+  language: RouteLanguage;
+  framework: RouteFramework;
+  receivers: Map<string, Receiver>;
+}
+
+const JS_EXTENSIONS = new Set(['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs']);
+
+const METHODS = new Set<string>(['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD', 'OPTIONS']);
+
+const VERBS: Record<string, HttpMethod> = {
+  get: 'GET', post: 'POST', put: 'PUT', patch: 'PATCH', delete: 'DELETE', del: 'DELETE',
+  head: 'HEAD', options: 'OPTIONS', all: 'ANY', any: 'ANY', handle: 'ANY', handlefunc: 'ANY'
+};
+
+// app.get('/x', h), router.Post("/x", h), mux.HandleFunc("/x", h)
+const VERB_CALL = /\b([A-Za-z_$][\w$]*)\s*\.\s*(get|post|put|patch|delete|del|head|options|all|any|handle|handlefunc)\s*\(/gi;
+const CHAINED_VERB = /\s*\.\s*(get|post|put|patch|delete|del|head|options|all)\s*\(/iy;
+const ROUTE_CALL = /\b([A-Za-z_$][\w$]*)\s*\.\s*route\s*\(/g;
+const MOUNT_CALL = /\b([A-Za-z_$][\w$]*)\s*\.\s*(use|register|include_router|register_blueprint)\s*\(/g;
+const GORILLA_METHODS = /\s*\.\s*Methods\s*\(([^)]*)\)/y;
+
+const DECORATOR_ROUTE = /^[ \t]*@([A-Za-z_]\w*)\s*\.\s*(get|post|put|patch|delete|head|options|api_route|route)\s*\(/gm;
+const PYTHON_DEF = /\b(?:async\s+)?def\s+([A-Za-z_]\w*)/g;
+
+// Apps: what they register is served as written
+const APP_FACTORY: Record<RouteLanguage, RegExp> = {
+  js: /\b([A-Za-z_$][\w$]*)\s*=\s*(?:await\s+)?(?:new\s+)?(?:express|fastify|Fastify|Koa|Hono|Elysia|require\(\s*['"](?:express|fastify|koa)['"]\s*\))\s*\(/g,
+  python: /\b([A-Za-z_]\w*)\s*=\s*(?:[\w.]+\.)?(?:FastAPI|Flask|Quart)\s*\(/g,
+  go: /\b(\w+)\s*:?=\s*(?:gin\.(?:Default|New)|echo\.New|chi\.NewRouter|mux\.NewRouter|http\.NewServeMux|fiber\.New)\s*\(/g
+};
+
+// Routers, which may carry a prefix of their own
+const ROUTER_FACTORY: Record<Exclude<RouteLanguage, 'go'>, RegExp> = {
+  js: /\b([A-Za-z_$][\w$]*)\s*=\s*(?:new\s+)?(?:express\s*\.\s*)?(?:Router|KoaRouter)\s*\(/g,
+  python: /\b([A-Za-z_]\w*)\s*=\s*(?:[\w.]+\.)?(?:APIRouter|Blueprint)\s*\(/g
+};
+const PREFIX_OPTION: Record<Exclude<RouteLanguage, 'go'>, RegExp> = {
+  js: /\bprefix\s*:\s*(['"`])([^'"`]*)\1/,
+  python: /\b(?:url_)?prefix\s*=\s*[rR]?(['"])([^'"]*)\1/
+};
+const GO_GROUP = /\b(\w+)\s*:?=\s*(\w+)\s*\.\s*(?:Group\s*\(\s*"([^"]*)"|PathPrefix\s*\(\s*"([^"]*)"\s*\)\s*\.\s*Subrouter\s*\()/g;
+
+// Objects whose .get()/.post() send requests rather than register routes
+const CLIENT_RECEIVER = /^(?:axios|ky|got|superagent|request|requests|httpx|http|https|\$http|\$axios|api|client|session|fetcher|instance)$|(?:Client|Api|API|Http)$/;
+const FETCH_CALL = /(?<![\w$.])(fetch|\$fetch|ofetch|useFetch|useSWR|ky|axios|got)\s*\(/g;
+const CLIENT_CALL = /(?<![\w$])((?:this\.|self\.)?[A-Za-z_$][\w$]*)\s*\.\s*(get|post|put|patch|delete|head|options)\s*\(/g;
+const LOCAL_ORIGIN = /^https?:\/\/(?:localhost|127\.0\.0\.1|0\.0\.0\.0|\[::1\])(?::\d+)?(?=\/|$)/i;
+
+const NEXT_PAGES_API = /(?:^|\/)pages\/(api(?:\/[^/]+)*)\.[cm]?[jt]sx?$/;
+const NEXT_APP_ROUTE = /(?:^|\/)app((?:\/[^/]+)*)\/route\.[cm]?[jt]sx?$/;
+const NEXT_METHOD_EXPORT = /\bexport\s+(?:async\s+function|function|const|let|var)\s+(GET|HEAD|POST|PUT|DELETE|PATCH|OPTIONS)\b/g;
+const NEXT_EXPORT_LIST = /\bexport\s*\{([^}]*)\}/g;
+const NEXT_DEFAULT_EXPORT = /\bexport\s+default\s+(?:async\s+)?(?:function\s*([\w$]*)|([A-Za-z_$][\w$]*))/;
+
+const MAX_ARGS_LENGTH = 20000;
+
+export function routeLanguage(filePath: string): RouteLanguage | null {
+  const ext = filePath.slice(filePath.lastIndexOf('.')).toLowerCase();
+  if (JS_EXTENSIONS.has(ext)) return filePath.endsWith('.d.ts') ? null : 'js';
+  if (ext === '.py') return 'python';
+  if (ext === '.go') return 'go';
+  return null;
+}
+
+export function findRoutes(filePath: string, content: string): ParsedRoutes {
+  const language = routeLanguage(filePath);
+  if (!language) return { routes: [], mounts: [] };
+
+  const text = maskComments(content, language);
+  const base = { text, starts: lineStarts(text), language, framework: frameworkOf(language, text) };
+  const scan: Scan = { ...base, receivers: findReceivers(base) };
+
+  const found = language === 'python' ? findDecoratorRoutes(scan) : findCallRoutes(scan);
+  const fileRoutes = language === 'js' ? findNextRoutes(filePath, scan) : [];
+  return { routes: [...fileRoutes, ...found.routes], mounts: found.mounts };
+}
+
+// ============================================================================
+// Route Definitions
+// ============================================================================
+
+function frameworkOf(language: RouteLanguage, text: string): RouteFramework {
+  if (language === 'go') {
+    if (text.includes('"github.com/gin-gonic/gin"')) return 'gin';
+    if (/"github\.com\/labstack\/echo/.test(text)) return 'echo';
+    if (/"github\.com\/go-chi\/chi/.test(text)) return 'chi';
+    if (text.includes('"github.com/gorilla/mux"')) return 'gorilla';
+    return 'net/http';
+  }
+  if (language === 'python') {
+    return /^\s*(?:from|import)\s+fastapi\b/m.test(text) ? 'fastapi' : 'flask';
+  }
+  if (/['"]fastify['"]/.test(text)) return 'fastify';
+  if (/['"]hono['"]/.test(text)) return 'hono';
+  if (/['"](?:koa|@koa\/router|koa-router)['"]/.test(text)) return 'koa';
+  return 'express';
+}
+
+// Apps and routers created in the file, with the prefix each one adds
+function findReceivers(scan: Omit<Scan, 'receivers'>): Map<string, Receiver> {
+  const receivers = new Map<string, Receiver>();
+  for (const match of scan.text.matchAll(APP_FACTORY[scan.language])) {
+    const standard = match[0].includes('http.NewServeMux');
+    receivers.set(match[1]!, { prefix: '', root: true, ...(standard ? { framework: 'net/http' as const } : {}) });
+  }
+
+  if (scan.language === 'go') {
+    // v1 := r.Group("/v1"), api := r.PathPrefix("/api").Subrouter()
+    for (const match of scan.text.matchAll(GO_GROUP)) {
+      const parent = receiverOf(scan, receivers, match[2]!);
+      receivers.set(match[1]!, { ...parent, prefix: joinRoutePath(parent.prefix, match[3] ?? match[4] ?? '') });
+    }
+    return receivers;
+  }
+
+  for (const match of scan.text.matchAll(ROUTER_FACTORY[scan.language])) {
+    const args = balanced(scan.text, match.index! + match[0].length - 1) ?? '';
+    const prefix = args.match(PREFIX_OPTION[scan.language])?.[2] ?? '';
+    receivers.set(match[1]!, { prefix, root: false });
+  }
+  return receivers;
+}
+
+// Go's http package is the default mux; anything else unknown is a router passed in
+function receiverOf(scan: Pick<Scan, 'language'>, receivers: Map<string, Receiver>, name: string): Receiver {
+  const known = receivers.get(name);
+  if (known) return known;
+  return scan.language === 'go' && name === 'http'
+    ? { prefix: '', root: true, framework: 'net/http' }
+    : { prefix: '', root: false };
+}
+
+// Express/Fastify/Koa/Hono and Go router calls, route chains and mounts
+function findCallRoutes(scan: Scan): ParsedRoutes {
+  const routes: RouteSite[] = [];
+  const mounts: RouteMount[] = [];
+  const { text } = scan;
+
+  const add = (receiver: string, methods: HttpMethod[], path: string, handler: string | null, offset: number) => {
+    const target = receiverOf(scan, scan.receivers, receiver);
+    for (const method of methods) {
+      routes.push({
+        method,
+        path: joinRoutePath(target.prefix, path),
+        handler,
+        receiver,
+        root: target.root,
+        framework: target.framework ?? scan.framework,
+        line: lineAt(scan.starts, offset)
+      });
+    }
+  };
+
+  for (const match of text.matchAll(VERB_CALL)) {
+    const receiver = match[1]!;
+    const verb = match[2]!.toLowerCase();
+    const direct = verb === 'handle' || verb === 'handlefunc';
+    if (!direct && CLIENT_RECEIVER.test(receiver) && !scan.receivers.has(receiver)) continue;
+
+    const open = match.index! + match[0].length - 1;
+    const args = argumentsAt(text, open);
+    const registered = args && registration(args.list);
+    if (!args || !registered) continue;
+
+    let methods: HttpMethod[] = [registered.method ?? VERBS[verb]!];
+    GORILLA_METHODS.lastIndex = args.end;
+    const chained = GORILLA_METHODS.exec(text);
+    if (chained) {
+      const listed = quotedStrings(chained[1]!).map(m => m.toUpperCase()).filter(m => METHODS.has(m)) as HttpMethod[];
+      if (listed.length > 0) methods = listed;
+    }
+    add(receiver, methods, registered.path, registered.handler, match.index!);
+  }
+
+  if (scan.language === 'go') return { routes, mounts };
+
+  for (const match of text.matchAll(ROUTE_CALL)) {
+    const receiver = match[1]!;
+    const open = match.index! + match[0].length - 1;
+    const args = argumentsAt(text, open);
+    if (!args || args.list.length === 0) continue;
+    const first = args.list[0]!;
+
+    // Fastify: app.route({ method: ['GET', 'HEAD'], url: '/x', handler })
+    if (args.list.length === 1 && first.startsWith('{')) {
+      const url = first.match(/\b(?:url|path)\s*:\s*(['"`])([^'"`]*)\1/)?.[2];
+      if (!url?.startsWith('/')) continue;
+      const method = first.match(/\bmethod\s*:\s*(\[[^\]]*\]|(['"`])\w+\2)/)?.[1] ?? '';
+      const methods = quotedStrings(method).map(m => m.toUpperCase()).filter(m => METHODS.has(m)) as HttpMethod[];
+      const handler = first.match(/\bhandler\s*:\s*([A-Za-z_$][\w$]*(?:\.[\w$]+)*)\s*[,}\n]/)?.[1] ?? null;
+      add(receiver, methods.length > 0 ? methods : ['ANY'], url, handler, match.index!);
+      continue;
+    }
+
+    const path = stringLiteral(first);
+    if (path === null || !path.startsWith('/')) continue;
+
+    // Hono: app.route('/api', users) mounts a sub-app
+    if (args.list.length === 2) {
+      const mounted = mountTarget(scan, args.list[1]!);
+      if (mounted) mounts.push({ receiver, root: receiverOf(scan, scan.receivers, receiver).root, prefix: path, ...mounted, line: lineAt(scan.starts, match.index!) });
+      continue;
+    }
+
+    // Express/Koa: router.route('/users/:id').get(show).put(update)
+    let end = args.end;
+    for (;;) {
+      CHAINED_VERB.lastIndex = end;
+      const chained = CHAINED_VERB.exec(text);
+      if (!chained) break;
+      const verbArgs = argumentsAt(text, CHAINED_VERB.lastIndex - 1);
+      if (!verbArgs) break;
+      const last = verbArgs.list[verbArgs.list.length - 1];
+      add(receiver, [VERBS[chained[1]!.toLowerCase()]!], path, last ? handlerName(last) : null, match.index!);
+      end = verbArgs.end;
+    }
+  }
+
+  findMounts(scan, mounts);
+  return { routes, mounts };
+}
+
+// FastAPI and Flask: @app.get("/x"), @router.post(...), @bp.route("/x", methods=[...])
+function findDecoratorRoutes(scan: Scan): ParsedRoutes {
+  const routes: RouteSite[] = [];
+  const { text } = scan;
+
+  for (const match of text.matchAll(DECORATOR_ROUTE)) {
+    const receiver = match[1]!;
+    const verb = match[2]!;
+    const args = argumentsAt(text, match.index! + match[0].length - 1);
+    if (!args || args.list.length === 0) continue;
+
+    const path = stringLiteral(args.list[0]!.replace(/^(?:path|rule)\s*=\s*/, ''));
+    if (path === null || !path.startsWith('/')) continue;
+
+    const listed = args.list.map(arg => arg.match(/^methods\s*=\s*([\s\S]*)$/)?.[1]).find(Boolean);
+    let methods = listed
+      ? quotedStrings(listed).map(m => m.toUpperCase()).filter(m => METHODS.has(m)) as HttpMethod[]
+      : [];
+    if (methods.length === 0) methods = verb === 'route' || verb === 'api_route' ? ['GET'] : [VERBS[verb]!];
+
+    PYTHON_DEF.lastIndex = args.end;
+    const handler = PYTHON_DEF.exec(text)?.[1] ?? null;
+
+    const target = receiverOf(scan, scan.receivers, receiver);
+    for (const method of methods) {
+      routes.push({
+        method,
+        path: joinRoutePath(target.prefix, path),
+        handler,
+        receiver,
+        root: target.root,
+        framework: verb === 'route' ? 'flask' : scan.framework,
+        line: lineAt(scan.starts, match.index! + match[0].indexOf('@'))
+      });
+    }
+  }
+
+  const mounts: RouteMount[] = [];
+  findMounts(scan, mounts);
+  return { routes, mounts };
+}
+
+// app.use('/api', users), app.register(plugin, { prefix }), app.include_router(r, prefix=...), app.register_blueprint(bp)
+function findMounts(scan: Scan, mounts: RouteMount[]): void {
+  for (const match of scan.text.matchAll(MOUNT_CALL)) {
+    const receiver = match[1]!;
+    const kind = match[2]!;
+    if ((kind === 'use' || kind === 'register') !== (scan.language === 'js')) continue;
+
+    const args = argumentsAt(scan.text, match.index! + match[0].length - 1);
+    if (!args || args.list.length === 0) continue;
+    const list = args.list;
+
+    let prefix = '';
+    let target: string | undefined;
+    if (kind === 'use') {
+      const path = stringLiteral(list[0]!);
+      if (list.length === 1) {
+        target = list[0];
+      } else if (path !== null && path.startsWith('/')) {
+        prefix = path;
+        target = list[list.length - 1];
+      }
+    } else {
+      target = list[0];
+      const options = list.slice(1).join(',');
+      prefix = options.match(kind === 'register' ? PREFIX_OPTION.js : PREFIX_OPTION.python)?.[2] ?? '';
+    }
+
+    const mounted = target ? mountTarget(scan, target) : null;
+    if (!mounted) continue;
+    // app.use(cors()), app.use(express.json()): middleware from a package, not a router
+    if (!prefix && scan.language === 'js' && mounted.source && !/^(?:[./~#]|@\/)/.test(mounted.source)) continue;
+    mounts.push({
+      receiver,
+      root: receiverOf(scan, scan.receivers, receiver).root,
+      prefix,
+      ...mounted,
+      line: lineAt(scan.starts, match.index!)
+    });
+  }
+}
+
+// The router a mount names, and the module it comes from when imported
+function mountTarget(scan: Scan, expr: string): Pick<RouteMount, 'target' | 'source' | 'imported'> | null {
+  const required = expr.match(/^(?:require|(?:await\s+)?import)\s*\(\s*(['"])([^'"]+)\1\s*\)/);
+  if (required) return { target: expr, source: required[2]!, imported: null };
+
+  // usersRouter, users.router, apiRouter(), router.routes()
+  const named = expr.match(/^([A-Za-z_$][\w$]*(?:\.[A-Za-z_$][\w$]*)*?)(?:\.(?:routes|allowedMethods)\s*\(\s*\)|\s*\(\s*\))?$/);
+  if (!named) return null;
+  const target = named[1]!;
+  const binding = target.split('.')[0]!;
+  if (scan.receivers.has(target)) return { target, source: null, imported: null };
+  const imported = importOf(scan, binding);
+  return { target, source: imported?.source ?? null, imported: imported?.imported ?? null };
+}
+
+// Where a name in the file is imported from
+function importOf(scan: Scan, binding: string): { source: string; imported: string | null } | null {
+  if (scan.language === 'python') {
+    for (const match of scan.text.matchAll(/^[ \t]*from\s+([.\w]+)\s+import\s+(\([^)]*\)|[^\n]+)/gm)) {
+      for (const item of match[2]!.replace(/[()]/g, '').split(',')) {
+        const [name, alias] = item.trim().split(/\s+as\s+/);
+        if ((alias ?? name) === binding && name) return { source: match[1]!, imported: name };
+      }
+    }
+    for (const match of scan.text.matchAll(/^[ \t]*import\s+([^\n]+)/gm)) {
+      for (const item of match[1]!.split(',')) {
+        const [module, alias] = item.trim().split(/\s+as\s+/);
+        if (module && (alias ?? module.split('.')[0]) === binding) return { source: module, imported: null };
+      }
+    }
+    return null;
+  }
+
+  for (const match of scan.text.matchAll(/\bimport\s+([^'";]+?)\s+from\s+(['"])([^'"]+)\2/g)) {
+    const clause = match[1]!.replace(/^type\s+/, '');
+    const source = match[3]!;
+    const whole = clause.match(/^([A-Za-z_$][\w$]*)/)?.[1] ?? clause.match(/\*\s*as\s+([A-Za-z_$][\w$]*)/)?.[1];
+    if (whole === binding) return { source, imported: null };
+    for (const item of clause.match(/\{([^}]*)\}/)?.[1]?.split(',') ?? []) {
+      const [name, alias] = item.trim().replace(/^type\s+/, '').split(/\s+as\s+/);
+      if ((alias ?? name) === binding && name) return { source, imported: alias ? name : null };
+    }
+  }
+  for (const match of scan.text.matchAll(/\b(?:const|let|var)\s+([A-Za-z_$][\w$]*)\s*=\s*require\s*\(\s*(['"])([^'"]+)\2\s*\)/g)) {
+    if (match[1] === binding) return { source: match[3]!, imported: null };
+  }
+  return null;
+}
+
+// Next.js: pages/api/users/[id].ts and app/api/users/[id]/route.ts
+function findNextRoutes(filePath: string, scan: Scan): RouteSite[] {
+  const pages = filePath.match(NEXT_PAGES_API);
+  const app = pages ? null : filePath.match(NEXT_APP_ROUTE);
+  const dir = pages?.[1] ?? app?.[1];
+  if (dir === undefined) return [];
+
+  const segments = dir.split('/').filter(Boolean);
+  // _private folders aren't routed; (groups) and @slots don't show in the URL
+  if (segments.some(s => s.startsWith('_'))) return [];
+  const routed = segments.filter(s => !/^\(.*\)$/.test(s) && !s.startsWith('@'));
+  if (pages && routed[routed.length - 1] === 'index') routed.pop();
+  const path = joinRoutePath('', routed.join('/'));
+
+  const route = (method: HttpMethod, handler: string | null, offset: number): RouteSite => ({
+    method, path, handler, receiver: null, root: true, framework: 'nextjs', line: lineAt(scan.starts, offset)
+  });
+
+  if (pages) {
+    // One handler for every method
+    const handler = scan.text.match(NEXT_DEFAULT_EXPORT);
+    const name = handler?.[1] || handler?.[2];
+    return [route('ANY', name && name !== 'async' ? name : null, handler?.index ?? 0)];
+  }
+
+  const routes: RouteSite[] = [];
+  for (const match of scan.text.matchAll(NEXT_METHOD_EXPORT)) {
+    routes.push(route(match[1] as HttpMethod, match[1]!, match.index!));
+  }
+  for (const match of scan.text.matchAll(NEXT_EXPORT_LIST)) {
+    for (const item of match[1]!.split(',')) {
+      const [local, exported] = item.trim().split(/\s+as\s+/);
+      const method = exported ?? local;
+      if (local && method && METHODS.has(method)) routes.push(route(method as HttpMethod, local, match.index!));
+    }
+  }
+  return routes;
+}
+
+// The path and named handler of a call registering a route; null for other calls
+function registration(args: string[]): { path: string; method: HttpMethod | null; handler: string | null } | null {
+  if (args.length < 2) return null;
+  const declared = stringLiteral(args[0]!);
+  if (declared === null) return null;
+
+  // Go 1.22 patterns carry the method: "GET /items/{id}"
+  const pattern = declared.match(/^([A-Z]+)\s+(\/.*)$/);
+  const path = pattern ? pattern[2]! : declared;
+  if (!path.startsWith('/') && path !== '*') return null;
+
+  // A payload or options object last is a client request, not a handler
+  const last = args[args.length - 1]!;
+  if (/^[{'"`[]/.test(last)) return null;
+
+  return {
+    path,
+    method: pattern && METHODS.has(pattern[1]!) ? pattern[1] as HttpMethod : null,
+    handler: handlerName(last)
+  };
+}
+
+// ctrl.list, listUsers, asyncHandler(ctrl.list), http.HandlerFunc(h), function list(); null for inline functions
+function handlerName(expr: string): string | null {
+  const named = expr.match(/^(?:async\s+)?function\s*\*?\s*([A-Za-z_$][\w$]*)\s*\(/);
+  if (named) return named[1]!;
+  const wrapped = expr.match(/^[\w$.]+\s*\(\s*([A-Za-z_$][\w$]*(?:\.[\w$]+)*)\s*\)$/);
+  const name = wrapped ? wrapped[1]! : expr;
+  return /^[A-Za-z_$][\w$]*(?:\.[\w$]+)*$/.test(name) ? name : null;
+}
+
+// ============================================================================
+// Client Calls
+// ============================================================================
+
+/**
+ * Requests made in a piece of code to paths on this app: fetch('/api/x'),
+ * axios.post(`/api/users/${id}`), requests.get(f"{BASE}/users"). Calls to
+ * other hosts are left out; a leading base URL variable makes a call relative.
+ */
+export function findRouteCalls(code: string): RouteCall[] {
+  const calls: RouteCall[] = [];
+  const seen = new Set<string>();
+  const starts = lineStarts(code);
+
+  const add = (method: HttpMethod, url: string | undefined, offset: number) => {
+    const request = url ? requestPath(url) : null;
+    if (!request) return;
+    const line = lineAt(starts, offset);
+    const key = `${line} ${method} ${request.path}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    calls.push({ method, path: request.path, line, relative: request.relative });
+  };
+
+  for (const match of code.matchAll(FETCH_CALL)) {
+    const args = argumentsAt(code, match.index! + match[0].length - 1);
+    const first = args?.list[0];
+    if (!first) continue;
+    // axios({ url, method }) or fetch(url, { method })
+    const options = first.startsWith('{') ? first : args.list[1] ?? '';
+    const url = first.startsWith('{') ? first.match(/\burl\s*:\s*([^,}\n]+)/)?.[1] : first;
+    const method = options.match(/\bmethod\s*:\s*(['"`])(\w+)\1/)?.[2]?.toUpperCase();
+    add(method && METHODS.has(method) ? method as HttpMethod : 'GET', url, match.index!);
+  }
+
+  for (const match of code.matchAll(CLIENT_CALL)) {
+    const receiver = match[1]!.replace(/^(?:this|self)\./, '');
+    if (!CLIENT_RECEIVER.test(receiver)) continue;
+    const args = argumentsAt(code, match.index! + match[0].length - 1);
+    if (!args || args.list.length === 0) continue;
+    // A handler last means a route being registered on a router named like a client
+    const last = args.list[args.list.length - 1]!;
+    if (args.list.length > 1 && (/=>/.test(last) || /^(?:async\s+)?function\b/.test(last))) continue;
+    add(VERBS[match[2]!]!, args.list[0], match.index!);
+  }
+
+  return calls.sort((a, b) => a.line - b.line);
+}
+
+// The path a URL expression requests, null when it isn't a path on this app
+function requestPath(expr: string): { path: string; relative: boolean } | null {
+  let url = '';
+  const parts = splitTopLevel(expr, '+');
+  for (const [i, part] of parts.entries()) {
+    const literal = templateText(part);
+    if (literal !== null) url += literal;
+    else if (/^[A-Za-z_$][\w$.]*$/.test(part)) url += i === 0 ? '{base}' : '{}';
+    else return null;
+  }
+
+  let relative = false;
+  if (url.startsWith('{')) {
+    // ${API_URL}/users: the base may include a prefix
+    url = url.replace(/^\{[^}]*\}/, '');
+    relative = true;
+  } else if (LOCAL_ORIGIN.test(url)) {
+    url = url.replace(LOCAL_ORIGIN, '') || '/';
+  }
+  if (!url.startsWith('/') || url.startsWith('//')) return null;
+
+  const path = url.split(/[?#]/)[0]!
+    .split('/')
+    .map(segment => (segment.includes('{') ? '{}' : segment))
+    .join('/');
+  return { path: joinRoutePath('', path), relative };
+}
+
+// A string, template or f-string with interpolations as {}; null for other expressions
+function templateText(expr: string): string | null {
+  const template = expr.match(/^`([^`]*)`$/);
+  if (template) return template[1]!.replace(/\$\{[^}]*\}/g, '{}');
+  const fString = expr.match(/^[rR]?[fF][rR]?(['"])(.*)\1$/);
+  if (fString) return fString[2]!.replace(/\{[^}]*\}/g, '{}');
+  return stringLiteral(expr);
+}
+
+// ============================================================================
+// Matching
+// ============================================================================
+
+type Segment = { kind: 'literal'; value: string } | { kind: 'param' } | { kind: 'rest' };
+
+/**
+ * Look a request up in the inventory. Path parameters in any framework's
+ * syntax (:id, {id}, <int:id>, [id], [...slug]) match one segment, or the
+ * rest; interpolated request segments match anything. Routes whose router was
+ * never seen mounted, and requests built on a base URL, may be matched by the
+ * end of the path only.
+ */
+export function matchRoute(routes: ApiRoute[], method: HttpMethod, path: string, relative: boolean = false): RouteMatch {
+  const requested = segmentsOf(path);
+  const pathMatches = routes.filter(route => {
+    const declared = segmentsOf(route.path);
+    if (segmentsMatch(declared, requested)) return true;
+    if (route.complete && !relative) return false;
+    // The unknown prefix ends where a literal segment starts
+    for (let start = 1; start < requested.length; start++) {
+      if (requested[start]!.kind === 'literal' && segmentsMatch(declared, requested.slice(start))) return true;
+    }
+    return false;
+  });
+
+  const route = pathMatches.find(r =>
+    r.method === 'ANY' || method === 'ANY' || r.method === method || (method === 'HEAD' && r.method === 'GET')
+  ) ?? null;
+  return { route, pathMatches };
+}
+
+/**
+ * Routes that look like the one asked for, for "did you mean": most literal
+ * segments in common first.
+ */
+export function similarRoutes(routes: ApiRoute[], path: string, limit: number = 3): ApiRoute[] {
+  const wanted = new Set(segmentsOf(path).flatMap(s => (s.kind === 'literal' ? [s.value.toLowerCase()] : [])));
+  return routes
+    .map(route => ({
+      route,
+      shared: segmentsOf(route.path).filter(s => s.kind === 'literal' && wanted.has(s.value.toLowerCase())).length
+    }))
+    .filter(r => r.shared > 0)
+    .sort((a, b) => b.shared - a.shared || a.route.path.length - b.route.path.length)
+    .slice(0, limit)
+    .map(r => r.route);
+}
+
+function segmentsOf(path: string): Segment[] {
+  return path.split('/').filter(Boolean).map((segment): Segment => {
+    if (segment === '*' || segment === '**' || /^\*\w+$/.test(segment)            // express/gin wildcards
+      || /^:\w+[*+]$/.test(segment)                                                  // :path*
+      || /^\{\w+(?:\.\.\.|:path)\}$/.test(segment)                                   // Go {rest...}, FastAPI {p:path}
+      || /^<path:\w+>$/.test(segment)                                                // Flask <path:p>
+      || /^\[\[?\.\.\.\w+\]?\]$/.test(segment)) {                                    // Next.js [...slug]
+      return { kind: 'rest' };
+    }
+    if (/^:\w+\??$/.test(segment) || /^\{[^}]*\}$/.test(segment) || /^<[^>]+>$/.test(segment) || /^\[\w+\]$/.test(segment)) {
+      return { kind: 'param' };
+    }
+    return { kind: 'literal', value: segment };
+  });
+}
+
+function segmentsMatch(declared: Segment[], requested: Segment[]): boolean {
+  for (let i = 0; i < declared.length; i++) {
+    const d = declared[i]!;
+    if (d.kind === 'rest') return true;
+    const r = requested[i];
+    if (!r) return false;
+    if (d.kind === 'param' || r.kind !== 'literal') continue;
+    if (d.value !== r.value) return false;
+  }
+  return declared.length === requested.length;
+}
+
+export function joinRoutePath(prefix: string, path: string): string {
+  const joined = `/${prefix}/${path}`.replace(/\/{2,}/g, '/');
+  return joined.length > 1 ? joined.replace(/\/+$/, '') : joined;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+// Blank out comments, keeping offsets and newlines, so commented-out routes don't count
+export function maskComments(text: string, language: RouteLanguage): string {
+  let result = '';
+  let last = 0;
+  let quote: string | null = null;
+
+  const blank = (from: number, to: number) => {
+    result += text.slice(last, from) + text.slice(from, to).replace(/[^\n]/g, ' ');
+    last = to;
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i]!;
+    if (quote) {
+      if (ch === '\\') i++;
+      else if (text.startsWith(quote, i)) { i += quote.length - 1; quote = null; }
+      else if (ch === '\n' && quote.length === 1 && quote !== '`') quote = null;
+      continue;
+    }
+
+    if (language === 'python') {
+      if (ch === '#') {
+        const end = text.indexOf('\n', i);
+        blank(i, end === -1 ? text.length : end);
+        i = last - 1;
+      } else if (ch === '"' || ch === '\'') {
+        quote = text.startsWith(ch.repeat(3), i) ? ch.repeat(3) : ch;
+        i += quote.length - 1;
+      }
+    } else if (ch === '/' && text[i + 1] === '/') {
+      const end = text.indexOf('\n', i);
+      blank(i, end === -1 ? text.length : end);
+      i = last - 1;
+    } else if (ch === '/' && text[i + 1] === '*') {
+      const end = text.indexOf('*/', i + 2);
+      blank(i, end === -1 ? text.length : end + 2);
+      i = last - 1;
+    } else if (ch === '"' || ch === '\'' || ch === '`') {
+      quote = ch;
+    }
+  }
+  return result + text.slice(last);
+}
+
+// The arguments of the call whose parenthesis is at `open`, and the offset just past it
+function argumentsAt(text: string, open: number): { list: string[]; end: number } | null {
+  const body = balanced(text, open);
+  if (body === null) return null;
+  return { list: splitTopLevel(body, ','), end: open + body.length + 2 };
+}
+
+// The text between the bracket at `open` and its match, null when unbalanced or too long
+export function balanced(text: string, open: number): string | null {
+  let depth = 0;
+  let quote: string | null = null;
+  const limit = Math.min(text.length, open + MAX_ARGS_LENGTH);
+  for (let i = open; i < limit; i++) {
+    const ch = text[i]!;
+    if (quote) {
+      if (ch === '\\') i++;
+      else if (ch === quote) quote = null;
+      continue;
+    }
+    if (ch === '\'' || ch === '"' || ch === '`') quote = ch;
+    else if (ch === '(' || ch === '[' || ch === '{') depth++;
+    else if ((ch === ')' || ch === ']' || ch === '}') && --depth === 0) return text.slice(open + 1, i);
+  }
+  return null;
+}
+
+// Split on a separator outside brackets and strings; parts are trimmed, empty ones dropped
+export function splitTopLevel(text: string, separator: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i]!;
+    if (quote) {
+      if (ch === '\\') i++;
+      else if (ch === quote) quote = null;
+      continue;
+    }
+    if (ch === '\'' || ch === '"' || ch === '`') quote = ch;
+    else if (ch === '(' || ch === '[' || ch === '{') depth++;
+    else if (ch === ')' || ch === ']' || ch === '}') depth--;
+    else if (ch === separator && depth === 0) {
+      parts.push(text.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(text.slice(start));
+  return parts.map(p => p.trim()).filter(Boolean);
+}
+
+// The contents of a plain string literal; null for templates with interpolation and other expressions
+function stringLiteral(expr: string): string | null {
+  const match = expr.trim().match(/^[rRuUbB]?(['"`])([^'"`\n]*)\1$/);
+  if (!match || (match[1] === '`' && match[2]!.includes('${'))) return null;
+  return match[2]!;
+}
+
+function quotedStrings(text: string): string[] {
+  return [...text.matchAll(/(['"`])([^'"`]*)\1/g)].map(m => m[2]!);
+}
+
+export function lineStarts(text: string): number[] {
+  const starts = [0];
+  for (let i = 0; i < text.length; i++) {
+    if (text.charCodeAt(i) === 10) starts.push(i + 1);
+  }
+  return starts;
+}
+
+export function lineAt(starts: number[], offset: number): number {
+  let lo = 0;
+  let hi = starts.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (starts[mid]! <= offset) lo = mid;
+    else hi = mid - 1;
+  }
+  return lo + 1;
+}
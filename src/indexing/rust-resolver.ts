@@ -0,0 +1,167 @@
+/**
+ * Rust Resolver - Map `use` paths and `mod` declarations to files in the crate tree
+ *
+ * A file's module path follows from where it sits under its crate's `src/`:
+ * src/lib.rs and src/main.rs are the crate root, src/a.rs and src/a/mod.rs are
+ * `a`, src/a/b.rs is `a::b`. A use path is resolved by:
+ * 1. Picking a base module - `crate` (crate root), `self` (current module),
+ *    `super` (parent, repeatable), a workspace crate by name, or otherwise a
+ *    child of the current module (2018-edition relative paths)
+ * 2. Taking the longest prefix of the remaining segments that names a module
+ *    file; the rest are items inside it (`use crate::db::Pool` -> src/db.rs)
+ *
+ * The parser records `mod foo;` as `self/foo`, and `::` separators as `/`.
+ * std and crates.io dependencies resolve to nothing.
+ */
+
+import { readFileSync } from 'fs';
+import { join, posix } from 'path';
+import { globSync } from 'glob';
+import type { FileExists } from './import-resolver.js';
+
+interface Crate {
+  name: string;                  // Package name with '-' as '_', as used in paths
+  dir: string;                   // Project-relative directory holding Cargo.toml
+}
+
+const CRATE_SEARCH_IGNORE = ['**/target/**', '**/node_modules/**', '**/.git/**'];
+
+export function isRustFile(filePath: string): boolean {
+  return filePath.endsWith('.rs');
+}
+
+export function isRustConfigFile(filePath: string): boolean {
+  return posix.basename(filePath.replace(/\\/g, '/')) === 'Cargo.toml';
+}
+
+export class RustResolver {
+  private projectPath: string | null;
+  private crates: Crate[] | null = null;
+
+  constructor(projectPath: string | null) {
+    this.projectPath = projectPath;
+  }
+
+  invalidate(): void {
+    this.crates = null;
+  }
+
+  resolveTargets(fromFile: string, usePath: string, exists: FileExists): string[] {
+    const segments = usePath.split('/').filter(s => s && s !== '*');
+    if (segments.length === 0) return [];
+
+    const location = this.locate(fromFile);
+    if (!location) return [];
+
+    let srcDir = location.srcDir;
+    let base: string[];
+    const first = segments[0]!;
+
+    if (first === 'crate') {
+      base = [];
+      segments.shift();
+    } else if (first === 'self' || first === 'super') {
+      base = [...location.modulePath];
+      while (segments[0] === 'self' || segments[0] === 'super') {
+        if (segments.shift() === 'super') {
+          if (base.length === 0) return [];
+          base.pop();
+        }
+      }
+    } else {
+      const crate = this.getCrates().find(c => c.name === first);
+      if (crate) {
+        srcDir = crate.dir ? `${crate.dir}/src` : 'src';
+        base = [];
+        segments.shift();
+      } else {
+        // Could be a child module in scope, or an external crate
+        base = [...location.modulePath];
+      }
+    }
+
+    // Longest prefix of the path that is a module file; the rest are items in it
+    for (let k = segments.length; k >= 0; k--) {
+      const file = this.moduleFile(srcDir, [...base, ...segments.slice(0, k)], exists);
+      if (file) {
+        // For relative paths k = 0 is the importing file itself - nothing to link
+        return file === fromFile ? [] : [file];
+      }
+    }
+
+    return [];
+  }
+
+  // The crate src/ directory and module path of a file
+  private locate(fromFile: string): { srcDir: string; modulePath: string[] } | null {
+    const parts = fromFile.split('/');
+    const srcIndex = parts.lastIndexOf('src');
+    if (srcIndex === -1) return null;
+
+    const srcDir = parts.slice(0, srcIndex + 1).join('/');
+    const inner = parts.slice(srcIndex + 1);
+    const fileName = inner.pop() || '';
+
+    // src/bin/*.rs are separate crate roots that share src/ with the library
+    if (inner[0] === 'bin' && inner.length === 1) {
+      return { srcDir: `${srcDir}/bin/${fileName.replace(/\.rs$/, '')}`, modulePath: [] };
+    }
+
+    if (inner.length === 0 && (fileName === 'lib.rs' || fileName === 'main.rs')) {
+      return { srcDir, modulePath: [] };
+    }
+    if (fileName === 'mod.rs') {
+      return { srcDir, modulePath: inner };
+    }
+    return { srcDir, modulePath: [...inner, fileName.replace(/\.rs$/, '')] };
+  }
+
+  private moduleFile(srcDir: string, modulePath: string[], exists: FileExists): string | null {
+    if (modulePath.length === 0) {
+      for (const root of ['lib.rs', 'main.rs']) {
+        if (exists(`${srcDir}/${root}`)) return `${srcDir}/${root}`;
+      }
+      // A src/bin/<name>/ directory crate root
+      if (exists(`${srcDir}.rs`)) return `${srcDir}.rs`;
+      return null;
+    }
+
+    const base = `${srcDir}/${modulePath.join('/')}`;
+    if (exists(`${base}.rs`)) return `${base}.rs`;
+    if (exists(`${base}/mod.rs`)) return `${base}/mod.rs`;
+    return null;
+  }
+
+  private getCrates(): Crate[] {
+    if (this.crates) return this.crates;
+    if (!this.projectPath) return (this.crates = []);
+
+    const crates: Crate[] = [];
+    const manifests = globSync('**/Cargo.toml', {
+      cwd: this.projectPath,
+      ignore: CRATE_SEARCH_IGNORE,
+      posix: true
+    }).sort();
+
+    for (const manifest of manifests) {
+      let text: string;
+      try {
+        text = readFileSync(join(this.projectPath, manifest), 'utf-8');
+      } catch {
+        continue;
+      }
+
+      // name = "..." inside [package]; [lib] name overrides the crate name
+      const packageName = text.match(/\[package\][^[]*?^\s*name\s*=\s*"([^"]+)"/m)?.[1];
+      const libName = text.match(/\[lib\][^[]*?^\s*name\s*=\s*"([^"]+)"/m)?.[1];
+      const name = libName || packageName;
+      if (name) {
+        const dir = posix.dirname(manifest);
+        crates.push({ name: name.replace(/-/g, '_'), dir: dir === '.' ? '' : dir });
+      }
+    }
+
+    this.crates = crates;
+    return crates;
+  }
+}
@@ -0,0 +1,393 @@
+/**
+ * Single-File Components - Script extraction and component metadata for .vue and .svelte
+ *
+ * The `<script>` blocks of a component (a Vue file may have both `<script>`
+ * and `<script setup>`, a Svelte file `<script context="module">` and
+ * `<script>`) are cut out into a source string the size of the original
+ * file: everything outside the blocks is dropped except newlines, so the
+ * TS/JS parsers report lines of the .vue/.svelte file itself.
+ *
+ * Props, emits and child components are read from the script text:
+ * - Vue: defineProps / defineEmits (runtime and type-based), withDefaults,
+ *   defineModel, and the options API `props`, `emits` in `export default {}`
+ * - Svelte: `export let` (Svelte 3/4), `$props()` destructuring (Svelte 5),
+ *   createEventDispatcher type arguments and dispatch('event') calls
+ * - Children: imports of other .vue/.svelte files
+ */
+
+import type { ComponentInfo, ComponentProp, Import } from '../types/index.js';
+
+export type ComponentFramework = ComponentInfo['framework'];
+
+export interface ScriptSource {
+  source: string;                // Script code at its original line positions
+  lang: 'typescript' | 'javascript';
+}
+
+const SCRIPT_BLOCK = /<script(\s[^>]*)?>([\s\S]*?)<\/script\s*>/gi;
+const TS_LANG = /\blang\s*=\s*["']?(ts|typescript|tsx)\b/i;
+const CHILD_COMPONENT = /\.(vue|svelte)$/;
+
+// Compiled away rather than called at runtime - not call graph edges
+export const COMPILER_MACROS = new Set([
+  'defineProps', 'defineEmits', 'defineModel', 'defineExpose', 'defineOptions', 'defineSlots', 'withDefaults',
+  '$props', '$state', '$derived', '$effect', '$bindable', '$inspect', '$host'
+]);
+
+export function componentFramework(filePath: string): ComponentFramework | null {
+  const lower = filePath.toLowerCase();
+  if (lower.endsWith('.vue')) return 'vue';
+  if (lower.endsWith('.svelte')) return 'svelte';
+  return null;
+}
+
+export function extractScripts(content: string): ScriptSource | null {
+  const parts: string[] = [];
+  let lastIndex = 0;
+  let typescript = false;
+  let found = false;
+
+  // Template and style comments can't contain a real script block, but a
+  // commented-out one would still match - blank HTML comments first
+  const text = content.replace(/<!--[\s\S]*?-->/g, comment => comment.replace(/[^\n]/g, ' '));
+
+  for (const match of text.matchAll(SCRIPT_BLOCK)) {
+    const attrs = match[1] ?? '';
+    const body = match[2] ?? '';
+    const bodyStart = match.index! + match[0].indexOf('>') + 1;
+
+    found = true;
+    if (TS_LANG.test(attrs)) typescript = true;
+
+    parts.push(newlinesOnly(text.slice(lastIndex, bodyStart)), body);
+    lastIndex = bodyStart + body.length;
+  }
+
+  if (!found) return null;
+  parts.push(newlinesOnly(text.slice(lastIndex)));
+
+  return { source: parts.join(''), lang: typescript ? 'typescript' : 'javascript' };
+}
+
+export function extractComponentInfo(
+  framework: ComponentFramework,
+  script: string,
+  imports: Import[]
+): ComponentInfo {
+  const code = stripComments(script);
+  const { props, emits } = framework === 'vue' ? readVueApi(code) : readSvelteApi(code);
+
+  const children: ComponentInfo['children'] = [];
+  for (const imp of imports) {
+    if (!CHILD_COMPONENT.test(imp.importedFrom)) continue;
+    for (const name of imp.importedSymbols.length > 0 ? imp.importedSymbols : [componentName(imp.importedFrom)]) {
+      children.push({ name, from: imp.importedFrom });
+    }
+  }
+
+  return {
+    framework,
+    props: dedupeBy(props, p => p.name),
+    emits: [...new Set(emits)],
+    children: dedupeBy(children, c => `${c.name}\0${c.from}`)
+  };
+}
+
+// PascalCase name a component is used under: user-card.vue -> UserCard
+export function componentName(filePath: string): string {
+  const base = filePath.slice(filePath.lastIndexOf('/') + 1).replace(CHILD_COMPONENT, '');
+  return base
+    .split(/[-_.\s]+/)
+    .filter(Boolean)
+    .map(part => part[0]!.toUpperCase() + part.slice(1))
+    .join('') || base;
+}
+
+// ========== Vue ==========
+
+function readVueApi(code: string): { props: ComponentProp[]; emits: string[] } {
+  const props: ComponentProp[] = [];
+  const emits: string[] = [];
+
+  // <script setup>: defineProps<T>() / defineProps({...}) / defineProps([...])
+  for (const call of macroCalls(code, 'defineProps')) {
+    if (call.typeArg !== null) {
+      props.push(...typeMembers(resolveTypeBody(code, call.typeArg)));
+    } else if (call.arg !== null) {
+      props.push(...runtimeProps(call.arg));
+    }
+  }
+
+  for (const call of macroCalls(code, 'defineEmits')) {
+    if (call.typeArg !== null) {
+      emits.push(...typeEmits(resolveTypeBody(code, call.typeArg)));
+    } else if (call.arg !== null) {
+      emits.push(...runtimeEmits(call.arg));
+    }
+  }
+
+  // defineModel('name') is a prop plus its update:name event
+  for (const call of macroCalls(code, 'defineModel')) {
+    const name = call.arg && /^['"]/.test(call.arg) ? stringLiterals(call.arg)[0] ?? 'modelValue' : 'modelValue';
+    const required = /\brequired\s*:\s*true\b/.test(call.arg ?? '');
+    props.push({ name, type: call.typeArg !== null ? collapse(call.typeArg) : undefined, required });
+    emits.push(`update:${name}`);
+  }
+
+  // Options API: export default { props: ..., emits: ... } or defineComponent({...})
+  const options = optionsObject(code);
+  if (options) {
+    const propsOption = propertyValue(options, 'props');
+    if (propsOption) props.push(...runtimeProps(propsOption));
+    const emitsOption = propertyValue(options, 'emits');
+    if (emitsOption) emits.push(...runtimeEmits(emitsOption));
+  }
+
+  return { props, emits };
+}
+
+// defineProps({ a: String, b: { type: Number, required: true } }) or defineProps(['a', 'b'])
+function runtimeProps(arg: string): ComponentProp[] {
+  const value = arg.trim();
+  if (value.startsWith('[')) {
+    return stringLiterals(value).map(name => ({ name, required: false }));
+  }
+  if (!value.startsWith('{')) return [];
+
+  return objectEntries(value.slice(1, -1)).map(([name, def]) => {
+    const trimmed = def.trim();
+    if (trimmed.startsWith('{')) {
+      const body = trimmed.slice(1, -1);
+      const type = propertyValue(body, 'type')?.trim();
+      const required = /\brequired\s*:\s*true\b/.test(body);
+      return { name, type: type ? runtimeTypeName(type) : undefined, required };
+    }
+    return { name, type: trimmed ? runtimeTypeName(trimmed) : undefined, required: false };
+  });
+}
+
+// String / [String, Number] / Object as PropType<User> -> string / string | number / User
+function runtimeTypeName(value: string): string {
+  const propType = value.match(/as\s+PropType<([\s\S]+)>\s*$/);
+  if (propType?.[1]) return collapse(propType[1]);
+
+  const names = value.replace(/^\[|\]$/g, '').split(',').map(n => n.trim()).filter(Boolean);
+  return names
+    .map(n => (['String', 'Number', 'Boolean'].includes(n) ? n.toLowerCase() : n))
+    .join(' | ');
+}
+
+// defineEmits(['change', 'close']) or emits: { change: (id) => true, close: null }
+function runtimeEmits(arg: string): string[] {
+  const value = arg.trim();
+  if (value.startsWith('[')) return stringLiterals(value);
+  if (value.startsWith('{')) return objectEntries(value.slice(1, -1)).map(([name]) => name);
+  return [];
+}
+
+// Call signatures `(e: 'change', id: number): void` or named tuples `change: [id: number]`
+function typeEmits(body: string): string[] {
+  const signatures = Array.from(body.matchAll(/\(\s*\w+\s*:\s*(['"])([^'"]+)\1/g), m => m[2]!);
+  if (signatures.length > 0) return signatures;
+  return typeMembers(body).map(member => member.name);
+}
+
+// The object literal passed to `export default` / defineComponent in a non-setup script
+function optionsObject(code: string): string | null {
+  const match = code.match(/export\s+default\s+(?:defineComponent\s*\(\s*)?\{/);
+  if (!match || match.index === undefined) return null;
+  const open = match.index + match[0].length - 1;
+  const close = matchingBracket(code, open);
+  return close === -1 ? null : code.slice(open + 1, close);
+}
+
+// ========== Svelte ==========
+
+function readSvelteApi(code: string): { props: ComponentProp[]; emits: string[] } {
+  const props: ComponentProp[] = [];
+  const emits: string[] = [];
+
+  // Svelte 3/4: export let name: Type = default;
+  for (const match of code.matchAll(/^\s*export\s+let\s+([^;\n]+)/gm)) {
+    for (const declaration of splitTopLevel(match[1]!, ',')) {
+      const decl = declaration.match(/^\s*([\w$]+)\s*(?::\s*([^=]+?))?\s*(=.*)?$/s);
+      if (!decl?.[1]) continue;
+      props.push({ name: decl[1], type: decl[2] ? collapse(decl[2]) : undefined, required: !decl[3] });
+    }
+  }
+
+  // Svelte 5: let { a, b = 1, ...rest }: Props = $props();
+  const runes = code.match(/let\s*\{([^}]*)\}\s*(?::\s*([\w$.]+|\{[^=]*\}))?\s*=\s*\$props\s*\(/);
+  if (runes?.[1] !== undefined) {
+    const types = runes[2] ? typeMembers(resolveTypeBody(code, runes[2])) : [];
+    for (const entry of splitTopLevel(runes[1], ',')) {
+      const binding = entry.trim();
+      if (!binding || binding.startsWith('...')) continue;
+      const name = binding.match(/^([\w$]+)/)?.[1];
+      if (!name) continue;
+      const typed = types.find(t => t.name === name);
+      props.push({ name, type: typed?.type, required: !binding.includes('=') && (typed?.required ?? true) });
+    }
+  }
+
+  // createEventDispatcher<{ change: number; close: void }>() and dispatch('event')
+  for (const call of macroCalls(code, 'createEventDispatcher')) {
+    if (call.typeArg !== null) emits.push(...typeMembers(resolveTypeBody(code, call.typeArg)).map(m => m.name));
+  }
+  for (const match of code.matchAll(/\bdispatch\s*\(\s*(['"])([^'"]+)\1/g)) {
+    emits.push(match[2]!);
+  }
+
+  return { props, emits };
+}
+
+// ========== Scanning helpers ==========
+
+interface MacroCall {
+  typeArg: string | null;        // Text between <...>
+  arg: string | null;            // First argument text
+}
+
+function macroCalls(code: string, name: string): MacroCall[] {
+  const calls: MacroCall[] = [];
+  const pattern = new RegExp(`\\b${name}\\s*(<|\\()`, 'g');
+
+  for (const match of code.matchAll(pattern)) {
+    let index = match.index! + match[0].length - 1;
+    let typeArg: string | null = null;
+
+    if (match[1] === '<') {
+      const close = matchingBracket(code, index);
+      if (close === -1) continue;
+      typeArg = code.slice(index + 1, close);
+      index = code.indexOf('(', close);
+      if (index === -1) continue;
+    }
+
+    const close = matchingBracket(code, index);
+    if (close === -1) continue;
+    const args = splitTopLevel(code.slice(index + 1, close), ',');
+    const arg = args[0]?.trim() || null;
+    calls.push({ typeArg, arg });
+  }
+
+  return calls;
+}
+
+// A type literal body, or the body of the interface / type alias it names
+function resolveTypeBody(code: string, typeText: string): string {
+  const type = typeText.trim();
+  if (type.startsWith('{')) return type.slice(1, -1);
+
+  const name = type.match(/^[\w$]+/)?.[0];
+  if (!name) return '';
+
+  const declaration = code.match(new RegExp(`\\b(?:interface\\s+${name}\\b[^{]*|type\\s+${name}\\s*(?:<[^>]*>)?\\s*=\\s*)\\{`));
+  if (!declaration || declaration.index === undefined) return '';
+  const open = declaration.index + declaration[0].length - 1;
+  const close = matchingBracket(code, open);
+  return close === -1 ? '' : code.slice(open + 1, close);
+}
+
+// Members of a type literal body: `title: string; count?: number`
+function typeMembers(body: string): ComponentProp[] {
+  const members: ComponentProp[] = [];
+  for (const member of splitTopLevel(body, ';,\n')) {
+    const match = member.trim().match(/^(?:readonly\s+)?(['"]?)([\w$-]+)\1\s*(\?)?\s*:\s*([\s\S]+)$/);
+    if (!match?.[2]) continue;
+    members.push({ name: match[2], type: collapse(match[4]!), required: !match[3] });
+  }
+  return members;
+}
+
+// Top-level `key: value` pairs of an object literal body (shorthand keys have an empty value)
+function objectEntries(body: string): Array<[string, string]> {
+  const entries: Array<[string, string]> = [];
+  for (const entry of splitTopLevel(body, ',')) {
+    const match = entry.trim().match(/^(['"]?)([\w$-]+)\1\s*(?::\s*([\s\S]*))?$/);
+    if (match?.[2]) entries.push([match[2], match[3] ?? '']);
+  }
+  return entries;
+}
+
+function propertyValue(body: string, key: string): string | null {
+  return objectEntries(body).find(([name]) => name === key)?.[1] ?? null;
+}
+
+// Split on separator characters that aren't nested in brackets or strings
+function splitTopLevel(text: string, separators: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let start = 0;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i]!;
+    if (quote) {
+      if (ch === '\\') i++;
+      else if (ch === quote) quote = null;
+    } else if (ch === '"' || ch === "'" || ch === '`') {
+      quote = ch;
+    } else if ('([{<'.includes(ch)) {
+      depth++;
+    } else if (')]}>'.includes(ch) && !(ch === '>' && text[i - 1] === '=')) {
+      depth = Math.max(0, depth - 1);
+    } else if (depth === 0 && separators.includes(ch)) {
+      parts.push(text.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(text.slice(start));
+
+  return parts.filter(p => p.trim());
+}
+
+// Index of the bracket closing the one at `open`, or -1
+function matchingBracket(text: string, open: number): number {
+  const opener = text[open];
+  const closer = opener === '{' ? '}' : opener === '(' ? ')' : opener === '[' ? ']' : '>';
+  let depth = 0;
+  let quote: string | null = null;
+
+  for (let i = open; i < text.length; i++) {
+    const ch = text[i]!;
+    if (quote) {
+      if (ch === '\\') i++;
+      else if (ch === quote) quote = null;
+    } else if (ch === '"' || ch === "'" || ch === '`') {
+      quote = ch;
+    } else if (ch === opener) {
+      depth++;
+    } else if (ch === closer && !(ch === '>' && text[i - 1] === '=')) {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+  return -1;
+}
+
+function stringLiterals(text: string): string[] {
+  return Array.from(text.matchAll(/(['"])([^'"]+)\1/g), m => m[2]!);
+}
+
+function stripComments(code: string): string {
+  return code.replace(/\/\*[\s\S]*?\*\//g, '').replace(/(^|[^:'"\\])\/\/[^\n]*/g, '$1');
+}
+
+function newlinesOnly(text: string): string {
+  return text.replace(/[^\n]/g, '');
+}
+
+function collapse(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function dedupeBy<T>(items: T[], key: (item: T) => string): T[] {
+  const seen = new Set<string>();
+  return items.filter(item => {
+    const k = key(item);
+    if (seen.has(k)) return false;
+    seen.add(k);
+    return true;
+  });
+}
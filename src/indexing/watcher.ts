@@ -1,6 +1,7 @@
 import chokidar, { type FSWatcher } from 'chokidar';
 import { EventEmitter } from 'events';
 import { relative } from 'path';
+import type { IgnoreRules } from './ignore.js';
 
 export interface FileEvent {
   type: 'add' | 'change' | 'unlink';
@@ -11,12 +12,12 @@ export interface FileEvent {
 export class FileWatcher extends EventEmitter {
   private watcher: FSWatcher | null = null;
   private projectPath: string;
-  private ignorePatterns: string[];
+  private ignoreRules: IgnoreRules;
 
-  constructor(projectPath: string, ignorePatterns: string[] = []) {
+  constructor(projectPath: string, ignoreRules: IgnoreRules) {
     super();
     this.projectPath = projectPath;
-    this.ignorePatterns = ignorePatterns;
+    this.ignoreRules = ignoreRules;
   }
 
   start(): void {
@@ -25,10 +26,8 @@ export class FileWatcher extends EventEmitter {
     }
 
     this.watcher = chokidar.watch(this.projectPath, {
-      ignored: [
-        /(^|[\/\\])\../, // dotfiles
-        ...this.ignorePatterns
-      ],
+      // Stats are missing on the first check of a path; directory-only rules apply once they arrive
+      ignored: (path, stats) => this.ignoreRules.isIgnored(relative(this.projectPath, path), stats?.isDirectory() ?? false),
       persistent: true,
       ignoreInitial: false, // We want initial add events for indexing
       awaitWriteFinish: {
@@ -65,11 +64,18 @@ export class FileWatcher extends EventEmitter {
     this.emit('file', event);
   }
 
-  stop(): void {
-    if (this.watcher) {
-      this.watcher.close();
-      this.watcher = null;
-    }
+  // Re-evaluate ignore rules: newly included files arrive as 'add' events
+  async restart(): Promise<void> {
+    if (!this.watcher) return;
+    await this.stop();
+    this.start();
+  }
+
+  // Resolves once chokidar has released its watches
+  async stop(): Promise<void> {
+    const watcher = this.watcher;
+    this.watcher = null;
+    await watcher?.close();
   }
 
   isRunning(): boolean {
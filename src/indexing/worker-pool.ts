@@ -0,0 +1,148 @@
+/**
+ * Parse Pool - Runs prepareFile() on worker threads
+ *
+ * Hashing, tree-sitter parsing and chunking are CPU-bound; on the main
+ * thread they block MCP requests for the whole initial index. The pool keeps
+ * `concurrency` workers busy from a shared queue and hands results back in
+ * submission order to whoever awaits them.
+ *
+ * With concurrency 0, or when the worker script isn't there (running from
+ * source), files are prepared inline with the caller's parser instead.
+ */
+
+import { existsSync } from 'fs';
+import { fileURLToPath } from 'url';
+import { Worker } from 'worker_threads';
+import type { ASTParser } from './ast.js';
+import { prepareFile, type PrepareTask, type PreparedFile } from './prepare.js';
+import type { WorkerRequest } from './parse-worker.js';
+
+interface Job {
+  id: number;
+  task: PrepareTask;
+  resolve: (result: PreparedFile) => void;
+  reject: (error: Error) => void;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  current: Job | null;
+}
+
+type WorkerResponse = { id: number; result: PreparedFile } | { id: number; error: string };
+
+export class ParsePool {
+  private workers: PoolWorker[] = [];
+  private queue: Job[] = [];
+  private nextId = 0;
+  private fallbackParser: ASTParser;
+  private closed = false;
+
+  constructor(dataDir: string, concurrency: number, fallbackParser: ASTParser) {
+    this.fallbackParser = fallbackParser;
+
+    const script = new URL('./parse-worker.js', import.meta.url);
+    if (concurrency <= 0 || !existsSync(fileURLToPath(script))) return;
+
+    for (let i = 0; i < concurrency; i++) {
+      try {
+        this.spawn(script, dataDir);
+      } catch (error) {
+        console.error('Failed to start parse worker, parsing on the main thread:', error);
+        break;
+      }
+    }
+  }
+
+  // Number of files that can be prepared at the same time
+  get size(): number {
+    return Math.max(this.workers.length, 1);
+  }
+
+  run(task: PrepareTask): Promise<PreparedFile> {
+    if (this.closed) {
+      return Promise.reject(new Error('Parse pool is closed'));
+    }
+    if (this.workers.length === 0) {
+      return prepareFile(this.fallbackParser, task);
+    }
+
+    return new Promise((resolve, reject) => {
+      this.queue.push({ id: this.nextId++, task, resolve, reject });
+      this.dispatch();
+    });
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+    for (const job of this.queue.splice(0)) {
+      job.reject(new Error('Parse pool is closed'));
+    }
+    const workers = this.workers.splice(0);
+    for (const entry of workers) {
+      entry.current?.reject(new Error('Parse pool is closed'));
+    }
+    await Promise.all(workers.map(entry => entry.worker.terminate()));
+  }
+
+  private spawn(script: URL, dataDir: string): void {
+    // Worker stdout would otherwise be forwarded to ours, which is the MCP channel
+    const worker = new Worker(script, { workerData: { dataDir }, stdout: true });
+    worker.stdout.pipe(process.stderr);
+
+    const entry: PoolWorker = { worker, current: null };
+    this.workers.push(entry);
+
+    worker.on('message', (response: WorkerResponse) => {
+      const job = entry.current;
+      if (!job || job.id !== response.id) return;
+      entry.current = null;
+      if ('error' in response) {
+        job.reject(new Error(response.error));
+      } else {
+        job.resolve(response.result);
+      }
+      this.dispatch();
+    });
+
+    worker.on('error', (error) => {
+      console.error('Parse worker failed:', error);
+      this.retire(entry, error);
+    });
+
+    worker.on('exit', (code) => {
+      if (!this.closed) {
+        this.retire(entry, new Error(`Parse worker exited with code ${code}`));
+      }
+    });
+  }
+
+  // Drop a dead worker; its job fails, and the queue moves inline once none are left
+  private retire(entry: PoolWorker, error: Error): void {
+    const index = this.workers.indexOf(entry);
+    if (index === -1) return;
+    this.workers.splice(index, 1);
+
+    entry.current?.reject(error);
+    entry.current = null;
+
+    if (this.workers.length === 0) {
+      for (const job of this.queue.splice(0)) {
+        prepareFile(this.fallbackParser, job.task).then(job.resolve, job.reject);
+      }
+    } else {
+      this.dispatch();
+    }
+  }
+
+  private dispatch(): void {
+    for (const entry of this.workers) {
+      if (entry.current) continue;
+      const job = this.queue.shift();
+      if (!job) return;
+      entry.current = job;
+      const request: WorkerRequest = { id: job.id, task: job.task };
+      entry.worker.postMessage(request);
+    }
+  }
+}
@@ -52,7 +52,7 @@ export function isGatewayTool(name: string): name is GatewayToolName {
 export const gatewayDefinitions: ToolDefinition[] = [
   {
     name: 'memory_query',
-    description: 'PREFERRED over Grep/Glob/Read for codebase questions. Use this FIRST when you need to: understand how something works ("how does auth work?", "where is X used?"), find related code/decisions/patterns, get file content with context (pass file path as query), look up function/class definitions (pass symbol name), or check if code follows project patterns (pass code snippet). Returns semantic search results ranked by relevance. 759x faster than grep with 50% fewer tokens. Auto-routes based on input type.',
+    description: 'PREFERRED over Grep/Glob/Read for codebase questions. Use this FIRST when you need to: understand how something works ("how does auth work?", "what implements StorageAdapter?", "what columns does orders have?", "which migration added user_id?", "what handles POST /api/users?", "which env vars does billing need?", "where is X used?" - every reference with line and column, "who calls X?", "what does X call?"), find related code/decisions/patterns, get file content with context (pass file path as query), look up function/class definitions (pass symbol name), or check if code follows project patterns (pass code snippet). Returns semantic search results ranked by relevance. 759x faster than grep with 50% fewer tokens. Auto-routes based on input type.',
     inputSchema: {
       type: 'object',
       properties: {
@@ -82,8 +82,13 @@ export const gatewayDefinitions: ToolDefinition[] = [
         },
         action: {
           type: 'string',
-          enum: ['context', 'search', 'file', 'summary', 'symbol', 'dependencies', 'predict', 'confidence', 'sources', 'existing'],
+          enum: ['context', 'search', 'file', 'summary', 'symbol', 'dependencies', 'predict', 'confidence', 'sources', 'existing', 'callers', 'callees', 'references', 'hierarchy', 'schema', 'routes', 'env'],
           description: 'Explicit action (auto-detected if not provided)'
+        },
+        mode: {
+          type: 'string',
+          enum: ['semantic', 'lexical', 'hybrid'],
+          description: 'Search ranking: semantic (meaning), lexical (exact identifiers/error strings), or hybrid of both (default: hybrid)'
         }
       },
       required: ['query']
@@ -219,8 +224,12 @@ export const gatewayDefinitions: ToolDefinition[] = [
         },
         action: {
           type: 'string',
-          enum: ['summary', 'happened', 'changed', 'architecture', 'changelog', 'health', 'patterns', 'stats', 'undocumented', 'critical', 'learning'],
-          description: 'Specific status to retrieve'
+          enum: ['summary', 'happened', 'changed', 'architecture', 'changelog', 'health', 'patterns', 'stats', 'undocumented', 'critical', 'learning', 'doctor'],
+          description: 'Specific status to retrieve. "doctor" checks the index for missing files, orphaned rows, bad vectors and unreadable state'
+        },
+        fix: {
+          type: 'boolean',
+          description: 'With action="doctor": repair what was found (delete stale rows, re-index bad vectors, vacuum)'
         },
         include_history: {
           type: 'boolean',
@@ -269,7 +278,7 @@ export const gatewayDefinitions: ToolDefinition[] = [
   },
   {
     name: 'memory_verify',
-    description: 'Pre-commit quality gate for AI-generated code. Catches hallucinations, security issues, and integration problems BEFORE they land. Run before committing AI suggestions. Checks: imports (do they exist?), security (OWASP Top 10), dependencies (installed?), patterns (project conventions), tests (will they break?). Returns verdict (pass/warning/fail), score (0-100), and actionable suggestions.',
+    description: 'Pre-commit quality gate for AI-generated code. Catches hallucinations, security issues, and integration problems BEFORE they land. Run before committing AI suggestions. Checks: imports (do they exist?), security (OWASP Top 10), dependencies (installed?), routes (do the API endpoints it calls exist?), env (are the environment variables it reads declared?), patterns (project conventions), tests (will they break?). Returns verdict (pass/warning/fail), score (0-100), and actionable suggestions.',
     inputSchema: {
       type: 'object',
       properties: {
@@ -285,7 +294,7 @@ export const gatewayDefinitions: ToolDefinition[] = [
           type: 'array',
           items: {
             type: 'string',
-            enum: ['imports', 'security', 'dependencies', 'patterns', 'tests', 'all']
+            enum: ['imports', 'security', 'dependencies', 'routes', 'env', 'patterns', 'tests', 'all']
           },
           description: 'Specific checks to run (default: all)'
         },
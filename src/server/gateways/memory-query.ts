@@ -3,14 +3,18 @@
  *
  * Routes to: get_context, search_codebase, get_file_context, get_file_summary,
  * get_symbol, get_dependencies, get_predicted_files, get_confidence,
- * list_sources, suggest_existing
+ * list_sources, suggest_existing, callers/callees (call graph), references,
+ * hierarchy (extends/implements), schema (tables and migrations), routes
+ * (HTTP endpoints), env (environment variables)
  */
 
 import type { NeuronLayerEngine } from '../../core/engine.js';
-import type { MemoryQueryInput, MemoryQueryResponse, MemoryQueryAction } from './types.js';
-import { detectQueryAction, parseQuery, isFilePath } from './router.js';
+import type { MemoryQueryInput, MemoryQueryResponse, MemoryQueryAction, HierarchyEntry, SchemaTableEntry, EnvVarEntry } from './types.js';
+import type { TypeHierarchyEntry, TableSchema, EnvVariable } from '../../types/index.js';
+import { detectQueryAction, parseQuery, parseCallQuery, parseReferenceQuery, parseHierarchyQuery, parseSchemaQuery, parseRouteQuery, parseEnvQuery, isFilePath, isSymbolName } from './router.js';
 import { aggregateQueryResults, mergeSearchResults } from './aggregator.js';
 import { formatTimeAgo } from '../../utils/time.js';
+import { docSummary } from '../../indexing/docstrings.js';
 
 /**
  * Handle a memory_query gateway call
@@ -51,6 +55,25 @@ export async function handleMemoryQuery(
     case 'search':
       return handleSearchOnlyQuery(engine, input, sourcesUsed);
 
+    case 'callers':
+    case 'callees':
+      return handleCallGraphQuery(engine, input, action, sourcesUsed);
+
+    case 'references':
+      return handleReferencesQuery(engine, input, sourcesUsed);
+
+    case 'hierarchy':
+      return handleHierarchyQuery(engine, input, sourcesUsed);
+
+    case 'schema':
+      return handleSchemaQuery(engine, input, sourcesUsed);
+
+    case 'routes':
+      return handleRoutesQuery(engine, input, sourcesUsed);
+
+    case 'env':
+      return handleEnvQuery(engine, input, sourcesUsed);
+
     case 'context':
     default:
       return handleContextQuery(engine, input, sourcesUsed);
@@ -78,7 +101,7 @@ async function handleContextQuery(
   // Run context, search, and déjà vu in parallel
   const [contextResult, searchResults, dejaVuMatches] = await Promise.all([
     engine.getContext(input.query, input.file, input.max_tokens),
-    engine.searchCodebase(input.query, input.max_results || 10),
+    engine.searchCodebase(input.query, input.max_results || 10, input.mode),
     engine.findDejaVu(input.query, 3), // Check for similar past problems
   ]);
 
@@ -155,7 +178,8 @@ async function handleSearchOnlyQuery(
 
   const searchResults = await engine.searchCodebase(
     input.query,
-    input.max_results || 10
+    input.max_results || 10,
+    input.mode
   );
 
   return {
@@ -272,6 +296,7 @@ async function handleSymbolQuery(
         line_start: s.lineStart,
         line_end: s.lineEnd,
         signature: s.signature || undefined,
+        doc: s.docstring ? docSummary(s.docstring) : undefined,
         exported: s.exported,
       })),
       dependencies: {
@@ -292,11 +317,294 @@ async function handleSymbolQuery(
       line_start: s.lineStart,
       line_end: s.lineEnd,
       signature: s.signature || undefined,
+      doc: s.docstring ? docSummary(s.docstring) : undefined,
       exported: s.exported,
     })),
   };
 }
 
+/**
+ * Call graph lookup - who calls a function, or what it calls
+ */
+async function handleCallGraphQuery(
+  engine: NeuronLayerEngine,
+  input: MemoryQueryInput,
+  direction: 'callers' | 'callees',
+  sourcesUsed: string[]
+): Promise<MemoryQueryResponse> {
+  sourcesUsed.push(direction === 'callers' ? 'get_callers' : 'get_callees');
+
+  const symbol = input.symbol || parseCallQuery(input.query)?.symbol || input.query.trim();
+  const limit = input.max_results || 50;
+  const edges = direction === 'callers'
+    ? engine.getCallers(symbol, input.file, limit)
+    : engine.getCallees(symbol, input.file, limit);
+
+  return {
+    sources_used: sourcesUsed,
+    calls: {
+      symbol,
+      direction,
+      edges: edges.map(e => ({
+        caller: e.caller,
+        caller_file: e.callerFile,
+        callee: e.callee,
+        callee_file: e.calleeFile,
+        line: e.line,
+      })),
+    },
+  };
+}
+
+/**
+ * Find-all-references - every use of a symbol, with file, position and the source line
+ */
+async function handleReferencesQuery(
+  engine: NeuronLayerEngine,
+  input: MemoryQueryInput,
+  sourcesUsed: string[]
+): Promise<MemoryQueryResponse> {
+  sourcesUsed.push('find_references');
+
+  const symbol = input.symbol || parseReferenceQuery(input.query) || input.query.trim();
+  const references = engine.findReferences(symbol, input.file, input.max_results || 100);
+
+  return {
+    sources_used: sourcesUsed,
+    references: {
+      symbol,
+      total: references.length,
+      files: new Set(references.map(r => r.file)).size,
+      usages: references.map(r => ({
+        file: r.file,
+        line: r.line,
+        column: r.column,
+        snippet: r.snippet,
+        name: r.name,
+        container: r.container,
+        symbol: r.symbol,
+        definition_file: r.definitionFile,
+      })),
+    },
+  };
+}
+
+/**
+ * Type hierarchy - what a class or interface extends or implements, and what extends or implements it
+ */
+async function handleHierarchyQuery(
+  engine: NeuronLayerEngine,
+  input: MemoryQueryInput,
+  sourcesUsed: string[]
+): Promise<MemoryQueryResponse> {
+  sourcesUsed.push('get_type_hierarchy');
+
+  const symbol = input.symbol || parseHierarchyQuery(input.query) || input.query.trim();
+  const hierarchy = engine.getTypeHierarchy(symbol, input.file);
+  const toEntry = (e: TypeHierarchyEntry): HierarchyEntry => ({
+    name: e.name,
+    file: e.file,
+    line: e.line,
+    relation: e.relation,
+    via: e.via,
+    depth: e.depth,
+    inferred: e.inferred || undefined,
+  });
+
+  return {
+    sources_used: sourcesUsed,
+    hierarchy: {
+      symbol,
+      file: hierarchy?.file ?? null,
+      line: hierarchy?.line ?? null,
+      kind: hierarchy?.kind ?? null,
+      ancestors: (hierarchy?.ancestors ?? []).map(toEntry),
+      descendants: (hierarchy?.descendants ?? []).map(toEntry),
+    },
+  };
+}
+
+/**
+ * Database schema - a table's columns and history, the migrations behind a
+ * column, the tables a file uses, or every table
+ */
+async function handleSchemaQuery(
+  engine: NeuronLayerEngine,
+  input: MemoryQueryInput,
+  sourcesUsed: string[]
+): Promise<MemoryQueryResponse> {
+  const query = input.query.trim();
+  const dotted = query.match(/^(\w+)\.(\w+)$/);
+  const parsed = parseSchemaQuery(query)
+    ?? (dotted ? { table: dotted[1], column: dotted[2] } : isSymbolName(query) ? { table: query } : {});
+  const table = parsed.table ?? input.symbol;
+
+  if (parsed.column) {
+    sourcesUsed.push('get_column_history');
+    return {
+      sources_used: sourcesUsed,
+      schema: { column_history: engine.getColumnHistory(parsed.column, table) },
+    };
+  }
+
+  if (table) {
+    sourcesUsed.push('get_table_schema');
+    const schema = engine.getTableSchema(table);
+    return {
+      sources_used: sourcesUsed,
+      schema: { table: schema ? toTableEntry(schema) : null },
+    };
+  }
+
+  const file = parsed.file ?? input.file;
+  if (file) {
+    sourcesUsed.push('get_tables_used_by');
+    return {
+      sources_used: sourcesUsed,
+      schema: {
+        tables: engine.getTablesUsedBy(file).map(t => ({
+          name: t.name,
+          model: t.model,
+          lines: t.lines,
+          file: t.definedIn.file,
+          line: t.definedIn.line,
+        })),
+      },
+    };
+  }
+
+  sourcesUsed.push('list_tables');
+  return {
+    sources_used: sourcesUsed,
+    schema: {
+      tables: engine.listTables().map(t => ({
+        name: t.name,
+        model: t.model,
+        columns: t.columns,
+        file: t.definedIn.file,
+        line: t.definedIn.line,
+      })),
+    },
+  };
+}
+
+/**
+ * API routes - the route serving a request, the routes of a file or under a
+ * path, or every route
+ */
+async function handleRoutesQuery(
+  engine: NeuronLayerEngine,
+  input: MemoryQueryInput,
+  sourcesUsed: string[]
+): Promise<MemoryQueryResponse> {
+  const query = input.query.trim();
+  const parsed = parseRouteQuery(query) ?? (/^\/\S*$/.test(query) ? { path: query } : {});
+
+  if (parsed.path) {
+    sourcesUsed.push('find_route');
+    const method = parsed.method ?? 'ANY';
+    const found = engine.findRoute(method, parsed.path);
+    return {
+      sources_used: sourcesUsed,
+      routes: {
+        match: {
+          method,
+          path: parsed.path,
+          found: found.route !== null,
+          route: found.route,
+          other_methods: found.route ? [] : found.pathMatches,
+          similar: found.similar,
+        },
+      },
+    };
+  }
+
+  sourcesUsed.push('list_routes');
+  return {
+    sources_used: sourcesUsed,
+    routes: { routes: engine.listRoutes({ file: parsed.file ?? input.file, under: parsed.under }) },
+  };
+}
+
+/**
+ * Environment variables - where one is declared and read, those a file or
+ * directory reads, or every variable
+ */
+async function handleEnvQuery(
+  engine: NeuronLayerEngine,
+  input: MemoryQueryInput,
+  sourcesUsed: string[]
+): Promise<MemoryQueryResponse> {
+  const query = input.query.trim();
+  const parsed = parseEnvQuery(query) ?? (/^[A-Z][A-Z0-9_]*$/.test(query) ? { name: query } : {});
+
+  if (parsed.name) {
+    sourcesUsed.push('find_env_var');
+    const found = engine.findEnvVar(parsed.name);
+    return {
+      sources_used: sourcesUsed,
+      env: {
+        lookup: {
+          name: parsed.name,
+          found: found.variable !== null,
+          variable: found.variable ? toEnvVarEntry(found.variable) : null,
+          similar: found.similar,
+        },
+      },
+    };
+  }
+
+  sourcesUsed.push('list_env_vars');
+  return {
+    sources_used: sourcesUsed,
+    env: { variables: engine.listEnvVars({ file: parsed.file ?? input.file, under: parsed.under }).map(toEnvVarEntry) },
+  };
+}
+
+function toEnvVarEntry(variable: EnvVariable): EnvVarEntry {
+  return {
+    name: variable.name,
+    declared: variable.declarations.length > 0,
+    declarations: variable.declarations.map(d => ({
+      file: d.file,
+      line: d.line,
+      kind: d.kind === 'schema' ? 'schema' : 'example',
+      has_default: d.hasDefault,
+      description: d.description,
+    })),
+    reads: variable.reads.map(r => ({ file: r.file, line: r.line, has_default: r.hasDefault })),
+  };
+}
+
+function toTableEntry(table: TableSchema): SchemaTableEntry {
+  return {
+    name: table.name,
+    model: table.model,
+    file: table.definedIn.file,
+    line: table.definedIn.line,
+    columns: table.columns.map(c => ({
+      name: c.name,
+      type: c.type,
+      nullable: c.nullable,
+      primary_key: c.primaryKey,
+      unique: c.unique,
+      default: c.default,
+      added_in: c.addedIn,
+    })),
+    indexes: table.indexes,
+    foreign_keys: table.foreignKeys.map(fk => ({
+      columns: fk.columns,
+      references_table: fk.table,
+      references_columns: fk.referencedColumns,
+      file: fk.file,
+      line: fk.line,
+    })),
+    referenced_by: table.referencedBy.map(r => ({ table: r.fromTable, columns: r.columns })),
+    history: table.history,
+    used_by: table.usedBy,
+  };
+}
+
 /**
  * Dependency lookup
  */
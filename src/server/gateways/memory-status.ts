@@ -3,7 +3,8 @@
  *
  * Routes to: get_project_summary, what_happened, what_changed, get_architecture,
  * get_changelog, validate_docs, get_context_health, list_patterns,
- * get_architecture_stats, find_undocumented, get_critical_context, get_learning_stats
+ * get_architecture_stats, find_undocumented, get_critical_context, get_learning_stats,
+ * run_doctor
  */
 
 import type { NeuronLayerEngine } from '../../core/engine.js';
@@ -56,6 +57,9 @@ export async function handleMemoryStatus(
     case 'learning':
       return handleLearningStats(engine, input, sourcesUsed);
 
+    case 'doctor':
+      return handleDoctor(engine, input, sourcesUsed);
+
     default:
       // Default to project summary
       return handleProjectSummary(engine, input, sourcesUsed);
@@ -92,6 +96,14 @@ async function handleProjectSummary(
       status: engineStatus.status,
       ready: engineStatus.ready,
       indexing: engineStatus.indexing,
+      embeddings: {
+        model: engineStatus.embeddings.model,
+        provider: engineStatus.embeddings.provider,
+        state: engineStatus.embeddings.state,
+        remaining: engineStatus.embeddings.remaining,
+        percent: engineStatus.embeddings.percent,
+        last_error: engineStatus.embeddings.lastError,
+      },
     },
     project: {
       name: summary.name,
@@ -515,3 +527,35 @@ async function handleLearningStats(
 
   return response;
 }
+
+/**
+ * Check index integrity, and repair it when asked
+ */
+async function handleDoctor(
+  engine: NeuronLayerEngine,
+  input: MemoryStatusInput,
+  sourcesUsed: string[]
+): Promise<MemoryStatusResponse> {
+  sourcesUsed.push('run_doctor');
+
+  const report = engine.runDoctor({ fix: input.fix === true });
+
+  return {
+    sources_used: sourcesUsed,
+    doctor: {
+      healthy: report.healthy,
+      files: report.stats.files,
+      chunks: report.stats.chunks,
+      embedding_model: report.stats.embeddingModel,
+      database_bytes: report.stats.databaseBytes,
+      search: {
+        ann_active: report.stats.search.annActive,
+        recall: report.stats.search.recall,
+        samples: report.stats.search.samples,
+      },
+      issues: report.issues,
+      fixes: report.fixes,
+      reindexing: report.reindex.length,
+    },
+  };
+}
@@ -7,6 +7,8 @@
  * - imports: Do imports exist? Is the API being used correctly?
  * - security: Common vulnerability patterns (OWASP Top 10)
  * - dependencies: Is package in package.json? Is it installed?
+ * - routes: Do the API endpoints it calls exist in the project?
+ * - env: Are the environment variables it reads declared anywhere?
  * - patterns: Does code follow project patterns?
  * - tests: Will this break tests?
  * - all: Run all checks (default)
@@ -23,7 +25,7 @@ import type { NeuronLayerEngine } from '../../core/engine.js';
 // Types
 // ============================================================================
 
-export type VerifyCheck = 'imports' | 'security' | 'dependencies' | 'patterns' | 'tests' | 'all';
+export type VerifyCheck = 'imports' | 'security' | 'dependencies' | 'routes' | 'env' | 'patterns' | 'tests' | 'all';
 
 export interface MemoryVerifyInput {
   /** Code to verify */
@@ -85,6 +87,31 @@ export interface MemoryVerifyResponse {
       suggestion?: string;
     }>;
   };
+  /** API requests checked against the project's routes */
+  routes?: {
+    valid: boolean;
+    checked: number;
+    issues: Array<{
+      method: string;
+      path: string;
+      line: number;
+      type: 'unknown_route' | 'method_not_allowed';
+      message: string;
+      suggestion?: string;
+    }>;
+  };
+  /** Environment variables checked against the project's templates, schemas and reads */
+  env?: {
+    valid: boolean;
+    checked: number;
+    issues: Array<{
+      name: string;
+      line: number;
+      type: 'undeclared_env_var';
+      message: string;
+      suggestion?: string;
+    }>;
+  };
   /** Pattern validation results (from memory_review) */
   patterns?: {
     valid: boolean;
@@ -153,14 +180,16 @@ export async function handleMemoryVerify(
     suggestions: [],
   };
 
-  // Run code verification (imports, security, dependencies)
-  if (runAll || checks.includes('imports') || checks.includes('security') || checks.includes('dependencies')) {
+  // Run code verification (imports, security, dependencies, routes, env)
+  if (runAll || checks.includes('imports') || checks.includes('security') || checks.includes('dependencies') || checks.includes('routes') || checks.includes('env')) {
     sourcesUsed.push('code_verifier');
 
-    const verifierChecks: ('imports' | 'security' | 'dependencies')[] = [];
+    const verifierChecks: ('imports' | 'security' | 'dependencies' | 'routes' | 'env')[] = [];
     if (runAll || checks.includes('imports')) verifierChecks.push('imports');
     if (runAll || checks.includes('security')) verifierChecks.push('security');
     if (runAll || checks.includes('dependencies')) verifierChecks.push('dependencies');
+    if (runAll || checks.includes('routes')) verifierChecks.push('routes');
+    if (runAll || checks.includes('env')) verifierChecks.push('env');
 
     const verification = await engine.verifyCode(input.code, input.file, verifierChecks);
 
@@ -204,6 +233,32 @@ export async function handleMemoryVerify(
         suggestions.push(...verification.dependencies.issues.map(d => d.suggestion || d.message));
       }
     }
+
+    // Add route results (only when the project defines routes)
+    if (verification.routes) {
+      response.routes = {
+        valid: verification.routes.valid,
+        checked: verification.routes.checked,
+        issues: verification.routes.issues,
+      };
+      if (!verification.routes.valid) {
+        totalScore -= verification.routes.issues.length * 10;
+        suggestions.push(...verification.routes.issues.map(r => r.suggestion || r.message));
+      }
+    }
+
+    // Add env var results (only when the project mentions any)
+    if (verification.env) {
+      response.env = {
+        valid: verification.env.valid,
+        checked: verification.env.checked,
+        issues: verification.env.issues,
+      };
+      if (!verification.env.valid) {
+        totalScore -= verification.env.issues.length * 5;
+        suggestions.push(...verification.env.issues.map(e => e.suggestion || e.message));
+      }
+    }
   }
 
   // Run pattern validation
@@ -363,6 +418,24 @@ function buildSummary(response: MemoryVerifyResponse): string {
     }
   }
 
+  // Routes
+  if (response.routes) {
+    if (response.routes.valid) {
+      parts.push('Routes: OK');
+    } else {
+      parts.push(`Routes: ${response.routes.issues.length} issue${response.routes.issues.length > 1 ? 's' : ''}`);
+    }
+  }
+
+  // Env vars
+  if (response.env) {
+    if (response.env.valid) {
+      parts.push('Env: OK');
+    } else {
+      parts.push(`Env: ${response.env.issues.length} undeclared`);
+    }
+  }
+
   // Patterns
   if (response.patterns) {
     if (response.patterns.valid) {
@@ -14,6 +14,7 @@ import type {
   MemoryStatusInput,
   MemoryStatusAction,
 } from './types.js';
+import type { HttpMethod } from '../../types/index.js';
 
 // ============================================================================
 // Pattern Detection
@@ -91,6 +92,142 @@ export function isErrorMessage(str: string): boolean {
   return errorPatterns.some(pattern => pattern.test(str));
 }
 
+/**
+ * Detects call graph questions: "who calls X", "callers of X", "where is X called",
+ * "what does X call", "callees of X". Returns the direction and symbol.
+ */
+export function parseCallQuery(query: string): { direction: 'callers' | 'callees'; symbol: string } | null {
+  const text = query.trim().replace(/[?`()]/g, '');
+
+  const callers = text.match(/^(?:who|what|which\s+\w+)\s+calls?\s+([\w.$]+)/i)
+    || text.match(/^(?:callers|call\s+sites)\s+(?:of|for)\s+([\w.$]+)/i)
+    || text.match(/^where\s+(?:is|are)\s+([\w.$]+)\s+(?:called|invoked)/i);
+  if (callers?.[1]) return { direction: 'callers', symbol: callers[1] };
+
+  const callees = text.match(/^what\s+(?:does|do)\s+([\w.$]+)\s+call/i)
+    || text.match(/^(?:callees|calls\s+made)\s+(?:of|by|from)\s+([\w.$]+)/i);
+  if (callees?.[1]) return { direction: 'callees', symbol: callees[1] };
+
+  return null;
+}
+
+/**
+ * Detects find-all-references questions: "references to X", "usages of X",
+ * "where is X used", "find all references of X". Returns the symbol.
+ */
+export function parseReferenceQuery(query: string): string | null {
+  const text = query.trim().replace(/[?`()]/g, '');
+
+  const match = text.match(/^(?:find\s+)?(?:all\s+)?(?:references|refs|usages|uses)\s+(?:of|to|for)\s+([\w.$]+)/i)
+    || text.match(/^where\s+(?:is|are)\s+([\w.$]+)\s+(?:used|referenced)/i);
+  return match?.[1] ?? null;
+}
+
+/**
+ * Detects type hierarchy questions: "what implements X", "what extends X",
+ * "subclasses of X", "implementations of X", "hierarchy of X". Returns the symbol.
+ */
+export function parseHierarchyQuery(query: string): string | null {
+  const text = query.trim().replace(/[?`()]/g, '');
+
+  const match = text.match(/^(?:what|which\s+\w+)\s+(?:implements?|extends?|inherits?\s+from|subclass(?:es)?)\s+([\w.$]+)/i)
+    || text.match(/^(?:subclasses|subtypes|implementations|implementers|superclasses|supertypes|ancestors|descendants)\s+(?:of|for)\s+([\w.$]+)/i)
+    || text.match(/^(?:type\s+|class\s+)?hierarchy\s+(?:of|for)\s+([\w.$]+)/i)
+    || text.match(/^what\s+(?:does|do)\s+([\w.$]+)\s+(?:extend|implement|inherit\s+from)/i);
+  return match?.[1] ?? null;
+}
+
+/**
+ * Detects database schema questions: "what columns does orders have",
+ * "schema of orders", "which migration added user_id", "which tables does
+ * src/db.ts use", "list tables". Returns what was asked about; an empty
+ * object asks for every table.
+ */
+export function parseSchemaQuery(query: string): { table?: string; column?: string; file?: string } | null {
+  const text = query.trim().replace(/[?`"']/g, '');
+
+  const column = text.match(/^(?:which|what)\s+migrations?\s+(?:added|created|introduced|changed|altered|renamed|dropped|removed)\s+(?:the\s+)?(?:column\s+)?([\w.]+)(?:\s+(?:to|in|on|from)\s+(?:the\s+)?(?:table\s+)?(\w+))?/i)
+    || text.match(/^when\s+was\s+(?:the\s+)?(?:column\s+)?([\w.]+)\s+(?:added|created|introduced|changed|altered|renamed|dropped|removed)(?:\s+(?:to|in|on|from)\s+(?:the\s+)?(?:table\s+)?(\w+))?/i)
+    || text.match(/^(?:history|migrations)\s+(?:of|for)\s+(?:the\s+)?column\s+([\w.]+)(?:\s+(?:in|on)\s+(?:the\s+)?(?:table\s+)?(\w+))?/i);
+  if (column?.[1]) {
+    const [qualifier, name] = column[1].includes('.') ? column[1].split('.', 2) : [column[2], column[1]];
+    return { column: name, ...(qualifier ? { table: qualifier } : {}) };
+  }
+
+  const table = text.match(/^what\s+columns\s+(?:does|do|is|are)\s+(?:the\s+)?(?:table\s+)?(\w+)\s+(?:table\s+)?(?:have|has|contain)/i)
+    || text.match(/^(?:columns|schema|definition|indexes|foreign\s+keys|relations)\s+(?:of|for|in|on)\s+(?:the\s+)?(?:table\s+|model\s+)?(\w+)/i)
+    || text.match(/^describe\s+(?:the\s+)?(?:table|model)\s+(\w+)/i)
+    || text.match(/^describe\s+(?:the\s+)?(\w+)\s+(?:table|model)$/i);
+  if (table?.[1]) return { table: table[1] };
+
+  const file = text.match(/^(?:what|which)\s+tables\s+(?:does|do)\s+(\S+)\s+(?:use|query|touch|read|write)/i);
+  if (file?.[1]) return { file: file[1] };
+
+  if (/^(?:(?:list|show)\s+(?:all\s+)?(?:the\s+)?(?:database\s+)?tables|(?:what|which)\s+tables\b|database\s+schema$)/i.test(text)) {
+    return {};
+  }
+
+  return null;
+}
+
+/**
+ * Detects API route questions: "what handles POST /api/users", "is there a
+ * GET /users/:id endpoint", "routes in src/server.ts", "endpoints under
+ * /api/admin", "list routes". An empty object asks for every route.
+ */
+export function parseRouteQuery(query: string): { method?: HttpMethod; path?: string; file?: string; under?: string } | null {
+  const text = query.trim().replace(/[?`"']/g, '').trim();
+
+  const request = text.match(/(?:^|\s)(GET|POST|PUT|PATCH|DELETE|HEAD|OPTIONS)\s+(\/\S*)/i);
+  if (request?.[1] && request[2]
+    && (/^\S+\s+\S+$/.test(text) || /\b(?:routes?|endpoints?|handles?|handlers?|serves?|exists?)\b/i.test(text))) {
+    return { method: request[1].toUpperCase() as HttpMethod, path: request[2] };
+  }
+
+  const path = text.match(/^(?:is\s+there\s+an?\s+)?(?:route|endpoint)\s+(?:for\s+|at\s+)?(\/\S*)/i)
+    || text.match(/^(?:what|which\s+\w+)\s+(?:handles|serves)\s+(\/\S*)/i)
+    || text.match(/^does\s+(?:the\s+)?(?:route\s+|endpoint\s+)?(\/\S*)\s+exist/i);
+  if (path?.[1]) return { path: path[1] };
+
+  const under = text.match(/\b(?:routes|endpoints|apis?)\s+(?:under|below|beneath|starting\s+with)\s+(\/\S*)/i);
+  if (under?.[1]) return { under: under[1] };
+
+  const file = text.match(/^(?:what|which)\s+(?:api\s+|http\s+)?(?:routes|endpoints)\s+(?:does|do)\s+(\S+)\s+(?:define|register|declare|serve|expose|have)/i)
+    || text.match(/^(?:api\s+|http\s+)?(?:routes|endpoints)\s+(?:in|of|from|defined\s+in)\s+(\S+)$/i);
+  if (file?.[1]) return file[1].startsWith('/') && !/\.\w+$/.test(file[1]) ? { under: file[1] } : { file: file[1] };
+
+  if (/^(?:(?:list|show)\s+(?:all\s+)?(?:the\s+)?(?:api\s+|http\s+)?(?:routes|endpoints)|(?:what|which)\s+(?:api\s+|http\s+)?(?:routes|endpoints)\b|(?:api|http)\s+(?:routes|endpoints)$|route\s+inventory)/i.test(text)) {
+    return {};
+  }
+
+  return null;
+}
+
+/**
+ * Detects environment variable questions: "which env vars does the billing
+ * service need", "env vars in src/worker.ts", "where is DATABASE_URL read",
+ * "is STRIPE_KEY declared", "list env vars". An empty object asks for every variable.
+ */
+export function parseEnvQuery(query: string): { name?: string; file?: string; under?: string } | null {
+  const text = query.trim().replace(/[?`"']/g, '').trim();
+
+  const name = text.match(/^where\s+(?:is|are)\s+([A-Z][A-Z0-9_]*)\s+(?:read|declared|defined|set|configured|documented)$/)
+    || text.match(/^(?:what|who|which\s+files?)\s+reads?\s+([A-Z][A-Z0-9_]*)$/)
+    || text.match(/^is\s+([A-Z][A-Z0-9_]*)\s+(?:declared|defined|documented|set)/)
+    || text.match(/^(?:env(?:ironment)?\s+var(?:iable)?|config(?:uration)?\s+key)\s+([A-Za-z_]\w*)$/i);
+  if (name?.[1]) return { name: name[1] };
+
+  const scope = text.match(/^(?:what|which)\s+(?:env(?:ironment)?\s+var(?:iable)?s|config(?:uration)?\s+keys)\s+(?:does|do)\s+(?:the\s+)?(\S+)(?:\s+(?:service|app|package|module|folder|directory|dir))?\s+(?:need|use|read|require|expect)/i)
+    || text.match(/^(?:env(?:ironment)?\s+var(?:iable)?s|config(?:uration)?\s+keys)\s+(?:in|for|under|used\s+(?:in|by)|read\s+(?:in|by)|needed\s+by)\s+(?:the\s+)?(\S+)(?:\s+(?:service|app|package|module|folder|directory|dir))?$/i);
+  if (scope?.[1]) return /\.\w+$/.test(scope[1]) ? { file: scope[1] } : { under: scope[1] };
+
+  if (/^(?:(?:list|show)\s+(?:all\s+)?(?:the\s+)?(?:env(?:ironment)?\s+var(?:iable)?s|config(?:uration)?\s+keys)|(?:what|which)\s+env(?:ironment)?\s+var(?:iable)?s\b|env(?:ironment)?\s+var(?:iable)?s$)/i.test(text)) {
+    return {};
+  }
+
+  return null;
+}
+
 // ============================================================================
 // Query Router
 // ============================================================================
@@ -109,6 +246,37 @@ export function detectQueryAction(input: MemoryQueryInput): MemoryQueryAction {
     }
   }
 
+  // "who calls X" / "what does X call" → call graph
+  const callQuery = parseCallQuery(input.query);
+  if (callQuery) {
+    return callQuery.direction;
+  }
+
+  // "references to X" / "where is X used" → find-all-references
+  if (parseReferenceQuery(input.query)) {
+    return 'references';
+  }
+
+  // "what implements X" / "subclasses of X" → type hierarchy
+  if (parseHierarchyQuery(input.query)) {
+    return 'hierarchy';
+  }
+
+  // "what columns does orders have" / "which migration added user_id" → database schema
+  if (parseSchemaQuery(input.query)) {
+    return 'schema';
+  }
+
+  // "what handles POST /api/users" / "list routes" → API routes
+  if (parseRouteQuery(input.query)) {
+    return 'routes';
+  }
+
+  // "which env vars does billing need" / "where is DATABASE_URL read" → environment variables
+  if (parseEnvQuery(input.query)) {
+    return 'env';
+  }
+
   // File path provided → file context
   if (input.file && isFilePath(input.file)) {
     return 'file';
@@ -5,6 +5,8 @@
  * saving ~5,000 tokens per API call on tool description overhead.
  */
 
+import type { SearchMode } from '../../types/index.js';
+
 // ============================================================================
 // Memory Query Gateway Types
 // ============================================================================
@@ -19,7 +21,14 @@ export type MemoryQueryAction =
   | 'predict'      // get_predicted_files
   | 'confidence'   // get_confidence
   | 'sources'      // list_sources
-  | 'existing';    // suggest_existing
+  | 'existing'     // suggest_existing
+  | 'callers'      // who calls a function
+  | 'callees'      // what a function calls
+  | 'references'   // every use of a symbol
+  | 'hierarchy'    // supertypes and subtypes of a class or interface
+  | 'schema'       // database tables, columns and the migrations behind them
+  | 'routes'       // HTTP routes the project serves
+  | 'env';         // environment variables read and declared
 
 export interface MemoryQueryInput {
   /** The search query or question */
@@ -40,6 +49,56 @@ export interface MemoryQueryInput {
   symbol_kind?: 'function' | 'class' | 'interface' | 'type' | 'method' | 'enum';
   /** Maximum tokens for context retrieval */
   max_tokens?: number;
+  /** Ranking for code search: embeddings, full-text, or both fused (default: hybrid) */
+  mode?: SearchMode;
+}
+
+export interface HierarchyEntry {
+  name: string;
+  file: string | null;
+  line: number | null;
+  relation: 'extends' | 'implements' | 'embeds';
+  via: string;
+  depth: number;
+  inferred?: boolean;
+}
+
+export interface SchemaTableEntry {
+  name: string;
+  model: string | null;
+  file: string;
+  line: number;
+  columns: Array<{
+    name: string;
+    type: string;
+    nullable: boolean;
+    primary_key: boolean;
+    unique: boolean;
+    default?: string;
+    added_in: { file: string; line: number };
+  }>;
+  indexes: Array<{ name: string | null; columns: string[]; unique: boolean; file: string; line: number }>;
+  foreign_keys: Array<{ columns: string[]; references_table: string; references_columns: string[]; file: string; line: number }>;
+  referenced_by: Array<{ table: string; columns: string[] }>;
+  history: Array<{ file: string; line: number; change: string }>;
+  used_by: Array<{ file: string; line: number; via: 'sql' | 'orm' | 'model'; snippet: string }>;
+}
+
+export interface RouteEntry {
+  method: string;
+  path: string;
+  handler: string | null;
+  file: string;
+  line: number;
+  framework: string;
+  complete: boolean;      // false when the router's mount wasn't found: the served path may be longer
+}
+
+export interface EnvVarEntry {
+  name: string;
+  declared: boolean;      // listed in a .env template or validated by a config schema
+  declarations: Array<{ file: string; line: number; kind: 'example' | 'schema'; has_default: boolean; description: string | null }>;
+  reads: Array<{ file: string; line: number; has_default: boolean }>;
 }
 
 export interface MemoryQueryResponse {
@@ -85,6 +144,7 @@ export interface MemoryQueryResponse {
     line_start: number;
     line_end: number;
     signature?: string;
+    doc?: string;
     exported: boolean;
   }>;
   /** Dependency information */
@@ -113,6 +173,92 @@ export interface MemoryQueryResponse {
     pattern_matches: number;
     used_general_knowledge: boolean;
   };
+  /** Call graph edges for a function */
+  calls?: {
+    symbol: string;
+    direction: 'callers' | 'callees';
+    edges: Array<{
+      caller: string | null;
+      caller_file: string;
+      callee: string;
+      callee_file: string | null;
+      line: number;
+    }>;
+  };
+  /** Every use of a symbol, for renames and impact checks */
+  references?: {
+    symbol: string;
+    total: number;
+    files: number;
+    usages: Array<{
+      file: string;
+      line: number;
+      column: number;
+      snippet: string;
+      name: string;
+      container: string | null;
+      symbol: string | null;
+      definition_file: string | null;
+    }>;
+  };
+  /** Supertypes and subtypes of a class or interface */
+  hierarchy?: {
+    symbol: string;
+    file: string | null;
+    line: number | null;
+    kind: string | null;
+    ancestors: HierarchyEntry[];
+    descendants: HierarchyEntry[];
+  };
+  /** Database tables from SQL migrations and Prisma models */
+  schema?: {
+    /** One table: its columns, keys, indexes, migration history and the code using it */
+    table?: SchemaTableEntry | null;
+    /** The migrations that added, altered, renamed or dropped a column */
+    column_history?: Array<{
+      table: string;
+      column: string;
+      change: 'added' | 'altered' | 'renamed' | 'dropped';
+      detail: string;
+      file: string;
+      line: number;
+    }>;
+    /** Every table, or the tables a file uses */
+    tables?: Array<{
+      name: string;
+      model: string | null;
+      columns?: number;
+      lines?: number[];
+      file: string;
+      line: number;
+    }>;
+  };
+  /** HTTP routes from Express/Fastify/Next.js/FastAPI/Flask/Go route definitions */
+  routes?: {
+    /** Every route, or those of a file or under a path */
+    routes?: RouteEntry[];
+    /** Whether a request like "POST /api/users/42" would find a route */
+    match?: {
+      method: string;
+      path: string;
+      found: boolean;
+      route: RouteEntry | null;
+      other_methods: RouteEntry[];
+      similar: RouteEntry[];
+    };
+  };
+  /** Environment variables from process.env/os.environ/os.Getenv reads, .env templates and config schemas */
+  env?: {
+    /** Every variable, or those read by a file or under a directory */
+    variables?: EnvVarEntry[];
+    /** Where one variable is declared and read */
+    lookup?: {
+      name: string;
+      found: boolean;
+      variable: EnvVarEntry | null;
+      similar: string[];
+    };
+  };
   /** Existing function suggestions */
   existing_functions?: Array<{
     name: string;
@@ -325,7 +471,8 @@ export type MemoryStatusAction =
   | 'stats'         // get_architecture_stats
   | 'undocumented'  // find_undocumented
   | 'critical'      // get_critical_context
-  | 'learning';     // get_learning_stats
+  | 'learning'      // get_learning_stats
+  | 'doctor';       // index integrity check
 
 export interface MemoryStatusInput {
   /** Scope of status to retrieve */
@@ -346,11 +493,29 @@ export interface MemoryStatusInput {
   group_by?: 'day' | 'week';
   /** Include decisions in changelog */
   include_decisions?: boolean;
+  /** Repair what the doctor action finds */
+  fix?: boolean;
 }
 
 export interface MemoryStatusResponse {
   /** Sources used to generate status */
   sources_used: string[];
+  /** Engine readiness and background work */
+  engine?: {
+    status: string;
+    ready: boolean;
+    indexing: { indexed: number; checked: number; total: number };
+    /** Re-embedding progress after an embedding model change */
+    embeddings?: {
+      /** Id recorded with each vector: the model name, or onnx:<path> / openai:<model>@<host> */
+      model: string;
+      provider: string;
+      state: 'unchecked' | 'current' | 'reembedding' | 'complete';
+      remaining: number;
+      percent: number;
+      last_error?: string;
+    };
+  };
   /** Project summary */
   project?: {
     name: string;
@@ -490,6 +655,51 @@ export interface MemoryStatusResponse {
       importance: string;
     }>;
   };
+  /** Index integrity check */
+  doctor?: {
+    healthy: boolean;
+    files: number;
+    chunks: number;
+    embedding_model: string;
+    database_bytes: number;
+    /** Whether searches use the ANN index, and the share of exact top results it finds */
+    search: {
+      ann_active: boolean;
+      recall: number | null;
+      samples: number;
+    };
+    issues: Array<{
+      check: string;
+      severity: 'error' | 'warning' | 'info';
+      count: number;
+      message: string;
+      examples: string[];
+      repair: string | null;
+    }>;
+    fixes: Array<{ check: string; repair: string; count: number; message: string }>;
+    /** Files being re-indexed after a fix */
+    reindexing: number;
+  };
+}
+
+// ============================================================================
+// Partial Results
+// ============================================================================
+
+/** Added to MCP tool results given before the initial index finished */
+export interface PartialResultsMarker {
+  complete: false;
+  status: 'pending' | 'indexing' | 'ready' | 'indexed_with_errors' | 'error';
+  coverage: {
+    files_checked: number;
+    files_total: number;
+    /** Files in the index, including ones from earlier runs */
+    files_indexed: number;
+    /** Files the initial index couldn't store */
+    files_failed: number;
+    percent: number;
+  };
+  message: string;
 }
 
 // ============================================================================
@@ -510,7 +720,7 @@ export interface ToolDefinition {
 // Memory Verify Gateway Types
 // ============================================================================
 
-export type MemoryVerifyCheck = 'imports' | 'security' | 'dependencies' | 'patterns' | 'tests' | 'all';
+export type MemoryVerifyCheck = 'imports' | 'security' | 'dependencies' | 'routes' | 'env' | 'patterns' | 'tests' | 'all';
 
 export interface MemoryVerifyInput {
   /** Code to verify */
@@ -572,6 +782,31 @@ export interface MemoryVerifyResponse {
       suggestion?: string;
     }>;
   };
+  /** API requests checked against the project's routes */
+  routes?: {
+    valid: boolean;
+    checked: number;
+    issues: Array<{
+      method: string;
+      path: string;
+      line: number;
+      type: 'unknown_route' | 'method_not_allowed';
+      message: string;
+      suggestion?: string;
+    }>;
+  };
+  /** Environment variables checked against the project's templates, schemas and reads */
+  env?: {
+    valid: boolean;
+    checked: number;
+    issues: Array<{
+      name: string;
+      line: number;
+      type: 'undeclared_env_var';
+      message: string;
+      suggestion?: string;
+    }>;
+  };
   /** Pattern validation results */
   patterns?: {
     valid: boolean;
@@ -7,7 +7,10 @@
 
 import { createServer, IncomingMessage, ServerResponse } from 'http';
 import { NeuronLayerEngine } from '../core/engine.js';
-import type { NeuronLayerConfig } from '../types/index.js';
+import type { NeuronLayerConfig, SearchMode, HttpMethod } from '../types/index.js';
+
+const SEARCH_MODES: SearchMode[] = ['semantic', 'lexical', 'hybrid'];
+const HTTP_METHODS: HttpMethod[] = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD', 'OPTIONS', 'ANY'];
 
 export class HTTPServer {
   private engine: NeuronLayerEngine;
@@ -32,9 +35,16 @@ export class HTTPServer {
       console.log('');
       console.log('Endpoints:');
       console.log('  GET  /status              - Project status and stats');
-      console.log('  GET  /search?q=...        - Search code semantically');
+      console.log('  GET  /search?q=...&mode=  - Search code (semantic, lexical, or hybrid)');
       console.log('  GET  /dependencies?file=  - Get file dependencies');
-      console.log('  GET  /impact?file=        - Impact analysis');
+      console.log('  GET  /impact?file=&symbol= - Impact analysis (file or function level)');
+      console.log('  GET  /callers?symbol=     - Call sites of a function');
+      console.log('  GET  /callees?symbol=     - Calls made by a function');
+      console.log('  GET  /references?symbol=  - Every use of a symbol');
+      console.log('  GET  /hierarchy?symbol=   - Supertypes and subtypes of a type');
+      console.log('  GET  /schema?table=       - Database tables, columns and migrations');
+      console.log('  GET  /routes?method=&path= - HTTP routes, or the one serving a request');
+      console.log('  GET  /env?name=&under=    - Environment variables, where read and declared');
       console.log('  GET  /circular            - Find circular dependencies');
       console.log('  GET  /decisions           - List all decisions');
       console.log('  POST /decisions           - Record a new decision');
@@ -94,7 +104,12 @@ export class HTTPServer {
             return;
           }
           const limit = parseInt(url.searchParams.get('limit') || '10');
-          const results = await this.engine.search(query, limit);
+          const mode = (url.searchParams.get('mode') || 'hybrid') as SearchMode;
+          if (!SEARCH_MODES.includes(mode)) {
+            this.sendError(res, 400, `Invalid mode: ${mode}. Use one of: ${SEARCH_MODES.join(', ')}`);
+            return;
+          }
+          const results = await this.engine.searchCodebase(query, limit, mode);
           result = results.map(r => ({
             file: r.file,
             preview: r.preview,
@@ -122,6 +137,19 @@ export class HTTPServer {
             return;
           }
           const depth = parseInt(url.searchParams.get('depth') || '3');
+          const symbol = url.searchParams.get('symbol');
+          if (symbol) {
+            const callers = this.engine.getTransitiveCallers(symbol, file, depth);
+            result = {
+              file,
+              symbol,
+              direct_callers: callers.filter(c => c.depth === 1).length,
+              total_callers: callers.length,
+              risk_level: callers.length > 15 ? 'high' : callers.length > 5 ? 'medium' : 'low',
+              callers: callers.slice(0, 50)
+            };
+            break;
+          }
           const dependents = this.engine.getTransitiveDependents(file, depth);
           const circular = this.engine.findCircularDependencies();
           const fileCircular = circular.filter(chain => chain.includes(file));
@@ -137,6 +165,119 @@ export class HTTPServer {
           break;
         }
 
+        case '/callers':
+        case '/callees': {
+          const symbol = url.searchParams.get('symbol');
+          if (!symbol) {
+            this.sendError(res, 400, 'Missing query parameter: symbol');
+            return;
+          }
+          const file = url.searchParams.get('file') || undefined;
+          const limit = parseInt(url.searchParams.get('limit') || '100');
+          result = url.pathname === '/callers'
+            ? this.engine.getCallers(symbol, file, limit)
+            : this.engine.getCallees(symbol, file, limit);
+          break;
+        }
+
+        case '/references': {
+          const symbol = url.searchParams.get('symbol');
+          if (!symbol) {
+            this.sendError(res, 400, 'Missing query parameter: symbol');
+            return;
+          }
+          const file = url.searchParams.get('file') || undefined;
+          const limit = parseInt(url.searchParams.get('limit') || '200');
+          const references = this.engine.findReferences(symbol, file, limit);
+          result = {
+            symbol,
+            total: references.length,
+            files: new Set(references.map(r => r.file)).size,
+            references
+          };
+          break;
+        }
+
+        case '/hierarchy': {
+          const symbol = url.searchParams.get('symbol');
+          if (!symbol) {
+            this.sendError(res, 400, 'Missing query parameter: symbol');
+            return;
+          }
+          const file = url.searchParams.get('file') || undefined;
+          const depth = parseInt(url.searchParams.get('depth') || '5');
+          const hierarchy = this.engine.getTypeHierarchy(symbol, file, depth);
+          if (!hierarchy) {
+            this.sendError(res, 404, `No type named ${symbol} in the index`);
+            return;
+          }
+          result = hierarchy;
+          break;
+        }
+
+        case '/schema': {
+          const table = url.searchParams.get('table') || undefined;
+          const column = url.searchParams.get('column');
+          const file = url.searchParams.get('file');
+          if (column) {
+            result = { column, changes: this.engine.getColumnHistory(column, table) };
+          } else if (table) {
+            const schema = this.engine.getTableSchema(table);
+            if (!schema) {
+              this.sendError(res, 404, `No table named ${table} in the migrations or schema files`);
+              return;
+            }
+            result = schema;
+          } else if (file) {
+            result = { file, tables: this.engine.getTablesUsedBy(file) };
+          } else {
+            result = { tables: this.engine.listTables() };
+          }
+          break;
+        }
+
+        case '/routes': {
+          const method = (url.searchParams.get('method') || 'ANY').toUpperCase() as HttpMethod;
+          if (!HTTP_METHODS.includes(method)) {
+            this.sendError(res, 400, `Invalid method: ${method}. Use one of: ${HTTP_METHODS.join(', ')}`);
+            return;
+          }
+          const path = url.searchParams.get('path');
+          if (path) {
+            result = { method, path, ...this.engine.findRoute(method, path) };
+          } else {
+            result = {
+              routes: this.engine.listRoutes({
+                file: url.searchParams.get('file') || undefined,
+                under: url.searchParams.get('under') || undefined,
+                method: url.searchParams.has('method') ? method : undefined
+              })
+            };
+          }
+          break;
+        }
+
+        case '/env': {
+          const name = url.searchParams.get('name');
+          if (name) {
+            const found = this.engine.findEnvVar(name);
+            if (!found.variable) {
+              const hint = found.similar.length > 0 ? ` (did you mean ${found.similar.join(', ')}?)` : '';
+              this.sendError(res, 404, `No environment variable named ${name} is read or declared${hint}`);
+              return;
+            }
+            result = found.variable;
+          } else {
+            result = {
+              variables: this.engine.listEnvVars({
+                file: url.searchParams.get('file') || undefined,
+                under: url.searchParams.get('under') || undefined
+              })
+            };
+          }
+          break;
+        }
+
         case '/circular': {
           const chains = this.engine.findCircularDependencies();
           result = {
@@ -14,11 +14,13 @@ import {
 } from './gateways/index.js';
 import { handleToolCall } from './tools.js';
 import { resourceDefinitions, handleResourceRead } from './resources.js';
+import { IndexingReporter, markPartialResults } from './progress.js';
 import type { NeuronLayerConfig } from '../types/index.js';
 
 export class MCPServer {
   private server: Server;
   private engine: NeuronLayerEngine;
+  private indexingReporter: IndexingReporter;
 
   constructor(config: NeuronLayerConfig) {
     this.engine = new NeuronLayerEngine(config);
@@ -31,10 +33,12 @@ export class MCPServer {
       {
         capabilities: {
           tools: {},
-          resources: {}
+          resources: {},
+          logging: {}
         }
       }
     );
+    this.indexingReporter = new IndexingReporter(this.server, this.engine);
 
     this.setupHandlers();
   }
@@ -52,8 +56,10 @@ export class MCPServer {
     });
 
     // Handle tool calls - route to gateways or standalone handlers
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    this.server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
       const { name, arguments: args } = request.params;
+      // Callers that asked for progress hear how indexing goes while they're answered
+      const stopProgress = this.indexingReporter.trackProgress(extra);
 
       try {
         let result;
@@ -66,6 +72,9 @@ export class MCPServer {
           result = await handleToolCall(this.engine, name, args || {});
         }
 
+        // Answers from a half-built index say so, with the coverage so far
+        result = markPartialResults(result, this.engine.getIndexCoverage());
+
         return {
           content: [
             {
@@ -85,6 +94,8 @@ export class MCPServer {
           ],
           isError: true
         };
+      } finally {
+        stopProgress();
       }
     });
 
@@ -130,6 +141,9 @@ export class MCPServer {
 
     console.error('NeuronLayer MCP server started');
 
+    // Indexing progress goes to the client as log notifications
+    this.indexingReporter.start();
+
     // Initialize the engine in the background (indexing, etc.)
     // This allows MCP to respond while indexing happens
     this.engine.initialize().catch(err => {
@@ -149,6 +163,7 @@ export class MCPServer {
   }
 
   shutdown(): void {
+    this.indexingReporter.stop();
     this.engine.shutdown();
   }
 }
@@ -0,0 +1,172 @@
+/**
+ * Indexing Progress - Keep MCP clients informed while the index is built
+ *
+ * - Log notifications (notifications/message) when indexing starts, at every
+ *   10%, and when it finishes or is cancelled; the initial index at 'info',
+ *   re-indexes of changed files at 'debug'
+ * - Progress notifications (notifications/progress) for a tool call that
+ *   carries a progressToken and arrives before the index is ready: where the
+ *   index stands when the call comes in, then every percent until it is
+ *   answered. The call itself is never held up.
+ * - A partial_results marker on answers given before the index is complete or
+ *   when files failed to index, so an empty result isn't mistaken for "nothing there"
+ */
+
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import type { ServerNotification, ServerRequest } from '@modelcontextprotocol/sdk/types.js';
+import type { NeuronLayerEngine } from '../core/engine.js';
+import type { IndexCoverage, IndexingUpdate } from '../types/index.js';
+import type { PartialResultsMarker } from './gateways/types.js';
+
+const LOG_STEP_PERCENT = 10;
+
+type ToolCallExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+export class IndexingReporter {
+  private server: Server;
+  private engine: NeuronLayerEngine;
+  private unsubscribe: (() => void) | null = null;
+  private loggedStep = new Map<IndexingUpdate['scope'], number>();
+  private callListeners = new Set<(update: IndexingUpdate) => void>();
+
+  constructor(server: Server, engine: NeuronLayerEngine) {
+    this.server = server;
+    this.engine = engine;
+  }
+
+  start(): void {
+    this.unsubscribe ??= this.engine.onIndexingUpdate(update => {
+      this.log(update);
+      for (const listener of this.callListeners) listener(update);
+    });
+  }
+
+  stop(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    this.callListeners.clear();
+  }
+
+  /**
+   * Send indexing progress to a tool call that asked for it, while the initial
+   * index is running. Returns a function that stops the updates, to be called
+   * once the call is answered - a progressToken is only valid until then.
+   */
+  trackProgress(extra: ToolCallExtra): () => void {
+    const progressToken = extra._meta?.progressToken;
+    const coverage = this.engine.getIndexCoverage();
+    // Finished with failed files is still finished; nothing left to report
+    if (progressToken === undefined || coverage.complete || coverage.status === 'indexed_with_errors') {
+      return () => {};
+    }
+
+    const sendProgress = (checked: number, total: number, message: string) => {
+      extra.sendNotification({
+        method: 'notifications/progress',
+        params: { progressToken, progress: checked, ...(total > 0 ? { total } : {}), message }
+      }).catch(() => {
+        // The client went away; the call itself will fail or be cancelled
+      });
+    };
+
+    sendProgress(coverage.filesChecked, coverage.filesTotal, 'Indexing the project');
+
+    let lastPercent = -1;
+    const listener = (update: IndexingUpdate) => {
+      if (update.scope !== 'initial') return;
+      if (update.phase === 'complete' || update.phase === 'cancelled') {
+        sendProgress(update.checked, update.total, update.phase === 'complete' ? 'Index ready' : 'Indexing cancelled');
+        this.callListeners.delete(listener);
+        return;
+      }
+      // One notification per percent is plenty
+      const percent = update.total > 0 ? Math.floor((update.checked / update.total) * 100) : 0;
+      if (percent === lastPercent) return;
+      lastPercent = percent;
+      sendProgress(update.checked, update.total, update.current ? `Indexing ${update.current}` : 'Indexing');
+    };
+
+    this.callListeners.add(listener);
+    return () => {
+      this.callListeners.delete(listener);
+    };
+  }
+
+  private log(update: IndexingUpdate): void {
+    const level = update.scope === 'initial' ? 'info' : 'debug';
+    const what = update.scope === 'initial' ? 'Indexing project' : 'Re-indexing changed files';
+    let message: string | null = null;
+
+    switch (update.phase) {
+      case 'started':
+        this.loggedStep.set(update.scope, 0);
+        if (update.scope === 'changes') {
+          message = `${what}: ${update.total} file(s)`;
+        }
+        break;
+
+      case 'progress': {
+        if (update.total === 0) break;
+        const step = Math.floor((update.checked / update.total) * 100 / LOG_STEP_PERCENT) * LOG_STEP_PERCENT;
+        const logged = this.loggedStep.get(update.scope) ?? 0;
+        if (step > logged && step < 100) {
+          this.loggedStep.set(update.scope, step);
+          message = `${what}: ${step}% (${update.checked}/${update.total} files checked, ${update.indexed} indexed)`;
+        } else if (update.scope === 'initial' && logged === 0 && update.checked === 1) {
+          // The total is only known once the file scan is done
+          message = `${what}: ${update.total} files`;
+        }
+        break;
+      }
+
+      case 'complete':
+        message = update.scope === 'initial'
+          ? `Index ready: ${update.total} files checked, ${update.indexed} indexed${update.failed ? `, ${update.failed} failed` : ''}`
+          : `Re-indexed ${update.indexed} of ${update.total} changed file(s)`;
+        break;
+
+      case 'cancelled':
+        message = `${what} cancelled after ${update.checked}/${update.total} files`;
+        break;
+    }
+
+    if (message) {
+      this.server.sendLoggingMessage({ level, logger: 'neuronlayer', data: message }).catch(() => {
+        // Not connected (yet); stderr still has the engine's own log
+      });
+    }
+  }
+}
+
+/**
+ * Mark a result given before the initial index finished, or after it finished
+ * with files it couldn't store. Object results get a partial_results field; anything else is wrapped as { result, partial_results }.
+ */
+export function markPartialResults(result: unknown, coverage: IndexCoverage): unknown {
+  if (coverage.complete) return result;
+
+  const marker: PartialResultsMarker = {
+    complete: false,
+    status: coverage.status,
+    coverage: {
+      files_checked: coverage.filesChecked,
+      files_total: coverage.filesTotal,
+      files_indexed: coverage.filesIndexed,
+      files_failed: coverage.filesFailed,
+      percent: coverage.percent
+    },
+    message: coverage.status === 'error'
+      ? 'Indexing failed; results only cover files indexed before the error.'
+      : coverage.status === 'indexed_with_errors'
+        ? `${coverage.filesFailed} file(s) failed to index; results may be missing them until the next run.`
+        : coverage.filesTotal > 0
+          ? `Indexing in progress (${coverage.percent}% of files checked); results may be missing files not reached yet.`
+          : 'Indexing has not started scanning files yet; results only cover files indexed in earlier runs.'
+  };
+
+  if (result && typeof result === 'object' && !Array.isArray(result)) {
+    return { ...result, partial_results: marker };
+  }
+  return { result, partial_results: marker };
+}
@@ -1,4 +1,5 @@
 import type { NeuronLayerEngine } from '../core/engine.js';
+import { docSummary } from '../indexing/docstrings.js';
 
 export interface ToolDefinition {
   name: string;
@@ -149,7 +150,7 @@ export const toolDefinitions: ToolDefinition[] = [
   },
   {
     name: 'get_impact_analysis',
-    description: 'Analyze the full impact of changing a file. Shows all directly and indirectly affected files, affected tests, and circular dependencies. Use this BEFORE making changes to understand the blast radius and risk level.',
+    description: 'Analyze the full impact of changing a file. Shows all directly and indirectly affected files, affected tests, and circular dependencies. Pass a symbol to analyze a single function instead: its direct and indirect callers. Use this BEFORE making changes to understand the blast radius and risk level.',
     inputSchema: {
       type: 'object',
       properties: {
@@ -157,9 +158,13 @@ export const toolDefinitions: ToolDefinition[] = [
           type: 'string',
           description: 'File path to analyze impact for'
         },
+        symbol: {
+          type: 'string',
+          description: 'Function or method in the file to analyze instead of the whole file'
+        },
         depth: {
           type: 'number',
-          description: 'How many hops to follow in the dependency graph (default: 3)'
+          description: 'How many hops to follow in the dependency or call graph (default: 3)'
         },
         include_tests: {
           type: 'boolean',
@@ -1070,6 +1075,7 @@ export async function handleToolCall(
           line_start: s.lineStart,
           line_end: s.lineEnd,
           signature: s.signature || null,
+          doc: s.docstring ? docSummary(s.docstring) : null,
           exported: s.exported
         }))
       };
@@ -1117,6 +1123,68 @@ export async function handleToolCall(
       const depth = (args.depth as number) || 3;
       const includeTests = args.include_tests !== false;
 
+      // Function-level impact: walk the call graph instead of the import graph
+      if (args.symbol) {
+        const symbol = args.symbol as string;
+        const callers = engine.getTransitiveCallers(symbol, filePath, depth);
+        const affectedFiles = [...new Set(callers.map(c => c.file))];
+
+        let affectedTests: Array<{ name: string; file: string }> = [];
+        if (includeTests) {
+          const testSet = new Set<string>();
+          const targets = [{ file: filePath, symbol }, ...callers.map(c => ({ file: c.file, symbol: c.symbol ?? undefined }))];
+          for (const target of targets) {
+            for (const t of engine.getRelatedTests(target.file, target.symbol)) {
+              if (!testSet.has(t.id)) {
+                testSet.add(t.id);
+                affectedTests.push({ name: t.name, file: t.file });
+              }
+            }
+          }
+        }
+
+        const totalCallers = callers.length;
+        const riskLevel = totalCallers > 15 || affectedFiles.length > 10 ? 'HIGH' : totalCallers > 5 ? 'MEDIUM' : 'LOW';
+
+        const riskFactors: string[] = [];
+        if (totalCallers > 5) riskFactors.push(`${totalCallers} call sites depend on ${symbol}`);
+        if (affectedFiles.length > 10) riskFactors.push(`Callers span ${affectedFiles.length} files`);
+        if (affectedTests.length > 5) riskFactors.push(`${affectedTests.length} tests may need updates`);
+
+        return {
+          file: filePath,
+          symbol,
+          risk_level: riskLevel,
+          risk_factors: riskFactors.length > 0 ? riskFactors : ['No significant risk factors detected'],
+          summary: {
+            total_callers: totalCallers,
+            direct_callers: callers.filter(c => c.depth === 1).length,
+            indirect_callers: callers.filter(c => c.depth > 1).length,
+            affected_files: affectedFiles.length,
+            affected_tests: affectedTests.length
+          },
+          direct_callers: callers.filter(c => c.depth === 1).map(c => ({
+            symbol: c.symbol ?? '(module level)',
+            file: c.file,
+            line: c.line
+          })),
+          indirect_callers: callers.filter(c => c.depth > 1).map(c => ({
+            symbol: c.symbol ?? '(module level)',
+            file: c.file,
+            line: c.line,
+            depth: c.depth
+          })),
+          affected_files: affectedFiles,
+          calls: engine.getCallees(symbol, filePath).map(c => c.calleeFile ? `${c.callee} (${c.calleeFile})` : c.callee),
+          affected_tests: affectedTests,
+          recommendation: totalCallers === 0
+            ? 'No indexed callers found. The function may be unused, called dynamically, or an entry point.'
+            : riskLevel === 'HIGH'
+              ? 'High-impact change. Keep the signature compatible or update callers incrementally.'
+              : 'Review the listed callers and ensure tests cover the changed behavior.'
+        };
+      }
+
       // Get transitive dependents (files affected by changing this file)
       const affected = engine.getTransitiveDependents(filePath, depth);
 
@@ -1533,7 +1601,18 @@ export async function handleToolCall(
           dependencies_count: doc.dependencies.length,
           dependents_count: doc.dependents.length,
           complexity: doc.complexity,
-          documentation_score: doc.documentationScore
+          documentation_score: doc.documentationScore,
+          ui_component: doc.ui ? {
+            framework: doc.ui.framework,
+            props: doc.ui.props.map(p => p.name),
+            emits: doc.ui.emits,
+            children: doc.ui.children.map(c => c.name)
+          } : undefined,
+          inheritance: doc.inheritance?.map(i => ({
+            name: i.name,
+            supertypes: i.supertypes.map(s => `${s.relation} ${s.name}`),
+            subtypes: i.subtypes.map(s => s.name)
+          }))
         };
       }
     }
@@ -1599,7 +1678,15 @@ export async function handleToolCall(
           })),
           contributors: doc.contributors,
           complexity: doc.complexity,
-          documentation_score: doc.documentationScore
+          documentation_score: doc.documentationScore,
+          ui_component: doc.ui ? {
+            framework: doc.ui.framework,
+            props: doc.ui.props,
+            emits: doc.ui.emits,
+            children: doc.ui.children,
+            used_by: doc.ui.usedBy
+          } : undefined,
+          inheritance: doc.inheritance
         };
       } catch (error) {
         return {
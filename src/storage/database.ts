@@ -1,6 +1,549 @@
 import Database from 'better-sqlite3';
 import { mkdirSync, existsSync } from 'fs';
 import { dirname } from 'path';
+import { runMigrations, type Migration } from './migrations.js';
+
+// Core tables. Append new steps; never edit a released one.
+const CORE_MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Baseline schema',
+    up: (db) => db.exec(`
+      -- Files table: stores file metadata
+      CREATE TABLE IF NOT EXISTS files (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        path TEXT UNIQUE NOT NULL,
+        content_hash TEXT NOT NULL,
+        preview TEXT,
+        language TEXT,
+        size_bytes INTEGER,
+        line_count INTEGER,
+        last_modified INTEGER,
+        indexed_at INTEGER DEFAULT (unixepoch())
+      );
+
+      -- Embeddings table: stores file embeddings as binary blobs
+      CREATE TABLE IF NOT EXISTS embeddings (
+        file_id INTEGER PRIMARY KEY REFERENCES files(id) ON DELETE CASCADE,
+        embedding BLOB NOT NULL,
+        dimension INTEGER NOT NULL
+      );
+
+      -- Dependencies table: tracks file relationships
+      CREATE TABLE IF NOT EXISTS dependencies (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        source_file_id INTEGER REFERENCES files(id) ON DELETE CASCADE,
+        target_file_id INTEGER REFERENCES files(id) ON DELETE CASCADE,
+        relationship TEXT NOT NULL,
+        UNIQUE(source_file_id, target_file_id, relationship)
+      );
+
+      -- Decisions table: stores architectural decisions
+      CREATE TABLE IF NOT EXISTS decisions (
+        id TEXT PRIMARY KEY,
+        title TEXT NOT NULL,
+        description TEXT NOT NULL,
+        files TEXT,
+        tags TEXT,
+        created_at INTEGER DEFAULT (unixepoch()),
+        embedding BLOB,
+        -- Phase 4: Team features
+        author TEXT,
+        status TEXT DEFAULT 'accepted',
+        superseded_by TEXT
+      );
+
+      -- Sessions table: tracks session history
+      CREATE TABLE IF NOT EXISTS sessions (
+        id TEXT PRIMARY KEY,
+        start_time INTEGER NOT NULL,
+        end_time INTEGER,
+        files_viewed TEXT,
+        summary TEXT
+      );
+
+      -- Project summary table
+      CREATE TABLE IF NOT EXISTS project_summary (
+        id INTEGER PRIMARY KEY CHECK (id = 1),
+        name TEXT,
+        description TEXT,
+        languages TEXT,
+        key_directories TEXT,
+        architecture_notes TEXT,
+        updated_at INTEGER DEFAULT (unixepoch())
+      );
+
+      -- Phase 2: Symbols table - stores code symbols (functions, classes, etc.)
+      CREATE TABLE IF NOT EXISTS symbols (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        file_id INTEGER NOT NULL REFERENCES files(id) ON DELETE CASCADE,
+        kind TEXT NOT NULL,
+        name TEXT NOT NULL,
+        signature TEXT,
+        docstring TEXT,
+        line_start INTEGER NOT NULL,
+        line_end INTEGER NOT NULL,
+        exported INTEGER NOT NULL DEFAULT 0
+      );
+
+      -- Phase 2: Imports table - tracks what each file imports
+      CREATE TABLE IF NOT EXISTS imports (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        file_id INTEGER NOT NULL REFERENCES files(id) ON DELETE CASCADE,
+        imported_from TEXT NOT NULL,
+        imported_symbols TEXT NOT NULL,
+        is_default INTEGER NOT NULL DEFAULT 0,
+        is_namespace INTEGER NOT NULL DEFAULT 0,
+        line_number INTEGER NOT NULL
+      );
+
+      -- Phase 2: Exports table - tracks what each file exports
+      CREATE TABLE IF NOT EXISTS exports (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        file_id INTEGER NOT NULL REFERENCES files(id) ON DELETE CASCADE,
+        exported_name TEXT NOT NULL,
+        local_name TEXT,
+        is_default INTEGER NOT NULL DEFAULT 0,
+        line_number INTEGER NOT NULL
+      );
+
+      -- Create indexes for common queries
+      CREATE INDEX IF NOT EXISTS idx_files_path ON files(path);
+      CREATE INDEX IF NOT EXISTS idx_files_language ON files(language);
+      CREATE INDEX IF NOT EXISTS idx_files_last_modified ON files(last_modified);
+      CREATE INDEX IF NOT EXISTS idx_dependencies_source ON dependencies(source_file_id);
+      CREATE INDEX IF NOT EXISTS idx_dependencies_target ON dependencies(target_file_id);
+      CREATE INDEX IF NOT EXISTS idx_decisions_created_at ON decisions(created_at);
+
+      -- Phase 2: Symbol indexes
+      CREATE INDEX IF NOT EXISTS idx_symbols_file_id ON symbols(file_id);
+      CREATE INDEX IF NOT EXISTS idx_symbols_name ON symbols(name);
+      CREATE INDEX IF NOT EXISTS idx_symbols_kind ON symbols(kind);
+      CREATE INDEX IF NOT EXISTS idx_imports_file_id ON imports(file_id);
+      CREATE INDEX IF NOT EXISTS idx_imports_from ON imports(imported_from);
+      CREATE INDEX IF NOT EXISTS idx_exports_file_id ON exports(file_id);
+      CREATE INDEX IF NOT EXISTS idx_exports_name ON exports(exported_name);
+
+      -- Phase 3: Usage tracking for learning
+      CREATE TABLE IF NOT EXISTS usage_events (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        event_type TEXT NOT NULL,
+        file_path TEXT,
+        query TEXT,
+        context_used INTEGER DEFAULT 0,
+        timestamp INTEGER DEFAULT (unixepoch())
+      );
+
+      -- Phase 3: File access frequency for personalized ranking
+      CREATE TABLE IF NOT EXISTS file_access (
+        file_id INTEGER PRIMARY KEY REFERENCES files(id) ON DELETE CASCADE,
+        access_count INTEGER DEFAULT 0,
+        last_accessed INTEGER DEFAULT (unixepoch()),
+        relevance_score REAL DEFAULT 0.5
+      );
+
+      -- Phase 3: Query patterns for prediction
+      CREATE TABLE IF NOT EXISTS query_patterns (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        query_hash TEXT UNIQUE NOT NULL,
+        query_text TEXT NOT NULL,
+        result_files TEXT,
+        hit_count INTEGER DEFAULT 1,
+        avg_usefulness REAL DEFAULT 0.5,
+        last_used INTEGER DEFAULT (unixepoch())
+      );
+
+      -- Phase 3: File summaries for compression
+      CREATE TABLE IF NOT EXISTS file_summaries (
+        file_id INTEGER PRIMARY KEY REFERENCES files(id) ON DELETE CASCADE,
+        summary TEXT NOT NULL,
+        summary_tokens INTEGER,
+        generated_at INTEGER DEFAULT (unixepoch())
+      );
+
+      -- Phase 3: Indexes for usage tracking
+      CREATE INDEX IF NOT EXISTS idx_usage_events_timestamp ON usage_events(timestamp);
+      CREATE INDEX IF NOT EXISTS idx_usage_events_file ON usage_events(file_path);
+      CREATE INDEX IF NOT EXISTS idx_file_access_count ON file_access(access_count DESC);
+      CREATE INDEX IF NOT EXISTS idx_query_patterns_hash ON query_patterns(query_hash);
+
+      -- Phase 6: Living Documentation tables
+      CREATE TABLE IF NOT EXISTS documentation (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        file_id INTEGER REFERENCES files(id) ON DELETE CASCADE,
+        doc_type TEXT NOT NULL,
+        content TEXT NOT NULL,
+        generated_at INTEGER DEFAULT (unixepoch()),
+        UNIQUE(file_id, doc_type)
+      );
+
+      CREATE TABLE IF NOT EXISTS activity_log (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        timestamp INTEGER DEFAULT (unixepoch()),
+        activity_type TEXT NOT NULL,
+        description TEXT,
+        file_path TEXT,
+        metadata TEXT,
+        commit_hash TEXT
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_activity_timestamp ON activity_log(timestamp);
+      CREATE INDEX IF NOT EXISTS idx_activity_type ON activity_log(activity_type);
+      CREATE INDEX IF NOT EXISTS idx_documentation_file ON documentation(file_id);
+
+      -- Phase 7: Context Rot Prevention tables
+      CREATE TABLE IF NOT EXISTS critical_context (
+        id TEXT PRIMARY KEY,
+        type TEXT NOT NULL,
+        content TEXT NOT NULL,
+        reason TEXT,
+        source TEXT,
+        never_compress INTEGER DEFAULT 1,
+        created_at INTEGER DEFAULT (unixepoch())
+      );
+
+      CREATE TABLE IF NOT EXISTS context_health_history (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        timestamp INTEGER DEFAULT (unixepoch()),
+        tokens_used INTEGER,
+        tokens_limit INTEGER,
+        utilization_percent REAL,
+        drift_score REAL,
+        relevance_score REAL,
+        health TEXT,
+        compaction_triggered INTEGER DEFAULT 0
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_critical_context_type ON critical_context(type);
+      CREATE INDEX IF NOT EXISTS idx_critical_context_created ON critical_context(created_at);
+      CREATE INDEX IF NOT EXISTS idx_context_health_timestamp ON context_health_history(timestamp);
+
+      -- Phase 11: Test-Aware Suggestions tables
+      CREATE TABLE IF NOT EXISTS test_index (
+        id TEXT PRIMARY KEY,
+        file_path TEXT NOT NULL,
+        test_name TEXT NOT NULL,
+        describes TEXT,
+        covers_files TEXT,           -- JSON array
+        covers_functions TEXT,       -- JSON array
+        assertions TEXT,             -- JSON array
+        line_start INTEGER,
+        line_end INTEGER,
+        last_status TEXT,
+        last_run INTEGER,
+        indexed_at INTEGER DEFAULT (unixepoch()),
+        UNIQUE(file_path, test_name)
+      );
+
+      CREATE TABLE IF NOT EXISTS test_config (
+        id INTEGER PRIMARY KEY CHECK (id = 1),
+        framework TEXT NOT NULL,
+        test_patterns TEXT,          -- JSON array of glob patterns
+        last_indexed INTEGER
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_test_index_file ON test_index(file_path);
+      CREATE INDEX IF NOT EXISTS idx_test_index_name ON test_index(test_name);
+      CREATE INDEX IF NOT EXISTS idx_test_covers_files ON test_index(covers_files);
+
+      -- Intelligent Refresh System: State persistence
+      CREATE TABLE IF NOT EXISTS refresh_state (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL,
+        updated_at INTEGER DEFAULT (unixepoch())
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_refresh_state_key ON refresh_state(key);
+    `)
+  },
+  {
+    version: 2,
+    description: 'Symbol-level chunk embeddings',
+    up: (db) => db.exec(`
+      -- Chunks table: symbol-level slices of a file, each with its own embedding
+      CREATE TABLE IF NOT EXISTS chunks (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        file_id INTEGER NOT NULL REFERENCES files(id) ON DELETE CASCADE,
+        name TEXT,
+        kind TEXT NOT NULL,
+        line_start INTEGER NOT NULL,
+        line_end INTEGER NOT NULL,
+        preview TEXT NOT NULL,
+        embedding BLOB NOT NULL,
+        dimension INTEGER NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_chunks_file_id ON chunks(file_id);
+
+      -- Whole-file embeddings, superseded by chunk embeddings
+      DROP TABLE IF EXISTS embeddings;
+    `)
+  },
+  {
+    version: 3,
+    description: 'Full-text search over code chunks and decisions',
+    up: (db) => {
+      db.exec(`
+        -- Full-text index over chunk source, plus the names and signatures of the
+        -- symbols each chunk contains. rowid is the chunks.id it belongs to.
+        CREATE VIRTUAL TABLE IF NOT EXISTS code_fts USING fts5(
+          names,
+          content
+        );
+
+        -- Full-text index over decisions, kept in sync by triggers
+        CREATE VIRTUAL TABLE IF NOT EXISTS decisions_fts USING fts5(
+          title,
+          description,
+          content='decisions',
+          content_rowid='rowid'
+        );
+
+        CREATE TRIGGER IF NOT EXISTS decisions_fts_insert AFTER INSERT ON decisions BEGIN
+          INSERT INTO decisions_fts(rowid, title, description) VALUES (new.rowid, new.title, new.description);
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS decisions_fts_delete AFTER DELETE ON decisions BEGIN
+          INSERT INTO decisions_fts(decisions_fts, rowid, title, description) VALUES ('delete', old.rowid, old.title, old.description);
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS decisions_fts_update AFTER UPDATE ON decisions BEGIN
+          INSERT INTO decisions_fts(decisions_fts, rowid, title, description) VALUES ('delete', old.rowid, old.title, old.description);
+          INSERT INTO decisions_fts(rowid, title, description) VALUES (new.rowid, new.title, new.description);
+        END;
+      `);
+      // Decisions recorded before the full-text index existed need a backfill
+      db.exec(`INSERT INTO decisions_fts(decisions_fts) VALUES ('rebuild')`);
+    }
+  },
+  {
+    version: 4,
+    description: 'Record which embedding model produced each vector',
+    up: (db) => db.exec(`
+      -- NULL means written before provenance was tracked; claimed on startup
+      ALTER TABLE chunks ADD COLUMN model TEXT;
+      ALTER TABLE decisions ADD COLUMN embedding_model TEXT;
+      ALTER TABLE decisions ADD COLUMN embedding_dimension INTEGER;
+
+      CREATE INDEX IF NOT EXISTS idx_chunks_model ON chunks(model);
+    `)
+  },
+  {
+    version: 5,
+    description: 'Call sites for the symbol-level call graph',
+    up: (db) => db.exec(`
+      -- One row per call expression; target_* is filled in once the callee resolves
+      CREATE TABLE IF NOT EXISTS calls (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        file_id INTEGER NOT NULL REFERENCES files(id) ON DELETE CASCADE,
+        caller_name TEXT,
+        callee_name TEXT NOT NULL,
+        qualifier TEXT,
+        line INTEGER NOT NULL,
+        target_file_id INTEGER REFERENCES files(id) ON DELETE SET NULL,
+        target_name TEXT
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_calls_file_caller ON calls(file_id, caller_name);
+      CREATE INDEX IF NOT EXISTS idx_calls_target ON calls(target_file_id, target_name);
+      CREATE INDEX IF NOT EXISTS idx_calls_callee ON calls(callee_name);
+    `)
+  },
+  {
+    version: 6,
+    description: 'Props, emits and child components of Vue/Svelte files',
+    up: (db) => db.exec(`
+      CREATE TABLE IF NOT EXISTS components (
+        file_id INTEGER PRIMARY KEY REFERENCES files(id) ON DELETE CASCADE,
+        framework TEXT NOT NULL,
+        props TEXT NOT NULL,        -- JSON ComponentProp[]
+        emits TEXT NOT NULL,        -- JSON string[]
+        children TEXT NOT NULL      -- JSON [{ name, from }]
+      );
+    `)
+  },
+  {
+    version: 7,
+    description: 'Re-index files so symbols and chunks pick up docstrings',
+    up: (db) => db.exec(`
+      -- A cleared hash makes the next startup re-parse and re-embed every file
+      UPDATE files SET content_hash = '';
+      DELETE FROM file_summaries;
+    `)
+  },
+  {
+    version: 8,
+    description: 'Embedding cache keyed by text hash and model',
+    up: (db) => db.exec(`
+      CREATE TABLE IF NOT EXISTS embedding_cache (
+        text_hash TEXT NOT NULL,
+        model TEXT NOT NULL,
+        embedding BLOB NOT NULL,
+        dimension INTEGER NOT NULL,
+        last_used INTEGER NOT NULL DEFAULT (unixepoch()),
+        PRIMARY KEY (text_hash, model)
+      );
+      CREATE INDEX IF NOT EXISTS idx_embedding_cache_last_used ON embedding_cache(last_used);
+    `)
+  },
+  {
+    version: 9,
+    description: 'Identifier references for find-all-references',
+    up: (db) => db.exec(`
+      -- One row per use of a name; target_* is filled in once it resolves to a definition
+      CREATE TABLE IF NOT EXISTS symbol_references (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        file_id INTEGER NOT NULL REFERENCES files(id) ON DELETE CASCADE,
+        name TEXT NOT NULL,
+        qualifier TEXT,
+        line INTEGER NOT NULL,
+        col INTEGER NOT NULL,
+        snippet TEXT NOT NULL,
+        container_name TEXT,
+        target_file_id INTEGER REFERENCES files(id) ON DELETE SET NULL,
+        target_name TEXT
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_symbol_references_file ON symbol_references(file_id);
+      CREATE INDEX IF NOT EXISTS idx_symbol_references_target ON symbol_references(target_file_id, target_name);
+      CREATE INDEX IF NOT EXISTS idx_symbol_references_name ON symbol_references(name);
+    `)
+  },
+  {
+    version: 10,
+    description: 'Type hierarchy: extends/implements edges and Go method sets',
+    up: (db) => db.exec(`
+      -- One row per supertype clause; inferred rows are Go interfaces satisfied by a type's methods
+      CREATE TABLE IF NOT EXISTS type_relations (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        file_id INTEGER NOT NULL REFERENCES files(id) ON DELETE CASCADE,
+        type_name TEXT NOT NULL,
+        relation TEXT NOT NULL,       -- extends, implements, embeds
+        base_name TEXT NOT NULL,
+        qualifier TEXT,
+        line INTEGER NOT NULL,
+        inferred INTEGER NOT NULL DEFAULT 0,
+        target_file_id INTEGER REFERENCES files(id) ON DELETE SET NULL,
+        target_name TEXT
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_type_relations_type ON type_relations(file_id, type_name);
+      CREATE INDEX IF NOT EXISTS idx_type_relations_target ON type_relations(target_file_id, target_name);
+      CREATE INDEX IF NOT EXISTS idx_type_relations_base ON type_relations(base_name);
+
+      CREATE TABLE IF NOT EXISTS method_sets (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        file_id INTEGER NOT NULL REFERENCES files(id) ON DELETE CASCADE,
+        type_name TEXT NOT NULL,
+        kind TEXT NOT NULL,           -- interface, type
+        methods TEXT NOT NULL,        -- JSON string[]
+        embedded TEXT NOT NULL,       -- JSON string[]
+        line INTEGER
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_method_sets_file ON method_sets(file_id);
+
+      -- Files indexed before this have no supertypes yet: parse them once more
+      INSERT OR REPLACE INTO refresh_state (key, value)
+      SELECT 'parse_backfill', 'pending' WHERE EXISTS (SELECT 1 FROM files);
+    `)
+  },
+  {
+    version: 11,
+    description: 'Database schema: DDL and Prisma models per file, and table names used in code',
+    up: (db) => db.exec(`
+      -- One row per DDL statement or Prisma model; replayed in migration order when queried
+      CREATE TABLE IF NOT EXISTS schema_operations (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        file_id INTEGER NOT NULL REFERENCES files(id) ON DELETE CASCADE,
+        seq INTEGER NOT NULL,
+        kind TEXT NOT NULL,
+        table_name TEXT NOT NULL,
+        line INTEGER NOT NULL,
+        operation TEXT NOT NULL       -- JSON SchemaOperation
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_schema_operations_file ON schema_operations(file_id, seq);
+
+      -- Candidate table names in source files; only those naming an indexed table count
+      CREATE TABLE IF NOT EXISTS table_references (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        file_id INTEGER NOT NULL REFERENCES files(id) ON DELETE CASCADE,
+        table_name TEXT NOT NULL COLLATE NOCASE,
+        via TEXT NOT NULL,            -- sql, orm, model
+        line INTEGER NOT NULL,
+        snippet TEXT NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_table_references_file ON table_references(file_id);
+      CREATE INDEX IF NOT EXISTS idx_table_references_table ON table_references(table_name);
+
+      -- Schema files were only embedded so far, and code was never scanned for tables
+      INSERT OR REPLACE INTO refresh_state (key, value)
+      SELECT 'parse_backfill', 'pending' WHERE EXISTS (SELECT 1 FROM files);
+    `)
+  },
+  {
+    version: 12,
+    description: 'API routes: HTTP route definitions per file, and the routers mounted under prefixes',
+    up: (db) => db.exec(`
+      CREATE TABLE IF NOT EXISTS api_routes (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        file_id INTEGER NOT NULL REFERENCES files(id) ON DELETE CASCADE,
+        method TEXT NOT NULL,         -- GET, POST, ..., ANY
+        path TEXT NOT NULL,           -- as declared, with its own router's prefix
+        handler TEXT,
+        receiver TEXT,                -- the app or router, NULL for file-based routes
+        root INTEGER NOT NULL DEFAULT 0,
+        framework TEXT NOT NULL,
+        line INTEGER NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_api_routes_file ON api_routes(file_id);
+
+      -- app.use('/api', users) and the like; followed when the inventory is read
+      CREATE TABLE IF NOT EXISTS route_mounts (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        file_id INTEGER NOT NULL REFERENCES files(id) ON DELETE CASCADE,
+        receiver TEXT NOT NULL,
+        root INTEGER NOT NULL DEFAULT 0,
+        prefix TEXT NOT NULL,
+        target TEXT NOT NULL,
+        source TEXT,                  -- the module the target is imported from
+        imported TEXT,
+        line INTEGER NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_route_mounts_file ON route_mounts(file_id);
+
+      -- Code was never scanned for routes
+      INSERT OR REPLACE INTO refresh_state (key, value)
+      SELECT 'parse_backfill', 'pending' WHERE EXISTS (SELECT 1 FROM files);
+    `)
+  },
+  {
+    version: 13,
+    description: 'Environment variables: where code reads them, and where .env templates and config schemas declare them',
+    up: (db) => db.exec(`
+      CREATE TABLE IF NOT EXISTS env_variables (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        file_id INTEGER NOT NULL REFERENCES files(id) ON DELETE CASCADE,
+        name TEXT NOT NULL,
+        kind TEXT NOT NULL,           -- read, example or schema
+        line INTEGER NOT NULL,
+        has_default INTEGER NOT NULL DEFAULT 0,
+        description TEXT              -- never the value
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_env_variables_file ON env_variables(file_id);
+      CREATE INDEX IF NOT EXISTS idx_env_variables_name ON env_variables(name);
+
+      -- Code was never scanned for env vars; templates are picked up by the file scan
+      INSERT OR REPLACE INTO refresh_state (key, value)
+      SELECT 'parse_backfill', 'pending' WHERE EXISTS (SELECT 1 FROM files);
+    `)
+  }
+];
 
 export function initializeDatabase(dbPath: string): Database.Database {
   // Ensure directory exists
@@ -14,254 +557,12 @@ export function initializeDatabase(dbPath: string): Database.Database {
   // Enable WAL mode for better concurrent access
   db.pragma('journal_mode = WAL');
 
-  // Create tables
-  db.exec(`
-    -- Files table: stores file metadata
-    CREATE TABLE IF NOT EXISTS files (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      path TEXT UNIQUE NOT NULL,
-      content_hash TEXT NOT NULL,
-      preview TEXT,
-      language TEXT,
-      size_bytes INTEGER,
-      line_count INTEGER,
-      last_modified INTEGER,
-      indexed_at INTEGER DEFAULT (unixepoch())
-    );
-
-    -- Embeddings table: stores file embeddings as binary blobs
-    CREATE TABLE IF NOT EXISTS embeddings (
-      file_id INTEGER PRIMARY KEY REFERENCES files(id) ON DELETE CASCADE,
-      embedding BLOB NOT NULL,
-      dimension INTEGER NOT NULL
-    );
-
-    -- Dependencies table: tracks file relationships
-    CREATE TABLE IF NOT EXISTS dependencies (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      source_file_id INTEGER REFERENCES files(id) ON DELETE CASCADE,
-      target_file_id INTEGER REFERENCES files(id) ON DELETE CASCADE,
-      relationship TEXT NOT NULL,
-      UNIQUE(source_file_id, target_file_id, relationship)
-    );
-
-    -- Decisions table: stores architectural decisions
-    CREATE TABLE IF NOT EXISTS decisions (
-      id TEXT PRIMARY KEY,
-      title TEXT NOT NULL,
-      description TEXT NOT NULL,
-      files TEXT,
-      tags TEXT,
-      created_at INTEGER DEFAULT (unixepoch()),
-      embedding BLOB,
-      -- Phase 4: Team features
-      author TEXT,
-      status TEXT DEFAULT 'accepted',
-      superseded_by TEXT
-    );
-
-    -- Sessions table: tracks session history
-    CREATE TABLE IF NOT EXISTS sessions (
-      id TEXT PRIMARY KEY,
-      start_time INTEGER NOT NULL,
-      end_time INTEGER,
-      files_viewed TEXT,
-      summary TEXT
-    );
-
-    -- Project summary table
-    CREATE TABLE IF NOT EXISTS project_summary (
-      id INTEGER PRIMARY KEY CHECK (id = 1),
-      name TEXT,
-      description TEXT,
-      languages TEXT,
-      key_directories TEXT,
-      architecture_notes TEXT,
-      updated_at INTEGER DEFAULT (unixepoch())
-    );
-
-    -- Phase 2: Symbols table - stores code symbols (functions, classes, etc.)
-    CREATE TABLE IF NOT EXISTS symbols (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      file_id INTEGER NOT NULL REFERENCES files(id) ON DELETE CASCADE,
-      kind TEXT NOT NULL,
-      name TEXT NOT NULL,
-      signature TEXT,
-      docstring TEXT,
-      line_start INTEGER NOT NULL,
-      line_end INTEGER NOT NULL,
-      exported INTEGER NOT NULL DEFAULT 0
-    );
-
-    -- Phase 2: Imports table - tracks what each file imports
-    CREATE TABLE IF NOT EXISTS imports (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      file_id INTEGER NOT NULL REFERENCES files(id) ON DELETE CASCADE,
-      imported_from TEXT NOT NULL,
-      imported_symbols TEXT NOT NULL,
-      is_default INTEGER NOT NULL DEFAULT 0,
-      is_namespace INTEGER NOT NULL DEFAULT 0,
-      line_number INTEGER NOT NULL
-    );
-
-    -- Phase 2: Exports table - tracks what each file exports
-    CREATE TABLE IF NOT EXISTS exports (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      file_id INTEGER NOT NULL REFERENCES files(id) ON DELETE CASCADE,
-      exported_name TEXT NOT NULL,
-      local_name TEXT,
-      is_default INTEGER NOT NULL DEFAULT 0,
-      line_number INTEGER NOT NULL
-    );
-
-    -- Create indexes for common queries
-    CREATE INDEX IF NOT EXISTS idx_files_path ON files(path);
-    CREATE INDEX IF NOT EXISTS idx_files_language ON files(language);
-    CREATE INDEX IF NOT EXISTS idx_files_last_modified ON files(last_modified);
-    CREATE INDEX IF NOT EXISTS idx_dependencies_source ON dependencies(source_file_id);
-    CREATE INDEX IF NOT EXISTS idx_dependencies_target ON dependencies(target_file_id);
-    CREATE INDEX IF NOT EXISTS idx_decisions_created_at ON decisions(created_at);
-
-    -- Phase 2: Symbol indexes
-    CREATE INDEX IF NOT EXISTS idx_symbols_file_id ON symbols(file_id);
-    CREATE INDEX IF NOT EXISTS idx_symbols_name ON symbols(name);
-    CREATE INDEX IF NOT EXISTS idx_symbols_kind ON symbols(kind);
-    CREATE INDEX IF NOT EXISTS idx_imports_file_id ON imports(file_id);
-    CREATE INDEX IF NOT EXISTS idx_imports_from ON imports(imported_from);
-    CREATE INDEX IF NOT EXISTS idx_exports_file_id ON exports(file_id);
-    CREATE INDEX IF NOT EXISTS idx_exports_name ON exports(exported_name);
-
-    -- Phase 3: Usage tracking for learning
-    CREATE TABLE IF NOT EXISTS usage_events (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      event_type TEXT NOT NULL,
-      file_path TEXT,
-      query TEXT,
-      context_used INTEGER DEFAULT 0,
-      timestamp INTEGER DEFAULT (unixepoch())
-    );
-
-    -- Phase 3: File access frequency for personalized ranking
-    CREATE TABLE IF NOT EXISTS file_access (
-      file_id INTEGER PRIMARY KEY REFERENCES files(id) ON DELETE CASCADE,
-      access_count INTEGER DEFAULT 0,
-      last_accessed INTEGER DEFAULT (unixepoch()),
-      relevance_score REAL DEFAULT 0.5
-    );
-
-    -- Phase 3: Query patterns for prediction
-    CREATE TABLE IF NOT EXISTS query_patterns (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      query_hash TEXT UNIQUE NOT NULL,
-      query_text TEXT NOT NULL,
-      result_files TEXT,
-      hit_count INTEGER DEFAULT 1,
-      avg_usefulness REAL DEFAULT 0.5,
-      last_used INTEGER DEFAULT (unixepoch())
-    );
-
-    -- Phase 3: File summaries for compression
-    CREATE TABLE IF NOT EXISTS file_summaries (
-      file_id INTEGER PRIMARY KEY REFERENCES files(id) ON DELETE CASCADE,
-      summary TEXT NOT NULL,
-      summary_tokens INTEGER,
-      generated_at INTEGER DEFAULT (unixepoch())
-    );
-
-    -- Phase 3: Indexes for usage tracking
-    CREATE INDEX IF NOT EXISTS idx_usage_events_timestamp ON usage_events(timestamp);
-    CREATE INDEX IF NOT EXISTS idx_usage_events_file ON usage_events(file_path);
-    CREATE INDEX IF NOT EXISTS idx_file_access_count ON file_access(access_count DESC);
-    CREATE INDEX IF NOT EXISTS idx_query_patterns_hash ON query_patterns(query_hash);
-
-    -- Phase 6: Living Documentation tables
-    CREATE TABLE IF NOT EXISTS documentation (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      file_id INTEGER REFERENCES files(id) ON DELETE CASCADE,
-      doc_type TEXT NOT NULL,
-      content TEXT NOT NULL,
-      generated_at INTEGER DEFAULT (unixepoch()),
-      UNIQUE(file_id, doc_type)
-    );
-
-    CREATE TABLE IF NOT EXISTS activity_log (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      timestamp INTEGER DEFAULT (unixepoch()),
-      activity_type TEXT NOT NULL,
-      description TEXT,
-      file_path TEXT,
-      metadata TEXT,
-      commit_hash TEXT
-    );
-
-    CREATE INDEX IF NOT EXISTS idx_activity_timestamp ON activity_log(timestamp);
-    CREATE INDEX IF NOT EXISTS idx_activity_type ON activity_log(activity_type);
-    CREATE INDEX IF NOT EXISTS idx_documentation_file ON documentation(file_id);
-
-    -- Phase 7: Context Rot Prevention tables
-    CREATE TABLE IF NOT EXISTS critical_context (
-      id TEXT PRIMARY KEY,
-      type TEXT NOT NULL,
-      content TEXT NOT NULL,
-      reason TEXT,
-      source TEXT,
-      never_compress INTEGER DEFAULT 1,
-      created_at INTEGER DEFAULT (unixepoch())
-    );
-
-    CREATE TABLE IF NOT EXISTS context_health_history (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      timestamp INTEGER DEFAULT (unixepoch()),
-      tokens_used INTEGER,
-      tokens_limit INTEGER,
-      utilization_percent REAL,
-      drift_score REAL,
-      relevance_score REAL,
-      health TEXT,
-      compaction_triggered INTEGER DEFAULT 0
-    );
-
-    CREATE INDEX IF NOT EXISTS idx_critical_context_type ON critical_context(type);
-    CREATE INDEX IF NOT EXISTS idx_critical_context_created ON critical_context(created_at);
-    CREATE INDEX IF NOT EXISTS idx_context_health_timestamp ON context_health_history(timestamp);
-
-    -- Phase 11: Test-Aware Suggestions tables
-    CREATE TABLE IF NOT EXISTS test_index (
-      id TEXT PRIMARY KEY,
-      file_path TEXT NOT NULL,
-      test_name TEXT NOT NULL,
-      describes TEXT,
-      covers_files TEXT,           -- JSON array
-      covers_functions TEXT,       -- JSON array
-      assertions TEXT,             -- JSON array
-      line_start INTEGER,
-      line_end INTEGER,
-      last_status TEXT,
-      last_run INTEGER,
-      indexed_at INTEGER DEFAULT (unixepoch()),
-      UNIQUE(file_path, test_name)
-    );
-
-    CREATE TABLE IF NOT EXISTS test_config (
-      id INTEGER PRIMARY KEY CHECK (id = 1),
-      framework TEXT NOT NULL,
-      test_patterns TEXT,          -- JSON array of glob patterns
-      last_indexed INTEGER
-    );
-
-    CREATE INDEX IF NOT EXISTS idx_test_index_file ON test_index(file_path);
-    CREATE INDEX IF NOT EXISTS idx_test_index_name ON test_index(test_name);
-    CREATE INDEX IF NOT EXISTS idx_test_covers_files ON test_index(covers_files);
-
-    -- Intelligent Refresh System: State persistence
-    CREATE TABLE IF NOT EXISTS refresh_state (
-      key TEXT PRIMARY KEY,
-      value TEXT NOT NULL,
-      updated_at INTEGER DEFAULT (unixepoch())
-    );
-
-    CREATE INDEX IF NOT EXISTS idx_refresh_state_key ON refresh_state(key);
-  `);
+  try {
+    runMigrations(db, 'core', CORE_MIGRATIONS);
+  } catch (error) {
+    db.close();
+    throw error;
+  }
 
   return db;
 }
@@ -0,0 +1,443 @@
+/**
+ * HNSW - Hierarchical Navigable Small World graph for approximate nearest-neighbor search
+ *
+ * Pure TypeScript implementation (no native deps) tuned for the embedding sizes
+ * NeuronLayer uses (384-1024 dims, up to ~100k vectors):
+ * 1. Vectors are normalized on insert, so similarity is a plain dot product (cosine)
+ * 2. Deletes are tombstones - the node keeps routing traffic but is never returned
+ * 3. Re-adding an existing label tombstones the old node and inserts a fresh one
+ * 4. compact() rebuilds the graph from live nodes once tombstones pile up
+ * 5. Zero vectors are left out of the graph but their labels are remembered,
+ *    so callers can tell "skipped" from "missing"
+ */
+
+const MAGIC = 'NLHNSW01';
+
+export interface HNSWOptions {
+  M?: number;               // Max neighbors per node on upper layers
+  efConstruction?: number;  // Candidate list size while inserting
+  efSearch?: number;        // Candidate list size while querying
+}
+
+export interface HNSWMatch {
+  label: string;
+  similarity: number;
+}
+
+interface Candidate {
+  node: number;
+  sim: number;
+}
+
+export class HNSWIndex {
+  readonly dimension: number;
+  private M: number;
+  private maxM0: number;
+  private efConstruction: number;
+  private efSearch: number;
+  private levelMult: number;
+
+  private vectors: Float32Array[] = [];
+  private labels: string[] = [];
+  private levels: number[] = [];
+  private links: number[][][] = [];
+  private deleted: boolean[] = [];
+  private labelToNode: Map<string, number> = new Map();
+  private skipped: Set<string> = new Set();
+  private entryPoint = -1;
+  private maxLevel = -1;
+  private deletedCount = 0;
+
+  constructor(dimension: number, options: HNSWOptions = {}) {
+    this.dimension = dimension;
+    this.M = options.M ?? 16;
+    this.maxM0 = this.M * 2;
+    this.efConstruction = options.efConstruction ?? 200;
+    this.efSearch = options.efSearch ?? 64;
+    this.levelMult = 1 / Math.log(this.M);
+  }
+
+  /**
+   * Number of live (non-deleted) vectors
+   */
+  get size(): number {
+    return this.labelToNode.size;
+  }
+
+  /**
+   * Fraction of graph nodes that are tombstones
+   */
+  get deletedRatio(): number {
+    return this.vectors.length === 0 ? 0 : this.deletedCount / this.vectors.length;
+  }
+
+  /**
+   * Number of labels added, live vectors plus the zero vectors left out
+   */
+  get labelCount(): number {
+    return this.labelToNode.size + this.skipped.size;
+  }
+
+  has(label: string): boolean {
+    return this.labelToNode.has(label);
+  }
+
+  labelsList(): string[] {
+    return Array.from(this.labelToNode.keys());
+  }
+
+  /**
+   * Insert or replace the vector stored under a label
+   */
+  add(label: string, vector: Float32Array): void {
+    if (vector.length !== this.dimension) {
+      throw new Error(`Vector dimension ${vector.length} does not match index dimension ${this.dimension}`);
+    }
+
+    const normalized = normalize(vector);
+    if (!normalized) {
+      // Zero vectors carry no direction - nothing meaningful to index
+      this.remove(label);
+      this.skipped.add(label);
+      return;
+    }
+
+    this.remove(label);
+
+    const node = this.vectors.length;
+    const level = Math.floor(-Math.log(Math.random() || Number.MIN_VALUE) * this.levelMult);
+
+    this.vectors.push(normalized);
+    this.labels.push(label);
+    this.levels.push(level);
+    this.deleted.push(false);
+    this.links.push(Array.from({ length: level + 1 }, () => []));
+    this.labelToNode.set(label, node);
+
+    if (this.entryPoint === -1) {
+      this.entryPoint = node;
+      this.maxLevel = level;
+      return;
+    }
+
+    let entry: number[] = [this.entryPoint];
+
+    // Greedy descent through layers above the new node's level
+    for (let l = this.maxLevel; l > level; l--) {
+      const nearest = this.searchLayer(normalized, entry, 1, l)[0];
+      if (nearest) entry = [nearest.node];
+    }
+
+    for (let l = Math.min(level, this.maxLevel); l >= 0; l--) {
+      const candidates = this.searchLayer(normalized, entry, this.efConstruction, l);
+      const selected = this.selectNeighbors(candidates, this.M);
+      this.links[node]![l] = selected;
+
+      const maxConnections = l === 0 ? this.maxM0 : this.M;
+      for (const neighbor of selected) {
+        const neighborLinks = this.links[neighbor]![l]!;
+        neighborLinks.push(node);
+
+        if (neighborLinks.length > maxConnections) {
+          const base = this.vectors[neighbor]!;
+          const scored = neighborLinks
+            .map(n => ({ node: n, sim: dot(base, this.vectors[n]!) }))
+            .sort((a, b) => b.sim - a.sim);
+          this.links[neighbor]![l] = this.selectNeighbors(scored, maxConnections);
+        }
+      }
+
+      entry = candidates.map(c => c.node);
+    }
+
+    if (level > this.maxLevel) {
+      this.maxLevel = level;
+      this.entryPoint = node;
+    }
+  }
+
+  /**
+   * Tombstone a label. Returns false if it wasn't indexed.
+   */
+  remove(label: string): boolean {
+    if (this.skipped.delete(label)) return true;
+
+    const node = this.labelToNode.get(label);
+    if (node === undefined) return false;
+
+    this.labelToNode.delete(label);
+    this.deleted[node] = true;
+    this.deletedCount++;
+    return true;
+  }
+
+  /**
+   * Approximate k nearest neighbors by cosine similarity
+   */
+  search(query: Float32Array, k: number, ef?: number): HNSWMatch[] {
+    if (this.entryPoint === -1 || query.length !== this.dimension || k <= 0) {
+      return [];
+    }
+
+    const normalized = normalize(query);
+    if (!normalized) return [];
+
+    let entry: number[] = [this.entryPoint];
+    for (let l = this.maxLevel; l > 0; l--) {
+      const nearest = this.searchLayer(normalized, entry, 1, l)[0];
+      if (nearest) entry = [nearest.node];
+    }
+
+    // Widen the beam to compensate for tombstones that will be filtered out
+    const beam = Math.max(ef ?? this.efSearch, k) + Math.min(this.deletedCount, k * 4);
+    const candidates = this.searchLayer(normalized, entry, beam, 0);
+
+    const results: HNSWMatch[] = [];
+    for (const c of candidates) {
+      if (this.deleted[c.node]) continue;
+      results.push({ label: this.labels[c.node]!, similarity: c.sim });
+      if (results.length >= k) break;
+    }
+    return results;
+  }
+
+  /**
+   * Rebuild the graph from live nodes only, dropping all tombstones
+   */
+  compact(): HNSWIndex {
+    const fresh = new HNSWIndex(this.dimension, {
+      M: this.M,
+      efConstruction: this.efConstruction,
+      efSearch: this.efSearch
+    });
+
+    for (const [label, node] of this.labelToNode) {
+      fresh.add(label, this.vectors[node]!);
+    }
+    for (const label of this.skipped) {
+      fresh.skipped.add(label);
+    }
+
+    return fresh;
+  }
+
+  /**
+   * Serialize to a compact binary buffer:
+   * magic | u32 header length | JSON header | f32 vectors | u32 adjacency lists
+   */
+  serialize(): Buffer {
+    const count = this.vectors.length;
+    const header = Buffer.from(JSON.stringify({
+      dimension: this.dimension,
+      M: this.M,
+      efConstruction: this.efConstruction,
+      efSearch: this.efSearch,
+      entryPoint: this.entryPoint,
+      maxLevel: this.maxLevel,
+      count,
+      labels: this.labels,
+      levels: this.levels,
+      deleted: this.deleted.flatMap((d, i) => d ? [i] : []),
+      skipped: [...this.skipped]
+    }), 'utf-8');
+
+    let linkInts = 0;
+    for (const nodeLinks of this.links) {
+      for (const layer of nodeLinks) {
+        linkInts += 1 + layer.length;
+      }
+    }
+
+    const vectorBytes = count * this.dimension * 4;
+    const buffer = Buffer.alloc(MAGIC.length + 4 + header.length + vectorBytes + linkInts * 4);
+    let offset = buffer.write(MAGIC, 0, 'ascii');
+    offset = buffer.writeUInt32LE(header.length, offset);
+    offset += header.copy(buffer, offset);
+
+    for (const vector of this.vectors) {
+      for (let i = 0; i < vector.length; i++) {
+        offset = buffer.writeFloatLE(vector[i]!, offset);
+      }
+    }
+
+    for (const nodeLinks of this.links) {
+      for (const layer of nodeLinks) {
+        offset = buffer.writeUInt32LE(layer.length, offset);
+        for (const neighbor of layer) {
+          offset = buffer.writeUInt32LE(neighbor, offset);
+        }
+      }
+    }
+
+    return buffer;
+  }
+
+  static deserialize(buffer: Buffer): HNSWIndex {
+    if (buffer.toString('ascii', 0, MAGIC.length) !== MAGIC) {
+      throw new Error('Not an HNSW index file');
+    }
+
+    let offset = MAGIC.length;
+    const headerLength = buffer.readUInt32LE(offset);
+    offset += 4;
+    const header = JSON.parse(buffer.toString('utf-8', offset, offset + headerLength)) as {
+      dimension: number;
+      M: number;
+      efConstruction: number;
+      efSearch: number;
+      entryPoint: number;
+      maxLevel: number;
+      count: number;
+      labels: string[];
+      levels: number[];
+      deleted: number[];
+      skipped: string[];
+    };
+    offset += headerLength;
+
+    const index = new HNSWIndex(header.dimension, {
+      M: header.M,
+      efConstruction: header.efConstruction,
+      efSearch: header.efSearch
+    });
+
+    for (let n = 0; n < header.count; n++) {
+      const vector = new Float32Array(header.dimension);
+      for (let i = 0; i < header.dimension; i++) {
+        vector[i] = buffer.readFloatLE(offset);
+        offset += 4;
+      }
+      index.vectors.push(vector);
+    }
+
+    for (let n = 0; n < header.count; n++) {
+      const layers: number[][] = [];
+      for (let l = 0; l <= header.levels[n]!; l++) {
+        const length = buffer.readUInt32LE(offset);
+        offset += 4;
+        const layer: number[] = [];
+        for (let i = 0; i < length; i++) {
+          layer.push(buffer.readUInt32LE(offset));
+          offset += 4;
+        }
+        layers.push(layer);
+      }
+      index.links.push(layers);
+    }
+
+    const deleted = new Set(header.deleted);
+    index.labels = header.labels;
+    index.levels = header.levels;
+    index.deleted = header.labels.map((_, i) => deleted.has(i));
+    index.deletedCount = deleted.size;
+    index.entryPoint = header.entryPoint;
+    index.maxLevel = header.maxLevel;
+
+    header.labels.forEach((label, node) => {
+      if (!deleted.has(node)) index.labelToNode.set(label, node);
+    });
+    index.skipped = new Set(header.skipped);
+
+    return index;
+  }
+
+  // Beam search within a single layer, returns candidates sorted by similarity (best first)
+  private searchLayer(query: Float32Array, entry: number[], ef: number, level: number): Candidate[] {
+    const visited = new Set<number>(entry);
+    const candidates: Candidate[] = [];
+    const results: Candidate[] = [];
+
+    for (const node of entry) {
+      const scored = { node, sim: dot(query, this.vectors[node]!) };
+      insertSorted(candidates, scored);
+      insertSorted(results, scored);
+    }
+    while (results.length > ef) results.pop();
+
+    while (candidates.length > 0) {
+      const current = candidates.shift()!;
+      const worst = results[results.length - 1];
+      if (worst && results.length >= ef && current.sim < worst.sim) break;
+
+      const neighbors = this.links[current.node]?.[level] ?? [];
+      for (const neighbor of neighbors) {
+        if (visited.has(neighbor)) continue;
+        visited.add(neighbor);
+
+        const sim = dot(query, this.vectors[neighbor]!);
+        const furthest = results[results.length - 1];
+        if (results.length < ef || (furthest && sim > furthest.sim)) {
+          const scored = { node: neighbor, sim };
+          insertSorted(candidates, scored);
+          insertSorted(results, scored);
+          if (results.length > ef) results.pop();
+        }
+      }
+    }
+
+    return results;
+  }
+
+  // Diversity heuristic: keep a candidate only if it is closer to the base
+  // than to any neighbor already kept, then top up with the best of the rest
+  private selectNeighbors(candidates: Candidate[], max: number): number[] {
+    const selected: Candidate[] = [];
+    const pruned: Candidate[] = [];
+
+    for (const candidate of candidates) {
+      if (selected.length >= max) break;
+      const vector = this.vectors[candidate.node]!;
+      const dominated = selected.some(s => dot(vector, this.vectors[s.node]!) > candidate.sim);
+      if (dominated) {
+        pruned.push(candidate);
+      } else {
+        selected.push(candidate);
+      }
+    }
+
+    for (const candidate of pruned) {
+      if (selected.length >= max) break;
+      selected.push(candidate);
+    }
+
+    return selected.map(s => s.node);
+  }
+}
+
+function dot(a: Float32Array, b: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += a[i]! * b[i]!;
+  }
+  return sum;
+}
+
+function normalize(vector: Float32Array): Float32Array | null {
+  let norm = 0;
+  for (let i = 0; i < vector.length; i++) {
+    norm += vector[i]! * vector[i]!;
+  }
+  if (norm === 0) return null;
+
+  const scale = 1 / Math.sqrt(norm);
+  const out = new Float32Array(vector.length);
+  for (let i = 0; i < vector.length; i++) {
+    out[i] = vector[i]! * scale;
+  }
+  return out;
+}
+
+// Insert keeping the array sorted by similarity, descending
+function insertSorted(list: Candidate[], item: Candidate): void {
+  let lo = 0;
+  let hi = list.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >>> 1;
+    if (list[mid]!.sim >= item.sim) {
+      lo = mid + 1;
+    } else {
+      hi = mid;
+    }
+  }
+  list.splice(lo, 0, item);
+}
@@ -0,0 +1,163 @@
+/**
+ * Migrations - Versioned schema upgrades for the project database
+ *
+ * Each subsystem that owns tables registers an ordered list of steps under
+ * its own component name (core tables under 'core', patterns under 'patterns', ...).
+ * runMigrations():
+ * 1. Reads the component's version from schema_version
+ * 2. Refuses to continue if the database is newer than this build knows about
+ * 3. Backs up an existing database before changing it, keeping only the latest
+ *    backup per component
+ * 4. Applies all pending steps in one transaction - a failure leaves the old schema intact
+ *
+ * Steps must never be edited once released; add a new step instead.
+ */
+
+import type Database from 'better-sqlite3';
+import { existsSync, readdirSync, unlinkSync } from 'fs';
+import { basename, dirname, join } from 'path';
+
+export interface Migration {
+  version: number;
+  description: string;
+  up: (db: Database.Database) => void;
+}
+
+export class SchemaVersionError extends Error {
+  readonly component: string;
+  readonly databaseVersion: number;
+  readonly supportedVersion: number;
+
+  constructor(component: string, databaseVersion: number, supportedVersion: number, databasePath: string) {
+    super(
+      `Database ${databasePath} has '${component}' schema version ${databaseVersion}, ` +
+      `but this version of NeuronLayer only supports up to ${supportedVersion}. ` +
+      `It was written by a newer NeuronLayer - upgrade (npm install -g neuronlayer@latest) to open it.`
+    );
+    this.name = 'SchemaVersionError';
+    this.component = component;
+    this.databaseVersion = databaseVersion;
+    this.supportedVersion = supportedVersion;
+  }
+}
+
+export function getSchemaVersion(db: Database.Database, component: string): number {
+  ensureVersionTable(db);
+  const row = db.prepare('SELECT version FROM schema_version WHERE component = ?').get(component) as { version: number } | undefined;
+  return row?.version ?? 0;
+}
+
+export function getSchemaVersions(db: Database.Database): Record<string, number> {
+  ensureVersionTable(db);
+  const rows = db.prepare('SELECT component, version FROM schema_version ORDER BY component').all() as Array<{ component: string; version: number }>;
+  return Object.fromEntries(rows.map(r => [r.component, r.version]));
+}
+
+/**
+ * Bring a component's tables up to the latest version. Returns the number of steps applied.
+ */
+export function runMigrations(db: Database.Database, component: string, migrations: Migration[]): number {
+  validateMigrations(component, migrations);
+
+  const untracked = hasUntrackedSchema(db);
+  const current = getSchemaVersion(db, component);
+  const latest = migrations[migrations.length - 1]?.version ?? 0;
+
+  if (current > latest) {
+    throw new SchemaVersionError(component, current, latest, db.name);
+  }
+
+  const pending = migrations.filter(m => m.version > current);
+  if (pending.length === 0) return 0;
+
+  // Tables created before versioning existed count as data worth protecting too
+  if (current > 0 || untracked) {
+    backupDatabase(db, component, current);
+  }
+
+  const setVersion = db.prepare(`
+    INSERT INTO schema_version (component, version, updated_at)
+    VALUES (?, ?, unixepoch())
+    ON CONFLICT(component) DO UPDATE SET
+      version = excluded.version,
+      updated_at = excluded.updated_at
+  `);
+
+  const apply = db.transaction(() => {
+    for (const migration of pending) {
+      migration.up(db);
+      setVersion.run(component, migration.version);
+    }
+  });
+
+  try {
+    apply();
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Migration of '${component}' from version ${current} to ${latest} failed: ${message}`);
+  }
+
+  return pending.length;
+}
+
+function ensureVersionTable(db: Database.Database): void {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_version (
+      component TEXT PRIMARY KEY,
+      version INTEGER NOT NULL,
+      updated_at INTEGER DEFAULT (unixepoch())
+    )
+  `);
+}
+
+// A database with tables but no recorded versions predates the migration system
+function hasUntrackedSchema(db: Database.Database): boolean {
+  ensureVersionTable(db);
+  const tracked = db.prepare('SELECT COUNT(*) as count FROM schema_version').get() as { count: number };
+  if (tracked.count > 0) return false;
+
+  const tables = db.prepare(`
+    SELECT COUNT(*) as count FROM sqlite_master
+    WHERE type = 'table' AND name != 'schema_version' AND name NOT LIKE 'sqlite_%'
+  `).get() as { count: number };
+  return tables.count > 0;
+}
+
+function backupDatabase(db: Database.Database, component: string, version: number): void {
+  if (db.memory || !db.name) return;
+
+  const backupPath = `${db.name}.${component}-v${version}.bak`;
+  try {
+    // VACUUM INTO refuses to overwrite, so drop any stale backup for the same version
+    if (existsSync(backupPath)) unlinkSync(backupPath);
+    db.prepare('VACUUM INTO ?').run(backupPath);
+    console.error(`Backed up database to ${backupPath} before migrating`);
+  } catch (error) {
+    throw new Error(`Could not back up ${db.name} before migrating: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  removeOlderBackups(db.name, component, backupPath);
+}
+
+// Each backup is a full copy of the database; the one just written supersedes the rest
+function removeOlderBackups(databasePath: string, component: string, keep: string): void {
+  const dir = dirname(databasePath);
+  const prefix = `${basename(databasePath)}.${component}-v`;
+  for (const name of readdirSync(dir)) {
+    const path = join(dir, name);
+    if (path === keep || !name.startsWith(prefix) || !/^\d+\.bak$/.test(name.slice(prefix.length))) continue;
+    try {
+      unlinkSync(path);
+    } catch (error) {
+      console.error(`Could not remove old backup ${path}:`, error);
+    }
+  }
+}
+
+function validateMigrations(component: string, migrations: Migration[]): void {
+  migrations.forEach((migration, i) => {
+    if (migration.version !== i + 1) {
+      throw new Error(`Migrations for '${component}' must be numbered 1..n in order; found version ${migration.version} at position ${i + 1}`);
+    }
+  });
+}
@@ -132,4 +132,22 @@ export class Tier1Storage {
   getFilesViewed(): string[] {
     return this.context.session.filesViewed;
   }
+
+  // Point remembered paths at a renamed file's new location
+  renamePaths(rename: (path: string) => string): void {
+    const { activeFile, recentDecisions, session, immediateContext } = this.context;
+
+    if (activeFile) {
+      activeFile.path = rename(activeFile.path);
+    }
+    for (const decision of recentDecisions) {
+      decision.files = decision.files.map(rename);
+    }
+    session.filesViewed = [...new Set(session.filesViewed.map(rename))];
+    for (const snippet of immediateContext) {
+      snippet.file = rename(snippet.file);
+    }
+
+    this.save();
+  }
 }
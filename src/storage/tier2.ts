@@ -1,5 +1,11 @@
 import type Database from 'better-sqlite3';
-import type { FileMetadata, Decision, SearchResult, DependencyRelation, CodeSymbol, Import, Export, SymbolKind } from '../types/index.js';
+import { join } from 'path';
+import { VectorIndex, measureRecall } from './vector-index.js';
+import { getPreview } from '../utils/files.js';
+import { ImportResolver } from '../indexing/import-resolver.js';
+import type { FileMetadata, Decision, SearchResult, DependencyRelation, CodeSymbol, CodeChunk, Import, Export, SymbolKind, CallSite, CallEdge, ReferenceSite, SymbolReference, TypeRelationSite, TypeRelationKind, MethodSet, TypeHierarchy, TypeHierarchyEntry, ComponentInfo, SchemaOperation, TableReferenceSite, TableSchema, ColumnChange, SchemaLocation, RouteSite, RouteMount, ApiRoute, HttpMethod, RouteFramework, EnvVarSite, EnvVarKind, EnvVariable, EnvVarReference } from '../types/index.js';
+import { buildSchemaModel, compareSchemaFiles, type SchemaEntry, type SchemaModel } from '../indexing/db-schema.js';
+import { joinRoutePath } from '../indexing/routes.js';
 
 // Patterns to exclude from search results (stale data that shouldn't be indexed)
 const EXCLUDED_PATH_PATTERNS = [
@@ -16,11 +22,131 @@ const EXCLUDED_PATH_PATTERNS = [
   'venv/',
 ];
 
+// Chunk previews only need enough to recognise the match
+const CHUNK_PREVIEW_CHARS = 600;
+
+// Receivers that refer to the enclosing class or module
+const SELF_QUALIFIERS = new Set(['this', 'self', 'cls']);
+
+// How many `export ... from` hops to follow when a callee is re-exported
+const MAX_REEXPORT_HOPS = 3;
+
+// How many routers deep to follow app.use('/api', router) mounts
+const MAX_MOUNT_DEPTH = 8;
+
+// Build an FTS5 query that matches any of the words in free text.
+// Each term is quoted so punctuation and FTS operators in the input are inert.
+function toFtsQuery(text: string): string | null {
+  const terms = text.match(/[\p{L}\p{N}_]+/gu);
+  if (!terms) return null;
+
+  const unique = [...new Set(terms.map(t => t.toLowerCase()))].slice(0, 32);
+  return unique.map(t => `"${t}"`).join(' OR ');
+}
+
+// getUserById -> "get User By Id", so word queries find camelCase identifiers
+function splitIdentifier(name: string): string {
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2');
+}
+
+// Match `text` literally in a LIKE pattern; the query needs ESCAPE '\'
+function escapeLike(text: string): string {
+  return text.replace(/[\\%_]/g, '\\$&');
+}
+
+// A Go file's package is its directory
+function goPackage(path: string): string {
+  return path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '';
+}
+
+export interface Tier2Options {
+  /** Directory for persisted ANN indexes. Without it, search always uses exact scan. */
+  vectorIndexDir?: string;
+  /** Embedding model vectors are written with. When set, search ignores vectors from other models. */
+  embeddingModel?: string;
+  /** Resolves aliased and workspace imports. Without it only relative imports become dependency edges. */
+  importResolver?: ImportResolver;
+}
+
+export interface StaleChunk {
+  id: number;
+  filePath: string;
+  name: string | null;
+  kind: CodeChunk['kind'];
+  lineStart: number;
+  lineEnd: number;
+  docstring: string | null;     // Of the symbol the chunk starts with
+}
+
 export class Tier2Storage {
   private db: Database.Database;
+  private chunkVectors: VectorIndex | null = null;
+  private decisionVectors: VectorIndex | null = null;
+  private embeddingModel: string | null;
+  private importResolver: ImportResolver;
 
-  constructor(db: Database.Database) {
+  constructor(db: Database.Database, options: Tier2Options = {}) {
     this.db = db;
+    this.embeddingModel = options.embeddingModel ?? null;
+    this.importResolver = options.importResolver ?? new ImportResolver();
+
+    if (options.vectorIndexDir) {
+      this.chunkVectors = new VectorIndex(join(options.vectorIndexDir, 'chunks.hnsw'), {
+        count: dimension => this.countVectors('chunks', dimension),
+        all: () => this.getAllChunkEmbeddings().map(c => ({ key: String(c.chunkId), vector: c.embedding }))
+      });
+      this.decisionVectors = new VectorIndex(join(options.vectorIndexDir, 'decisions.hnsw'), {
+        count: dimension => this.countVectors('decisions', dimension),
+        all: () => this.getAllDecisionEmbeddings().map(d => ({ key: d.id, vector: d.embedding }))
+      });
+    }
+  }
+
+  // Only vectors from the configured model are comparable with query embeddings.
+  // Without a configured model (CLI tools), every vector is used.
+  private chunkModelFilter(): string {
+    return this.embeddingModel ? 'model = ?' : '1 = 1';
+  }
+
+  private decisionModelFilter(): string {
+    return this.embeddingModel ? 'embedding_model = ?' : '1 = 1';
+  }
+
+  private modelParams(): string[] {
+    return this.embeddingModel ? [this.embeddingModel] : [];
+  }
+
+  // Searchable vectors in a table; with a dimension, only those the ANN graph can hold
+  private countVectors(table: 'chunks' | 'decisions', dimension?: number): number {
+    const filters = table === 'chunks'
+      ? [this.chunkModelFilter()]
+      : ['embedding IS NOT NULL', this.decisionModelFilter()];
+    const params: Array<string | number> = this.modelParams();
+    if (dimension !== undefined) {
+      filters.push('length(embedding) = ?');
+      params.push(dimension * Float32Array.BYTES_PER_ELEMENT);
+    }
+    return (this.db.prepare(`SELECT COUNT(*) as count FROM ${table} WHERE ${filters.join(' AND ')}`).get(...params) as { count: number }).count;
+  }
+
+  // Persist pending ANN index changes (call after bulk indexing and on shutdown)
+  flushVectorIndexes(): void {
+    this.chunkVectors?.flush();
+    this.decisionVectors?.flush();
+  }
+
+  // Drop the ANN graphs after the vector tables were changed behind their back;
+  // they are rebuilt from the tables on next use
+  invalidateVectorIndexes(): void {
+    this.chunkVectors?.invalidate();
+    this.decisionVectors?.invalidate();
+  }
+
+  // Run several writes as one transaction (nested calls become savepoints)
+  transaction<T>(fn: () => T): T {
+    return this.db.transaction(fn)();
   }
 
   // Check if a path should be excluded from results
@@ -76,8 +202,36 @@ export class Tier2Storage {
   }
 
   deleteFile(path: string): void {
-    const stmt = this.db.prepare('DELETE FROM files WHERE path = ?');
-    stmt.run(path);
+    const file = this.getFile(path);
+    if (file) {
+      this.clearChunks(file.id);
+      this.clearCalls(file.id);
+      this.clearReferences(file.id);
+      this.clearTypeRelations(file.id);
+      this.clearSchema(file.id);
+      this.clearRoutes(file.id);
+      this.clearEnvVars(file.id);
+      this.replaceComponent(file.id, null);
+      this.db.prepare('UPDATE calls SET target_file_id = NULL, target_name = NULL WHERE target_file_id = ?').run(file.id);
+      this.db.prepare('UPDATE symbol_references SET target_file_id = NULL, target_name = NULL WHERE target_file_id = ?').run(file.id);
+      this.db.prepare('UPDATE type_relations SET target_file_id = NULL, target_name = NULL WHERE target_file_id = ?').run(file.id);
+    }
+    this.db.prepare('DELETE FROM files WHERE path = ?').run(path);
+  }
+
+  // Move a file to a new path, keeping its id - and with it symbols, chunks,
+  // summaries and docs. Anything already indexed at the new path is replaced.
+  renameFile(from: string, to: string): boolean {
+    const file = this.getFile(from);
+    if (!file || from === to) return false;
+
+    this.transaction(() => {
+      if (this.getFile(to)) {
+        this.deleteFile(to);
+      }
+      this.db.prepare('UPDATE files SET path = ? WHERE id = ?').run(to, file.id);
+    });
+    return true;
   }
 
   getAllFiles(): FileMetadata[] {
@@ -132,73 +286,339 @@ export class Tier2Storage {
     return results.map(r => r.language);
   }
 
-  // Embedding operations
-  upsertEmbedding(fileId: number, embedding: Float32Array): void {
-    const buffer = Buffer.from(embedding.buffer);
-    const stmt = this.db.prepare(`
-      INSERT INTO embeddings (file_id, embedding, dimension)
-      VALUES (?, ?, ?)
-      ON CONFLICT(file_id) DO UPDATE SET
-        embedding = excluded.embedding,
-        dimension = excluded.dimension
+  // Chunk operations: symbol-level embeddings that back search
+  replaceChunks(fileId: number, chunks: Array<{ chunk: CodeChunk; embedding: Float32Array }>): void {
+    const insert = this.db.prepare(`
+      INSERT INTO chunks (file_id, name, kind, line_start, line_end, preview, embedding, dimension, model)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      RETURNING id
+    `);
+
+    const insertText = this.db.prepare('INSERT INTO code_fts (rowid, names, content) VALUES (?, ?, ?)');
+    const symbolsInRange = this.db.prepare(`
+      SELECT name, signature FROM symbols
+      WHERE file_id = ? AND line_start BETWEEN ? AND ?
     `);
-    stmt.run(fileId, buffer, embedding.length);
+
+    const inserted = this.db.transaction(() => {
+      this.clearChunks(fileId);
+
+      return chunks.map(({ chunk, embedding }) => {
+        const row = insert.get(
+          fileId,
+          chunk.name,
+          chunk.kind,
+          chunk.lineStart,
+          chunk.lineEnd,
+          getPreview(chunk.content, CHUNK_PREVIEW_CHARS),
+          Buffer.from(embedding.buffer, embedding.byteOffset, embedding.byteLength),
+          embedding.length,
+          this.embeddingModel
+        ) as { id: number };
+
+        // Symbol names go in their own column so identifier hits outrank mentions
+        const symbols = symbolsInRange.all(fileId, chunk.lineStart, chunk.lineEnd) as Array<{ name: string; signature: string | null }>;
+        const names = [chunk.name, ...symbols.map(sym => sym.name)]
+          .filter((name): name is string => !!name)
+          .map(name => `${name} ${splitIdentifier(name)}`);
+        const signatures = symbols.map(sym => sym.signature).filter((sig): sig is string => !!sig);
+        const text = chunk.docstring ? `${chunk.docstring}\n${chunk.content}` : chunk.content;
+        insertText.run(row.id, [...names, ...signatures].join('\n'), text);
+
+        return { id: row.id, embedding };
+      });
+    })();
+
+    for (const { id, embedding } of inserted) {
+      this.chunkVectors?.upsert(String(id), embedding);
+    }
   }
 
-  getEmbedding(fileId: number): Float32Array | null {
-    const stmt = this.db.prepare('SELECT embedding, dimension FROM embeddings WHERE file_id = ?');
-    const result = stmt.get(fileId) as { embedding: Buffer; dimension: number } | undefined;
+  clearChunks(fileId: number): void {
+    this.db.prepare('DELETE FROM code_fts WHERE rowid IN (SELECT id FROM chunks WHERE file_id = ?)').run(fileId);
+    const deleted = this.db.prepare('DELETE FROM chunks WHERE file_id = ? RETURNING id').all(fileId) as Array<{ id: number }>;
+    for (const { id } of deleted) {
+      this.chunkVectors?.remove(String(id));
+    }
+  }
 
-    if (!result) return null;
+  hasChunks(fileId: number): boolean {
+    const stmt = this.db.prepare('SELECT 1 FROM chunks WHERE file_id = ? LIMIT 1');
+    return stmt.get(fileId) !== undefined;
+  }
 
-    return new Float32Array(result.embedding.buffer, result.embedding.byteOffset, result.dimension);
+  getChunkCount(): number {
+    const result = this.db.prepare('SELECT COUNT(*) as count FROM chunks').get() as { count: number };
+    return result.count;
   }
 
-  getAllEmbeddings(): Array<{ fileId: number; embedding: Float32Array }> {
-    const stmt = this.db.prepare('SELECT file_id, embedding, dimension FROM embeddings');
-    const results = stmt.all() as Array<{ file_id: number; embedding: Buffer; dimension: number }>;
+  // Embedding cache: vectors by hash of the embedded text, so identical text is never embedded twice
+  getCachedEmbeddings(model: string, hashes: string[]): Map<string, Float32Array> {
+    const found = new Map<string, Float32Array>();
+    if (hashes.length === 0) return found;
+
+    const select = this.db.prepare('SELECT embedding, dimension FROM embedding_cache WHERE text_hash = ? AND model = ?');
+    const touch = this.db.prepare('UPDATE embedding_cache SET last_used = unixepoch() WHERE text_hash = ? AND model = ?');
+
+    this.db.transaction(() => {
+      for (const hash of new Set(hashes)) {
+        const row = select.get(hash, model) as { embedding: Buffer; dimension: number } | undefined;
+        if (!row) continue;
+        touch.run(hash, model);
+        found.set(hash, new Float32Array(row.embedding.buffer, row.embedding.byteOffset, row.dimension));
+      }
+    })();
+
+    return found;
+  }
+
+  cacheEmbeddings(model: string, entries: Array<{ hash: string; embedding: Float32Array }>): void {
+    if (entries.length === 0) return;
+
+    const insert = this.db.prepare(`
+      INSERT OR REPLACE INTO embedding_cache (text_hash, model, embedding, dimension, last_used)
+      VALUES (?, ?, ?, ?, unixepoch())
+    `);
+
+    this.db.transaction(() => {
+      for (const { hash, embedding } of entries) {
+        insert.run(hash, model, Buffer.from(embedding.buffer, embedding.byteOffset, embedding.byteLength), embedding.length);
+      }
+    })();
+  }
+
+  // Drop the least recently used entries beyond maxEntries
+  pruneEmbeddingCache(maxEntries: number): number {
+    const { count } = this.db.prepare('SELECT COUNT(*) as count FROM embedding_cache').get() as { count: number };
+    if (count <= maxEntries) return 0;
+
+    return this.db.prepare(`
+      DELETE FROM embedding_cache WHERE rowid IN (
+        SELECT rowid FROM embedding_cache ORDER BY last_used ASC LIMIT ?
+      )
+    `).run(count - maxEntries).changes;
+  }
+
+  private getAllChunkEmbeddings(): Array<{ chunkId: number; embedding: Float32Array }> {
+    const stmt = this.db.prepare(`SELECT id, embedding, dimension FROM chunks WHERE ${this.chunkModelFilter()}`);
+    const results = stmt.all(...this.modelParams()) as Array<{ id: number; embedding: Buffer; dimension: number }>;
 
     return results.map(r => ({
-      fileId: r.file_id,
+      chunkId: r.id,
       embedding: new Float32Array(r.embedding.buffer, r.embedding.byteOffset, r.dimension)
     }));
   }
 
-  // Search using cosine similarity (computed in JS since sqlite-vec may not be available)
+  // Embedding provenance: find and replace vectors written by a different model
+
+  // Vectors stored before provenance was tracked are assumed to be from the configured
+  // model; a dimension mismatch still marks them stale. Returns the number claimed.
+  claimUnlabeledVectors(): number {
+    if (!this.embeddingModel) return 0;
+
+    const chunks = this.db.prepare('UPDATE chunks SET model = ? WHERE model IS NULL').run(this.embeddingModel);
+    const decisions = this.db.prepare(`
+      UPDATE decisions
+      SET embedding_model = ?, embedding_dimension = length(embedding) / 4
+      WHERE embedding IS NOT NULL AND embedding_model IS NULL
+    `).run(this.embeddingModel);
+
+    return chunks.changes + decisions.changes;
+  }
+
+  countStaleEmbeddings(dimension: number): { chunks: number; decisions: number } {
+    const chunks = this.db.prepare(`
+      SELECT COUNT(*) as count FROM chunks WHERE model IS NOT ? OR dimension != ?
+    `).get(this.embeddingModel, dimension) as { count: number };
+    const decisions = this.db.prepare(`
+      SELECT COUNT(*) as count FROM decisions
+      WHERE embedding IS NOT NULL AND (embedding_model IS NOT ? OR embedding_dimension IS NOT ?)
+    `).get(this.embeddingModel, dimension) as { count: number };
+
+    return { chunks: chunks.count, decisions: decisions.count };
+  }
+
+  getStaleChunks(dimension: number, limit: number): StaleChunk[] {
+    const stmt = this.db.prepare(`
+      SELECT c.id, f.path as filePath, c.name, c.kind, c.line_start as lineStart, c.line_end as lineEnd,
+        (SELECT s.docstring FROM symbols s
+         WHERE s.file_id = c.file_id AND s.name = c.name AND s.line_start = c.line_start
+         LIMIT 1) as docstring
+      FROM chunks c
+      JOIN files f ON f.id = c.file_id
+      WHERE c.model IS NOT ? OR c.dimension != ?
+      ORDER BY c.file_id, c.line_start
+      LIMIT ?
+    `);
+    return stmt.all(this.embeddingModel, dimension, limit) as StaleChunk[];
+  }
+
+  getStaleDecisions(dimension: number, limit: number): Decision[] {
+    const rows = this.db.prepare(`
+      SELECT id FROM decisions
+      WHERE embedding IS NOT NULL AND (embedding_model IS NOT ? OR embedding_dimension IS NOT ?)
+      LIMIT ?
+    `).all(this.embeddingModel, dimension, limit) as Array<{ id: string }>;
+
+    return rows
+      .map(r => this.getDecision(r.id))
+      .filter((d): d is Decision => d !== null);
+  }
+
+  updateChunkEmbedding(chunkId: number, embedding: Float32Array): void {
+    this.db.prepare('UPDATE chunks SET embedding = ?, dimension = ?, model = ? WHERE id = ?').run(
+      Buffer.from(embedding.buffer, embedding.byteOffset, embedding.byteLength),
+      embedding.length,
+      this.embeddingModel,
+      chunkId
+    );
+    this.chunkVectors?.upsert(String(chunkId), embedding);
+  }
+
+  updateDecisionEmbedding(decisionId: string, embedding: Float32Array): void {
+    this.db.prepare(`
+      UPDATE decisions SET embedding = ?, embedding_model = ?, embedding_dimension = ? WHERE id = ?
+    `).run(
+      Buffer.from(embedding.buffer, embedding.byteOffset, embedding.byteLength),
+      this.embeddingModel,
+      embedding.length,
+      decisionId
+    );
+    this.decisionVectors?.upsert(decisionId, embedding);
+  }
+
+  // Search using the ANN index when one is active, otherwise an exact cosine scan.
+  // Ranks chunks, then keeps the best chunk per file so results point at real lines.
   search(queryEmbedding: Float32Array, limit: number = 10): SearchResult[] {
-    const allEmbeddings = this.getAllEmbeddings();
-    const results: Array<{ fileId: number; similarity: number }> = [];
+    // Over-fetch: several chunks of one file can crowd the top-k, and excluded paths are dropped
+    const matches = this.chunkVectors?.search(queryEmbedding, limit * 6 + 20);
+    if (matches) {
+      const results = this.toSearchResults(
+        matches.map(m => ({ chunkId: Number(m.label), similarity: m.similarity })),
+        limit
+      );
+      if (results.length >= limit) {
+        return results;
+      }
+    }
+
+    return this.searchExact(queryEmbedding, limit);
+  }
+
+  // Full-text search over chunk source and symbol names, ranked by BM25
+  searchLexical(query: string, limit: number = 10): SearchResult[] {
+    const match = toFtsQuery(query);
+    if (!match) return [];
 
-    for (const { fileId, embedding } of allEmbeddings) {
+    const stmt = this.db.prepare(`
+      SELECT rowid as chunkId, bm25(code_fts, 4.0, 1.0) as rank
+      FROM code_fts
+      WHERE code_fts MATCH ?
+      ORDER BY rank
+      LIMIT ?
+    `);
+    const rows = stmt.all(match, limit * 6 + 20) as Array<{ chunkId: number; rank: number }>;
+    if (rows.length === 0) return [];
+
+    // BM25 is negative, lower is better - scale so the best hit is 1
+    const best = rows[0]!.rank;
+    return this.toSearchResults(
+      rows.map(r => ({ chunkId: r.chunkId, similarity: best === 0 ? 0 : r.rank / best })),
+      limit
+    );
+  }
+
+  // Brute-force cosine similarity over every stored chunk embedding
+  searchExact(queryEmbedding: Float32Array, limit: number = 10): SearchResult[] {
+    return this.toSearchResults(this.rankAllChunks(queryEmbedding), limit);
+  }
+
+  private rankAllChunks(queryEmbedding: Float32Array): Array<{ chunkId: number; similarity: number }> {
+    const allEmbeddings = this.getAllChunkEmbeddings();
+    const results: Array<{ chunkId: number; similarity: number }> = [];
+
+    for (const { chunkId, embedding } of allEmbeddings) {
+      if (embedding.length !== queryEmbedding.length) continue;
       const similarity = this.cosineSimilarity(queryEmbedding, embedding);
-      results.push({ fileId, similarity });
+      results.push({ chunkId, similarity });
     }
 
     // Sort by similarity descending
     results.sort((a, b) => b.similarity - a.similarity);
+    return results;
+  }
 
-    // Get top results with file metadata, filtering out excluded paths
+  private toSearchResults(ranked: Array<{ chunkId: number; similarity: number }>, limit: number): SearchResult[] {
+    const stmt = this.db.prepare(`
+      SELECT c.file_id as fileId, c.line_start as lineStart, c.line_end as lineEnd, c.preview,
+             f.path, f.last_modified as lastModified
+      FROM chunks c
+      JOIN files f ON f.id = c.file_id
+      WHERE c.id = ?
+    `);
+
+    // Best chunk per file wins, filtering out excluded paths
     const searchResults: SearchResult[] = [];
+    const seenFiles = new Set<number>();
 
-    for (const { fileId, similarity } of results) {
+    for (const { chunkId, similarity } of ranked) {
       if (searchResults.length >= limit) break;
 
-      const file = this.getFileById(fileId);
-      if (file && !this.shouldExcludePath(file.path)) {
-        searchResults.push({
-          file: file.path,
-          preview: file.preview,
-          similarity,
-          lineStart: 1,
-          lineEnd: 50, // Default, could be improved
-          lastModified: file.lastModified
-        });
-      }
+      const chunk = stmt.get(chunkId) as {
+        fileId: number;
+        lineStart: number;
+        lineEnd: number;
+        preview: string;
+        path: string;
+        lastModified: number;
+      } | undefined;
+
+      if (!chunk || seenFiles.has(chunk.fileId) || this.shouldExcludePath(chunk.path)) continue;
+      seenFiles.add(chunk.fileId);
+
+      searchResults.push({
+        file: chunk.path,
+        preview: chunk.preview,
+        similarity,
+        lineStart: chunk.lineStart,
+        lineEnd: chunk.lineEnd,
+        lastModified: chunk.lastModified
+      });
     }
 
     return searchResults;
   }
 
+  /**
+   * Compare ANN results against exact scan, using stored embeddings as queries.
+   * Returns the mean fraction of the exact top-k that the ANN index also found.
+   */
+  checkSearchRecall(sampleSize: number = 20, k: number = 10): { recall: number; samples: number; annActive: boolean } {
+    const all = this.getAllChunkEmbeddings();
+    const samples: Float32Array[] = [];
+    for (let i = 0; i < Math.min(sampleSize, all.length); i++) {
+      const pick = all[Math.floor(Math.random() * all.length)];
+      if (pick) samples.push(pick.embedding);
+    }
+
+    let total = 0;
+    let measured = 0;
+    for (const query of samples) {
+      const approximate = this.chunkVectors?.search(query, k);
+      if (!approximate) continue;
+
+      const exact = this.rankAllChunks(query).slice(0, k).map(r => String(r.chunkId));
+      total += measureRecall(approximate.map(m => m.label), exact);
+      measured++;
+    }
+
+    return {
+      recall: measured === 0 ? 1 : total / measured,
+      samples: measured,
+      annActive: this.chunkVectors?.isActive() ?? false
+    };
+  }
+
   private cosineSimilarity(a: Float32Array, b: Float32Array): number {
     if (a.length !== b.length) return 0;
 
@@ -220,14 +640,16 @@ export class Tier2Storage {
   upsertDecision(decision: Decision, embedding?: Float32Array): void {
     const embeddingBuffer = embedding ? Buffer.from(embedding.buffer) : null;
     const stmt = this.db.prepare(`
-      INSERT INTO decisions (id, title, description, files, tags, created_at, embedding, author, status, superseded_by)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      INSERT INTO decisions (id, title, description, files, tags, created_at, embedding, embedding_model, embedding_dimension, author, status, superseded_by)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       ON CONFLICT(id) DO UPDATE SET
         title = excluded.title,
         description = excluded.description,
         files = excluded.files,
         tags = excluded.tags,
         embedding = excluded.embedding,
+        embedding_model = excluded.embedding_model,
+        embedding_dimension = excluded.embedding_dimension,
         author = excluded.author,
         status = excluded.status,
         superseded_by = excluded.superseded_by
@@ -240,10 +662,18 @@ export class Tier2Storage {
       JSON.stringify(decision.tags),
       Math.floor(decision.createdAt.getTime() / 1000),
       embeddingBuffer,
+      embedding ? this.embeddingModel : null,
+      embedding ? embedding.length : null,
       decision.author || null,
       decision.status || 'accepted',
       decision.supersededBy || null
     );
+
+    if (embedding) {
+      this.decisionVectors?.upsert(decision.id, embedding);
+    } else {
+      this.decisionVectors?.remove(decision.id);
+    }
   }
 
   getDecision(id: string): Decision | null {
@@ -354,14 +784,41 @@ export class Tier2Storage {
     return result.changes > 0;
   }
 
+  // Full-text search over decision titles and descriptions
+  searchDecisionsLexical(query: string, limit: number = 5): Decision[] {
+    const match = toFtsQuery(query);
+    if (!match) return [];
+
+    const stmt = this.db.prepare(`
+      SELECT d.id
+      FROM decisions_fts
+      JOIN decisions d ON d.rowid = decisions_fts.rowid
+      WHERE decisions_fts MATCH ?
+      ORDER BY bm25(decisions_fts, 2.0, 1.0)
+      LIMIT ?
+    `);
+    const rows = stmt.all(match, limit) as Array<{ id: string }>;
+
+    return rows
+      .map(r => this.getDecision(r.id))
+      .filter((d): d is Decision => d !== null);
+  }
+
   searchDecisions(queryEmbedding: Float32Array, limit: number = 5): Decision[] {
+    const matches = this.decisionVectors?.search(queryEmbedding, limit);
+    if (matches && matches.length >= limit) {
+      return matches
+        .map(m => this.getDecision(m.label))
+        .filter((d): d is Decision => d !== null);
+    }
+
     // Get all decisions with embeddings
     const stmt = this.db.prepare(`
       SELECT id, title, description, files, tags, created_at, embedding, author, status, superseded_by
       FROM decisions
-      WHERE embedding IS NOT NULL
+      WHERE embedding IS NOT NULL AND ${this.decisionModelFilter()}
     `);
-    const rows = stmt.all() as Array<{
+    const rows = stmt.all(...this.modelParams()) as Array<{
       id: string;
       title: string;
       description: string;
@@ -378,12 +835,14 @@ export class Tier2Storage {
       return this.getRecentDecisions(limit);
     }
 
-    // Calculate similarity for each
-    const results = rows.map(row => {
-      const embedding = new Float32Array(row.embedding.buffer, row.embedding.byteOffset, 384);
-      const similarity = this.cosineSimilarity(queryEmbedding, embedding);
-      return { row, similarity };
-    });
+    // Calculate similarity for each, skipping vectors of another dimension
+    const results = rows
+      .map(row => ({
+        row,
+        embedding: new Float32Array(row.embedding.buffer, row.embedding.byteOffset, row.embedding.byteLength / 4)
+      }))
+      .filter(({ embedding }) => embedding.length === queryEmbedding.length)
+      .map(({ row, embedding }) => ({ row, similarity: this.cosineSimilarity(queryEmbedding, embedding) }));
 
     // Sort by similarity and return top results
     results.sort((a, b) => b.similarity - a.similarity);
@@ -401,6 +860,16 @@ export class Tier2Storage {
     }));
   }
 
+  private getAllDecisionEmbeddings(): Array<{ id: string; embedding: Float32Array }> {
+    const stmt = this.db.prepare(`SELECT id, embedding FROM decisions WHERE embedding IS NOT NULL AND ${this.decisionModelFilter()}`);
+    const rows = stmt.all(...this.modelParams()) as Array<{ id: string; embedding: Buffer }>;
+
+    return rows.map(r => ({
+      id: r.id,
+      embedding: new Float32Array(r.embedding.buffer, r.embedding.byteOffset, r.embedding.byteLength / 4)
+    }));
+  }
+
   // Dependency operations
   addDependency(sourceFileId: number, targetFileId: number, relationship: string): void {
     const stmt = this.db.prepare(`
@@ -557,22 +1026,23 @@ export class Tier2Storage {
              s.line_start as lineStart, s.line_end as lineEnd, s.exported
       FROM symbols s
       JOIN files f ON s.file_id = f.id
-      WHERE s.name LIKE ?
+      WHERE (s.name LIKE ? OR s.docstring LIKE ?)
         AND f.path NOT LIKE '%node_modules%'
         AND f.path NOT LIKE '%.git%'
         AND f.path NOT LIKE '%/dist/%'
         AND f.path NOT LIKE '%/build/%'
     `;
 
-    const params: (string | number)[] = [`%${name}%`];
+    const params: (string | number)[] = [`%${name}%`, `%${name}%`];
 
     if (kind) {
       query += ' AND s.kind = ?';
       params.push(kind);
     }
 
-    query += ' ORDER BY CASE WHEN s.name = ? THEN 0 WHEN s.name LIKE ? THEN 1 ELSE 2 END, s.name LIMIT ?';
-    params.push(name, `${name}%`, limit);
+    // Name matches first; symbols found only through their docstring last
+    query += ' ORDER BY CASE WHEN s.name = ? THEN 0 WHEN s.name LIKE ? THEN 1 WHEN s.name LIKE ? THEN 2 ELSE 3 END, s.name LIMIT ?';
+    params.push(name, `${name}%`, `%${name}%`, limit);
 
     const stmt = this.db.prepare(query);
     const rows = stmt.all(...params) as Array<{
@@ -813,24 +1283,28 @@ export class Tier2Storage {
   }
 
   getFileDependents(filePath: string): Array<{ file: string; imports: string[] }> {
-    // Find files that import this file
-    const fileName = filePath.split(/[/\\]/).pop()?.replace(/\.[^.]+$/, '') || '';
-    const importers = this.getFilesImporting(fileName);
+    // Files that import this file, from the resolved dependency edges
+    const file = this.getFile(filePath);
+    if (!file) return [];
+
+    const importers = this.db.prepare(`
+      SELECT f.id as fileId, f.path as filePath
+      FROM dependencies d
+      JOIN files f ON f.id = d.source_file_id
+      WHERE d.target_file_id = ? AND d.relationship = 'imports'
+    `).all(file.id) as Array<{ fileId: number; filePath: string }>;
 
     const deps: Array<{ file: string; imports: string[] }> = [];
 
     for (const importer of importers) {
-      const imports = this.getImportsByFile(importer.fileId);
-      const relevantImport = imports.find(i => {
-        const importedName = i.importedFrom.split(/[/\\]/).pop()?.replace(/\.[^.]+$/, '') || '';
-        return importedName === fileName || i.importedFrom.endsWith(`/${fileName}`) || i.importedFrom.endsWith(`./${fileName}`);
+      // Edges don't record which import statement produced them, so re-resolve for the symbols
+      const symbols = this.getImportsByFile(importer.fileId)
+        .filter(i => this.resolveImportTargets(importer.filePath, i.importedFrom, i.importedSymbols).some(t => t.path === file.path))
+        .flatMap(i => i.importedSymbols);
+      deps.push({
+        file: importer.filePath,
+        imports: [...new Set(symbols)]
       });
-      if (relevantImport) {
-        deps.push({
-          file: importer.filePath,
-          imports: relevantImport.importedSymbols
-        });
-      }
     }
 
     return deps;
@@ -876,16 +1350,18 @@ export class Tier2Storage {
    */
   getFullDependencyGraph(): Map<string, string[]> {
     const stmt = this.db.prepare(`
-      SELECT f.path as filePath, i.imported_from as importedFrom
-      FROM imports i
-      JOIN files f ON i.file_id = f.id
+      SELECT s.path as sourcePath, t.path as targetPath
+      FROM dependencies d
+      JOIN files s ON s.id = d.source_file_id
+      JOIN files t ON t.id = d.target_file_id
+      WHERE d.relationship = 'imports'
     `);
-    const rows = stmt.all() as Array<{ filePath: string; importedFrom: string }>;
+    const rows = stmt.all() as Array<{ sourcePath: string; targetPath: string }>;
 
     const graph = new Map<string, string[]>();
     for (const row of rows) {
-      if (!graph.has(row.filePath)) graph.set(row.filePath, []);
-      graph.get(row.filePath)!.push(row.importedFrom);
+      if (!graph.has(row.sourcePath)) graph.set(row.sourcePath, []);
+      graph.get(row.sourcePath)!.push(row.targetPath);
     }
     return graph;
   }
@@ -917,9 +1393,7 @@ export class Tier2Storage {
 
       const deps = graph.get(node) || [];
       for (const dep of deps) {
-        // Resolve relative imports to file paths
-        const resolved = this.resolveImportPath(node, dep);
-        if (resolved) dfs(resolved, [...path]);
+        dfs(dep, [...path]);
       }
 
       stack.delete(node);
@@ -944,45 +1418,11 @@ export class Tier2Storage {
   }
 
   /**
-   * Resolve a relative import path to an actual file path in the database.
+   * Resolve an import specifier to an actual file path in the database.
    */
   resolveImportPath(fromFile: string, importPath: string): string | null {
-    // Skip external packages (node_modules)
-    if (!importPath.startsWith('.') && !importPath.startsWith('/')) return null;
-
-    const dir = fromFile.split(/[/\\]/).slice(0, -1).join('/');
-
-    // Normalize the import path
-    let resolved = importPath;
-    if (importPath.startsWith('./')) {
-      resolved = dir + '/' + importPath.slice(2);
-    } else if (importPath.startsWith('../')) {
-      const parts = dir.split('/');
-      let impParts = importPath.split('/');
-      while (impParts[0] === '..') {
-        parts.pop();
-        impParts.shift();
-      }
-      resolved = parts.join('/') + '/' + impParts.join('/');
-    }
-
-    // Remove extension if present
-    const baseName = resolved.replace(/\.(ts|tsx|js|jsx|mjs|cjs)$/, '');
-
-    // Try to find a matching file in the database
-    const stmt = this.db.prepare(`
-      SELECT path FROM files
-      WHERE path = ? OR path = ? OR path = ? OR path = ?
-         OR path = ? OR path = ?
-      LIMIT 1
-    `);
-    const result = stmt.get(
-      `${baseName}.ts`, `${baseName}.tsx`,
-      `${baseName}.js`, `${baseName}.jsx`,
-      `${baseName}/index.ts`, `${baseName}/index.js`
-    ) as { path: string } | undefined;
-
-    return result?.path || null;
+    const fileExists = this.db.prepare('SELECT 1 FROM files WHERE path = ?');
+    return this.importResolver.resolve(fromFile, importPath, path => fileExists.get(path) !== undefined);
   }
 
   /**
@@ -993,42 +1433,1120 @@ export class Tier2Storage {
     sourceFilePath: string,
     importPath: string
   ): { id: number; path: string } | null {
-    // Skip external packages
-    if (!importPath.startsWith('.') && !importPath.startsWith('/')) return null;
-
-    const sourceDir = sourceFilePath.split(/[/\\]/).slice(0, -1).join('/');
-
-    // Normalize the import path
-    let resolved = importPath;
-    if (importPath.startsWith('./')) {
-      resolved = sourceDir + '/' + importPath.slice(2);
-    } else if (importPath.startsWith('../')) {
-      const parts = sourceDir.split('/');
-      let impParts = importPath.split('/');
-      while (impParts[0] === '..') {
-        parts.pop();
-        impParts.shift();
+    const resolved = this.resolveImportPath(sourceFilePath, importPath);
+    if (!resolved) return null;
+
+    const file = this.db.prepare('SELECT id, path FROM files WHERE path = ?').get(resolved) as { id: number; path: string } | undefined;
+    return file || null;
+  }
+
+  /**
+   * Resolve an import statement to every file it loads (Python's
+   * `from pkg import a, b` may name several submodules).
+   */
+  resolveImportTargets(
+    sourceFilePath: string,
+    importPath: string,
+    importedSymbols: string[]
+  ): Array<{ id: number; path: string }> {
+    const findFile = this.db.prepare('SELECT id, path FROM files WHERE path = ?');
+    return this.importResolver
+      .resolveTargets(sourceFilePath, importPath, importedSymbols, path => findFile.get(path) !== undefined)
+      .map(path => findFile.get(path) as { id: number; path: string } | undefined)
+      .filter((f): f is { id: number; path: string } => f !== undefined);
+  }
+
+  /**
+   * Re-resolve every stored import into 'imports' dependency edges.
+   * Needed after bulk indexing (an import can name a file indexed later)
+   * and whenever tsconfig, package.json or workspace config changes.
+   */
+  rebuildImportDependencies(options: { reloadConfig?: boolean } = {}): number {
+    if (options.reloadConfig) {
+      this.importResolver.invalidate();
+    }
+
+    const files = this.db.prepare('SELECT id, path FROM files').all() as Array<{ id: number; path: string }>;
+    const idByPath = new Map(files.map(f => [f.path, f.id]));
+    const exists = (path: string) => idByPath.has(path);
+
+    const imports = this.db.prepare(`
+      SELECT i.file_id as fileId, f.path as filePath, i.imported_from as importedFrom,
+             i.imported_symbols as importedSymbols
+      FROM imports i
+      JOIN files f ON f.id = i.file_id
+    `).all() as Array<{ fileId: number; filePath: string; importedFrom: string; importedSymbols: string | null }>;
+
+    const insert = this.db.prepare(`
+      INSERT OR IGNORE INTO dependencies (source_file_id, target_file_id, relationship)
+      VALUES (?, ?, 'imports')
+    `);
+
+    let edges = 0;
+    this.db.transaction(() => {
+      this.db.prepare(`DELETE FROM dependencies WHERE relationship = 'imports'`).run();
+      for (const imp of imports) {
+        const symbols = imp.importedSymbols ? JSON.parse(imp.importedSymbols) as string[] : [];
+        for (const target of this.importResolver.resolveTargets(imp.filePath, imp.importedFrom, symbols, exists)) {
+          const targetId = idByPath.get(target);
+          if (targetId !== undefined && targetId !== imp.fileId) {
+            edges += insert.run(imp.fileId, targetId).changes;
+          }
+        }
+      }
+    })();
+
+    return edges;
+  }
+
+  // Call graph: call sites per file, resolved to the symbols they invoke
+
+  clearCalls(fileId: number): void {
+    this.db.prepare('DELETE FROM calls WHERE file_id = ?').run(fileId);
+  }
+
+  replaceCalls(fileId: number, calls: CallSite[]): void {
+    const insert = this.db.prepare(`
+      INSERT INTO calls (file_id, caller_name, callee_name, qualifier, line)
+      VALUES (?, ?, ?, ?, ?)
+    `);
+
+    this.db.transaction(() => {
+      this.clearCalls(fileId);
+      for (const call of calls) {
+        insert.run(fileId, call.callerName, call.calleeName, call.qualifier ?? null, call.line);
+      }
+    })();
+  }
+
+  hasCalls(): boolean {
+    return this.db.prepare('SELECT 1 FROM calls LIMIT 1').get() !== undefined;
+  }
+
+  /**
+   * Resolve call sites to the symbols they invoke, through same-file
+   * definitions, imports (following re-exports) and Go package siblings,
+   * then rebuild the file-level 'calls' dependency edges.
+   * Without fileIds every call in the project is re-resolved.
+   * Returns the number of resolved call sites.
+   */
+  resolveCalls(fileIds?: number[]): number {
+    const { resolve, fileIds: allFileIds } = this.createSymbolResolver(['function', 'method', 'class']);
+
+    const scope = fileIds ? [...new Set(fileIds)] : allFileIds;
+    const selectCalls = this.db.prepare('SELECT id, callee_name as callee, qualifier FROM calls WHERE file_id = ?');
+    const update = this.db.prepare('UPDATE calls SET target_file_id = ?, target_name = ? WHERE id = ?');
+    const clearEdges = this.db.prepare(`DELETE FROM dependencies WHERE source_file_id = ? AND relationship = 'calls'`);
+    const insertEdges = this.db.prepare(`
+      INSERT OR IGNORE INTO dependencies (source_file_id, target_file_id, relationship)
+      SELECT DISTINCT file_id, target_file_id, 'calls' FROM calls
+      WHERE file_id = ? AND target_file_id IS NOT NULL AND target_file_id != file_id
+    `);
+
+    let resolved = 0;
+    this.db.transaction(() => {
+      for (const fileId of scope) {
+        const calls = selectCalls.all(fileId) as Array<{ id: number; callee: string; qualifier: string | null }>;
+        for (const call of calls) {
+          const target = resolve(fileId, call.callee, call.qualifier);
+          update.run(target?.fileId ?? null, target?.name ?? null, call.id);
+          if (target) resolved++;
+        }
+        clearEdges.run(fileId);
+        insertEdges.run(fileId);
       }
-      resolved = parts.join('/') + '/' + impParts.join('/');
+    })();
+
+    return resolved;
+  }
+
+  /**
+   * Resolve a name used in a file to its definition, through same-file
+   * definitions, imports (following re-exports), Go package siblings and
+   * ns.member / Class.member qualifiers. `kinds` limits which symbols count
+   * as definitions; null accepts every kind, and exported names that aren't
+   * symbols themselves (export const X = ...).
+   */
+  private createSymbolResolver(kinds: SymbolKind[] | null): {
+    resolve: (fileId: number, name: string, qualifier: string | null) => { fileId: number; name: string } | null;
+    fileIds: number[];
+  } {
+    const files = this.db.prepare('SELECT id, path FROM files').all() as Array<{ id: number; path: string }>;
+    const idByPath = new Map(files.map(f => [f.path, f.id]));
+    const pathById = new Map(files.map(f => [f.id, f.path]));
+    const exists = (path: string) => idByPath.has(path);
+
+    // Go packages are directories; their files see each other's names
+    const goFilesByDir = new Map<string, number[]>();
+    for (const f of files) {
+      if (!f.path.endsWith('.go')) continue;
+      const dir = f.path.includes('/') ? f.path.slice(0, f.path.lastIndexOf('/')) : '';
+      if (!goFilesByDir.has(dir)) goFilesByDir.set(dir, []);
+      goFilesByDir.get(dir)!.push(f.id);
     }
 
-    // Remove extension if present
-    resolved = resolved.replace(/\.(ts|tsx|js|jsx|mjs|cjs)$/, '');
+    const symbolStmt = kinds
+      ? this.db.prepare(`SELECT name FROM symbols WHERE file_id = ? AND kind IN (${kinds.map(() => '?').join(', ')})`)
+      : this.db.prepare('SELECT name FROM symbols WHERE file_id = ?');
+    const defaultExportStmt = this.db.prepare('SELECT exported_name as name FROM exports WHERE file_id = ? AND is_default = 1');
+    const exportStmt = this.db.prepare(`SELECT exported_name as name FROM exports WHERE file_id = ? AND is_default = 0`);
+    const symbolCache = new Map<number, string[]>();
+    const importCache = new Map<number, Import[]>();
+    const targetCache = new Map<string, number[]>();
+
+    const symbolsOf = (fileId: number): string[] => {
+      let names = symbolCache.get(fileId);
+      if (!names) {
+        names = (symbolStmt.all(fileId, ...(kinds ?? [])) as Array<{ name: string }>).map(r => r.name);
+        if (!kinds) {
+          // Re-exported names are defined elsewhere and followed through the import
+          const imported = new Set(importsOf(fileId).flatMap(imp => imp.importedSymbols));
+          const exported = (exportStmt.all(fileId) as Array<{ name: string }>).map(r => r.name);
+          names = [...new Set([...names, ...exported.filter(name => /^[\w$]+$/.test(name) && !imported.has(name))])];
+        }
+        symbolCache.set(fileId, names);
+      }
+      return names;
+    };
 
-    // Try exact matches with common extensions
-    const stmt = this.db.prepare(`
-      SELECT id, path FROM files
-      WHERE path = ? OR path = ? OR path = ? OR path = ?
-         OR path = ? OR path = ?
+    const importsOf = (fileId: number): Import[] => {
+      let imports = importCache.get(fileId);
+      if (!imports) {
+        imports = this.getImportsByFile(fileId);
+        importCache.set(fileId, imports);
+      }
+      return imports;
+    };
+
+    const targetsOf = (imp: Import): number[] => {
+      const key = `${imp.filePath}\0${imp.importedFrom}\0${imp.importedSymbols.join(',')}`;
+      let targets = targetCache.get(key);
+      if (!targets) {
+        targets = this.importResolver
+          .resolveTargets(imp.filePath, imp.importedFrom, imp.importedSymbols, exists)
+          .map(path => idByPath.get(path))
+          .filter((id): id is number => id !== undefined && id !== imp.fileId);
+        targetCache.set(key, targets);
+      }
+      return targets;
+    };
+
+    // A symbol defined in the file; regex-parsed methods are stored as Class.method
+    const defined = (fileId: number, name: string): string | null =>
+      symbolsOf(fileId).find(s => s === name) ?? symbolsOf(fileId).find(s => s.endsWith(`.${name}`)) ?? null;
+
+    const findDefinition = (fileId: number, name: string, hops: number): { fileId: number; name: string } | null => {
+      const symbol = defined(fileId, name);
+      if (symbol) return { fileId, name: symbol };
+      if (hops === 0) return null;
+
+      // Follow imports and re-exports that could bring the name into this module
+      for (const imp of importsOf(fileId)) {
+        if (!imp.importedSymbols.includes(name) && !imp.importedSymbols.includes('*')) continue;
+        for (const target of targetsOf(imp)) {
+          const found = findDefinition(target, name, hops - 1);
+          if (found) return found;
+        }
+      }
+      return null;
+    };
+
+    const findInTargets = (targets: number[], name: string): { fileId: number; name: string } | null => {
+      for (const target of targets) {
+        const found = findDefinition(target, name, MAX_REEXPORT_HOPS);
+        if (found) return found;
+      }
+      return null;
+    };
+
+    const resolve = (fileId: number, name: string, qualifier: string | null): { fileId: number; name: string } | null => {
+      const filePath = pathById.get(fileId) ?? '';
+
+      if (qualifier === null || SELF_QUALIFIERS.has(qualifier)) {
+        const local = defined(fileId, name);
+        if (local) return { fileId, name: local };
+        if (qualifier !== null) return null;
+
+        for (const imp of importsOf(fileId)) {
+          // `from mod import *` brings every name in scope
+          const starImport = imp.importedSymbols.includes('*') && imp.isNamespace;
+          if (!imp.importedSymbols.includes(name) && !starImport) continue;
+          // A default import binds whatever name the target exported as default
+          let targetName = name;
+          if (imp.isDefault && imp.importedSymbols[0] === name) {
+            const targets = targetsOf(imp);
+            const exported = targets.length > 0 ? defaultExportStmt.get(targets[0]) as { name: string } | undefined : undefined;
+            if (exported && exported.name !== 'default') targetName = exported.name;
+          }
+          const found = findInTargets(targetsOf(imp), targetName);
+          if (found) return found;
+        }
+
+        // Go: functions of the same package live in sibling files
+        if (filePath.endsWith('.go')) {
+          const dir = filePath.includes('/') ? filePath.slice(0, filePath.lastIndexOf('/')) : '';
+          for (const id of goFilesByDir.get(dir) ?? []) {
+            if (id === fileId) continue;
+            const symbol = defined(id, name);
+            if (symbol) return { fileId: id, name: symbol };
+          }
+        }
+        return null;
+      }
+
+      if (qualifier === '<expr>') return null;
+
+      // pkg.Func(), module.func(), ns.func(), ImportedClass.staticMethod()
+      for (const imp of importsOf(fileId)) {
+        if (!imp.importedSymbols.includes(qualifier) && imp.importedFrom !== qualifier) continue;
+
+        const found = findInTargets(targetsOf(imp), name);
+        if (found) return found;
+      }
+
+      // LocalClass.staticMethod()
+      if (defined(fileId, qualifier)) {
+        const local = defined(fileId, name);
+        if (local) return { fileId, name: local };
+      }
+      return null;
+    };
+
+    return { resolve, fileIds: files.map(f => f.id) };
+  }
+
+  // Find-all-references: identifier uses per file, resolved to the symbols they name
+
+  clearReferences(fileId: number): void {
+    this.db.prepare('DELETE FROM symbol_references WHERE file_id = ?').run(fileId);
+  }
+
+  replaceReferences(fileId: number, references: ReferenceSite[]): void {
+    const insert = this.db.prepare(`
+      INSERT INTO symbol_references (file_id, name, qualifier, line, col, snippet, container_name)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    this.db.transaction(() => {
+      this.clearReferences(fileId);
+      for (const ref of references) {
+        insert.run(fileId, ref.name, ref.qualifier ?? null, ref.line, ref.column, ref.snippet, ref.containerName);
+      }
+    })();
+  }
+
+  hasReferences(): boolean {
+    return this.db.prepare('SELECT 1 FROM symbol_references LIMIT 1').get() !== undefined;
+  }
+
+  /**
+   * Resolve references to the definitions they name, the same way call sites
+   * are resolved but for symbols of every kind. Without fileIds every
+   * reference in the project is re-resolved. Returns the number resolved.
+   */
+  resolveReferences(fileIds?: number[]): number {
+    const { resolve, fileIds: allFileIds } = this.createSymbolResolver(null);
+    const scope = fileIds ? [...new Set(fileIds)] : allFileIds;
+    const select = this.db.prepare('SELECT id, name, qualifier FROM symbol_references WHERE file_id = ?');
+    const update = this.db.prepare('UPDATE symbol_references SET target_file_id = ?, target_name = ? WHERE id = ?');
+
+    let resolved = 0;
+    this.db.transaction(() => {
+      for (const fileId of scope) {
+        const references = select.all(fileId) as Array<{ id: number; name: string; qualifier: string | null }>;
+        for (const ref of references) {
+          const target = resolve(fileId, ref.name, ref.qualifier);
+          update.run(target?.fileId ?? null, target?.name ?? null, ref.id);
+          if (target) resolved++;
+        }
+      }
+    })();
+
+    return resolved;
+  }
+
+  /**
+   * Every use of a symbol. With a file only uses resolved to the definition
+   * in that file are returned; without one, unresolved uses of the same name
+   * are included with definitionFile null.
+   */
+  getReferences(symbol: string, filePath?: string, limit: number = 200): SymbolReference[] {
+    const target = filePath ? this.getFile(filePath) : null;
+    if (filePath && !target) return [];
+
+    type Row = {
+      file: string;
+      line: number;
+      col: number;
+      snippet: string;
+      name: string;
+      qualifier: string | null;
+      container: string | null;
+      symbol: string | null;
+      definitionFile: string | null;
+    };
+    const toReference = (r: Row): SymbolReference => ({
+      file: r.file,
+      line: r.line,
+      column: r.col,
+      snippet: r.snippet,
+      name: r.qualifier ? `${r.qualifier}.${r.name}` : r.name,
+      container: r.container,
+      symbol: r.symbol,
+      definitionFile: r.definitionFile
+    });
+
+    const resolved = this.db.prepare(`
+      SELECT f.path as file, r.line, r.col, r.snippet, r.name, r.qualifier, r.container_name as container,
+             r.target_name as symbol, t.path as definitionFile
+      FROM symbol_references r
+      JOIN files f ON f.id = r.file_id
+      JOIN files t ON t.id = r.target_file_id
+      WHERE (r.target_name = ? OR r.target_name LIKE ? ESCAPE '\\')
+        AND (? IS NULL OR r.target_file_id = ?)
+      ORDER BY f.path, r.line, r.col
+      LIMIT ?
+    `).all(symbol, `%.${escapeLike(symbol)}`, target?.id ?? null, target?.id ?? null, limit) as Row[];
+
+    if (target || resolved.length >= limit) return resolved.map(toReference);
+
+    // Members of values the resolver can't type, locals that shadow nothing indexed
+    const unresolved = this.db.prepare(`
+      SELECT f.path as file, r.line, r.col, r.snippet, r.name, r.qualifier, r.container_name as container,
+             NULL as symbol, NULL as definitionFile
+      FROM symbol_references r
+      JOIN files f ON f.id = r.file_id
+      WHERE r.target_file_id IS NULL AND r.name = ?
+      ORDER BY f.path, r.line, r.col
+      LIMIT ?
+    `).all(symbol.split('.').pop() ?? symbol, limit - resolved.length) as Row[];
+
+    return [...resolved, ...unresolved].map(toReference);
+  }
+
+  /**
+   * Call sites that invoke a symbol. With a file the symbol is matched exactly;
+   * without one, unresolved calls by the same name are included with calleeFile null.
+   */
+  getCallers(symbol: string, filePath?: string, limit: number = 100): CallEdge[] {
+    const target = filePath ? this.getFile(filePath) : null;
+    if (filePath && !target) return [];
+
+    const resolved = this.db.prepare(`
+      SELECT c.caller_name as caller, f.path as callerFile, c.target_name as callee, t.path as calleeFile, c.line
+      FROM calls c
+      JOIN files f ON f.id = c.file_id
+      JOIN files t ON t.id = c.target_file_id
+      WHERE (c.target_name = ? OR c.target_name LIKE ? ESCAPE '\\')
+        AND (? IS NULL OR c.target_file_id = ?)
+      ORDER BY f.path, c.line
+      LIMIT ?
+    `).all(symbol, `%.${escapeLike(symbol)}`, target?.id ?? null, target?.id ?? null, limit) as CallEdge[];
+
+    if (target || resolved.length >= limit) return resolved;
+
+    // Receivers the resolver can't type (obj.save()) - possible callers by name
+    const unresolved = this.db.prepare(`
+      SELECT c.caller_name as caller, f.path as callerFile, c.callee_name as callee, NULL as calleeFile, c.line
+      FROM calls c
+      JOIN files f ON f.id = c.file_id
+      WHERE c.target_file_id IS NULL AND c.callee_name = ?
+      ORDER BY f.path, c.line
+      LIMIT ?
+    `).all(symbol.split('.').pop() ?? symbol, limit - resolved.length) as CallEdge[];
+
+    return [...resolved, ...unresolved];
+  }
+
+  /**
+   * Calls made from inside a function or method. Unresolved callees keep
+   * their receiver (`db.query`) and have calleeFile null.
+   */
+  getCallees(symbol: string, filePath?: string, limit: number = 100): CallEdge[] {
+    const rows = this.db.prepare(`
+      SELECT c.caller_name as caller, f.path as callerFile, c.callee_name as calleeName, c.qualifier,
+             c.target_name as targetName, t.path as calleeFile, c.line
+      FROM calls c
+      JOIN files f ON f.id = c.file_id
+      LEFT JOIN files t ON t.id = c.target_file_id
+      WHERE (c.caller_name = ? OR c.caller_name LIKE ? ESCAPE '\\')
+        AND (? IS NULL OR f.path = ?)
+      ORDER BY f.path, c.line
+      LIMIT ?
+    `).all(symbol, `%.${escapeLike(symbol)}`, filePath ?? null, filePath ?? null, limit) as Array<{
+      caller: string;
+      callerFile: string;
+      calleeName: string;
+      qualifier: string | null;
+      targetName: string | null;
+      calleeFile: string | null;
+      line: number;
+    }>;
+
+    return rows.map(r => ({
+      caller: r.caller,
+      callerFile: r.callerFile,
+      callee: r.targetName ?? (r.qualifier ? `${r.qualifier}.${r.calleeName}` : r.calleeName),
+      calleeFile: r.calleeFile,
+      line: r.line
+    }));
+  }
+
+  /**
+   * Walk resolved call edges upwards from a symbol: everything that calls it,
+   * directly or through up to maxDepth intermediate functions.
+   * Module-level call sites are reported with symbol null and not expanded.
+   */
+  getTransitiveCallers(
+    symbol: string,
+    filePath: string,
+    maxDepth: number = 3
+  ): Array<{ symbol: string | null; file: string; depth: number; line: number }> {
+    const visited = new Map<string, { symbol: string | null; file: string; depth: number; line: number }>();
+    const queue: Array<{ symbol: string; file: string; depth: number }> = [{ symbol, file: filePath, depth: 0 }];
+    const start = `${filePath}#${symbol}`;
+
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      if (current.depth >= maxDepth) continue;
+
+      for (const edge of this.getCallers(current.symbol, current.file)) {
+        const key = `${edge.callerFile}#${edge.caller ?? `<module>:${edge.line}`}`;
+        if (key === start || visited.has(key)) continue;
+
+        visited.set(key, { symbol: edge.caller, file: edge.callerFile, depth: current.depth + 1, line: edge.line });
+        if (edge.caller) {
+          queue.push({ symbol: edge.caller, file: edge.callerFile, depth: current.depth + 1 });
+        }
+      }
+    }
+
+    return Array.from(visited.values()).sort((a, b) => a.depth - b.depth);
+  }
+
+  // Type hierarchy: extends/implements clauses per file, resolved to the types they name
+
+  clearTypeRelations(fileId: number): void {
+    this.db.prepare('DELETE FROM type_relations WHERE file_id = ?').run(fileId);
+    this.db.prepare('DELETE FROM method_sets WHERE file_id = ?').run(fileId);
+  }
+
+  replaceTypeRelations(fileId: number, relations: TypeRelationSite[], methodSets: MethodSet[]): void {
+    const insertRelation = this.db.prepare(`
+      INSERT INTO type_relations (file_id, type_name, relation, base_name, qualifier, line)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `);
+    const insertMethodSet = this.db.prepare(`
+      INSERT INTO method_sets (file_id, type_name, kind, methods, embedded, line)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `);
+
+    this.db.transaction(() => {
+      this.clearTypeRelations(fileId);
+      for (const relation of relations) {
+        insertRelation.run(fileId, relation.typeName, relation.relation, relation.baseName, relation.qualifier ?? null, relation.line);
+      }
+      for (const set of methodSets) {
+        insertMethodSet.run(fileId, set.typeName, set.kind, JSON.stringify(set.methods), JSON.stringify(set.embedded), set.line);
+      }
+    })();
+  }
+
+  // Set by a migration when files indexed earlier lack something only a parse provides
+  isParseBackfillPending(): boolean {
+    return this.db.prepare(`SELECT 1 FROM refresh_state WHERE key = 'parse_backfill'`).get() !== undefined;
+  }
+
+  finishParseBackfill(): void {
+    this.db.prepare(`DELETE FROM refresh_state WHERE key = 'parse_backfill'`).run();
+  }
+
+  /**
+   * Resolve supertype clauses to the classes and interfaces they name, then
+   * infer which Go types satisfy which interfaces. An `extends` that turns out
+   * to name an interface (C# base lists) becomes `implements`, and back.
+   * Without fileIds every clause in the project is re-resolved; with them only
+   * the Go packages holding those files are inferred again.
+   * Returns the number of resolved clauses.
+   */
+  resolveTypeRelations(fileIds?: number[]): number {
+    const { resolve, fileIds: allFileIds } = this.createSymbolResolver(['class', 'interface', 'type']);
+    const scope = fileIds ? [...new Set(fileIds)] : allFileIds;
+    const select = this.db.prepare(`
+      SELECT id, type_name as typeName, relation, base_name as baseName, qualifier
+      FROM type_relations WHERE file_id = ? AND inferred = 0
+    `);
+    const kindOf = this.db.prepare('SELECT kind FROM symbols WHERE file_id = ? AND name = ? LIMIT 1');
+    const update = this.db.prepare('UPDATE type_relations SET target_file_id = ?, target_name = ?, relation = ? WHERE id = ?');
+
+    let resolved = 0;
+    this.db.transaction(() => {
+      for (const fileId of scope) {
+        const relations = select.all(fileId) as Array<{
+          id: number;
+          typeName: string;
+          relation: TypeRelationKind;
+          baseName: string;
+          qualifier: string | null;
+        }>;
+        for (const rel of relations) {
+          const target = resolve(fileId, rel.baseName, rel.qualifier);
+          let relation = rel.relation;
+          if (target && relation !== 'embeds') {
+            const isInterface = (id: number, name: string) =>
+              (kindOf.get(id, name) as { kind: SymbolKind } | undefined)?.kind === 'interface';
+            const declaredOnInterface = isInterface(fileId, rel.typeName);
+            if (!declaredOnInterface) {
+              relation = isInterface(target.fileId, target.name) ? 'implements' : 'extends';
+            }
+            resolved++;
+          }
+          update.run(target?.fileId ?? null, target?.name ?? null, relation, rel.id);
+        }
+      }
+      if (!fileIds) {
+        this.inferGoImplementations();
+        return;
+      }
+      const packages = new Set<string>();
+      for (const fileId of scope) {
+        const path = this.getFileById(fileId)?.path;
+        if (path?.endsWith('.go')) packages.add(goPackage(path));
+      }
+      if (packages.size > 0) this.inferGoImplementations(packages);
+    })();
+
+    return resolved;
+  }
+
+  /**
+   * Go: a type implements every interface whose methods it has, counting the
+   * methods of types it embeds. Unexported methods only match within a package.
+   * Replaces the inferred rows touching the given packages (and packages whose
+   * types embed theirs), or all of them; returns how many were found.
+   */
+  private inferGoImplementations(changed?: Set<string>): number {
+    const rows = this.db.prepare(`
+      SELECT m.file_id as fileId, f.path, m.type_name as typeName, m.kind, m.methods, m.embedded, m.line
+      FROM method_sets m JOIN files f ON f.id = m.file_id
+    `).all() as Array<{
+      fileId: number;
+      path: string;
+      typeName: string;
+      kind: MethodSet['kind'];
+      methods: string;
+      embedded: string;
+      line: number | null;
+    }>;
+
+    interface GoType {
+      name: string;
+      pkg: string;
+      kind: MethodSet['kind'];
+      fileId: number | null;      // Where the type is declared
+      line: number | null;
+      methods: Set<string>;
+      embedded: string[];
+    }
+
+    // Methods of a type may be spread over the files of its package
+    const packages = new Map<string, Map<string, GoType>>();
+    for (const row of rows) {
+      const pkg = goPackage(row.path);
+      let types = packages.get(pkg);
+      if (!types) {
+        types = new Map();
+        packages.set(pkg, types);
+      }
+      let type = types.get(row.typeName);
+      if (!type) {
+        type = { name: row.typeName, pkg, kind: row.kind, fileId: null, line: null, methods: new Set(), embedded: [] };
+        types.set(row.typeName, type);
+      }
+      for (const method of JSON.parse(row.methods) as string[]) type.methods.add(method);
+      type.embedded.push(...(JSON.parse(row.embedded) as string[]));
+      if (row.line !== null) {
+        type.kind = row.kind;
+        type.fileId = row.fileId;
+        type.line = row.line;
+      }
+    }
+
+    // Embedded types are looked up in the same package first
+    const find = (pkg: string, name: string): GoType | undefined => {
+      const local = packages.get(pkg)?.get(name);
+      if (local) return local;
+      for (const types of packages.values()) {
+        const found = types.get(name);
+        if (found) return found;
+      }
+      return undefined;
+    };
+    const methodsOf = (type: GoType, seen: Set<GoType> = new Set()): Set<string> => {
+      if (seen.has(type)) return new Set();
+      seen.add(type);
+      const methods = new Set(type.methods);
+      for (const name of type.embedded) {
+        const embedded = find(type.pkg, name);
+        if (embedded) for (const method of methodsOf(embedded, seen)) methods.add(method);
+      }
+      return methods;
+    };
+
+    const all = [...packages.values()].flatMap(types => [...types.values()]).filter(t => t.fileId !== null);
+
+    // Embedding a type from a changed package changes the embedder's methods too
+    const affected = changed ? new Set(changed) : null;
+    if (affected) {
+      const embedsAffected = (type: GoType) => type.embedded.some(name => {
+        const embedded = find(type.pkg, name);
+        return embedded !== undefined && affected.has(embedded.pkg);
+      });
+      let grown = true;
+      while (grown) {
+        grown = false;
+        for (const type of all) {
+          if (affected.has(type.pkg) || !embedsAffected(type)) continue;
+          affected.add(type.pkg);
+          grown = true;
+        }
+      }
+    }
+    const interfaces = all.filter(t => t.kind === 'interface').map(t => ({ type: t, methods: [...methodsOf(t)] }));
+    const byMethod = new Map<string, Array<{ type: GoType; methods: Set<string> }>>();
+    for (const type of all.filter(t => t.kind === 'type')) {
+      const entry = { type, methods: methodsOf(type) };
+      for (const method of entry.methods) {
+        const list = byMethod.get(method) ?? [];
+        list.push(entry);
+        byMethod.set(method, list);
+      }
+    }
+
+    if (affected) {
+      const stale = this.db.prepare(`
+        SELECT r.id, f.path, t.path as targetPath
+        FROM type_relations r JOIN files f ON f.id = r.file_id LEFT JOIN files t ON t.id = r.target_file_id
+        WHERE r.inferred = 1
+      `).all() as Array<{ id: number; path: string; targetPath: string | null }>;
+      const remove = this.db.prepare('DELETE FROM type_relations WHERE id = ?');
+      for (const row of stale) {
+        if (row.targetPath === null || affected.has(goPackage(row.path)) || affected.has(goPackage(row.targetPath))) {
+          remove.run(row.id);
+        }
+      }
+    } else {
+      this.db.prepare('DELETE FROM type_relations WHERE inferred = 1').run();
+    }
+    const insert = this.db.prepare(`
+      INSERT INTO type_relations (file_id, type_name, relation, base_name, line, inferred, target_file_id, target_name)
+      VALUES (?, ?, 'implements', ?, ?, 1, ?, ?)
+    `);
+
+    let inferred = 0;
+    for (const iface of interfaces) {
+      const [first] = iface.methods;
+      if (first === undefined) continue;
+      const exportedOnly = iface.methods.every(m => /^[A-Z]/.test(m));
+      for (const candidate of byMethod.get(first) ?? []) {
+        if (!exportedOnly && candidate.type.pkg !== iface.type.pkg) continue;
+        if (affected && !affected.has(candidate.type.pkg) && !affected.has(iface.type.pkg)) continue;
+        if (!iface.methods.every(m => candidate.methods.has(m))) continue;
+        insert.run(candidate.type.fileId, candidate.type.name, iface.type.name, candidate.type.line, iface.type.fileId, iface.type.name);
+        inferred++;
+      }
+    }
+    return inferred;
+  }
+
+  /**
+   * Supertypes and subtypes of a class or interface, up to maxDepth levels
+   * each way. Without a file the first definition by that name is used; a
+   * name that isn't indexed (a library base class) still finds its subtypes.
+   * Bases the resolver couldn't follow (same-package Java, C# namespaces)
+   * count as subtypes of the only type by that name, if there is just one.
+   * Returns null when nothing is known about the name.
+   */
+  getTypeHierarchy(symbol: string, filePath?: string, maxDepth: number = 5): TypeHierarchy | null {
+    const definition = this.db.prepare(`
+      SELECT s.kind, s.line_start as line, f.id as fileId, f.path
+      FROM symbols s JOIN files f ON f.id = s.file_id
+      WHERE s.name = ? AND s.kind IN ('class', 'interface', 'type') AND (? IS NULL OR f.path = ?)
+      ORDER BY s.exported DESC, f.path
       LIMIT 1
+    `).get(symbol, filePath ?? null, filePath ?? null) as { kind: SymbolKind; line: number; fileId: number; path: string } | undefined;
+    if (filePath && !definition) return null;
+
+    const lineOf = this.db.prepare('SELECT line_start as line FROM symbols WHERE file_id = ? AND name = ? LIMIT 1');
+    const supertypes = this.db.prepare(`
+      SELECT r.relation, r.base_name as baseName, r.qualifier, r.inferred, r.target_file_id as targetFileId,
+             r.target_name as targetName, t.path as targetPath
+      FROM type_relations r LEFT JOIN files t ON t.id = r.target_file_id
+      WHERE r.type_name = ? AND (? IS NULL OR r.file_id = ?)
+      ORDER BY r.id
+    `);
+    const subtypes = this.db.prepare(`
+      SELECT r.type_name as typeName, r.relation, r.line, r.inferred, r.file_id as fileId, f.path
+      FROM type_relations r JOIN files f ON f.id = r.file_id
+      WHERE (r.target_file_id = ? AND r.target_name = ?)
+         OR (r.target_file_id IS NULL AND r.base_name = ? AND (
+           SELECT COUNT(*) FROM symbols s WHERE s.name = ? AND s.kind IN ('class', 'interface', 'type')
+         ) <= 1)
+      ORDER BY f.path, r.line
+    `);
+
+    type Node = { fileId: number | null; name: string; depth: number };
+    const root: Node = { fileId: definition?.fileId ?? null, name: symbol, depth: 0 };
+    const rootKey = `${root.fileId}#${symbol}`;
+
+    const ancestors: TypeHierarchyEntry[] = [];
+    const seenUp = new Set([rootKey]);
+    const up: Node[] = [root];
+    while (up.length > 0) {
+      const current = up.shift()!;
+      if (current.depth >= maxDepth) continue;
+      const rows = supertypes.all(current.name, current.fileId, current.fileId) as Array<{
+        relation: TypeRelationKind;
+        baseName: string;
+        qualifier: string | null;
+        inferred: number;
+        targetFileId: number | null;
+        targetName: string | null;
+        targetPath: string | null;
+      }>;
+      for (const row of rows) {
+        const name = row.targetName ?? (row.qualifier ? `${row.qualifier}.${row.baseName}` : row.baseName);
+        const key = `${row.targetFileId}#${name}`;
+        if (seenUp.has(key)) continue;
+        seenUp.add(key);
+        const line = row.targetFileId !== null
+          ? (lineOf.get(row.targetFileId, name) as { line: number } | undefined)?.line ?? null
+          : null;
+        ancestors.push({
+          name,
+          file: row.targetPath,
+          line,
+          relation: row.relation,
+          via: current.name,
+          depth: current.depth + 1,
+          inferred: row.inferred === 1
+        });
+        if (row.targetFileId !== null) up.push({ fileId: row.targetFileId, name, depth: current.depth + 1 });
+      }
+    }
+
+    const descendants: TypeHierarchyEntry[] = [];
+    const seenDown = new Set([rootKey]);
+    const down: Node[] = [root];
+    while (down.length > 0) {
+      const current = down.shift()!;
+      if (current.depth >= maxDepth) continue;
+      const rows = subtypes.all(current.fileId, current.name, current.name, current.name) as Array<{
+        typeName: string;
+        relation: TypeRelationKind;
+        line: number;
+        inferred: number;
+        fileId: number;
+        path: string;
+      }>;
+      for (const row of rows) {
+        const key = `${row.fileId}#${row.typeName}`;
+        if (seenDown.has(key)) continue;
+        seenDown.add(key);
+        descendants.push({
+          name: row.typeName,
+          file: row.path,
+          line: row.line,
+          relation: row.relation,
+          via: current.name,
+          depth: current.depth + 1,
+          inferred: row.inferred === 1
+        });
+        down.push({ fileId: row.fileId, name: row.typeName, depth: current.depth + 1 });
+      }
+    }
+
+    if (!definition && ancestors.length === 0 && descendants.length === 0) return null;
+    return {
+      symbol,
+      file: definition?.path ?? null,
+      line: definition?.line ?? null,
+      kind: definition?.kind ?? null,
+      ancestors,
+      descendants
+    };
+  }
+
+  // Database schema: DDL statements and Prisma models per file, table names used in code
+
+  clearSchema(fileId: number): void {
+    this.db.prepare('DELETE FROM schema_operations WHERE file_id = ?').run(fileId);
+    this.db.prepare('DELETE FROM table_references WHERE file_id = ?').run(fileId);
+  }
+
+  replaceSchema(fileId: number, operations: SchemaOperation[], tableReferences: TableReferenceSite[]): void {
+    const insertOperation = this.db.prepare(`
+      INSERT INTO schema_operations (file_id, seq, kind, table_name, line, operation)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `);
+    const insertReference = this.db.prepare(`
+      INSERT INTO table_references (file_id, table_name, via, line, snippet)
+      VALUES (?, ?, ?, ?, ?)
+    `);
+
+    this.db.transaction(() => {
+      this.clearSchema(fileId);
+      operations.forEach((op, seq) => {
+        insertOperation.run(fileId, seq, op.kind, op.table, op.line, JSON.stringify(op));
+      });
+      for (const ref of tableReferences) {
+        insertReference.run(fileId, ref.table, ref.via, ref.line, ref.snippet);
+      }
+    })();
+  }
+
+  // Every schema operation replayed in migration order
+  private loadSchemaModel(): SchemaModel {
+    const rows = this.db.prepare(`
+      SELECT f.path, o.operation FROM schema_operations o JOIN files f ON f.id = o.file_id
+      ORDER BY o.file_id, o.seq
+    `).all() as Array<{ path: string; operation: string }>;
+
+    const entries: SchemaEntry[] = rows.map(row => ({ file: row.path, operation: JSON.parse(row.operation) as SchemaOperation }));
+    // Stable sort: statements keep their order within a file
+    entries.sort((a, b) => compareSchemaFiles(a.file, b.file));
+    return buildSchemaModel(entries);
+  }
+
+  // A table by name, or by the Prisma model that maps to it
+  private findTable(model: SchemaModel, name: string): Omit<TableSchema, 'usedBy'> | null {
+    const key = name.toLowerCase();
+    return model.tables.get(key)
+      ?? [...model.tables.values()].find(table => table.model?.toLowerCase() === key)
+      ?? null;
+  }
+
+  /**
+   * A table's columns, indexes and relations as its migrations leave it, the
+   * steps that got it there, and the source lines that use it. Source
+   * references match the table name or its Prisma model (prisma.order).
+   */
+  getTableSchema(name: string, usageLimit: number = 100): TableSchema | null {
+    const table = this.findTable(this.loadSchemaModel(), name);
+    if (!table) return null;
+
+    const usedBy = this.db.prepare(`
+      SELECT f.path as file, r.line, r.via, r.snippet
+      FROM table_references r JOIN files f ON f.id = r.file_id
+      WHERE r.table_name = ? OR r.table_name = ?
+      ORDER BY f.path, r.line
+      LIMIT ?
+    `).all(table.name, table.model ?? table.name, usageLimit) as TableSchema['usedBy'];
+
+    return { ...table, usedBy };
+  }
+
+  // Where a column was added, altered, renamed or dropped, in migration order
+  getColumnHistory(column: string, table?: string): ColumnChange[] {
+    const model = this.loadSchemaModel();
+    const tableName = table ? (this.findTable(model, table)?.name ?? table) : null;
+    return model.columnChanges.filter(change =>
+      change.column.toLowerCase() === column.toLowerCase() &&
+      (!tableName || change.table.toLowerCase() === tableName.toLowerCase())
+    );
+  }
+
+  listTables(): Array<{ name: string; model: string | null; columns: number; definedIn: SchemaLocation }> {
+    return [...this.loadSchemaModel().tables.values()]
+      .map(table => ({ name: table.name, model: table.model, columns: table.columns.length, definedIn: table.definedIn }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  // The tables a source file uses, with the lines that use them
+  getTablesUsedBy(filePath: string): Array<{ name: string; model: string | null; definedIn: SchemaLocation; lines: number[] }> {
+    const rows = this.db.prepare(`
+      SELECT r.table_name as tableName, r.line
+      FROM table_references r JOIN files f ON f.id = r.file_id
+      WHERE f.path = ?
+      ORDER BY r.line
+    `).all(filePath) as Array<{ tableName: string; line: number }>;
+    if (rows.length === 0) return [];
+
+    const model = this.loadSchemaModel();
+    const used = new Map<string, { name: string; model: string | null; definedIn: SchemaLocation; lines: number[] }>();
+    for (const row of rows) {
+      const table = this.findTable(model, row.tableName);
+      if (!table) continue;
+      const entry = used.get(table.name) ?? { name: table.name, model: table.model, definedIn: table.definedIn, lines: [] };
+      if (!entry.lines.includes(row.line)) entry.lines.push(row.line);
+      used.set(table.name, entry);
+    }
+    return [...used.values()];
+  }
+
+  // API routes: HTTP route definitions per file, and routers mounted under prefixes
+
+  clearRoutes(fileId: number): void {
+    this.db.prepare('DELETE FROM api_routes WHERE file_id = ?').run(fileId);
+    this.db.prepare('DELETE FROM route_mounts WHERE file_id = ?').run(fileId);
+  }
+
+  replaceRoutes(fileId: number, routes: RouteSite[], mounts: RouteMount[]): void {
+    const insertRoute = this.db.prepare(`
+      INSERT INTO api_routes (file_id, method, path, handler, receiver, root, framework, line)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const insertMount = this.db.prepare(`
+      INSERT INTO route_mounts (file_id, receiver, root, prefix, target, source, imported, line)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    this.db.transaction(() => {
+      this.clearRoutes(fileId);
+      for (const route of routes) {
+        insertRoute.run(fileId, route.method, route.path, route.handler, route.receiver, route.root ? 1 : 0, route.framework, route.line);
+      }
+      for (const mount of mounts) {
+        insertMount.run(fileId, mount.receiver, mount.root ? 1 : 0, mount.prefix, mount.target, mount.source, mount.imported, mount.line);
+      }
+    })();
+  }
+
+  /**
+   * Every HTTP route at the path it is served on. A router's routes get the
+   * prefix of each mount above it - app.use('/api', users) in the same file or
+   * in one that imports the router - up to an app. Routes on a router never
+   * seen mounted keep their declared path and are marked incomplete.
+   */
+  getRoutes(): ApiRoute[] {
+    const routes = this.db.prepare(`
+      SELECT r.file_id as fileId, f.path as file, r.method, r.path, r.handler, r.receiver, r.root, r.framework, r.line
+      FROM api_routes r JOIN files f ON f.id = r.file_id
+      ORDER BY f.path, r.line
+    `).all() as Array<{
+      fileId: number; file: string; method: HttpMethod; path: string; handler: string | null;
+      receiver: string | null; root: number; framework: RouteFramework; line: number;
+    }>;
+    if (routes.length === 0) return [];
+
+    const mounts = this.db.prepare(`
+      SELECT m.file_id as fileId, f.path as file, m.receiver, m.root, m.prefix, m.target, m.source, m.imported
+      FROM route_mounts m JOIN files f ON f.id = m.file_id
+      ORDER BY f.path, m.line
+    `).all() as Array<{
+      fileId: number; file: string; receiver: string; root: number; prefix: string;
+      target: string; source: string | null; imported: string | null;
+    }>;
+
+    // Where each router is mounted: by file and receiver, or * for the routers of an imported module
+    const mountedAt = new Map<string, (typeof mounts)[number]>();
+    for (const mount of mounts) {
+      const keys = mount.source === null
+        ? [`${mount.fileId}\0${mount.target}`]
+        : this.resolveImportTargets(mount.file, mount.source, mount.imported ? [mount.imported] : []).map(t => `${t.id}\0*`);
+      for (const key of keys) {
+        if (!mountedAt.has(key)) mountedAt.set(key, mount);
+      }
+    }
+
+    const prefixOf = (fileId: number, receiver: string | null, depth: number): { prefix: string; complete: boolean } => {
+      const mount = mountedAt.get(`${fileId}\0${receiver}`) ?? mountedAt.get(`${fileId}\0*`);
+      if (!mount || depth >= MAX_MOUNT_DEPTH) return { prefix: '', complete: false };
+      const parent = mount.root === 1 ? { prefix: '', complete: true } : prefixOf(mount.fileId, mount.receiver, depth + 1);
+      return { prefix: joinRoutePath(parent.prefix, mount.prefix), complete: parent.complete };
+    };
+
+    return routes.map(route => {
+      const mounted = route.root === 1 ? { prefix: '', complete: true } : prefixOf(route.fileId, route.receiver, 0);
+      return {
+        method: route.method,
+        path: joinRoutePath(mounted.prefix, route.path),
+        handler: route.handler,
+        file: route.file,
+        line: route.line,
+        framework: route.framework,
+        complete: mounted.complete
+      };
+    });
+  }
+
+  // Environment variables: where code reads them, and the templates and schemas that declare them
+
+  clearEnvVars(fileId: number): void {
+    this.db.prepare('DELETE FROM env_variables WHERE file_id = ?').run(fileId);
+  }
+
+  replaceEnvVars(fileId: number, sites: EnvVarSite[]): void {
+    const insert = this.db.prepare(`
+      INSERT INTO env_variables (file_id, name, kind, line, has_default, description)
+      VALUES (?, ?, ?, ?, ?, ?)
     `);
 
-    const result = stmt.get(
-      `${resolved}.ts`, `${resolved}.tsx`,
-      `${resolved}.js`, `${resolved}.jsx`,
-      `${resolved}/index.ts`, `${resolved}/index.js`
-    ) as { id: number; path: string } | undefined;
+    this.db.transaction(() => {
+      this.clearEnvVars(fileId);
+      for (const site of sites) {
+        insert.run(fileId, site.name, site.kind, site.line, site.hasDefault ? 1 : 0, site.description);
+      }
+    })();
+  }
 
-    return result || null;
+  // Every variable read or declared anywhere, by name
+  getEnvVars(): EnvVariable[] {
+    const rows = this.db.prepare(`
+      SELECT e.name, e.kind, f.path as file, e.line, e.has_default as hasDefault, e.description
+      FROM env_variables e JOIN files f ON f.id = e.file_id
+      ORDER BY e.name, f.path, e.line
+    `).all() as Array<{
+      name: string; kind: EnvVarKind; file: string; line: number; hasDefault: number; description: string | null;
+    }>;
+
+    const variables = new Map<string, EnvVariable>();
+    for (const row of rows) {
+      let variable = variables.get(row.name);
+      if (!variable) {
+        variable = { name: row.name, declarations: [], reads: [] };
+        variables.set(row.name, variable);
+      }
+      const reference: EnvVarReference = { ...row, hasDefault: row.hasDefault === 1 };
+      (row.kind === 'read' ? variable.reads : variable.declarations).push(reference);
+    }
+    return [...variables.values()];
+  }
+
+  // Vue/Svelte components: props, emits and child components per file
+
+  replaceComponent(fileId: number, component: ComponentInfo | null): void {
+    if (!component) {
+      this.db.prepare('DELETE FROM components WHERE file_id = ?').run(fileId);
+      return;
+    }
+
+    this.db.prepare(`
+      INSERT OR REPLACE INTO components (file_id, framework, props, emits, children)
+      VALUES (?, ?, ?, ?, ?)
+    `).run(
+      fileId,
+      component.framework,
+      JSON.stringify(component.props),
+      JSON.stringify(component.emits),
+      JSON.stringify(component.children)
+    );
+  }
+
+  getComponent(filePath: string): ComponentInfo | null {
+    const row = this.db.prepare(`
+      SELECT c.framework, c.props, c.emits, c.children
+      FROM components c
+      JOIN files f ON c.file_id = f.id
+      WHERE f.path = ?
+    `).get(filePath) as { framework: ComponentInfo['framework']; props: string; emits: string; children: string } | undefined;
+
+    if (!row) return null;
+    return {
+      framework: row.framework,
+      props: JSON.parse(row.props || '[]'),
+      emits: JSON.parse(row.emits || '[]'),
+      children: JSON.parse(row.children || '[]')
+    };
   }
 }
@@ -0,0 +1,208 @@
+/**
+ * VectorIndex - Persisted ANN index that shadows an embeddings table
+ *
+ * SQLite stays the source of truth; this is a derived, rebuildable cache:
+ * 1. Small collections skip the graph entirely - exact scan is fast enough
+ * 2. Once a collection crosses ANN_MIN_VECTORS, the graph is loaded from disk
+ *    (or rebuilt from the table if the file is missing or out of sync)
+ * 3. Writes update the graph incrementally and schedule a debounced save
+ * 4. search() returns null whenever the caller should fall back to exact scan
+ */
+
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync, unlinkSync } from 'fs';
+import { dirname } from 'path';
+import { HNSWIndex, type HNSWMatch } from './hnsw.js';
+
+const ANN_MIN_VECTORS = 1000;
+const SAVE_DEBOUNCE_MS = 5_000;
+const COMPACT_DELETED_RATIO = 0.3;
+
+export interface VectorSource {
+  count: (dimension?: number) => number;  // All rows, or those whose vectors have this dimension
+  all: () => Array<{ key: string; vector: Float32Array }>;
+}
+
+export class VectorIndex {
+  private filePath: string;
+  private source: VectorSource;
+  private index: HNSWIndex | null = null;
+  private loadAttempted = false;
+  private dirty = false;
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(filePath: string, source: VectorSource) {
+    this.filePath = filePath;
+    this.source = source;
+  }
+
+  /**
+   * Whether the ANN graph is currently backing searches
+   */
+  isActive(): boolean {
+    return this.index !== null;
+  }
+
+  /**
+   * Record a new or changed vector. No-op until the graph exists -
+   * it will be built from the table when it's first needed.
+   */
+  upsert(key: string, vector: Float32Array): void {
+    const index = this.index ?? this.loadFromDisk();
+    if (!index) return;
+
+    if (vector.length !== index.dimension) {
+      // Vector from a different model - exact scan covers it
+      if (index.remove(key)) this.markDirty();
+      return;
+    }
+
+    index.add(key, vector);
+    this.markDirty();
+  }
+
+  remove(key: string): void {
+    const index = this.index ?? this.loadFromDisk();
+    if (!index) return;
+
+    if (index.remove(key)) {
+      this.markDirty();
+    }
+  }
+
+  /**
+   * Approximate top-k search. Returns null when the exact path should be used
+   * instead (collection too small, dimension mismatch, or no usable graph).
+   */
+  search(query: Float32Array, k: number): HNSWMatch[] | null {
+    const index = this.ensureIndex();
+    if (!index || query.length !== index.dimension) return null;
+
+    return index.search(query, k);
+  }
+
+  /**
+   * Force a rebuild from the source table on next use and drop the persisted file
+   */
+  invalidate(): void {
+    this.index = null;
+    this.loadAttempted = true;
+    this.dirty = false;
+    this.clearSaveTimer();
+    try {
+      if (existsSync(this.filePath)) unlinkSync(this.filePath);
+    } catch {
+      // Stale file will be overwritten on next save
+    }
+  }
+
+  /**
+   * Persist pending changes immediately
+   */
+  flush(): void {
+    this.clearSaveTimer();
+    if (!this.dirty || !this.index) return;
+
+    try {
+      let index = this.index;
+      if (index.deletedRatio > COMPACT_DELETED_RATIO) {
+        index = index.compact();
+        this.index = index;
+      }
+
+      const dir = dirname(this.filePath);
+      if (!existsSync(dir)) {
+        mkdirSync(dir, { recursive: true });
+      }
+
+      // Write-then-rename so a crash never leaves a truncated index behind
+      const tmpPath = `${this.filePath}.tmp`;
+      writeFileSync(tmpPath, index.serialize());
+      renameSync(tmpPath, this.filePath);
+      this.dirty = false;
+    } catch (error) {
+      console.error(`Error saving vector index ${this.filePath}:`, error);
+    }
+  }
+
+  private ensureIndex(): HNSWIndex | null {
+    const count = this.source.count();
+    if (count < ANN_MIN_VECTORS) return null;
+
+    // Rows of another dimension are left out of the graph; compare only the rest
+    const loaded = this.index ?? this.loadFromDisk();
+    if (loaded && loaded.labelCount === this.source.count(loaded.dimension)) return loaded;
+
+    return this.rebuild();
+  }
+
+  private loadFromDisk(): HNSWIndex | null {
+    if (this.loadAttempted) return this.index;
+    this.loadAttempted = true;
+
+    if (!existsSync(this.filePath)) return null;
+
+    try {
+      this.index = HNSWIndex.deserialize(readFileSync(this.filePath));
+    } catch (error) {
+      console.error(`Discarding unreadable vector index ${this.filePath}:`, error);
+      this.index = null;
+    }
+
+    return this.index;
+  }
+
+  private rebuild(): HNSWIndex | null {
+    const rows = this.source.all();
+    if (rows.length === 0) return null;
+
+    // Build for the dimension most vectors share; stragglers from an older
+    // model are left to the exact scan
+    const byDimension = new Map<number, number>();
+    for (const { vector } of rows) {
+      byDimension.set(vector.length, (byDimension.get(vector.length) || 0) + 1);
+    }
+    const dimension = [...byDimension.entries()].sort((a, b) => b[1] - a[1])[0]![0];
+
+    console.error(`Building ANN index (${rows.length} vectors)...`);
+    const index = new HNSWIndex(dimension);
+    for (const { key, vector } of rows) {
+      if (vector.length === dimension) {
+        index.add(key, vector);
+      }
+    }
+
+    this.index = index;
+    this.loadAttempted = true;
+    this.markDirty();
+    return index;
+  }
+
+  private markDirty(): void {
+    this.dirty = true;
+    if (this.saveTimer) return;
+
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.flush();
+    }, SAVE_DEBOUNCE_MS);
+    this.saveTimer.unref?.();
+  }
+
+  private clearSaveTimer(): void {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+  }
+}
+
+/**
+ * Measure how many of the exact top-k results the approximate search also returns.
+ * 1.0 means the ANN results are identical to a brute-force scan.
+ */
+export function measureRecall(approximate: string[], exact: string[]): number {
+  if (exact.length === 0) return 1;
+  const found = new Set(approximate);
+  const hits = exact.filter(key => found.has(key)).length;
+  return hits / exact.length;
+}
@@ -55,6 +55,23 @@ export interface ComponentDoc {
 
   complexity: 'low' | 'medium' | 'high';
   documentationScore: number;  // 0-100%
+
+  ui?: UIComponentDoc;         // Set for Vue and Svelte files
+  inheritance?: InheritanceDoc[];  // Classes and interfaces here that extend, implement or are extended
+}
+
+export interface InheritanceDoc {
+  name: string;
+  supertypes: Array<{ name: string; file: string | null; relation: string }>;  // file null outside the project
+  subtypes: Array<{ name: string; file: string; relation: string }>;
+}
+
+export interface UIComponentDoc {
+  framework: 'vue' | 'svelte';
+  props: Array<{ name: string; type?: string; required: boolean }>;
+  emits: string[];
+  children: Array<{ name: string; file: string | null }>;  // Resolved project file, null for libraries
+  usedBy: string[];            // Components that render this one
 }
 
 export interface SymbolDoc {
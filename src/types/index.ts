@@ -54,6 +54,9 @@ export interface SearchResult {
   score?: number;
 }
 
+// semantic: embeddings only, lexical: BM25 full-text only, hybrid: both fused by rank
+export type SearchMode = 'semantic' | 'lexical' | 'hybrid';
+
 export interface FileMetadata {
   id: number;
   path: string;
@@ -113,18 +116,45 @@ export interface DependencyRelation {
 
 export interface IndexingProgress {
   total: number;
-  indexed: number;
+  checked: number;           // Files looked at, changed or not
+  indexed: number;           // Files (re)indexed so far
   current?: string;
 }
 
+export interface IndexingUpdate extends IndexingProgress {
+  phase: 'started' | 'progress' | 'complete' | 'cancelled';
+  scope: 'initial' | 'changes';  // The startup index, or files changed while watching
+  failed?: number;               // Files that couldn't be indexed, once complete or cancelled
+}
+
+// How much of the project answers can draw on, until the initial index finishes
+// with every file stored
+export interface IndexCoverage {
+  complete: boolean;
+  status: 'pending' | 'indexing' | 'ready' | 'indexed_with_errors' | 'error';
+  filesChecked: number;
+  filesTotal: number;
+  filesIndexed: number;      // Files in the index, including ones from earlier runs
+  filesFailed: number;       // Files the initial index couldn't store; retried on the next run
+  percent: number;
+}
+
 export interface NeuronLayerConfig {
   projectPath: string;
   dataDir: string;
   maxTokens: number;
   embeddingModel: string;
   watchIgnore: string[];
+  indexConcurrency: number;   // Parse workers for the initial index, 0 = parse on the main thread
+  embeddingProvider?: EmbeddingProviderConfig;  // Default: transformers running embeddingModel
 }
 
+// Selected in neuronlayer.config.json under "embedding"
+export type EmbeddingProviderConfig =
+  | { provider: 'transformers'; model?: string }
+  | { provider: 'onnx'; modelPath: string }   // Relative paths resolve against the project
+  | { provider: 'openai'; baseUrl: string; model: string; apiKeyEnv?: string; dimensions?: number; timeoutMs?: number };
+
 // Phase 2: AST & Symbol types
 
 export type SymbolKind = 'function' | 'class' | 'interface' | 'type' | 'variable' | 'method' | 'property' | 'enum' | 'constant';
@@ -167,6 +197,239 @@ export interface FileDependency {
   imports: string[];          // What symbols are imported
 }
 
+// A call expression found while parsing, before the callee is resolved
+export interface CallSite {
+  callerName: string | null;  // Innermost enclosing function/method, null at module level
+  calleeName: string;         // foo in foo(), obj.foo() and new foo()
+  qualifier?: string;         // obj in obj.foo(), pkg in pkg.Foo()
+  line: number;
+}
+
+// A resolved edge in the symbol-level call graph
+export interface CallEdge {
+  caller: string | null;
+  callerFile: string;
+  callee: string;
+  calleeFile: string | null;  // null when the callee couldn't be resolved to an indexed symbol
+  line: number;
+}
+
+// A use of a name that may refer to an indexed symbol, found while parsing
+export interface ReferenceSite {
+  name: string;                   // the identifier as written
+  qualifier?: string;             // ns in ns.name, self/this for members of the own class
+  line: number;
+  column: number;                 // 1-based
+  snippet: string;                // the source line, trimmed
+  containerName: string | null;   // innermost enclosing function/method/class, null at module level
+}
+
+// A reference resolved to the symbol it names, for find-all-references
+export interface SymbolReference {
+  file: string;
+  line: number;
+  column: number;
+  snippet: string;
+  name: string;                   // as written at the use site (qualified when it was)
+  container: string | null;
+  symbol: string | null;          // the definition it resolves to, null when unresolved
+  definitionFile: string | null;
+}
+
+export type TypeRelationKind = 'extends' | 'implements' | 'embeds';
+
+// A supertype named by a class, interface or struct declaration, found while parsing
+export interface TypeRelationSite {
+  typeName: string;               // the declaring type
+  relation: TypeRelationKind;     // embeds: Go struct embedding
+  baseName: string;               // without type arguments
+  qualifier?: string;             // ns in ns.Base
+  line: number;
+}
+
+// Go interfaces are satisfied implicitly: the methods a type has or an interface requires
+export interface MethodSet {
+  typeName: string;
+  kind: 'interface' | 'type';
+  methods: string[];
+  embedded: string[];             // embedded interfaces or struct fields, by name
+  line: number | null;            // the type declaration, null for methods declared apart from it
+}
+
+// One step in a type hierarchy, relative to the queried type
+export interface TypeHierarchyEntry {
+  name: string;
+  file: string | null;            // null for supertypes outside the index (library classes)
+  line: number | null;
+  relation: TypeRelationKind;
+  via: string;                    // the type one step closer to the queried one
+  depth: number;
+  inferred: boolean;              // Go interface satisfaction worked out from method sets
+}
+
+export interface TypeHierarchy {
+  symbol: string;
+  file: string | null;
+  line: number | null;
+  kind: SymbolKind | null;
+  ancestors: TypeHierarchyEntry[];
+  descendants: TypeHierarchyEntry[];
+}
+
+export interface SchemaColumn {
+  name: string;
+  type: string;                   // as written: varchar(255), String, Decimal
+  nullable: boolean;
+  primaryKey: boolean;
+  unique: boolean;
+  default?: string;
+}
+
+export interface SchemaIndex {
+  name: string | null;
+  columns: string[];
+  unique: boolean;
+}
+
+export interface SchemaForeignKey {
+  columns: string[];
+  table: string;                  // the referenced table
+  referencedColumns: string[];    // empty when the referenced table's primary key is implied
+}
+
+export type SchemaOperationKind =
+  | 'create_table' | 'drop_table' | 'rename_table'
+  | 'add_column' | 'drop_column' | 'rename_column' | 'alter_column'
+  | 'create_index' | 'drop_index' | 'add_foreign_key';
+
+// One DDL statement or Prisma model, in file order; a migration is a list of these
+export interface SchemaOperation {
+  kind: SchemaOperationKind;
+  table: string;                  // empty for drop_index, which names no table
+  line: number;
+  model?: string;                 // the Prisma model behind a table
+  columns?: SchemaColumn[];       // create_table
+  column?: SchemaColumn;          // add_column
+  changes?: Partial<Omit<SchemaColumn, 'name' | 'default'>> & { default?: string | null };  // alter_column; null drops the default
+  name?: string;                  // the column of drop/rename/alter_column, the index of drop_index
+  newName?: string;               // rename_table, rename_column
+  indexes?: SchemaIndex[];        // create_table, create_index
+  foreignKeys?: SchemaForeignKey[];  // create_table, add_foreign_key
+}
+
+// A place in a migration or schema file
+export interface SchemaLocation {
+  file: string;
+  line: number;
+}
+
+// A table or model named in source code, found while parsing
+export interface TableReferenceSite {
+  table: string;                  // as written; a Prisma client accessor names the model
+  via: 'sql' | 'orm' | 'model';   // SQL text, a query builder or ORM call, a model declaration
+  line: number;
+  snippet: string;
+}
+
+// A table as the migrations and schema files leave it
+export interface TableSchema {
+  name: string;
+  model: string | null;
+  definedIn: SchemaLocation;
+  columns: Array<SchemaColumn & { addedIn: SchemaLocation }>;
+  indexes: Array<SchemaIndex & SchemaLocation>;
+  foreignKeys: Array<SchemaForeignKey & SchemaLocation>;
+  referencedBy: Array<SchemaForeignKey & { fromTable: string }>;
+  history: Array<SchemaLocation & { change: string }>;  // every migration step that touched it, in order
+  usedBy: Array<SchemaLocation & { via: TableReferenceSite['via']; snippet: string }>;
+}
+
+// A step in the life of a column, for "which migration added user_id"
+export interface ColumnChange extends SchemaLocation {
+  table: string;
+  column: string;
+  change: 'added' | 'altered' | 'renamed' | 'dropped';
+  detail: string;
+}
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE' | 'HEAD' | 'OPTIONS' | 'ANY';
+
+export type RouteFramework =
+  | 'express' | 'fastify' | 'koa' | 'hono' | 'nextjs'
+  | 'fastapi' | 'flask'
+  | 'net/http' | 'gin' | 'echo' | 'chi' | 'gorilla';
+
+// An HTTP route registered in a file, found while parsing
+export interface RouteSite {
+  method: HttpMethod;             // ANY for handlers that take every method
+  path: string;                   // as declared, with the prefix its own router was created with
+  handler: string | null;         // null for inline functions
+  receiver: string | null;        // the app or router it is registered on, null for file-based routes
+  root: boolean;                  // on an app created in this file, or file-based: nothing is prepended
+  framework: RouteFramework;
+  line: number;
+}
+
+// A router mounted under a prefix: app.use('/api', users), include_router, register_blueprint
+export interface RouteMount {
+  receiver: string;               // the app or router it is mounted on
+  root: boolean;                  // that receiver is an app created in this file
+  prefix: string;
+  target: string;                 // the mounted router as written: usersRouter, users.router
+  source: string | null;          // the module it is imported from, null when defined in this file
+  imported: string | null;        // its name in that module, when imported under another
+  line: number;
+}
+
+// A route in the inventory, with the prefixes of the routers it is mounted under
+export interface ApiRoute {
+  method: HttpMethod;
+  path: string;
+  handler: string | null;
+  file: string;
+  line: number;
+  framework: RouteFramework;
+  complete: boolean;              // false when its router was never seen mounted: the served path may be longer
+}
+
+// read: code takes it from the environment; example: listed in a .env.example-style
+// file; schema: validated by a config schema (zod, envalid, pydantic settings...)
+export type EnvVarKind = 'read' | 'example' | 'schema';
+
+// An environment variable read or declared in a file, found while parsing
+export interface EnvVarSite {
+  name: string;
+  kind: EnvVarKind;
+  line: number;
+  hasDefault: boolean;            // read with a fallback, or declared optional or with a default
+  description: string | null;     // the comment above an example entry, or a schema's describe(); never a value
+}
+
+export interface EnvVarReference extends EnvVarSite {
+  file: string;
+}
+
+// Everything the index knows about one variable
+export interface EnvVariable {
+  name: string;
+  declarations: EnvVarReference[];  // example and schema entries
+  reads: EnvVarReference[];
+}
+
+// Public API of a Vue or Svelte single-file component
+export interface ComponentInfo {
+  framework: 'vue' | 'svelte';
+  props: ComponentProp[];
+  emits: string[];
+  children: Array<{ name: string; from: string }>;  // Imported .vue/.svelte components
+}
+
+export interface ComponentProp {
+  name: string;
+  type?: string;
+  required: boolean;
+}
+
 export interface SymbolSearchResult {
   symbol: CodeSymbol;
   file: string;
@@ -174,6 +437,16 @@ export interface SymbolSearchResult {
   relevance: number;
 }
 
+// A contiguous slice of a file that gets its own embedding
+export interface CodeChunk {
+  name: string | null;         // Symbol name, null for module-level code
+  kind: SymbolKind | 'module';
+  lineStart: number;
+  lineEnd: number;
+  content: string;
+  docstring?: string;          // Doc comment of the symbol, when it sits outside content
+}
+
 // Phase 5: Active Feature Context types
 
 export interface FeatureFile {
@@ -1,5 +1,12 @@
+import { existsSync, readFileSync } from 'fs';
+import { cpus } from 'os';
 import { join, resolve } from 'path';
-import type { NeuronLayerConfig } from '../types/index.js';
+import type { EmbeddingProviderConfig, NeuronLayerConfig } from '../types/index.js';
+
+// Per-project settings, kept in the project root so they can be committed
+export const PROJECT_CONFIG_FILE = 'neuronlayer.config.json';
+
+type ProjectSettings = Partial<Pick<NeuronLayerConfig, 'embeddingProvider' | 'indexConcurrency'>>;
 
 export function getDefaultConfig(projectPath: string): NeuronLayerConfig {
   const normalizedPath = resolve(projectPath);
@@ -10,6 +17,11 @@ export function getDefaultConfig(projectPath: string): NeuronLayerConfig {
     dataDir: join(normalizedPath, '.neuronlayer'),
     maxTokens: 6000,
     embeddingModel: 'Xenova/all-MiniLM-L6-v2', // Fallback model, faster and smaller
+    indexConcurrency: defaultIndexConcurrency(),
+    // Baseline that applies even without a .gitignore; nested .gitignore and
+    // .neuronlayerignore files are layered on top (see indexing/ignore.ts).
+    // Only folders that are never source belong here - media/, env/ or
+    // packages/ are real code in plenty of projects.
     watchIgnore: [
       // ===== NeuronLayer =====
       '**/.neuronlayer/**',
@@ -53,7 +65,6 @@ export function getDefaultConfig(projectPath: string): NeuronLayerConfig {
       // ===== Python =====
       '**/.venv/**',
       '**/venv/**',
-      '**/env/**',
       '**/.env/**',
       '**/virtualenv/**',
       '**/__pycache__/**',
@@ -78,13 +89,9 @@ export function getDefaultConfig(projectPath: string): NeuronLayerConfig {
       // ===== Django =====
       '**/staticfiles/**',
       '**/static_collected/**',
-      '**/media/**',
       '**/*.sqlite3',
       '**/db.sqlite3',
 
-      // ===== FastAPI / Flask =====
-      '**/instance/**',
-
       // ===== Ruby / Rails =====
       '**/vendor/bundle/**',
       '**/.bundle/**',
@@ -109,7 +116,6 @@ export function getDefaultConfig(projectPath: string): NeuronLayerConfig {
       // ===== .NET / C# =====
       '**/bin/**',
       '**/obj/**',
-      '**/packages/**',
       '**/*.dll',
       '**/*.exe',
 
@@ -164,6 +170,14 @@ export function getDefaultConfig(projectPath: string): NeuronLayerConfig {
       '**/.env.*',
       '**/*.env',
       '**/.envrc',
+      // ...but their committed templates name the variables a project needs
+      '!**/.env.example',
+      '!**/.env.sample',
+      '!**/.env.template',
+      '!**/.env.schema',
+      '!**/.env.defaults',
+      '!**/.env.dist',
+      '!**/example.env',
       '**/secrets/**',
       '**/*.pem',
       '**/*.key',
@@ -174,21 +188,84 @@ export function getDefaultConfig(projectPath: string): NeuronLayerConfig {
       '**/*.tmp',
       '**/*.temp',
       '**/temp/**'
-    ]
+    ],
+    ...loadProjectConfig(normalizedPath)
   };
 }
 
-export function parseArgs(args: string[]): { projectPath: string } {
+export function loadProjectConfig(projectPath: string): ProjectSettings {
+  const path = join(projectPath, PROJECT_CONFIG_FILE);
+  if (!existsSync(path)) return {};
+
+  try {
+    const raw = JSON.parse(readFileSync(path, 'utf-8')) as Record<string, unknown>;
+    const settings: ProjectSettings = {};
+
+    const concurrency = parseConcurrency(raw.indexConcurrency === undefined ? undefined : String(raw.indexConcurrency));
+    if (concurrency !== undefined) {
+      settings.indexConcurrency = concurrency;
+    }
+    if (raw.embedding !== undefined) {
+      settings.embeddingProvider = parseEmbeddingProvider(raw.embedding);
+    }
+    return settings;
+  } catch (error) {
+    console.error(`Ignoring ${path}: ${error instanceof Error ? error.message : String(error)}`);
+    return {};
+  }
+}
+
+function parseEmbeddingProvider(value: unknown): EmbeddingProviderConfig {
+  const options = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+  const text = (key: string): string | undefined => typeof options[key] === 'string' ? options[key] as string : undefined;
+
+  switch (options.provider) {
+    case 'transformers':
+      return { provider: 'transformers', model: text('model') };
+    case 'onnx': {
+      const modelPath = text('modelPath');
+      if (!modelPath) throw new Error('embedding.modelPath is required for the onnx provider');
+      return { provider: 'onnx', modelPath };
+    }
+    case 'openai': {
+      const baseUrl = text('baseUrl');
+      const model = text('model');
+      if (!baseUrl || !model) throw new Error('embedding.baseUrl and embedding.model are required for the openai provider');
+      new URL(baseUrl); // Throws on a malformed URL
+      const dimensions = typeof options.dimensions === 'number' ? options.dimensions : undefined;
+      const timeoutMs = typeof options.timeoutMs === 'number' && options.timeoutMs > 0 ? options.timeoutMs : undefined;
+      return { provider: 'openai', baseUrl, model, apiKeyEnv: text('apiKeyEnv'), dimensions, timeoutMs };
+    }
+    default:
+      throw new Error(`unknown embedding provider "${String(options.provider)}" (expected transformers, onnx or openai)`);
+  }
+}
+
+// Leave a core for the main thread, which embeds and serves requests meanwhile
+export function defaultIndexConcurrency(): number {
+  return Math.max(1, Math.min(4, cpus().length - 1));
+}
+
+export function parseConcurrency(value: string | undefined): number | undefined {
+  const parsed = value === undefined ? NaN : parseInt(value, 10);
+  return Number.isNaN(parsed) || parsed < 0 ? undefined : parsed;
+}
+
+export function parseArgs(args: string[]): { projectPath: string; indexConcurrency?: number } {
   let projectPath = process.cwd();
+  let indexConcurrency: number | undefined;
 
   for (let i = 0; i < args.length; i++) {
     const arg = args[i];
     const nextArg = args[i + 1];
     if (arg === '--project' && nextArg) {
       projectPath = nextArg;
-      break;
+      i++;
+    } else if (arg === '--index-concurrency' && nextArg) {
+      indexConcurrency = parseConcurrency(nextArg);
+      i++;
     }
   }
 
-  return { projectPath: resolve(projectPath) };
+  return { projectPath: resolve(projectPath), indexConcurrency };
 }
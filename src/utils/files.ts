@@ -79,6 +79,13 @@ const LANGUAGE_MAP: Record<string, string> = {
 
 const CODE_EXTENSIONS = new Set(Object.keys(LANGUAGE_MAP));
 
+// Committed templates that list a project's environment variables; real .env files stay out
+const ENV_EXAMPLE_FILE = /^(?:\.env\.(?:example|sample|template|schema|defaults|dist)|example\.env)$/;
+
+export function isEnvExampleFile(filePath: string): boolean {
+  return ENV_EXAMPLE_FILE.test(filePath.split(/[/\\]/).pop()?.toLowerCase() || '');
+}
+
 export function detectLanguage(filePath: string): string {
   const ext = extname(filePath).toLowerCase();
 
@@ -87,6 +94,7 @@ export function detectLanguage(filePath: string): string {
   if (filename === 'dockerfile') return 'dockerfile';
   if (filename === 'makefile') return 'makefile';
   if (filename === 'cmakelists.txt') return 'cmake';
+  if (ENV_EXAMPLE_FILE.test(filename)) return 'dotenv';
 
   return LANGUAGE_MAP[ext] || 'plaintext';
 }
@@ -97,7 +105,8 @@ export function isCodeFile(filePath: string): boolean {
 
   return CODE_EXTENSIONS.has(ext) ||
     filename === 'dockerfile' ||
-    filename === 'makefile';
+    filename === 'makefile' ||
+    ENV_EXAMPLE_FILE.test(filename);
 }
 
 export function hashContent(content: string): string {
@@ -0,0 +1,45 @@
+/**
+ * Rank fusion utilities
+ */
+
+// Standard RRF constant - damps the advantage of the very top ranks
+const RRF_K = 60;
+
+export interface FusedItem<T> {
+  item: T;
+  score: number;   // Normalized to 0-1; 1 means ranked first in every list
+  ranks: number[]; // 1-based rank in each input list, 0 where absent
+}
+
+/**
+ * Merge ranked lists with reciprocal rank fusion.
+ * Only ranks matter, so lists scored on different scales (cosine, BM25) combine cleanly.
+ * When an item appears in several lists, the copy from the list that ranked it best is kept.
+ */
+export function reciprocalRankFusion<T>(lists: T[][], key: (item: T) => string): FusedItem<T>[] {
+  const fused = new Map<string, FusedItem<T> & { bestRank: number }>();
+
+  lists.forEach((list, listIndex) => {
+    list.forEach((item, position) => {
+      const rank = position + 1;
+      const id = key(item);
+      let entry = fused.get(id);
+      if (!entry) {
+        entry = { item, score: 0, ranks: new Array(lists.length).fill(0), bestRank: rank };
+        fused.set(id, entry);
+      } else if (rank < entry.bestRank) {
+        entry.item = item;
+        entry.bestRank = rank;
+      }
+      if (entry.ranks[listIndex] === 0) {
+        entry.ranks[listIndex] = rank;
+        entry.score += 1 / (RRF_K + rank);
+      }
+    });
+  });
+
+  const maxScore = lists.length / (RRF_K + 1);
+  return Array.from(fused.values())
+    .map(({ item, score, ranks }) => ({ item, score: maxScore === 0 ? 0 : score / maxScore, ranks }))
+    .sort((a, b) => b.score - a.score);
+}
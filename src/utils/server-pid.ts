@@ -0,0 +1,47 @@
+/**
+ * Server pid file - lets CLI commands tell whether a server has a project open
+ *
+ * A running server keeps state in memory (feature contexts, tier1) and writes
+ * it back over whatever is on disk, so commands that edit those files must
+ * not run alongside it.
+ */
+
+import { existsSync, readFileSync, unlinkSync, writeFileSync } from 'fs';
+import { join } from 'path';
+
+const PID_FILE = 'server.pid';
+
+export function claimServerPid(dataDir: string): void {
+  try {
+    writeFileSync(join(dataDir, PID_FILE), String(process.pid));
+  } catch {
+    // Only used to warn other commands; the server works without it
+  }
+}
+
+export function releaseServerPid(dataDir: string): void {
+  const path = join(dataDir, PID_FILE);
+  try {
+    // Another server may have opened the project since
+    if (readFileSync(path, 'utf-8').trim() === String(process.pid)) unlinkSync(path);
+  } catch {
+    // Already gone
+  }
+}
+
+// Pid of a live server for this data directory, or null
+export function findRunningServer(dataDir: string): number | null {
+  const path = join(dataDir, PID_FILE);
+  if (!existsSync(path)) return null;
+
+  const pid = Number(readFileSync(path, 'utf-8').trim());
+  if (!Number.isInteger(pid) || pid <= 0 || pid === process.pid) return null;
+
+  try {
+    process.kill(pid, 0);
+    return pid;
+  } catch (error) {
+    // EPERM: alive but owned by someone else
+    return (error as NodeJS.ErrnoException).code === 'EPERM' ? pid : null;
+  }
+}
@@ -0,0 +1,86 @@
+// Compares IgnoreRules with `git check-ignore` on a scratch repository
+import { build } from 'esbuild';
+import { execFileSync } from 'child_process';
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join, dirname } from 'path';
+
+const cases = [
+  {
+    name: "'dir/**' with a re-included file",
+    files: { '.gitignore': 'gen/**\n!gen/keep.ts\n' },
+    paths: ['gen/keep.ts', 'gen/other.ts', 'gen/sub/keep.ts'],
+    skipped: { gen: false }
+  },
+  {
+    name: "'dir/**' with an unanchored re-include",
+    files: { '.gitignore': 'gen/**\n!*.md\n' },
+    paths: ['gen/README.md', 'gen/a.ts', 'gen/sub/notes.md']
+  },
+  {
+    name: "'dir/**' re-included inside a subdirectory",
+    files: { '.gitignore': 'gen/**\n!gen/sub/\n!gen/sub/**\n' },
+    paths: ['gen/a.ts', 'gen/sub/b.ts']
+  },
+  {
+    name: "'dir/**' without re-includes",
+    files: { '.gitignore': 'gen/**\n' },
+    paths: ['gen/a.ts', 'gen/sub/b.ts', 'general.ts'],
+    skipped: { gen: true }
+  },
+  {
+    name: 'a rule naming the directory',
+    files: { '.gitignore': 'gen/\n!gen/keep.ts\n' },
+    paths: ['gen/keep.ts', 'gen/a.ts']
+  },
+  {
+    name: "'dir/**' in a nested .gitignore",
+    files: { 'pkg/.gitignore': 'out/**\n!out/keep.ts\n' },
+    paths: ['pkg/out/keep.ts', 'pkg/out/a.ts', 'out/a.ts']
+  }
+];
+
+const outfile = join(mkdtempSync(join(tmpdir(), 'neuronlayer-ignore-')), 'ignore.js');
+await build({ entryPoints: ['src/indexing/ignore.ts'], bundle: true, platform: 'node', format: 'esm', outfile });
+const { IgnoreRules } = await import(outfile);
+
+let failures = 0;
+for (const testCase of cases) {
+  const repo = mkdtempSync(join(tmpdir(), 'neuronlayer-repo-'));
+  execFileSync('git', ['init', '-q'], { cwd: repo });
+  for (const [file, content] of Object.entries(testCase.files)) {
+    mkdirSync(join(repo, dirname(file)), { recursive: true });
+    writeFileSync(join(repo, file), content);
+  }
+  for (const path of testCase.paths) {
+    mkdirSync(join(repo, dirname(path)), { recursive: true });
+    writeFileSync(join(repo, path), '');
+  }
+
+  const rules = new IgnoreRules(repo);
+  for (const path of testCase.paths) {
+    let expected = true;
+    try {
+      execFileSync('git', ['check-ignore', '-q', path], { cwd: repo });
+    } catch {
+      expected = false;
+    }
+    const actual = rules.isIgnored(path);
+    if (actual !== expected) {
+      failures++;
+      console.log(`FAIL ${testCase.name}: ${path} git=${expected} neuronlayer=${actual}`);
+    }
+  }
+  // Directories a walk skips instead of testing each file; git has no equivalent
+  for (const [dir, expected] of Object.entries(testCase.skipped ?? {})) {
+    if (rules.isIgnored(dir, true) !== expected) {
+      failures++;
+      console.log(`FAIL ${testCase.name}: walk ${expected ? 'enters' : 'skips'} ${dir}/`);
+    }
+  }
+  rmSync(repo, { recursive: true, force: true });
+}
+rmSync(dirname(outfile), { recursive: true, force: true });
+
+console.log(failures === 0 ? `All ${cases.length} cases match git check-ignore` : `${failures} mismatches`);
+process.exit(failures === 0 ? 0 : 1);